@@ -0,0 +1,44 @@
+// app/api/anomalies/route.ts
+// 🩺 GET /api/anomalies?start=YYYY-MM-DD&end=YYYY-MM-DD&emp_code=14&department=Sales&manager=3 - records with missing check-outs, single punches, reversed times or impossible hours (DataQualityReport)
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateDate, validateDateRange, validateEmployeeCode, validateOrgFilter, collectProblems } from '../../../lib/validation';
+import { addDays, getToday } from '../../../lib/holidays';
+import { loadScheduleContext } from '../../../lib/shifts';
+import { buildEmployeeRangeRecords, buildRangeRecords } from '../../../lib/attendanceReports';
+import { buildDataQualityReport } from '../../../lib/dataQuality';
+import { readOrgFilter, scopeToOrg } from '../../../lib/departments';
+import { DATA_QUALITY_CONFIG, VALIDATION_RULES } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    // Without a range: the last defaultRangeDays days up to today
+    const endDate = searchParams.get('end') || getToday();
+    const startDate = searchParams.get('start') || addDays(endDate, -(DATA_QUALITY_CONFIG.defaultRangeDays - 1));
+    const empCode = searchParams.get('emp_code')?.trim() || null;
+    const filter = readOrgFilter(searchParams);
+
+    assertValid(collectProblems(
+      validateDate(startDate, 'start'),
+      validateDate(endDate, 'end'),
+      empCode ? validateEmployeeCode(empCode) : null,
+      validateOrgFilter(filter)
+    ));
+    assertValid(collectProblems(validateDateRange(startDate, endDate, VALIDATION_RULES.api.maxReportRangeDays)));
+
+    const [records, context] = await Promise.all([
+      empCode
+        ? repository.getEmployeeMonthlyRecords(empCode, startDate, endDate)
+        : repository.getEmployeeRecordsInRange(startDate, endDate),
+      loadScheduleContext(repository)
+    ]);
+    const scoped = scopeToOrg(records, context, filter);
+
+    // Approved corrections first, so fixed records drop out
+    const checked = empCode
+      ? buildEmployeeRangeRecords(empCode, startDate, endDate, scoped.records, scoped.context)
+      : buildRangeRecords(startDate, endDate, scoped.records, scoped.context);
+    return buildDataQualityReport(startDate, endDate, checked, scoped.context, empCode);
+  });
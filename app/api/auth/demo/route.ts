@@ -0,0 +1,20 @@
+// app/api/auth/demo/route.ts
+// 🧪 Demo users endpoint - lists the fixture profiles to sign in as, offline (memory) mode only
+
+import { NextResponse } from 'next/server';
+import { getServerRepository } from '../../../../lib/repositories/server';
+import { DATA_SOURCE_CONFIG, ERROR_MESSAGES } from '../../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = async () => {
+  if (DATA_SOURCE_CONFIG.source !== 'memory') {
+    return NextResponse.json({ error: 'Demo sign-in is only available in offline mode.' }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ data: await getServerRepository().getUserProfiles() });
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || ERROR_MESSAGES.generic }, { status: 500 });
+  }
+};
@@ -0,0 +1,21 @@
+// app/api/auth/profile/route.ts
+// 👤 Profile endpoint - returns the dashboard profile (name, role, department) for the bearer token
+
+import { NextResponse } from 'next/server';
+import { getRequestProfile } from '../../../../lib/serverAuth';
+import { ERROR_MESSAGES } from '../../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = async (request: Request) => {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'No dashboard profile is linked to this account.' }, { status: 401 });
+    }
+    return NextResponse.json({ data: profile });
+  } catch (error: any) {
+    console.error('❌ Profile request failed:', error);
+    return NextResponse.json({ error: error?.message || ERROR_MESSAGES.generic }, { status: 500 });
+  }
+};
@@ -0,0 +1,25 @@
+// app/api/daily-summaries/route.ts
+// 📊 GET /api/daily-summaries?limit= - most recent daily summaries, or ?start=YYYY-MM-DD&end=YYYY-MM-DD for a date range (DailySummary[])
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateLimit, validateDate, validateDateRange, collectProblems } from '../../../lib/validation';
+import { DATE_TIME_CONFIG } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const startDate = searchParams.get('start');
+    const endDate = searchParams.get('end');
+
+    if (startDate || endDate) {
+      assertValid(collectProblems(validateDate(startDate, 'start'), validateDate(endDate, 'end')));
+      assertValid(collectProblems(validateDateRange(startDate!, endDate!, DATE_TIME_CONFIG.maxDateRange)));
+      return repository.getDailySummariesInRange(startDate!, endDate!);
+    }
+
+    const limit = searchParams.get('limit');
+    assertValid(collectProblems(validateLimit(limit)));
+
+    return repository.getRecentDailySummaries(limit ? Number(limit) : undefined);
+  });
@@ -0,0 +1,17 @@
+// app/api/days/[date]/punches/route.ts
+// 👆 GET /api/days/:date/punches - every visible employee's punches for a day, paired into ins and outs (PunchTimeline[])
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateDate, collectProblems } from '../../../../../lib/validation';
+import { buildDailyPunchTimelines } from '../../../../../lib/punches';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { date: string } }) =>
+  handleApiRequest(request, async ({ repository }) => {
+    assertValid(collectProblems(validateDate(params.date)));
+
+    const punches = await repository.getPunchesByDate(params.date);
+    return Object.values(buildDailyPunchTimelines(params.date, punches))
+      .sort((a, b) => a.emp_code.localeCompare(b.emp_code, undefined, { numeric: true }));
+  });
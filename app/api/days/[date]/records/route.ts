@@ -0,0 +1,25 @@
+// app/api/days/[date]/records/route.ts
+// 👥 GET /api/days/:date/records - every rostered employee's record for a day, absences and leave included, hours recomputed from punches where there are any (EmployeeRecord[])
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateDate, collectProblems } from '../../../../../lib/validation';
+import { loadScheduleContext } from '../../../../../lib/shifts';
+import { buildDailyRecords } from '../../../../../lib/attendanceReports';
+import { applyPunchTimelines, buildDailyPunchTimelines } from '../../../../../lib/punches';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { date: string } }) =>
+  handleApiRequest(request, async ({ repository }) => {
+    assertValid(collectProblems(validateDate(params.date)));
+
+    const [records, context, punches] = await Promise.all([
+      repository.getEmployeeRecordsByDate(params.date),
+      loadScheduleContext(repository),
+      repository.getPunchesByDate(params.date)
+    ]);
+    return applyPunchTimelines(
+      buildDailyRecords(params.date, records, context),
+      buildDailyPunchTimelines(params.date, punches)
+    );
+  });
@@ -0,0 +1,29 @@
+// app/api/departments/route.ts
+// 🏢 GET /api/departments?start=YYYY-MM-DD&end=YYYY-MM-DD&department=Sales&manager=3 - attendance by department, by day and up the org chart (DepartmentReport)
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateDate, validateDateRange, validateOrgFilter, collectProblems } from '../../../lib/validation';
+import { loadScheduleContext } from '../../../lib/shifts';
+import { buildDepartmentReport, readOrgFilter } from '../../../lib/departments';
+import { VALIDATION_RULES } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const startDate = searchParams.get('start');
+    const endDate = searchParams.get('end');
+    const filter = readOrgFilter(searchParams);
+    assertValid(collectProblems(
+      validateDate(startDate, 'start'),
+      validateDate(endDate, 'end'),
+      validateOrgFilter(filter)
+    ));
+    assertValid(collectProblems(validateDateRange(startDate!, endDate!, VALIDATION_RULES.api.maxReportRangeDays)));
+
+    const [records, context] = await Promise.all([
+      repository.getEmployeeRecordsInRange(startDate!, endDate!),
+      loadScheduleContext(repository)
+    ]);
+    return buildDepartmentReport(startDate!, endDate!, records, context, filter);
+  });
@@ -0,0 +1,61 @@
+// app/api/device-imports/route.ts
+// 📥 POST /api/device-imports { punches, names?, dryRun? } - punches parsed from a terminal log become daily records for days without one (DeviceImportResult)
+
+import type { AttendancePunch } from '../../../lib/types';
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validatePunch, validateDateRange, collectProblems } from '../../../lib/validation';
+import { createHttpError } from '../../../lib/utils';
+import { normalizePunch, getPunchDate } from '../../../lib/punches';
+import { planDeviceImport, toImportedRecord } from '../../../lib/deviceImport';
+import { VALIDATION_RULES } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = (request: Request) =>
+  handleApiRequest(request, async ({ repository }) => {
+    const body = await request.json().catch(() => null);
+    const punches: unknown = body?.punches;
+
+    if (!Array.isArray(punches) || punches.length === 0) {
+      throw createHttpError('Send { "punches": [...] } with at least one punch.', 400);
+    }
+    const { maxPunchesPerImport, maxReportRangeDays } = VALIDATION_RULES.api;
+    assertValid(collectProblems(
+      punches.length > maxPunchesPerImport ? `Imports are limited to ${maxPunchesPerImport} punches per request.` : null,
+      ...punches.map(validatePunch)
+    ));
+
+    const normalized = punches.map((punch: AttendancePunch) => normalizePunch(punch));
+    const dates = normalized.map(getPunchDate).sort();
+    const startDate = dates[0];
+    const endDate = dates[dates.length - 1];
+    assertValid(collectProblems(validateDateRange(startDate, endDate, maxReportRangeDays)));
+
+    // Names in the file only fill in codes missing from the roster
+    const names: Record<string, string> = body?.names && typeof body.names === 'object' ? body.names : {};
+    // Existing records only for the employees in the file, in one query
+    const empCodes = Array.from(new Set(normalized.map(punch => String(punch.emp_code).trim())));
+    const [existing, employees] = await Promise.all([
+      repository.getEmployeeRecordsInRange(startDate, endDate, empCodes),
+      repository.getActiveEmployees()
+    ]);
+    const days = planDeviceImport(normalized, existing, employees, names);
+    const inserts = days.filter(day => day.action === 'insert');
+
+    const dryRun = body?.dryRun === true;
+    let punchesSaved = 0;
+    let inserted = 0;
+    if (!dryRun) {
+      punchesSaved = (await repository.savePunches(normalized)).length;
+      // Days recorded since the plan (a sync run in between) are skipped by the write itself
+      if (inserts.length > 0) inserted = (await repository.saveEmployeeRecords(inserts.map(toImportedRecord))).length;
+    }
+
+    return {
+      dryRun,
+      punchesSaved,
+      days,
+      inserted,
+      skipped: days.length - (dryRun ? inserts.length : inserted)
+    };
+  });
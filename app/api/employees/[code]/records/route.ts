@@ -0,0 +1,24 @@
+// app/api/employees/[code]/records/route.ts
+// 📅 GET /api/employees/:code/records?month=YYYY-MM - one employee's records for a month with corrections applied (EmployeeRecord[])
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateEmployeeCode, validateMonth, collectProblems } from '../../../../../lib/validation';
+import { getMonthDateRange } from '../../../../../lib/formatters';
+import { loadScheduleContext } from '../../../../../lib/shifts';
+import { buildEmployeeRangeRecords } from '../../../../../lib/attendanceReports';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { code: string } }) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const empCode = decodeURIComponent(params.code).trim();
+    const month = searchParams.get('month');
+    assertValid(collectProblems(validateEmployeeCode(empCode), validateMonth(month)));
+
+    const { startDate, endDate } = getMonthDateRange(month!);
+    const [records, context] = await Promise.all([
+      repository.getEmployeeMonthlyRecords(empCode, startDate, endDate),
+      loadScheduleContext(repository)
+    ]);
+    return buildEmployeeRangeRecords(empCode, startDate, endDate, records, context);
+  });
@@ -0,0 +1,14 @@
+// app/api/employees/route.ts
+// 👥 GET /api/employees - active employees from the directory; while it is empty, everyone with attendance records under their most recent name (Employee[])
+
+import { handleApiRequest } from '../../../lib/apiRoute';
+import { buildEmployeeList } from '../../../lib/attendanceReports';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository }) => {
+    const directory = await repository.getActiveEmployees();
+    // A new deployment has no employees rows yet, so fall back to the codes in the records
+    return directory.length > 0 ? directory : buildEmployeeList(await repository.getEmployeeIndex());
+  });
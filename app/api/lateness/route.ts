@@ -0,0 +1,35 @@
+// app/api/lateness/route.ts
+// ⏰ GET /api/lateness?start=YYYY-MM-DD&end=YYYY-MM-DD&budget=60|none&department=Sales&manager=3 - employees by total late minutes for a period (LatenessReport)
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateDate, validateDateRange, validateMinutes, validateOrgFilter, collectProblems } from '../../../lib/validation';
+import { loadScheduleContext } from '../../../lib/shifts';
+import { buildLatenessReport } from '../../../lib/lateness';
+import { readOrgFilter, scopeToOrg } from '../../../lib/departments';
+import { LATENESS_CONFIG, VALIDATION_RULES } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const startDate = searchParams.get('start');
+    const endDate = searchParams.get('end');
+    const budget = searchParams.get('budget');
+    const filter = readOrgFilter(searchParams);
+    assertValid(collectProblems(
+      validateDate(startDate, 'start'),
+      validateDate(endDate, 'end'),
+      budget === 'none' ? null : validateMinutes(budget, 'budget'),
+      validateOrgFilter(filter)
+    ));
+    assertValid(collectProblems(validateDateRange(startDate!, endDate!, VALIDATION_RULES.api.maxReportRangeDays)));
+
+    // Reports cover longer periods than the record endpoints, but only totals are returned
+    const [records, context] = await Promise.all([
+      repository.getEmployeeRecordsInRange(startDate!, endDate!),
+      loadScheduleContext(repository)
+    ]);
+    const budgetMinutes = budget === 'none' ? null : budget ? Number(budget) : LATENESS_CONFIG.monthlyBudgetMinutes;
+    const scoped = scopeToOrg(records, context, filter);
+    return buildLatenessReport(startDate!, endDate!, scoped.records, scoped.context, budgetMinutes);
+  });
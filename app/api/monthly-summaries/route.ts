@@ -0,0 +1,17 @@
+// app/api/monthly-summaries/route.ts
+// 🗓️ GET /api/monthly-summaries?year=2025 - company-wide monthly totals with month-over-month changes (MonthlyOverview)
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateYear, collectProblems } from '../../../lib/validation';
+import { buildMonthlyOverview } from '../../../lib/monthlyOverview';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const year = searchParams.get('year');
+    assertValid(collectProblems(validateYear(year)));
+
+    // All months are read so the first month of the view can still be compared with the one before it
+    return buildMonthlyOverview(await repository.getMonthlySummaries(), year ? Number(year) : null);
+  });
@@ -0,0 +1,27 @@
+// app/api/months/[month]/matrix/route.ts
+// 🧮 GET /api/months/:month/matrix?department=Sales&manager=3 - every visible employee against every day of the month, with totals (TeamMatrix)
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateMonth, validateOrgFilter, collectProblems } from '../../../../../lib/validation';
+import { getMonthDateRange } from '../../../../../lib/formatters';
+import { loadScheduleContext } from '../../../../../lib/shifts';
+import { buildTeamMatrix } from '../../../../../lib/teamMatrix';
+import { readOrgFilter, scopeToOrg } from '../../../../../lib/departments';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { month: string } }) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const month = params.month;
+    const filter = readOrgFilter(searchParams);
+    assertValid(collectProblems(validateMonth(month), validateOrgFilter(filter)));
+
+    const { startDate, endDate } = getMonthDateRange(month);
+    const [records, context] = await Promise.all([
+      repository.getEmployeeRecordsInRange(startDate, endDate),
+      loadScheduleContext(repository)
+    ]);
+    // Rows and day totals only cover the department / team asked for
+    const scoped = scopeToOrg(records, context, filter);
+    return buildTeamMatrix(month, scoped.records, scoped.context);
+  });
@@ -0,0 +1,23 @@
+// app/api/months/[month]/records/route.ts
+// 🧾 GET /api/months/:month/records - every visible employee's records for a month with corrections applied (EmployeeRecord[])
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateMonth, collectProblems } from '../../../../../lib/validation';
+import { getMonthDateRange } from '../../../../../lib/formatters';
+import { loadScheduleContext } from '../../../../../lib/shifts';
+import { buildRangeRecords } from '../../../../../lib/attendanceReports';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { month: string } }) =>
+  handleApiRequest(request, async ({ repository }) => {
+    const month = params.month;
+    assertValid(collectProblems(validateMonth(month)));
+
+    const { startDate, endDate } = getMonthDateRange(month);
+    const [records, context] = await Promise.all([
+      repository.getEmployeeRecordsInRange(startDate, endDate),
+      loadScheduleContext(repository)
+    ]);
+    return buildRangeRecords(startDate, endDate, records, context);
+  });
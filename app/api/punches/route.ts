@@ -0,0 +1,33 @@
+// app/api/punches/route.ts
+// 👆 POST /api/punches { punches } - store raw device punches; re-sending a punch updates it instead of adding it twice (PunchImportResult)
+
+import type { AttendancePunch } from '../../../lib/types';
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validatePunch, collectProblems } from '../../../lib/validation';
+import { createHttpError } from '../../../lib/utils';
+import { normalizePunch, getPunchDate } from '../../../lib/punches';
+import { VALIDATION_RULES } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = (request: Request) =>
+  handleApiRequest(request, async ({ repository }) => {
+    const body = await request.json().catch(() => null);
+    const punches: unknown = Array.isArray(body) ? body : body?.punches;
+
+    if (!Array.isArray(punches) || punches.length === 0) {
+      throw createHttpError('Send { "punches": [...] } with at least one punch.', 400);
+    }
+    const { maxPunchesPerImport } = VALIDATION_RULES.api;
+    assertValid(collectProblems(
+      punches.length > maxPunchesPerImport ? `Imports are limited to ${maxPunchesPerImport} punches per request.` : null,
+      ...punches.map(validatePunch)
+    ));
+
+    const saved = await repository.savePunches(punches.map((punch: AttendancePunch) => normalizePunch(punch)));
+    return {
+      received: punches.length,
+      saved: saved.length,
+      dates: Array.from(new Set(saved.map(getPunchDate))).sort()
+    };
+  });
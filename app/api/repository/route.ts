@@ -0,0 +1,27 @@
+// app/api/repository/route.ts
+// 🔐 Repository endpoint - runs an AttendanceRepository method for the signed-in user, scoped to their role
+
+import type { AttendanceRepository } from '../../../lib/types';
+import { handleApiRequest } from '../../../lib/apiRoute';
+import { createHttpError } from '../../../lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type RepositoryCall = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * POST { method, args } → { data } or { error }
+ */
+export const POST = (request: Request) =>
+  handleApiRequest(request, async ({ repository }) => {
+    const body = await request.json().catch(() => null);
+    const method = body?.method as keyof AttendanceRepository;
+
+    if (typeof method !== 'string' || !Object.prototype.hasOwnProperty.call(repository, method) || !Array.isArray(body?.args ?? [])) {
+      throw createHttpError(`Unknown repository method: ${String(body?.method)}`, 400);
+    }
+
+    // JSON turns undefined arguments into null; restore them so parameter defaults still apply
+    const args = ((body.args ?? []) as unknown[]).map(arg => (arg === null ? undefined : arg));
+    return (repository[method] as RepositoryCall)(...args);
+  });
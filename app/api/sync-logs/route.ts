@@ -0,0 +1,26 @@
+// app/api/sync-logs/route.ts
+// 🔄 GET /api/sync-logs?start=YYYY-MM-DD&end=YYYY-MM-DD - device sync runs, per-day sync status and staleness (SyncStatusReport)
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateDate, validateDateRange, collectProblems } from '../../../lib/validation';
+import { addDays, getToday } from '../../../lib/holidays';
+import { buildSyncStatusReport } from '../../../lib/syncStatus';
+import { DATE_TIME_CONFIG, SYNC_STATUS_CONFIG } from '../../../constants/config';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    // Without a range: the last defaultRangeDays days up to today
+    const endDate = searchParams.get('end') || getToday();
+    const startDate = searchParams.get('start') || addDays(endDate, -(SYNC_STATUS_CONFIG.defaultRangeDays - 1));
+
+    assertValid(collectProblems(validateDate(startDate, 'start'), validateDate(endDate, 'end')));
+    assertValid(collectProblems(validateDateRange(startDate, endDate, DATE_TIME_CONFIG.maxDateRange)));
+
+    const [logs, lastSuccess] = await Promise.all([
+      repository.getSyncLogsInRange(startDate, endDate),
+      repository.getLatestSuccessfulSync()
+    ]);
+    return buildSyncStatusReport(startDate, endDate, logs, lastSuccess);
+  });
@@ -0,0 +1,15 @@
+// app/api/weekly-summaries/route.ts
+// 📈 GET /api/weekly-summaries?limit= - most recent weekly summaries (WeeklySummary[])
+
+import { handleApiRequest, assertValid } from '../../../lib/apiRoute';
+import { validateLimit, collectProblems } from '../../../lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const limit = searchParams.get('limit');
+    assertValid(collectProblems(validateLimit(limit)));
+
+    return repository.getRecentWeeklySummaries(limit ? Number(limit) : undefined);
+  });
@@ -0,0 +1,26 @@
+// app/api/weeks/[start]/employees/route.ts
+// 📈 GET /api/weeks/:start/employees?end=YYYY-MM-DD - per-employee weekly totals and daily breakdown (WeeklyEmployeeData[])
+
+import { handleApiRequest, assertValid } from '../../../../../lib/apiRoute';
+import { validateDate, validateDateRange, collectProblems } from '../../../../../lib/validation';
+import { addDays } from '../../../../../lib/holidays';
+import { loadScheduleContext } from '../../../../../lib/shifts';
+import { buildWeeklyEmployeeData } from '../../../../../lib/attendanceReports';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = (request: Request, { params }: { params: { start: string } }) =>
+  handleApiRequest(request, async ({ repository, searchParams }) => {
+    const weekStart = params.start;
+    assertValid(collectProblems(validateDate(weekStart, 'start')));
+
+    // The week runs seven days from the start unless an end date is given
+    const weekEnd = searchParams.get('end') || addDays(weekStart, 6);
+    assertValid(collectProblems(validateDate(weekEnd, 'end'), validateDateRange(weekStart, weekEnd)));
+
+    const [records, context] = await Promise.all([
+      repository.getEmployeeRecordsInRange(weekStart, weekEnd),
+      loadScheduleContext(repository)
+    ]);
+    return buildWeeklyEmployeeData(weekStart, weekEnd, records, context);
+  });
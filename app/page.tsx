@@ -5,23 +5,71 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { TabType } from '../lib/types';
-import { DASHBOARD_CONFIG, LOADING_STATES } from '../constants/config';
+import type { OrgFilter, TabType, UserProfile } from '../lib/types';
+import { DASHBOARD_CONFIG, LOADING_STATES, DATE_TIME_CONFIG, DEPARTMENT_CONFIG } from '../constants/config';
+import { canAccessTab, getRoleDefinition } from '../lib/access';
+import { addDays } from '../lib/holidays';
+import { getSyncTime } from '../lib/syncStatus';
+import { formatRelativeTime } from '../lib/formatters';
+import { EMPTY_ORG_FILTER, filterByOrg } from '../lib/departments';
 
 // Import our custom hooks
+import { useAuth } from '../hooks/useAuth';
 import { useAttendanceData } from '../hooks/useAttendanceData';
 import { useEmployeeData } from '../hooks/useEmployeeData';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+
+// Import sign-in
+import { LoginForm } from '../components/auth/LoginForm';
 
 // Import tab components
 import { DailySummaryTab } from '../components/dashboard/DailySummaryTab';
 import { EmployeeDetailsTab } from '../components/dashboard/EmployeeDetailsTab';
 import { WeeklyReportsTab } from '../components/dashboard/WeeklyReportsTab';
 import { MonthlyReportsTab } from '../components/dashboard/MonthlyReportsTab';
+import { TeamMatrixTab } from '../components/dashboard/TeamMatrixTab';
+import { MonthlyOverviewTab } from '../components/dashboard/MonthlyOverviewTab';
+import { LatenessReportTab } from '../components/dashboard/LatenessReportTab';
+import { HolidayCalendarTab } from '../components/dashboard/HolidayCalendarTab';
+import { LeaveManagementTab } from '../components/dashboard/LeaveManagementTab';
+import { CorrectionsTab } from '../components/dashboard/CorrectionsTab';
+import { SyncStatusTab } from '../components/dashboard/SyncStatusTab';
+import { DeviceImportTab } from '../components/dashboard/DeviceImportTab';
+import { DataQualityTab } from '../components/dashboard/DataQualityTab';
+import { EmployeeDirectoryTab } from '../components/dashboard/EmployeeDirectoryTab';
+import { OrgFilterBar } from '../components/dashboard/OrgFilterBar';
 
 export default function Dashboard() {
+  const { profile, loading, error, signIn, signInAsDemo, signOut } = useAuth();
+
+  if (!profile) {
+    return loading && !error ? (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    ) : (
+      <LoginForm loading={loading} error={error} onSignIn={signIn} onSignInAsDemo={signInAsDemo} />
+    );
+  }
+
+  return <AuthenticatedDashboard key={profile.id} profile={profile} onSignOut={signOut} />;
+}
+
+interface AuthenticatedDashboardProps {
+  profile: UserProfile;
+  onSignOut: () => void;
+}
+
+// Data is only loaded once someone is signed in; the key above remounts it per user
+function AuthenticatedDashboard({ profile, onSignOut }: AuthenticatedDashboardProps) {
+  const role = getRoleDefinition(profile.role);
+
   // UI State
-  const [activeTab, setActiveTab] = useState<TabType>(DASHBOARD_CONFIG.defaultTab);
+  const [activeTab, setActiveTab] = useState<TabType>(
+    canAccessTab(profile, DASHBOARD_CONFIG.defaultTab) ? DASHBOARD_CONFIG.defaultTab : role.tabs[0]
+  );
   const [selectedDate, setSelectedDate] = useState('');
+  const [orgFilter, setOrgFilter] = useState<OrgFilter>(EMPTY_ORG_FILTER);
 
   // Custom hooks for data management
   const {
@@ -29,7 +77,10 @@ export default function Dashboard() {
     weeklyData,
     loading: attendanceLoading,
     error: attendanceError,
+    dailyRange,
     refreshData,
+    loadDailyData,
+    loadDailyRange,
     getSummaryStats
   } = useAttendanceData();
 
@@ -40,9 +91,17 @@ export default function Dashboard() {
     error: employeeError,
     loadEmployees,
     loadEmployeeData,
-    getAttendanceStats
+    getAttendanceStats,
+    getWorkHoursStats,
+    checkRecordCategory,
+    getShiftFor,
+    getWorkTime,
+    getLateMinutes
   } = useEmployeeData();
 
+  const { report: syncReport, loadSyncStatus } = useSyncStatus();
+  const canSeeSync = canAccessTab(profile, 'sync');
+
   // Combined loading and error states
   const loading = attendanceLoading || employeeLoading;
   const error = attendanceError || employeeError;
@@ -63,6 +122,19 @@ export default function Dashboard() {
     initializeData();
   }, [refreshData, loadEmployees, loadEmployeeData]);
 
+  // Sync health for the dates in the daily list (powers the stale banner and per-day flags)
+  useEffect(() => {
+    if (!canSeeSync) return;
+    if (dailyData.length === 0) {
+      loadSyncStatus();
+      return;
+    }
+    const dates = dailyData.map(day => day.date).sort();
+    const endDate = dates[dates.length - 1];
+    const earliest = addDays(endDate, -(DATE_TIME_CONFIG.maxDateRange - 1));
+    loadSyncStatus(dates[0] > earliest ? dates[0] : earliest, endDate);
+  }, [canSeeSync, dailyData, loadSyncStatus]);
+
   // Handle date selection
   const handleDateChange = useCallback(async (date: string) => {
     if (date === selectedDate) return;
@@ -79,17 +151,34 @@ export default function Dashboard() {
     }
   }, [refreshData, loadEmployees, loadEmployeeData, selectedDate]);
 
+  // The department / team filter narrows employee lists and the day's records before any stats
+  const showOrgFilter = role.scope !== 'self' && DEPARTMENT_CONFIG.filterTabs.includes(activeTab);
+  const filteredEmployees = filterByOrg(employees, orgFilter, employees);
+  const filteredRecords = filterByOrg(employeeRecords, orgFilter, employees);
+
   // Get statistics
   const summaryStats = getSummaryStats();
-  const attendanceStats = getAttendanceStats();
+  const attendanceStats = getAttendanceStats(filteredRecords);
+  const workHoursStats = getWorkHoursStats(filteredRecords);
 
-  // Tab configuration
-  const tabs = [
+  // Tab configuration - only the tabs the user's role allows
+  const allTabs = [
     { id: 'summary', label: '📊 Daily Summary', icon: '📊' },
     { id: 'employees', label: '👥 Employee Details', icon: '👥' },
     { id: 'weekly', label: '📈 Weekly Reports', icon: '📈' },
-    { id: 'monthly', label: '📊 Monthly Reports', icon: '📊' }
+    { id: 'monthly', label: '📊 Monthly Reports', icon: '📊' },
+    { id: 'matrix', label: '🧮 Team Matrix', icon: '🧮' },
+    { id: 'overview', label: '🗓️ Monthly Overview', icon: '🗓️' },
+    { id: 'lateness', label: '⏰ Lateness', icon: '⏰' },
+    { id: 'sync', label: '🔄 Sync Status', icon: '🔄' },
+    { id: 'import', label: '📥 Device Import', icon: '📥' },
+    { id: 'quality', label: '🩺 Data Quality', icon: '🩺' },
+    { id: 'directory', label: '🗂️ Directory', icon: '🗂️' },
+    { id: 'holidays', label: '🎉 Holidays', icon: '🎉' },
+    { id: 'leave', label: '🌴 Leave', icon: '🌴' },
+    { id: 'corrections', label: '✏️ Corrections', icon: '✏️' }
   ];
+  const tabs = allTabs.filter(tab => canAccessTab(profile, tab.id as TabType));
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -106,16 +195,51 @@ export default function Dashboard() {
                 <p className="text-sm text-gray-500">Real-time workforce insights</p>
               </div>
             </div>
-            <button 
-              onClick={handleRefresh}
-              disabled={loading}
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            <div className="flex items-center space-x-4">
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{profile.name}</p>
+                <p className="text-xs text-gray-500">
+                  {role.label}
+                  {role.scope === 'department' && profile.department && ` - ${profile.department}`}
+                </p>
+              </div>
+              <button 
+                onClick={handleRefresh}
+                disabled={loading}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? '🔄 Loading...' : '🔄 Refresh'}
+              </button>
+              <button
+                onClick={onSignOut}
+                className="text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+              >
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Stale Sync Banner */}
+      {canSeeSync && syncReport?.stale && (
+        <div className="bg-red-50 border-b border-red-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-red-800">
+              ⚠️ {syncReport.lastSuccess
+                ? `The last successful device sync was ${formatRelativeTime(getSyncTime(syncReport.lastSuccess))}`
+                : 'No successful device sync has been recorded'}
+              {' '}- attendance data may be out of date (expected at least every {syncReport.staleAfterHours} hours).
+            </p>
+            <button
+              onClick={() => setActiveTab('sync')}
+              className="text-sm font-medium text-red-700 hover:text-red-900 underline"
             >
-              {loading ? '🔄 Loading...' : '🔄 Refresh'}
+              View sync status
             </button>
           </div>
         </div>
-      </header>
+      )}
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {loading && !dailyData.length ? (
@@ -164,30 +288,37 @@ export default function Dashboard() {
             )}
 
             {/* Status Message */}
-            <div className="bg-white rounded-lg shadow p-6">
-              <h2 className="text-xl font-bold text-gray-900 mb-4">
-                {dailyData && dailyData.length > 0 ? '🎉 Boopin Dashboard is Live!' : '⚠️ No Data Found'}
-              </h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className={`p-4 rounded-lg ${dailyData && dailyData.length > 0 ? 'bg-green-50' : 'bg-yellow-50'}`}>
-                  <h3 className={`font-semibold ${dailyData && dailyData.length > 0 ? 'text-green-900' : 'text-yellow-900'}`}>
-                    {dailyData && dailyData.length > 0 ? '✅ Connection Status' : '⚠️ Connection Status'}
-                  </h3>
-                  <p className={dailyData && dailyData.length > 0 ? 'text-green-700' : 'text-yellow-700'}>
-                    {dailyData && dailyData.length > 0 
-                      ? 'Successfully connected and data found!' 
-                      : 'Connected but no historical data found'
-                    }
-                  </p>
-                </div>
-                <div className="bg-blue-50 p-4 rounded-lg">
-                  <h3 className="font-semibold text-blue-900">📊 Data Status</h3>
-                  <p className="text-blue-700">
-                    {summaryStats.totalDays} daily reports, {summaryStats.totalWeeks} weekly reports, {employees.length} employees
-                  </p>
+            {canAccessTab(profile, 'summary') && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">
+                  {dailyData && dailyData.length > 0 ? '🎉 Boopin Dashboard is Live!' : '⚠️ No Data Found'}
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className={`p-4 rounded-lg ${dailyData && dailyData.length > 0 ? 'bg-green-50' : 'bg-yellow-50'}`}>
+                    <h3 className={`font-semibold ${dailyData && dailyData.length > 0 ? 'text-green-900' : 'text-yellow-900'}`}>
+                      {dailyData && dailyData.length > 0 ? '✅ Connection Status' : '⚠️ Connection Status'}
+                    </h3>
+                    <p className={dailyData && dailyData.length > 0 ? 'text-green-700' : 'text-yellow-700'}>
+                      {dailyData && dailyData.length > 0 
+                        ? 'Successfully connected and data found!' 
+                        : 'Connected but no historical data found'
+                      }
+                    </p>
+                  </div>
+                  <div className="bg-blue-50 p-4 rounded-lg">
+                    <h3 className="font-semibold text-blue-900">📊 Data Status</h3>
+                    <p className="text-blue-700">
+                      {summaryStats.totalDays} daily reports, {summaryStats.totalWeeks} weekly reports, {employees.length} employees
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Department / Team Filter */}
+            {showOrgFilter && (
+              <OrgFilterBar employees={employees} filter={orgFilter} onChange={setOrgFilter} />
+            )}
 
             {/* Tab Content */}
             {activeTab === 'summary' && (
@@ -196,18 +327,31 @@ export default function Dashboard() {
                 loading={attendanceLoading}
                 error={attendanceError}
                 summaryStats={summaryStats}
+                dailyRange={dailyRange}
+                onRangeChange={loadDailyRange}
+                onShowLatest={() => loadDailyData()}
+                syncDays={canSeeSync ? syncReport?.days : undefined}
+                orgFilter={orgFilter}
               />
             )}
             
             {activeTab === 'employees' && (
               <EmployeeDetailsTab
                 dailyData={dailyData}
-                employeeRecords={employeeRecords}
+                employeeRecords={filteredRecords}
                 selectedDate={selectedDate}
                 loading={employeeLoading}
                 error={employeeError}
                 attendanceStats={attendanceStats}
+                workHoursStats={workHoursStats}
+                employees={employees}
+                getAttendanceStats={getAttendanceStats}
+                getWorkHoursStats={getWorkHoursStats}
                 onDateChange={handleDateChange}
+                checkRecordCategory={checkRecordCategory}
+                getShiftFor={getShiftFor}
+                getWorkTime={getWorkTime}
+                getLateMinutes={getLateMinutes}
               />
             )}
             
@@ -216,16 +360,58 @@ export default function Dashboard() {
                 weeklyData={weeklyData}
                 loading={attendanceLoading}
                 error={attendanceError}
+                orgFilter={orgFilter}
               />
             )}
             
             {activeTab === 'monthly' && (
               <MonthlyReportsTab
-                employees={employees}
+                employees={filteredEmployees}
                 loading={employeeLoading}
                 error={employeeError}
+                profile={profile}
               />
             )}
+
+            {activeTab === 'matrix' && (
+              <TeamMatrixTab orgFilter={orgFilter} />
+            )}
+
+            {activeTab === 'overview' && (
+              <MonthlyOverviewTab />
+            )}
+
+            {activeTab === 'lateness' && (
+              <LatenessReportTab orgFilter={orgFilter} />
+            )}
+
+            {activeTab === 'sync' && (
+              <SyncStatusTab />
+            )}
+
+            {activeTab === 'import' && (
+              <DeviceImportTab />
+            )}
+
+            {activeTab === 'quality' && (
+              <DataQualityTab employees={filteredEmployees} orgFilter={orgFilter} />
+            )}
+
+            {activeTab === 'directory' && (
+              <EmployeeDirectoryTab profile={profile} />
+            )}
+
+            {activeTab === 'holidays' && (
+              <HolidayCalendarTab />
+            )}
+
+            {activeTab === 'leave' && (
+              <LeaveManagementTab profile={profile} />
+            )}
+
+            {activeTab === 'corrections' && (
+              <CorrectionsTab profile={profile} />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,110 @@
+// components/auth/LoginForm.tsx
+// 🔐 Sign-in screen - email and password, or a demo user picker in offline mode
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { UserProfile } from '../../lib/types';
+import { getDemoUsers } from '../../lib/auth';
+import { getRoleDefinition } from '../../lib/access';
+import { DATA_SOURCE_CONFIG } from '../../constants/config';
+
+interface LoginFormProps {
+  loading: boolean;
+  error: string;
+  onSignIn: (email: string, password: string) => void;
+  onSignInAsDemo: (userId: string) => void;
+}
+
+export const LoginForm: React.FC<LoginFormProps> = ({ loading, error, onSignIn, onSignInAsDemo }) => {
+  const isOffline = DATA_SOURCE_CONFIG.source === 'memory';
+
+  // Local state
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [demoUsers, setDemoUsers] = useState<UserProfile[]>([]);
+
+  useEffect(() => {
+    if (!isOffline) return;
+    getDemoUsers()
+      .then(setDemoUsers)
+      .catch(err => console.warn('⚠️ Could not load demo users:', err?.message || err));
+  }, [isOffline]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSignIn(email, password);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg shadow p-8 w-full max-w-md">
+        <div className="flex items-center mb-6">
+          <div className="bg-blue-600 text-white px-3 py-1 rounded-lg font-bold mr-4">
+            boopin
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Attendance Analytics</h1>
+            <p className="text-sm text-gray-500">Sign in to continue</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {isOffline ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">Offline mode - choose a demo user to sign in as:</p>
+            {demoUsers.map(user => (
+              <button
+                key={user.id}
+                onClick={() => onSignInAsDemo(user.id)}
+                disabled={loading}
+                className="w-full flex justify-between items-center px-4 py-3 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                <span className="text-sm font-medium text-gray-900">{user.name}</span>
+                <span className="text-xs text-gray-500">
+                  {getRoleDefinition(user.role).label}
+                  {user.department && ` - ${user.department}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Signing in...' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+// components/charts/ChartLegend.tsx
+// 🏷️ Colour key for a chart's series
+
+'use client';
+
+import React from 'react';
+import type { ChartSeries } from '../../lib/types';
+
+interface ChartLegendProps {
+  series: ChartSeries[];
+}
+
+export const ChartLegend: React.FC<ChartLegendProps> = ({ series }) => (
+  <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+    {series.map(item => (
+      <span key={item.label} className="inline-flex items-center">
+        <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: item.color }}></span>
+        {item.label}
+        {item.axis === 'right' && <span className="ml-1 text-gray-400">(right axis)</span>}
+      </span>
+    ))}
+  </div>
+);
@@ -0,0 +1,113 @@
+// components/charts/LineChart.tsx
+// 📈 SVG line chart - one line per series, with an optional right axis for series on a different scale
+
+'use client';
+
+import React, { useId } from 'react';
+import type { ChartSeries } from '../../lib/types';
+import { getNiceScale, scaleValue, buildLinePath, getLabelStep } from '../../lib/charts';
+import { useChartAnimation } from '../../hooks/useChartAnimation';
+import { ChartLegend } from './ChartLegend';
+import { CHART_CONFIG, COLORS } from '../../constants/config';
+
+interface LineChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+  leftMax?: number; // fixed top of the left axis, e.g. 100 for percentages
+  rightMax?: number;
+}
+
+const PADDING = { top: 16, right: 48, bottom: 32, left: 48 };
+
+export const LineChart: React.FC<LineChartProps> = ({
+  labels,
+  series,
+  height = CHART_CONFIG.defaultHeight,
+  leftMax,
+  rightMax
+}) => {
+  const clipId = useId();
+  const progress = useChartAnimation(`${labels.join()}|${series.map(item => item.values.join()).join('|')}`);
+
+  const width = CHART_CONFIG.width;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const bottom = height - PADDING.bottom;
+  const leftSeries = series.filter(item => item.axis !== 'right');
+  const rightSeries = series.filter(item => item.axis === 'right');
+  const leftScale = getNiceScale(leftSeries.flatMap(item => item.values), CHART_CONFIG.tickCount, leftMax);
+  const rightScale = getNiceScale(rightSeries.flatMap(item => item.values), CHART_CONFIG.tickCount, rightMax);
+  const labelStep = getLabelStep(labels.length);
+
+  const getX = (index: number) =>
+    labels.length === 1 ? PADDING.left + plotWidth / 2 : PADDING.left + (index * plotWidth) / (labels.length - 1);
+  const getY = (item: ChartSeries, value: number) =>
+    scaleValue(value, item.axis === 'right' ? rightScale : leftScale, bottom, PADDING.top);
+  const format = (item: ChartSeries, value: number) => (item.formatValue ? item.formatValue(value) : String(value));
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={series.map(item => item.label).join(', ')}>
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={0} y={0} width={PADDING.left + (plotWidth + PADDING.right) * progress} height={height} />
+          </clipPath>
+        </defs>
+
+        {/* Grid and left axis */}
+        {leftScale.ticks.map(tick => {
+          const y = scaleValue(tick, leftScale, bottom, PADDING.top);
+          return (
+            <g key={`left-${tick}`}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y} y2={y} stroke={COLORS.gray[100]} />
+              <text x={PADDING.left - 8} y={y + 4} textAnchor="end" fontSize={11} fill={COLORS.gray[500]}>
+                {leftSeries[0] ? format(leftSeries[0], tick) : tick}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Right axis */}
+        {rightSeries.length > 0 && rightScale.ticks.map(tick => (
+          <text
+            key={`right-${tick}`}
+            x={width - PADDING.right + 8}
+            y={scaleValue(tick, rightScale, bottom, PADDING.top) + 4}
+            fontSize={11}
+            fill={COLORS.gray[500]}
+          >
+            {format(rightSeries[0], tick)}
+          </text>
+        ))}
+
+        {/* X axis labels */}
+        {labels.map((label, index) => index % labelStep === 0 && (
+          <text key={`${label}-${index}`} x={getX(index)} y={height - 10} textAnchor="middle" fontSize={11} fill={COLORS.gray[500]}>
+            {label}
+          </text>
+        ))}
+
+        {/* Lines and points */}
+        <g clipPath={`url(#${clipId})`}>
+          {series.map(item => (
+            <g key={item.label}>
+              <path
+                d={buildLinePath(item.values.map((value, index) => [getX(index), getY(item, value)]))}
+                fill="none"
+                stroke={item.color}
+                strokeWidth={2.5}
+                strokeLinejoin="round"
+              />
+              {item.values.map((value, index) => (
+                <circle key={index} cx={getX(index)} cy={getY(item, value)} r={3.5} fill="white" stroke={item.color} strokeWidth={2}>
+                  <title>{`${labels[index]} - ${item.label}: ${format(item, value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          ))}
+        </g>
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+// components/charts/StackedBarChart.tsx
+// 📊 SVG stacked bar chart - one bar per label, series stacked bottom to top in the order given
+
+'use client';
+
+import React from 'react';
+import type { ChartSeries } from '../../lib/types';
+import { getNiceScale, scaleValue, getLabelStep } from '../../lib/charts';
+import { useChartAnimation } from '../../hooks/useChartAnimation';
+import { ChartLegend } from './ChartLegend';
+import { CHART_CONFIG, COLORS } from '../../constants/config';
+
+interface StackedBarChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+}
+
+const PADDING = { top: 20, right: 16, bottom: 32, left: 48 };
+const MAX_TOTAL_LABELS = 14; // totals above the bars only while they have room
+
+export const StackedBarChart: React.FC<StackedBarChartProps> = ({
+  labels,
+  series,
+  height = CHART_CONFIG.defaultHeight
+}) => {
+  const progress = useChartAnimation(`${labels.join()}|${series.map(item => item.values.join()).join('|')}`);
+
+  const width = CHART_CONFIG.width;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const bottom = height - PADDING.bottom;
+  const totals = labels.map((_, index) => series.reduce((sum, item) => sum + (item.values[index] || 0), 0));
+  const scale = getNiceScale(totals);
+  const slotWidth = plotWidth / Math.max(1, labels.length);
+  const barWidth = Math.min(48, slotWidth * 0.7);
+  const labelStep = getLabelStep(labels.length);
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={series.map(item => item.label).join(', ')}>
+        {/* Grid and y axis */}
+        {scale.ticks.map(tick => {
+          const y = scaleValue(tick, scale, bottom, PADDING.top);
+          return (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y} y2={y} stroke={COLORS.gray[100]} />
+              <text x={PADDING.left - 8} y={y + 4} textAnchor="end" fontSize={11} fill={COLORS.gray[500]}>{tick}</text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, index) => {
+          const x = PADDING.left + index * slotWidth + (slotWidth - barWidth) / 2;
+          let stacked = 0;
+
+          return (
+            <g key={`${label}-${index}`}>
+              {series.map(item => {
+                const value = (item.values[index] || 0) * progress;
+                const y = scaleValue(stacked + value, scale, bottom, PADDING.top);
+                const segmentHeight = scaleValue(stacked, scale, bottom, PADDING.top) - y;
+                stacked += value;
+                return value > 0 && (
+                  <rect key={item.label} x={x} y={y} width={barWidth} height={segmentHeight} fill={item.color}>
+                    <title>{`${label} - ${item.label}: ${item.values[index]}`}</title>
+                  </rect>
+                );
+              })}
+              {labels.length <= MAX_TOTAL_LABELS && totals[index] > 0 && (
+                <text
+                  x={x + barWidth / 2}
+                  y={scaleValue(totals[index] * progress, scale, bottom, PADDING.top) - 4}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill={COLORS.gray[600]}
+                >
+                  {totals[index]}
+                </text>
+              )}
+              {index % labelStep === 0 && (
+                <text x={x + barWidth / 2} y={height - 10} textAnchor="middle" fontSize={11} fill={COLORS.gray[500]}>
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+};
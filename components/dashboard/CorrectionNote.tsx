@@ -0,0 +1,24 @@
+// components/dashboard/CorrectionNote.tsx
+// ✏️ Shows that a record was corrected, with the synced values and who approved it
+
+'use client';
+
+import React from 'react';
+import type { EmployeeRecord } from '../../lib/types';
+import { describeCorrection } from '../../lib/corrections';
+
+interface CorrectionNoteProps {
+  record: EmployeeRecord;
+}
+
+export const CorrectionNote: React.FC<CorrectionNoteProps> = ({ record }) => {
+  if (!record.correction) return null;
+
+  const { reason, reviewed_by, requested_by } = record.correction;
+  return (
+    <div className="text-xs text-indigo-600" title={`Reason: ${reason}${requested_by ? ` (requested by ${requested_by})` : ''}`}>
+      ✏️ Corrected: {describeCorrection(record)}
+      <div className="text-indigo-400">approved by {reviewed_by || 'unknown'}</div>
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+// components/dashboard/CorrectionsTab.tsx
+// ✏️ Attendance Corrections Tab Component
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AttendanceCorrection, CorrectionStatus, UserProfile } from '../../lib/types';
+import { formatDate } from '../../lib/formatters';
+import { getRoleDefinition } from '../../lib/access';
+import { useCorrections } from '../../hooks/useCorrections';
+import { useWorkSchedule } from '../../hooks/useWorkSchedule';
+
+const CORRECTION_STATUS_COLORS: Record<CorrectionStatus, string> = {
+  pending: 'text-yellow-700 bg-yellow-50',
+  approved: 'text-green-700 bg-green-50',
+  rejected: 'text-red-700 bg-red-50'
+};
+
+const EMPTY_CORRECTION = {
+  emp_code: '',
+  date: '',
+  check_in: '',
+  check_out: '',
+  reason: '',
+  requested_by: ''
+};
+
+interface CorrectionsTabProps {
+  profile: UserProfile;
+}
+
+export const CorrectionsTab: React.FC<CorrectionsTabProps> = ({ profile }) => {
+  const { corrections, loading, error, loadCorrections, submitCorrection, reviewCorrection, clearError } = useCorrections();
+  const { schedule, loadSchedule } = useWorkSchedule();
+
+  // Users who cannot review corrections request them for themselves only
+  const { canReviewCorrections } = getRoleDefinition(profile.role);
+  const emptyCorrection = React.useMemo(
+    () => ({ ...EMPTY_CORRECTION, emp_code: canReviewCorrections ? '' : String(profile.emp_code || '').trim() }),
+    [canReviewCorrections, profile.emp_code]
+  );
+
+  // Local state
+  const [newCorrection, setNewCorrection] = useState(emptyCorrection);
+  const [reviewNote, setReviewNote] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    loadCorrections();
+    loadSchedule();
+  }, [loadCorrections, loadSchedule]);
+
+  const employees = schedule.employees;
+  const getName = (empCode: string) => employees.find(emp => emp.emp_code === String(empCode).trim())?.name || empCode;
+  const ownCode = String(profile.emp_code || '').trim();
+  const isOwn = (correction: AttendanceCorrection) => !!ownCode && String(correction.emp_code).trim() === ownCode;
+
+  const pendingCorrections = corrections.filter(correction => correction.status === 'pending');
+  const reviewedCorrections = corrections.filter(correction => correction.status !== 'pending');
+
+  // Submit a correction for review
+  const handleSubmit = useCallback(async () => {
+    const result = await submitCorrection({
+      emp_code: newCorrection.emp_code,
+      date: newCorrection.date,
+      check_in: newCorrection.check_in || null,
+      check_out: newCorrection.check_out || null,
+      reason: newCorrection.reason.trim(),
+      requested_by: newCorrection.requested_by.trim() || null,
+      status: 'pending'
+    });
+    if (!result.error) {
+      setNewCorrection(emptyCorrection);
+    }
+  }, [newCorrection, emptyCorrection, submitCorrection]);
+
+  // Approve or reject as the signed-in user, with the note entered above the queue
+  const handleReview = useCallback(async (correction: AttendanceCorrection, status: CorrectionStatus) => {
+    const result = await reviewCorrection(correction.id!, status, profile.name, reviewNote.trim() || undefined);
+    if (!result.error) {
+      setReviewNote('');
+    }
+  }, [profile.name, reviewNote, reviewCorrection]);
+
+  const renderTimes = (correction: AttendanceCorrection) => (
+    <>
+      {correction.check_in && <div>In: {correction.check_in}</div>}
+      {correction.check_out && <div>Out: {correction.check_out}</div>}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-start">
+          <p className="text-red-700">{error}</p>
+          <button onClick={clearError} className="text-red-600 hover:text-red-800 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      {/* New Correction */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-4">✏️ Request a Correction</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Use this when the device missed or mis-recorded a punch. Leave a time empty to keep the synced value.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select
+            value={newCorrection.emp_code}
+            onChange={(e) => setNewCorrection(prev => ({ ...prev, emp_code: e.target.value }))}
+            disabled={!canReviewCorrections}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+          >
+            <option value="">Choose an employee...</option>
+            {employees.map(emp => (
+              <option key={emp.emp_code} value={emp.emp_code}>
+                {emp.name} (Code: {emp.emp_code})
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={newCorrection.date}
+            onChange={(e) => setNewCorrection(prev => ({ ...prev, date: e.target.value }))}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <input
+            type="text"
+            placeholder={canReviewCorrections ? 'Requested by' : profile.name}
+            value={newCorrection.requested_by}
+            onChange={(e) => setNewCorrection(prev => ({ ...prev, requested_by: e.target.value }))}
+            disabled={!canReviewCorrections}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+          />
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Check In</label>
+            <input
+              type="time"
+              value={newCorrection.check_in}
+              onChange={(e) => setNewCorrection(prev => ({ ...prev, check_in: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Check Out</label>
+            <input
+              type="time"
+              value={newCorrection.check_out}
+              onChange={(e) => setNewCorrection(prev => ({ ...prev, check_out: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Reason</label>
+            <input
+              type="text"
+              placeholder="e.g. Fingerprint reader was offline"
+              value={newCorrection.reason}
+              onChange={(e) => setNewCorrection(prev => ({ ...prev, reason: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+        <button
+          onClick={handleSubmit}
+          disabled={loading}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+        >
+          Submit for Review
+        </button>
+      </div>
+
+      {/* Review Queue */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-4">🕵️ Pending Review ({pendingCorrections.length})</h3>
+        {canReviewCorrections && (
+          <div className="mb-4">
+            <input
+              type="text"
+              placeholder={`Review note as ${profile.name} (optional)`}
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+          </div>
+        )}
+
+        {loading && corrections.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading corrections...</p>
+          </div>
+        ) : pendingCorrections.length === 0 ? (
+          <p className="text-gray-600">No corrections waiting for review.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Employee
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Corrected Times
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  {canReviewCorrections && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pendingCorrections.map(correction => (
+                  <tr key={correction.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{getName(correction.emp_code)}</div>
+                      <div className="text-sm text-gray-500">Code: {correction.emp_code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(correction.date)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{renderTimes(correction)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {correction.reason}
+                      {correction.requested_by && (
+                        <div className="text-xs text-gray-500">Requested by {correction.requested_by}</div>
+                      )}
+                    </td>
+                    {canReviewCorrections && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                        {isOwn(correction) ? (
+                          <span className="text-xs text-gray-500">Your request - another reviewer decides it</span>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleReview(correction, 'approved')}
+                              disabled={loading}
+                              className="text-green-600 hover:text-green-800 text-xs transition-colors disabled:opacity-50"
+                            >
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => handleReview(correction, 'rejected')}
+                              disabled={loading}
+                              className="text-red-600 hover:text-red-800 text-xs transition-colors disabled:opacity-50"
+                            >
+                              Reject
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Review History */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-900">📜 Review History ({reviewedCorrections.length})</h3>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium transition-colors"
+          >
+            {showHistory ? 'Hide' : 'Show'}
+          </button>
+        </div>
+
+        {showHistory && (
+          reviewedCorrections.length === 0 ? (
+            <p className="text-gray-600">No corrections have been reviewed yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {reviewedCorrections.map(correction => (
+                <li key={correction.id} className="py-3 flex justify-between items-start text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {getName(correction.emp_code)} - {formatDate(correction.date)}
+                    </p>
+                    <div className="text-gray-600">{renderTimes(correction)}</div>
+                    <p className="text-gray-500">{correction.reason}</p>
+                    {correction.review_note && (
+                      <p className="text-xs text-gray-500">Note: {correction.review_note}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${CORRECTION_STATUS_COLORS[correction.status]}`}>
+                      {correction.status}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      by {correction.reviewed_by || 'unknown'}
+                      {correction.reviewed_at && ` on ${formatDate(correction.reviewed_at.slice(0, 10))}`}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,10 +3,19 @@
 
 'use client';
 
-import React from 'react';
-import type { DailySummary } from '../../lib/types';
+import React, { useState } from 'react';
+import type { DailySummary, DailySummaryRange, OrgFilter, SyncDayStatus } from '../../lib/types';
 import { formatDate, formatTime } from '../../lib/formatters';
+import { addDays, getToday } from '../../lib/holidays';
+import { validateDateRange } from '../../lib/validation';
+import { isOrgFilterActive } from '../../lib/departments';
+import { getUnsummarizedSyncDays } from '../../lib/syncStatus';
 import { useDataExport } from '../../hooks/useDataExport';
+import { DailyTrendCharts } from './DailyTrendCharts';
+import { DepartmentComparison } from './DepartmentComparison';
+import { DATE_TIME_CONFIG, SYNC_STATUS_CONFIG, VALIDATION_RULES } from '../../constants/config';
+
+const RANGE_PRESETS = [7, 30, 90, DATE_TIME_CONFIG.maxDateRange]; // days up to today
 
 interface DailySummaryTabProps {
   dailyData: DailySummary[];
@@ -19,29 +28,146 @@ interface DailySummaryTabProps {
     avgOnTimeRate: number;
     totalEmployees: number;
   };
+  dailyRange: DailySummaryRange | null;
+  onRangeChange: (startDate: string, endDate: string) => void;
+  onShowLatest: () => void;
+  syncDays?: Record<string, SyncDayStatus>; // flags dates whose device sync failed or never ran
+  orgFilter: OrgFilter; // narrows the department breakdown; the summaries themselves are company-wide
 }
 
 export const DailySummaryTab: React.FC<DailySummaryTabProps> = ({
   dailyData,
   loading,
   error,
-  summaryStats
+  summaryStats,
+  dailyRange,
+  onRangeChange,
+  onShowLatest,
+  syncDays = {},
+  orgFilter
 }) => {
   const { exporting, exportData } = useDataExport();
 
+  // Range inputs start at the loaded range, or the default number of days up to today
+  const [startDate, setStartDate] = useState(() =>
+    dailyRange?.startDate || addDays(getToday(), -(DATE_TIME_CONFIG.defaultDateRange - 1))
+  );
+  const [endDate, setEndDate] = useState(() => dailyRange?.endDate || getToday());
+
+  // Days the sync failed or never ran have no summary row, so they are listed on their own, newest first
+  const listDays = [
+    ...dailyData.map(day => ({ date: day.date, summary: day as DailySummary | null })),
+    ...getUnsummarizedSyncDays(syncDays, dailyData.map(day => day.date)).map(date => ({ date, summary: null }))
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  const renderSyncBadge = (date: string) =>
+    syncDays[date] && syncDays[date] !== 'ok' && (
+      <span
+        className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+          syncDays[date] === 'failed' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+        }`}
+      >
+        {SYNC_STATUS_CONFIG.dayStatuses[syncDays[date]].icon} {SYNC_STATUS_CONFIG.dayStatuses[syncDays[date]].label}
+      </span>
+    );
+
+  const rangeProblem = startDate && endDate ? validateDateRange(startDate, endDate, DATE_TIME_CONFIG.maxDateRange) : null;
+
+  const handlePreset = (days: number) => {
+    const end = getToday();
+    const start = addDays(end, -(days - 1));
+    setStartDate(start);
+    setEndDate(end);
+    onRangeChange(start, end);
+  };
+
+  const rangePicker = (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={() => onRangeChange(startDate, endDate)}
+          disabled={loading || !startDate || !endDate || !!rangeProblem}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+        >
+          🔍 Show Range
+        </button>
+        <div className="flex flex-wrap gap-2">
+          {RANGE_PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => handlePreset(days)}
+              disabled={loading}
+              className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              Last {days} days
+            </button>
+          ))}
+          <button
+            onClick={onShowLatest}
+            disabled={loading || !dailyRange}
+            className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            Most recent
+          </button>
+        </div>
+      </div>
+      {rangeProblem && <p className="mt-2 text-sm text-red-600">{rangeProblem}</p>}
+      <p className="mt-2 text-xs text-gray-500">
+        {dailyRange
+          ? `Showing ${formatDate(dailyRange.startDate)} to ${formatDate(dailyRange.endDate)} - statistics and exports cover this range.`
+          : `Showing the ${dailyData.length} most recent days - pick a range of up to ${DATE_TIME_CONFIG.maxDateRange} days to look further back.`}
+      </p>
+    </div>
+  );
+
   if (loading) {
     return (
-      <div className="text-center py-12">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
-        <p className="mt-2 text-gray-600">Loading daily summaries...</p>
+      <div className="space-y-6">
+        {rangePicker}
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading daily summaries...</p>
+        </div>
       </div>
     );
   }
 
   if (error) {
     return (
-      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-        <p className="text-red-700">Error loading daily summaries: {error}</p>
+      <div className="space-y-6">
+        {rangePicker}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">Error loading daily summaries: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dailyRange && dailyData.length === 0) {
+    return (
+      <div className="space-y-6">
+        {rangePicker}
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+          No daily summaries between {formatDate(dailyRange.startDate)} and {formatDate(dailyRange.endDate)}.
+        </div>
       </div>
     );
   }
@@ -68,8 +194,20 @@ export const DailySummaryTab: React.FC<DailySummaryTabProps> = ({
     );
   }
 
+  const exportContext = dailyRange ? `${dailyRange.startDate}_${dailyRange.endDate}` : undefined;
+
+  // The department breakdown covers the days shown, up to the report range limit back from the last one
+  const shownDates = dailyData.map(day => day.date).sort();
+  const breakdownEnd = dailyRange?.endDate || shownDates[shownDates.length - 1];
+  const firstShown = dailyRange?.startDate || shownDates[0];
+  const earliestBreakdown = addDays(breakdownEnd, -(VALIDATION_RULES.api.maxReportRangeDays - 1));
+  const breakdownStart = firstShown > earliestBreakdown ? firstShown : earliestBreakdown;
+
   return (
     <div className="space-y-6">
+      {/* Date Range */}
+      {rangePicker}
+
       {/* Summary Statistics Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg shadow p-4 text-center">
@@ -90,26 +228,50 @@ export const DailySummaryTab: React.FC<DailySummaryTabProps> = ({
         </div>
       </div>
 
+      {isOrgFilterActive(orgFilter) && (
+        <p className="text-sm text-gray-500">
+          The cards, charts and daily list are company-wide totals from the device sync - the department breakdown follows the filter.
+        </p>
+      )}
+
+      {/* Trend Charts */}
+      <DailyTrendCharts />
+
+      {/* Department Breakdown */}
+      <DepartmentComparison startDate={breakdownStart} endDate={breakdownEnd} orgFilter={orgFilter} />
+
       {/* Recent Attendance Data */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-bold text-gray-900">📅 Recent Attendance Data</h3>
-          <button
-            onClick={() => exportData('daily', dailyData)}
-            disabled={exporting}
-            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
-          >
-            {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => exportData('daily', dailyData, exportContext)}
+              disabled={exporting}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+            </button>
+            <button
+              onClick={() => exportData('daily', dailyData, exportContext, undefined, 'excel')}
+              disabled={exporting}
+              className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+            </button>
+          </div>
         </div>
         
         <div className="space-y-3">
-          {dailyData.map((day, index) => (
+          {listDays.map(({ date, summary: day }, index) => day ? (
             <div key={day.id || day.date || index} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
               <div className="flex justify-between items-start">
                 <div className="flex-1">
                   <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-semibold text-gray-900">{formatDate(day.date)}</h4>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-900">{formatDate(day.date)}</h4>
+                      {renderSyncBadge(day.date)}
+                    </div>
                     <div className="text-right">
                       <p className="text-xl font-bold text-blue-600">{day.ontime_rate}%</p>
                       <p className="text-xs text-gray-500">on-time rate</p>
@@ -148,6 +310,14 @@ export const DailySummaryTab: React.FC<DailySummaryTabProps> = ({
                 </div>
               </div>
             </div>
+          ) : (
+            <div key={date} className="border border-dashed rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <h4 className="font-semibold text-gray-900">{formatDate(date)}</h4>
+                {renderSyncBadge(date)}
+              </div>
+              <p className="text-sm text-gray-500">No attendance summary for this day</p>
+            </div>
           ))}
         </div>
         
@@ -155,7 +325,7 @@ export const DailySummaryTab: React.FC<DailySummaryTabProps> = ({
         {dailyData.length >= 10 && (
           <div className="mt-4 text-center">
             <p className="text-sm text-gray-500">
-              Showing {dailyData.length} most recent days
+              {dailyRange ? `Showing ${dailyData.length} days in range` : `Showing ${dailyData.length} most recent days`}
             </p>
           </div>
         )}
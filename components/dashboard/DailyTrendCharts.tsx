@@ -0,0 +1,88 @@
+// components/dashboard/DailyTrendCharts.tsx
+// 📈 Daily trend charts - on-time rate and headcount over time, plus the check-in categories per day
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ChartSeries } from '../../lib/types';
+import { useAttendanceData } from '../../hooks/useAttendanceData';
+import { getDailyTrend } from '../../lib/charts';
+import { formatShortDate } from '../../lib/formatters';
+import { LineChart } from '../charts/LineChart';
+import { StackedBarChart } from '../charts/StackedBarChart';
+import { CHART_CONFIG, VALIDATION_RULES } from '../../constants/config';
+
+export const DailyTrendCharts: React.FC = () => {
+  // Own copy of the summaries - the tab list is capped at the default page size, the charts need the longest range
+  const { dailyData, loading, error, loadDailyData } = useAttendanceData();
+  const [rangeDays, setRangeDays] = useState<number>(CHART_CONFIG.defaultRangeDays);
+
+  useEffect(() => {
+    loadDailyData(VALIDATION_RULES.api.maxLimit);
+  }, [loadDailyData]);
+
+  const trend = useMemo(() => getDailyTrend(dailyData, rangeDays), [dailyData, rangeDays]);
+  const labels = trend.map(day => formatShortDate(day.date));
+  const colors = CHART_CONFIG.colors;
+
+  const lineSeries: ChartSeries[] = [
+    {
+      label: 'On-time Rate',
+      color: colors[1],
+      values: trend.map(day => Number(day.ontime_rate) || 0),
+      formatValue: value => `${value}%`
+    },
+    {
+      label: 'Employees Present',
+      color: colors[0],
+      values: trend.map(day => day.total_employees_present || 0),
+      axis: 'right'
+    }
+  ];
+
+  // Stacked in check-in order, coloured like the summary cards below
+  const categorySeries: ChartSeries[] = [
+    { label: 'Early', color: colors[0], values: trend.map(day => day.early_count || 0) },
+    { label: 'On-time', color: colors[1], values: trend.map(day => day.ontime_count || 0) },
+    { label: 'Acceptable', color: colors[2], values: trend.map(day => day.acceptable_count || 0) },
+    { label: 'Late', color: colors[3], values: trend.map(day => day.late_count || 0) }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-gray-900">📈 Attendance Trends</h3>
+        <select
+          value={rangeDays}
+          onChange={(e) => setRangeDays(Number(e.target.value))}
+          className="border border-gray-300 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {CHART_CONFIG.rangeOptions.map(days => (
+            <option key={days} value={days}>Last {days} days</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && trend.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-700">Error loading trends: {error}</p>
+      ) : trend.length < 2 ? (
+        <p className="text-sm text-gray-500">Not enough daily summaries in this range to draw a trend.</p>
+      ) : (
+        <>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">On-time Rate &amp; Headcount</h4>
+            <LineChart labels={labels} series={lineSeries} leftMax={100} />
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Check-in Categories per Day</h4>
+            <StackedBarChart labels={labels} series={categorySeries} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
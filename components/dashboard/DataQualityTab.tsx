@@ -0,0 +1,225 @@
+// components/dashboard/DataQualityTab.tsx
+// 🩺 Data Quality Tab Component - records whose times or hours cannot be trusted, by date and employee
+
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { Employee, OrgFilter, RecordAnomalyType } from '../../lib/types';
+import { formatDate, formatHours, formatTime } from '../../lib/formatters';
+import { addDays, getToday } from '../../lib/holidays';
+import { useDataQuality } from '../../hooks/useDataQuality';
+import { DATA_QUALITY_CONFIG, VALIDATION_RULES } from '../../constants/config';
+
+const RANGE_PRESETS = [7, DATA_QUALITY_CONFIG.defaultRangeDays, 90]; // days up to today
+const ANOMALY_TYPES = Object.keys(DATA_QUALITY_CONFIG.anomalyTypes) as RecordAnomalyType[];
+
+interface DataQualityTabProps {
+  employees: Employee[];
+  orgFilter: OrgFilter;
+}
+
+export const DataQualityTab: React.FC<DataQualityTabProps> = ({ employees, orgFilter }) => {
+  const { report, loading, error, loadReport } = useDataQuality();
+
+  // Local state
+  const [endDate, setEndDate] = useState(getToday);
+  const [startDate, setStartDate] = useState(() => addDays(getToday(), -(DATA_QUALITY_CONFIG.defaultRangeDays - 1)));
+  const [empCode, setEmpCode] = useState('');
+  const [typeFilter, setTypeFilter] = useState<RecordAnomalyType | null>(null);
+  const lastQuery = useRef({ startDate, endDate, empCode: undefined as string | undefined });
+
+  // Load the default range for everyone on open, and the last query again when the filter changes
+  useEffect(() => {
+    const { startDate: start, endDate: end, empCode: code } = lastQuery.current;
+    loadReport(start, end, code, orgFilter);
+  }, [orgFilter, loadReport]);
+
+  const handleLoad = useCallback((start: string = startDate, end: string = endDate) => {
+    lastQuery.current = { startDate: start, endDate: end, empCode: empCode || undefined };
+    loadReport(start, end, lastQuery.current.empCode, orgFilter);
+  }, [startDate, endDate, empCode, orgFilter, loadReport]);
+
+  const handlePreset = useCallback((days: number) => {
+    const end = getToday();
+    const start = addDays(end, -(days - 1));
+    setStartDate(start);
+    setEndDate(end);
+    handleLoad(start, end);
+  }, [handleLoad]);
+
+  const anomalies = report
+    ? report.anomalies.filter(anomaly => !typeFilter || anomaly.types.includes(typeFilter))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Period and Employee */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-bold text-gray-900">🩺 Data Quality</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Records listed here are left out of hours totals until an approved correction fixes their times.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Employee</label>
+            <select
+              value={empCode}
+              onChange={(e) => setEmpCode(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All employees</option>
+              {employees.map(emp => (
+                <option key={emp.emp_code} value={emp.emp_code}>
+                  {emp.name} ({emp.emp_code})
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => handleLoad()}
+            disabled={loading || !startDate || !endDate}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+          >
+            {loading ? '⏳ Loading...' : '🔍 Check Records'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {RANGE_PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => handlePreset(days)}
+              disabled={loading}
+              className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              Last {days} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Checking records...</p>
+        </div>
+      ) : report && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="mb-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              {formatDate(report.startDate)} - {formatDate(report.endDate)}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {report.anomalies.length} of {report.recordsChecked} check-in records have a problem
+              {report.empCode && ` for employee ${report.empCode}`}.
+            </p>
+          </div>
+
+          {/* Anomaly Type Cards - click to filter */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {ANOMALY_TYPES.map(type => {
+              const config = DATA_QUALITY_CONFIG.anomalyTypes[type];
+              const active = typeFilter === type;
+              return (
+                <button
+                  key={type}
+                  onClick={() => setTypeFilter(active ? null : type)}
+                  className={`p-4 rounded-lg text-center transition-colors ${active ? 'bg-orange-100 ring-2 ring-orange-300' : 'bg-orange-50 hover:bg-orange-100'}`}
+                  title={config.description}
+                >
+                  <p className="text-2xl font-bold text-orange-600">{report.counts[type]}</p>
+                  <p className="text-sm text-orange-800">{config.icon} {config.label}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Anomalies Table */}
+          {anomalies.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Date', 'Employee', 'Problem', 'Check-in', 'Check-out', 'Hours', 'Punches'].map(label => (
+                      <th key={label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {anomalies.map(anomaly => (
+                    <tr key={`${anomaly.emp_code}-${anomaly.date}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(anomaly.date)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{anomaly.name}</div>
+                        <div className="text-sm text-gray-500">
+                          Code: {anomaly.emp_code}{anomaly.department && ` · ${anomaly.department}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {anomaly.types.map(type => (
+                            <span
+                              key={type}
+                              className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                              title={DATA_QUALITY_CONFIG.anomalyTypes[type].description}
+                            >
+                              {DATA_QUALITY_CONFIG.anomalyTypes[type].icon} {DATA_QUALITY_CONFIG.anomalyTypes[type].label}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatTime(anomaly.check_in)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatTime(anomaly.check_out)}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${anomaly.types.includes('excessive_hours') ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                        {anomaly.work_hours != null ? formatHours(anomaly.work_hours) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{anomaly.total_punches ?? '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-gray-500">
+                {typeFilter
+                  ? `No ${DATA_QUALITY_CONFIG.anomalyTypes[typeFilter].label.toLowerCase()} records in this period.`
+                  : '✅ Every record in this period has usable times and hours.'}
+              </p>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 mt-4">
+            Hours over {VALIDATION_RULES.attendance.maxWorkHours}h in a day are flagged. A check-in today without a check-out is not flagged until the day is over.
+            Fix a record with an attendance correction.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
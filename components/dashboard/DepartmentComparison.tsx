@@ -0,0 +1,207 @@
+// components/dashboard/DepartmentComparison.tsx
+// 🏢 Department Comparison - attendance and on-time rates by department, by manager and per day
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { AttendanceRollup, OrgFilter } from '../../lib/types';
+import { formatDate } from '../../lib/formatters';
+import { useDepartmentReport } from '../../hooks/useDepartmentReport';
+import { DEPARTMENT_CONFIG } from '../../constants/config';
+
+type ComparisonView = 'departments' | 'managers';
+
+const getRateColor = (rate: number): string =>
+  rate >= DEPARTMENT_CONFIG.rateThresholds.good ? 'text-green-600' :
+  rate >= DEPARTMENT_CONFIG.rateThresholds.fair ? 'text-yellow-600' : 'text-red-600';
+
+const RollupCells: React.FC<{ rollup: AttendanceRollup }> = ({ rollup }) => (
+  <>
+    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{rollup.employees}</td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm">
+      <div className={`font-medium ${getRateColor(rollup.attendanceRate)}`}>{rollup.attendanceRate}%</div>
+      <div className="text-xs text-gray-500">{rollup.presentDays}/{rollup.expectedDays} days</div>
+    </td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm">
+      <div className={`font-medium ${getRateColor(rollup.onTimeRate)}`}>{rollup.onTimeRate}%</div>
+      <div className="text-xs text-gray-500">{rollup.onTimeDays}/{rollup.syncedDays} check-ins</div>
+    </td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm text-red-600">{rollup.lateDays}</td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{rollup.absentDays}</td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm text-blue-600">{rollup.leaveDays}</td>
+    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{rollup.totalHours}h</td>
+  </>
+);
+
+const ROLLUP_HEADERS = ['Employees', 'Attendance', 'On-time', 'Late Days', 'Absent Days', 'Leave Days', 'Hours'];
+
+interface DepartmentComparisonProps {
+  startDate: string;
+  endDate: string;
+  orgFilter: OrgFilter;
+}
+
+export const DepartmentComparison: React.FC<DepartmentComparisonProps> = ({ startDate, endDate, orgFilter }) => {
+  const { report, loading, error, loadReport } = useDepartmentReport();
+  const [view, setView] = useState<ComparisonView>('departments');
+
+  useEffect(() => {
+    if (startDate && endDate) loadReport(startDate, endDate, orgFilter);
+  }, [startDate, endDate, orgFilter, loadReport]);
+
+  const dayDepartments = report ? report.departments.map(dept => dept.department) : [];
+  const dates = report ? Array.from(new Set(report.days.map(day => day.date))) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">🏢 Attendance by Department</h3>
+            <p className="text-sm text-gray-500">
+              {formatDate(startDate)} to {formatDate(endDate)} - from the employee records, so absences and leave are included
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setView('departments')}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                view === 'departments' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              🏢 By Department
+            </button>
+            <button
+              onClick={() => setView('managers')}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                view === 'managers' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              🌳 By Manager
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {loading && !report ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading department report...</p>
+          </div>
+        ) : report && report.total.employees === 0 ? (
+          <p className="text-gray-600 text-center py-8">No employee records in this period.</p>
+        ) : report && (
+          <div className={`overflow-x-auto ${loading ? 'opacity-50' : ''}`}>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {view === 'departments' ? 'Department' : 'Manager and Team'}
+                  </th>
+                  {ROLLUP_HEADERS.map(header => (
+                    <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {view === 'departments' ? report.departments.map(dept => (
+                  <tr key={dept.department} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{dept.department}</td>
+                    <RollupCells rollup={dept} />
+                  </tr>
+                )) : report.managers.length === 0 ? (
+                  <tr>
+                    <td colSpan={ROLLUP_HEADERS.length + 1} className="px-4 py-6 text-center text-sm text-gray-500">
+                      Nobody has a manager in the employee directory yet - set &quot;Reports To&quot; in the Directory tab.
+                    </td>
+                  </tr>
+                ) : report.managers.map(manager => (
+                  <tr key={manager.emp_code} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap" style={{ paddingLeft: `${1 + manager.depth * 1.5}rem` }}>
+                      <div className="text-sm font-medium text-gray-900">
+                        {manager.depth > 0 && <span className="text-gray-400">└ </span>}
+                        {manager.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {manager.department || DEPARTMENT_CONFIG.unassignedLabel} · {manager.directReports} direct, team of {manager.teamSize}
+                      </div>
+                    </td>
+                    <RollupCells rollup={manager} />
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">Total</td>
+                  <RollupCells rollup={report.total} />
+                </tr>
+              </tfoot>
+            </table>
+            {view === 'managers' && (
+              <p className="mt-2 text-xs text-gray-500">
+                Each manager&apos;s row covers them and everyone reporting up to them, so a team can span departments and is counted again in the rows above it.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Daily Stats by Department */}
+      {report && dates.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-1">📅 Daily by Department</h3>
+          <p className="text-sm text-gray-500 mb-4">On-time rate, with employees present out of those expected.</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  {dayDepartments.map(department => (
+                    <th key={department} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {department}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {dates.map(date => (
+                  <tr key={date} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{formatDate(date)}</td>
+                    {dayDepartments.map(department => {
+                      const day = report.days.find(entry => entry.date === date && entry.department === department);
+                      return (
+                        <td key={department} className="px-4 py-3 whitespace-nowrap text-sm">
+                          {day && day.syncedDays > 0 ? (
+                            <>
+                              <div className={`font-medium ${getRateColor(day.onTimeRate)}`}>{day.onTimeRate}%</div>
+                              <div className="text-xs text-gray-500">
+                                {day.presentDays}/{day.expectedDays} present{day.lateDays > 0 && `, ${day.lateDays} late`}
+                              </div>
+                            </>
+                          ) : day ? (
+                            <div className="text-xs text-gray-500">
+                              {day.presentDays}/{day.expectedDays} present{day.leaveDays > 0 && `, ${day.leaveDays} on leave`}
+                            </div>
+                          ) : (
+                            <span className="text-gray-300">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
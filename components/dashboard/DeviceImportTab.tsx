@@ -0,0 +1,270 @@
+// components/dashboard/DeviceImportTab.tsx
+// 📥 Device Import Tab Component - load terminal log files when the sync service is down
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import type { DeviceImportDay, DeviceLogParseResult } from '../../lib/types';
+import { formatDate, formatHours, formatTime } from '../../lib/formatters';
+import { checkDeviceLogFile, getParsedPunches, parseDeviceLog } from '../../lib/deviceImport';
+import { getPunchClockTime, getPunchDate } from '../../lib/punches';
+import { useDeviceImport } from '../../hooks/useDeviceImport';
+import { PUNCH_CONFIG, UPLOAD_CONFIG } from '../../constants/config';
+
+const MAX_PREVIEW_LINES = 500;
+
+const DayTable: React.FC<{ days: DeviceImportDay[] }> = ({ days }) => (
+  <div className="overflow-x-auto max-h-96 overflow-y-auto border rounded-lg">
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50 sticky top-0">
+        <tr>
+          {['Date', 'Employee', 'In', 'Out', 'Hours', 'Punches', 'Action'].map(label => (
+            <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {days.map(day => (
+          <tr key={`${day.emp_code}-${day.date}`} className={day.action === 'skip' ? 'bg-gray-50 text-gray-500' : 'text-gray-900'}>
+            <td className="px-4 py-2 whitespace-nowrap">{formatDate(day.date)}</td>
+            <td className="px-4 py-2 whitespace-nowrap">{day.name} <span className="text-gray-400">({day.emp_code})</span></td>
+            <td className="px-4 py-2 whitespace-nowrap">{formatTime(day.check_in)}</td>
+            <td className="px-4 py-2 whitespace-nowrap">{day.check_out ? formatTime(day.check_out) : '-'}</td>
+            <td className="px-4 py-2 whitespace-nowrap">{day.work_hours != null ? formatHours(day.work_hours) : '-'}</td>
+            <td className="px-4 py-2 whitespace-nowrap">{day.total_punches}</td>
+            <td className="px-4 py-2">
+              {day.action === 'insert' ? (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">➕ New record</span>
+              ) : (
+                <span className="text-xs" title={day.reason || undefined}>⏭️ {day.reason}</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const DeviceImportTab: React.FC = () => {
+  const { preview, result, loading, error, checkImport, runImport, reset } = useDeviceImport();
+  const [deviceId, setDeviceId] = useState('');
+  const [filename, setFilename] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [parsed, setParsed] = useState<DeviceLogParseResult | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const { punches, names } = parsed ? getParsedPunches(parsed) : { punches: [], names: {} };
+  const invalidLines = parsed ? parsed.lines.filter(line => line.error) : [];
+  const shownLines = (errorsOnly ? invalidLines : parsed?.lines || []).slice(0, MAX_PREVIEW_LINES);
+  const newDays = preview ? preview.days.filter(day => day.action === 'insert').length : 0;
+
+  // Parse the chosen file, then check its punches against the existing records
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFilename(file.name);
+    setErrorsOnly(false);
+
+    const problem = checkDeviceLogFile(file);
+    setFileError(problem || '');
+    if (problem) {
+      setParsed(null);
+      return;
+    }
+
+    const parseResult = parseDeviceLog(await file.text(), deviceId);
+    setParsed(parseResult);
+
+    const valid = getParsedPunches(parseResult);
+    if (valid.punches.length > 0) await checkImport(valid.punches, valid.names);
+  }, [deviceId, reset, checkImport]);
+
+  const handleImport = useCallback(async () => {
+    if (punches.length === 0) return;
+    const { error: importError } = await runImport(punches, names);
+    if (!importError) setParsed(null);
+  }, [punches, names, runImport]);
+
+  return (
+    <div className="space-y-6">
+      {/* File Picker */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-bold text-gray-900">📥 Device Import</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Load an attendance log exported from a terminal (attlog.dat, or a CSV with user id and date/time columns)
+          when the sync service has missed days. Days that already have a record are left alone.
+        </p>
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Device ID (optional)</label>
+            <input
+              type="text"
+              placeholder="e.g. FRONT-01"
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Log file</label>
+            <input
+              type="file"
+              accept={UPLOAD_CONFIG.deviceLogExtensions.join(',')}
+              onChange={handleFileChange}
+              disabled={loading}
+              className="block text-sm text-gray-600"
+            />
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          {UPLOAD_CONFIG.deviceLogExtensions.join(', ')} files up to {Math.round(UPLOAD_CONFIG.maxFileSize / 1024 / 1024)}MB.
+          The device ID is used for lines without a device column.
+        </p>
+        {fileError && <p className="mt-2 text-sm text-red-600">⚠️ {fileError}</p>}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Parsed Lines */}
+      {parsed && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-3">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <h4 className="font-semibold text-gray-900">📄 {filename}</h4>
+              <p className="text-sm text-gray-600">
+                {parsed.lines.length} line{parsed.lines.length === 1 ? '' : 's'} read as {parsed.format === 'csv' ? 'CSV with a header' : 'attlog'} -
+                {' '}{punches.length} punch{punches.length === 1 ? '' : 'es'},{' '}
+                <span className={invalidLines.length > 0 ? 'text-red-600 font-medium' : ''}>
+                  {invalidLines.length} line{invalidLines.length === 1 ? '' : 's'} with errors
+                </span>
+              </p>
+            </div>
+            {invalidLines.length > 0 && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={errorsOnly}
+                  onChange={(e) => setErrorsOnly(e.target.checked)}
+                  className="mr-2"
+                />
+                Errors only
+              </label>
+            )}
+          </div>
+
+          {parsed.errors.map(message => (
+            <p key={message} className="text-sm text-red-600">⚠️ {message}</p>
+          ))}
+
+          {shownLines.length > 0 && (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto border rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    {['Line', 'Employee', 'Date', 'Time', 'Direction', 'Device', 'Problem'].map(label => (
+                      <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {shownLines.map(line => (
+                    <tr key={line.line} className={line.error ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-1 whitespace-nowrap text-gray-500">{line.line}</td>
+                      {line.punch ? (
+                        <>
+                          <td className="px-4 py-1 whitespace-nowrap text-gray-900">
+                            {line.punch.emp_code}{line.name && <span className="text-gray-500"> - {line.name}</span>}
+                          </td>
+                          <td className="px-4 py-1 whitespace-nowrap text-gray-900">{formatDate(getPunchDate(line.punch))}</td>
+                          <td className="px-4 py-1 whitespace-nowrap text-gray-900">{formatTime(getPunchClockTime(line.punch))}</td>
+                          <td className="px-4 py-1 whitespace-nowrap text-gray-600">
+                            {PUNCH_CONFIG.directions[line.punch.direction].icon} {PUNCH_CONFIG.directions[line.punch.direction].label}
+                          </td>
+                          <td className="px-4 py-1 whitespace-nowrap text-gray-600">{line.punch.device_id || '-'}</td>
+                          <td className="px-4 py-1"></td>
+                        </>
+                      ) : (
+                        <td colSpan={6} className="px-4 py-1 text-red-700">
+                          <code className="text-xs text-gray-500 mr-2">{line.raw.trim()}</code>
+                          {line.error}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {(errorsOnly ? invalidLines.length : parsed.lines.length) > MAX_PREVIEW_LINES && (
+            <p className="text-xs text-gray-500">Showing the first {MAX_PREVIEW_LINES} lines.</p>
+          )}
+        </div>
+      )}
+
+      {/* Import Plan */}
+      {loading && !preview && !result && parsed && (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Checking against existing records...</p>
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-3">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <h4 className="font-semibold text-gray-900">🔍 Import Preview</h4>
+              <p className="text-sm text-gray-600">
+                {newDays} new employee-day{newDays === 1 ? '' : 's'} to insert, {preview.skipped} skipped.
+                All {punches.length} punches are stored for the punch timeline.
+              </p>
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={loading || punches.length === 0}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              {loading ? '⏳ Importing...' : `📥 Import ${newDays} Day${newDays === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          <DayTable days={preview.days} />
+        </div>
+      )}
+
+      {/* Import Result */}
+      {result && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-3">
+          <h4 className="font-semibold text-gray-900">✅ Import Complete</h4>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-green-50 p-3 rounded text-center">
+              <p className="text-2xl font-bold text-green-600">{result.inserted}</p>
+              <p className="text-sm text-green-800">Days Inserted</p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded text-center">
+              <p className="text-2xl font-bold text-gray-600">{result.skipped}</p>
+              <p className="text-sm text-gray-800">Days Skipped</p>
+            </div>
+            <div className="bg-blue-50 p-3 rounded text-center">
+              <p className="text-2xl font-bold text-blue-600">{result.punchesSaved}</p>
+              <p className="text-sm text-blue-800">Punches Stored</p>
+            </div>
+          </div>
+          <DayTable days={result.days} />
+          <p className="text-xs text-gray-500">Use Refresh at the top to see the new records in the other tabs.</p>
+        </div>
+      )}
+    </div>
+  );
+};
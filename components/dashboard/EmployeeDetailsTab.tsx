@@ -3,11 +3,21 @@
 
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import type { DailySummary, EmployeeRecord } from '../../lib/types';
-import { formatDate, formatTime } from '../../lib/formatters';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { DailySummary, Employee, EmployeeRecord, CategoryCheck, ResolvedShift, WorkTimeBreakdown, UseEmployeeDataReturn } from '../../lib/types';
+import { formatDate, formatMinutes, formatTime } from '../../lib/formatters';
 import { getStatusColor, getCategoryColor } from '../../lib/utils';
+import { getRecordDayKind } from '../../lib/attendanceCalendar';
+import { getLeaveType } from '../../lib/leave';
+import { detectRecordAnomalies } from '../../lib/dataQuality';
+import { groupByDepartment } from '../../lib/departments';
 import { useDataExport } from '../../hooks/useDataExport';
+import { usePunchTimelines } from '../../hooks/usePunchTimelines';
+import { EMPTY_WORK_TIME } from '../../lib/workTime';
+import { CorrectionNote } from './CorrectionNote';
+import { WorkTimeCells, WORK_TIME_HEADERS } from './WorkTimeCells';
+import { PunchTimelineDetails } from './PunchTimelineDetails';
+import { DATA_QUALITY_CONFIG } from '../../constants/config';
 
 interface EmployeeDetailsTabProps {
   dailyData: DailySummary[];
@@ -19,6 +29,7 @@ interface EmployeeDetailsTabProps {
     totalEmployees: number;
     presentCount: number;
     absentCount: number;
+    leaveCount: number;
     onTimeCount: number;
     lateCount: number;
     earlyCount: number;
@@ -26,7 +37,15 @@ interface EmployeeDetailsTabProps {
     attendanceRate: number;
     onTimeRate: number;
   };
+  workHoursStats: ReturnType<UseEmployeeDataReturn['getWorkHoursStats']>;
+  employees: Employee[]; // departments for grouping
+  getAttendanceStats: UseEmployeeDataReturn['getAttendanceStats'];
+  getWorkHoursStats: UseEmployeeDataReturn['getWorkHoursStats'];
   onDateChange: (date: string) => void;
+  checkRecordCategory: (record: EmployeeRecord) => CategoryCheck;
+  getShiftFor: (empCode: string, date: string) => ResolvedShift;
+  getWorkTime: (record: EmployeeRecord) => WorkTimeBreakdown;
+  getLateMinutes: (record: EmployeeRecord) => number;
 }
 
 export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
@@ -36,22 +55,43 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
   loading,
   error,
   attendanceStats,
-  onDateChange
+  workHoursStats,
+  employees,
+  getAttendanceStats,
+  getWorkHoursStats,
+  onDateChange,
+  checkRecordCategory,
+  getShiftFor,
+  getWorkTime,
+  getLateMinutes
 }) => {
   const { exporting, exportData } = useDataExport();
+  const { timelines, loadPunches } = usePunchTimelines();
   
   // Local state for UI
   const [showAllEmployees, setShowAllEmployees] = useState(false);
   const [employeeSearchTerm, setEmployeeSearchTerm] = useState('');
+  const [showAbsentOnly, setShowAbsentOnly] = useState(false);
+  const [expandedEmployee, setExpandedEmployee] = useState<string | null>(null);
+  const [groupByDept, setGroupByDept] = useState(false);
 
-  // Filter employees based on search term
+  // Punches are loaded per day, next to the records
+  useEffect(() => {
+    if (selectedDate) loadPunches(selectedDate);
+  }, [selectedDate, loadPunches]);
+
+  // Filter employees based on search term and the absent-only toggle
   const filteredEmployees = employeeRecords.filter(employee => 
-    employee.name.toLowerCase().includes(employeeSearchTerm.toLowerCase()) ||
-    employee.emp_code.toLowerCase().includes(employeeSearchTerm.toLowerCase())
+    (employee.name.toLowerCase().includes(employeeSearchTerm.toLowerCase()) ||
+    employee.emp_code.toLowerCase().includes(employeeSearchTerm.toLowerCase())) &&
+    (!showAbsentOnly || getRecordDayKind(employee) === 'absent')
   );
 
-  const displayedEmployees = showAllEmployees ? filteredEmployees : filteredEmployees.slice(0, 10);
+  // Grouped by department every row is shown, each department with its own subtotals
+  const displayedEmployees = showAllEmployees || groupByDept ? filteredEmployees : filteredEmployees.slice(0, 10);
+  const departmentGroups = groupByDept ? groupByDepartment(filteredEmployees, employees) : [];
   const remainingCount = filteredEmployees.length - displayedEmployees.length;
+  const mismatchCount = employeeRecords.filter(record => checkRecordCategory(record).mismatch).length;
 
   // Handle date change
   const handleDateChange = useCallback((date: string) => {
@@ -59,6 +99,8 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
     // Reset UI states when date changes
     setShowAllEmployees(false);
     setEmployeeSearchTerm('');
+    setShowAbsentOnly(false);
+    setExpandedEmployee(null);
   }, [onDateChange]);
 
   if (loading) {
@@ -78,6 +120,130 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
     );
   }
 
+  // One employee's row, and their punch timeline when expanded - shared by the flat and grouped tables
+  const renderEmployeeRow = (employee: EmployeeRecord, index: number) => {
+    if (employee.synthesized) {
+      return (
+        <tr key={employee.emp_code || index} className={employee.leave_type ? 'bg-blue-50' : 'bg-red-50'}>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="text-sm font-medium text-gray-900">
+              {employee.name || 'Unknown'}
+            </div>
+            <div className="text-sm text-gray-500">
+              Code: {employee.emp_code}
+            </div>
+          </td>
+          <td colSpan={2} className={`px-6 py-4 whitespace-nowrap text-sm ${employee.leave_type ? 'text-blue-700' : 'text-red-700'}`}>
+            {employee.leave_type
+              ? `${employee.status === 'WFH' ? '🏠' : '🌴'} ${getLeaveType(employee.leave_type).name}`
+              : '❌ No attendance recorded'}
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(employee.status)}`}>
+              {employee.status}
+            </span>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">N/A</td>
+          <WorkTimeCells workTime={EMPTY_WORK_TIME} />
+        </tr>
+      );
+    }
+
+    const categoryCheck = checkRecordCategory(employee);
+    const shift = getShiftFor(employee.emp_code, employee.date);
+    const anomalies = detectRecordAnomalies(employee);
+    const lateMinutes = getLateMinutes(employee);
+    const timeline = timelines[String(employee.emp_code).trim()];
+    const isExpanded = !!timeline && expandedEmployee === employee.emp_code;
+    return (
+      <React.Fragment key={employee.emp_code || index}>
+        {/* Main Employee Row */}
+        <tr className="hover:bg-gray-50">
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="text-sm font-medium text-gray-900">
+              {employee.name || 'Unknown'}
+            </div>
+            <div className="text-sm text-gray-500">
+              Code: {employee.emp_code}
+            </div>
+            {shift.source !== 'default' && (
+              <div className="text-xs text-indigo-600">🕘 {shift.name}</div>
+            )}
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <span className={`text-sm font-medium ${getCategoryColor(categoryCheck.computed).replace('bg-', '').replace('50', '700')}`}>
+              {formatTime(employee.check_in)}
+            </span>
+            {lateMinutes > 0 && (
+              <div className="text-xs text-red-600">{formatMinutes(lateMinutes)} late</div>
+            )}
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+            {formatTime(employee.check_out)}
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="space-y-1">
+              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(employee.status)}`}>
+                {employee.status || 'N/A'}
+              </span>
+              {categoryCheck.computed !== 'N/A' && (
+                <div className="mt-1">
+                  <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(categoryCheck.computed)}`}>
+                    {categoryCheck.computed}
+                  </span>
+                </div>
+              )}
+              {categoryCheck.mismatch && (
+                <div className="text-xs text-orange-600" title="The synced category differs from the one computed for this employee's shift">
+                  ⚠️ Synced as {categoryCheck.stored}
+                </div>
+              )}
+              <CorrectionNote record={employee} />
+            </div>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+            <div className="space-y-1">
+              <div>{employee.work_hours ? `${Math.round(employee.work_hours * 10) / 10}h` : 'N/A'}</div>
+              {timeline ? (
+                <button
+                  onClick={() => setExpandedEmployee(isExpanded ? null : employee.emp_code)}
+                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  {isExpanded ? '▼' : '▶'} {timeline.punches.length} punches
+                </button>
+              ) : employee.total_punches && (
+                <div className="text-xs text-gray-500">
+                  {employee.total_punches} punches
+                </div>
+              )}
+              {anomalies.map(type => (
+                <div key={type} className="text-xs text-orange-600" title={DATA_QUALITY_CONFIG.anomalyTypes[type].description}>
+                  {DATA_QUALITY_CONFIG.anomalyTypes[type].icon} {DATA_QUALITY_CONFIG.anomalyTypes[type].label}
+                </div>
+              ))}
+              {employee.hours_from_punches && !!employee.break_hours && (
+                <div className="text-xs text-gray-500" title="Hours are the paired punches, so time between an out and the next in is not counted">
+                  {Math.round(employee.break_hours * 10) / 10}h break excluded
+                </div>
+              )}
+            </div>
+          </td>
+          <WorkTimeCells workTime={getWorkTime(employee)} />
+        </tr>
+
+        {/* Punch Timeline Row */}
+        {isExpanded && (
+          <tr className="bg-gray-50">
+            <td colSpan={5 + WORK_TIME_HEADERS.length} className="px-6 py-4">
+              <PunchTimelineDetails timeline={timeline} />
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+
+  };
+
   return (
     <div className="space-y-6">
       {/* Date Selector */}
@@ -105,21 +271,41 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
             <h3 className="text-lg font-bold text-gray-900">
               👥 Employee Details for {formatDate(selectedDate)}
             </h3>
-            <button
-              onClick={() => exportData('employee', employeeRecords, undefined, selectedDate)}
-              disabled={exporting}
-              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
-            >
-              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportData('employee', employeeRecords, undefined, selectedDate)}
+                disabled={exporting}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+              </button>
+              <button
+                onClick={() => exportData('employee', employeeRecords, undefined, selectedDate, 'excel')}
+                disabled={exporting}
+                className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+              </button>
+            </div>
           </div>
           
           {/* Summary Stats */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
             <div className="bg-green-50 p-3 rounded-lg text-center">
               <p className="text-lg font-bold text-green-600">{attendanceStats.presentCount}</p>
               <p className="text-xs text-green-800">Present</p>
             </div>
+            <button
+              onClick={() => setShowAbsentOnly(!showAbsentOnly)}
+              className={`p-3 rounded-lg text-center transition-colors ${showAbsentOnly ? 'bg-red-100 ring-2 ring-red-300' : 'bg-red-50 hover:bg-red-100'}`}
+              title="Show only absent employees"
+            >
+              <p className="text-lg font-bold text-red-600">{attendanceStats.absentCount}</p>
+              <p className="text-xs text-red-800">Absent</p>
+              {attendanceStats.leaveCount > 0 && (
+                <p className="text-xs text-blue-600">+{attendanceStats.leaveCount} on leave</p>
+              )}
+            </button>
             <div className="bg-blue-50 p-3 rounded-lg text-center">
               <p className="text-lg font-bold text-blue-600">{attendanceStats.onTimeCount}</p>
               <p className="text-xs text-blue-800">On-time</p>
@@ -134,6 +320,42 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
             </div>
           </div>
 
+          {/* Work Time vs Shift - net of the lunch break */}
+          {workHoursStats.employeesWithHours > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-green-50 p-3 rounded-lg text-center">
+                <p className="text-lg font-bold text-green-600">+{workHoursStats.overtimeHours}h</p>
+                <p className="text-xs text-green-800">Overtime ({workHoursStats.overtimeCount} employees)</p>
+              </div>
+              <div className="bg-orange-50 p-3 rounded-lg text-center">
+                <p className="text-lg font-bold text-orange-600">-{workHoursStats.undertimeHours}h</p>
+                <p className="text-xs text-orange-800">Undertime ({workHoursStats.undertimeCount} employees)</p>
+              </div>
+              <div className="bg-red-50 p-3 rounded-lg text-center">
+                <p className="text-lg font-bold text-red-600">{workHoursStats.earlyLeaveMinutes}m</p>
+                <p className="text-xs text-red-800">Early Leave ({workHoursStats.earlyLeaveCount} employees)</p>
+              </div>
+              <div className="bg-gray-50 p-3 rounded-lg text-center">
+                <p className="text-lg font-bold text-gray-600">{workHoursStats.netHours}h</p>
+                <p className="text-xs text-gray-800">Net Hours ({workHoursStats.lunchDeductionHours}h lunch deducted)</p>
+              </div>
+            </div>
+          )}
+
+          {/* Data Quality Notice */}
+          {workHoursStats.flaggedRecords > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4 text-sm text-orange-800">
+              ⚠️ {workHoursStats.flaggedRecords} record{workHoursStats.flaggedRecords > 1 ? 's have' : ' has'} a missing check-out, a single punch or impossible hours. Their hours are left out of the totals until corrected.
+            </div>
+          )}
+
+          {/* Category Mismatch Notice */}
+          {mismatchCount > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4 text-sm text-orange-800">
+              ⚠️ {mismatchCount} record{mismatchCount > 1 ? 's have' : ' has'} a synced time category that differs from the assigned shift schedule. Statistics use the recomputed category.
+            </div>
+          )}
+
           {/* Search and Controls */}
           <div className="flex justify-between items-center mb-4">
             <div className="flex-1 max-w-md">
@@ -149,7 +371,7 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
               <span className="text-sm text-gray-600">
                 Showing {displayedEmployees.length} of {filteredEmployees.length} employees
               </span>
-              {filteredEmployees.length > 10 && (
+              {filteredEmployees.length > 10 && !groupByDept && (
                 <button
                   onClick={() => setShowAllEmployees(!showAllEmployees)}
                   className="text-blue-600 hover:text-blue-800 text-sm font-medium transition-colors"
@@ -157,6 +379,15 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
                   {showAllEmployees ? 'Show Less' : 'Show All'}
                 </button>
               )}
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={groupByDept}
+                  onChange={(e) => setGroupByDept(e.target.checked)}
+                  className="mr-2"
+                />
+                Group by department
+              </label>
             </div>
           </div>
 
@@ -180,59 +411,42 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Hours
                   </th>
+                  {WORK_TIME_HEADERS.map(header => (
+                    <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {displayedEmployees.map((employee, index) => (
-                  <tr key={employee.emp_code || index} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">
-                        {employee.name || 'Unknown'}
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        Code: {employee.emp_code}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`text-sm font-medium ${getCategoryColor(employee.time_category).replace('bg-', '').replace('50', '700')}`}>
-                        {formatTime(employee.check_in)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatTime(employee.check_out)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="space-y-1">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(employee.status)}`}>
-                          {employee.status || 'N/A'}
-                        </span>
-                        {employee.time_category && (
-                          <div className="mt-1">
-                            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(employee.time_category)}`}>
-                              {employee.time_category}
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      <div className="space-y-1">
-                        <div>{employee.work_hours ? `${Math.round(employee.work_hours * 10) / 10}h` : 'N/A'}</div>
-                        {employee.total_punches && (
-                          <div className="text-xs text-gray-500">
-                            {employee.total_punches} punches
-                          </div>
-                        )}
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                {groupByDept
+                  ? departmentGroups.map(group => {
+                      const groupStats = getAttendanceStats(group.rows);
+                      const groupHours = getWorkHoursStats(group.rows);
+                      return (
+                        <React.Fragment key={group.department}>
+                          <tr className="bg-gray-100">
+                            <td colSpan={5 + WORK_TIME_HEADERS.length} className="px-6 py-2 text-sm">
+                              <span className="font-semibold text-gray-900">🏢 {group.department}</span>
+                              <span className="text-gray-600">
+                                {' '}· {groupStats.presentCount} present, {groupStats.absentCount} absent
+                                {groupStats.leaveCount > 0 && `, ${groupStats.leaveCount} on leave`}
+                                {' '}· {groupStats.attendanceRate}% attendance, {groupStats.onTimeRate}% on time, {groupStats.lateCount} late
+                                {' '}· {groupHours.totalHours}h
+                              </span>
+                            </td>
+                          </tr>
+                          {group.rows.map(renderEmployeeRow)}
+                        </React.Fragment>
+                      );
+                    })
+                  : displayedEmployees.map(renderEmployeeRow)}
               </tbody>
             </table>
           </div>
 
           {/* Show All/Less Toggle at Bottom */}
-          {filteredEmployees.length > 10 && (
+          {filteredEmployees.length > 10 && !groupByDept && (
             <div className="mt-4 text-center">
               <button
                 onClick={() => setShowAllEmployees(!showAllEmployees)}
@@ -247,6 +461,12 @@ export const EmployeeDetailsTab: React.FC<EmployeeDetailsTabProps> = ({
           )}
 
           {/* No Results Message */}
+          {filteredEmployees.length === 0 && showAbsentOnly && !employeeSearchTerm && (
+            <div className="text-center py-8">
+              <p className="text-gray-500">Everyone expected to work on {formatDate(selectedDate)} has a record.</p>
+            </div>
+          )}
+
           {filteredEmployees.length === 0 && employeeSearchTerm && (
             <div className="text-center py-8">
               <p className="text-gray-500">No employees found matching "{employeeSearchTerm}"</p>
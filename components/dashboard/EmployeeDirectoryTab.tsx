@@ -0,0 +1,366 @@
+// components/dashboard/EmployeeDirectoryTab.tsx
+// 🗂️ Employee Directory Tab Component - master records and codes in the attendance records without one
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Employee, UserProfile } from '../../lib/types';
+import { formatDate } from '../../lib/formatters';
+import { getRoleDefinition } from '../../lib/access';
+import { getDepartments } from '../../lib/employeeDirectory';
+import { useEmployeeDirectory } from '../../hooks/useEmployeeDirectory';
+
+const EMPTY_EMPLOYEE: Employee = {
+  emp_code: '',
+  name: '',
+  department: '',
+  position: '',
+  hire_date: '',
+  manager_code: '',
+  is_active: true
+};
+
+interface EmployeeDirectoryTabProps {
+  profile: UserProfile;
+}
+
+export const EmployeeDirectoryTab: React.FC<EmployeeDirectoryTabProps> = ({ profile }) => {
+  const { employees, reconciliation, loading, error, loadDirectory, saveEmployee, setEmployeeActive, clearError } = useEmployeeDirectory();
+  const { canManageEmployees } = getRoleDefinition(profile.role);
+
+  // Local state
+  const [form, setForm] = useState<Employee>(EMPTY_EMPLOYEE);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  useEffect(() => {
+    loadDirectory();
+  }, [loadDirectory]);
+
+  const departments = getDepartments(employees);
+  const getName = (empCode?: string | null) =>
+    employees.find(emp => emp.emp_code === String(empCode ?? '').trim())?.name || empCode || '';
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredEmployees = employees.filter(emp =>
+    (showInactive || emp.is_active) &&
+    (!departmentFilter || emp.department === departmentFilter) &&
+    (!search || emp.name.toLowerCase().includes(search) || emp.emp_code.toLowerCase().includes(search) ||
+      (emp.position || '').toLowerCase().includes(search))
+  );
+  const inactiveCount = employees.filter(emp => !emp.is_active).length;
+  const managerOptions = employees.filter(emp => emp.is_active && emp.emp_code !== form.emp_code);
+
+  const openForm = useCallback((employee: Employee, code: string | null) => {
+    clearError();
+    setForm({ ...EMPTY_EMPLOYEE, ...employee });
+    setEditingCode(code);
+    setShowForm(true);
+  }, [clearError]);
+
+  const closeForm = useCallback(() => {
+    setForm(EMPTY_EMPLOYEE);
+    setEditingCode(null);
+    setShowForm(false);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    const result = await saveEmployee(form, editingCode === null);
+    if (!result.error) closeForm();
+  }, [form, editingCode, saveEmployee, closeForm]);
+
+  const unknownCount = reconciliation?.unknownCodes.length || 0;
+  const mismatchCount = reconciliation?.nameMismatches.length || 0;
+  const withoutRecordsCount = reconciliation?.withoutRecords.length || 0;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-start">
+          <p className="text-red-700">{error}</p>
+          <button onClick={clearError} className="text-red-600 hover:text-red-800 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      {/* Reconciliation with the attendance records */}
+      {reconciliation && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h3 className="text-lg font-bold text-gray-900">🔎 Directory vs Attendance Records</h3>
+          {unknownCount + mismatchCount + withoutRecordsCount === 0 && (
+            <p className="text-sm text-green-700">✅ Every code in the attendance records has a matching directory entry.</p>
+          )}
+
+          {unknownCount > 0 && (
+            <div>
+              <p className="text-sm font-medium text-red-700 mb-2">
+                ❓ {unknownCount} code{unknownCount > 1 ? 's' : ''} punched but {unknownCount > 1 ? 'have' : 'has'} no directory entry
+              </p>
+              <ul className="divide-y divide-gray-100 border rounded-lg">
+                {reconciliation.unknownCodes.map(code => (
+                  <li key={code.emp_code} className="flex flex-wrap justify-between items-center gap-2 px-4 py-2 text-sm">
+                    <span className="text-gray-900">
+                      <span className="font-medium">Code {code.emp_code}</span>
+                      {code.name && ` · ${code.name}`}
+                      <span className="text-gray-500">
+                        {' '}- {code.records} record{code.records > 1 ? 's' : ''}, {formatDate(code.firstSeen)} to {formatDate(code.lastSeen)}
+                      </span>
+                    </span>
+                    {canManageEmployees && (
+                      <button
+                        onClick={() => openForm({ ...EMPTY_EMPLOYEE, emp_code: code.emp_code, name: code.name }, null)}
+                        className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                      >
+                        ➕ Add to directory
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {mismatchCount > 0 && (
+            <div>
+              <p className="text-sm font-medium text-orange-700 mb-2">✏️ Names that differ from the latest record</p>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {reconciliation.nameMismatches.map(mismatch => (
+                  <li key={mismatch.emp_code}>
+                    Code {mismatch.emp_code}: <span className="font-medium">{mismatch.name}</span> in the directory,{' '}
+                    <span className="font-medium">{mismatch.recordName}</span> on the device
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {withoutRecordsCount > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">💤 Active employees without any attendance record</p>
+              <div className="flex flex-wrap gap-2">
+                {reconciliation.withoutRecords.map(emp => (
+                  <span key={emp.emp_code} className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700">
+                    {emp.name} ({emp.emp_code})
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Add / Edit Form */}
+      {canManageEmployees && showForm && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">
+            {editingCode === null ? '➕ Add Employee' : `✏️ Edit ${getName(editingCode)}`}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Employee Code (device user ID)</label>
+              <input
+                type="text"
+                value={form.emp_code}
+                onChange={(e) => setForm(prev => ({ ...prev, emp_code: e.target.value }))}
+                disabled={editingCode !== null}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Department</label>
+              <input
+                type="text"
+                list="directory-departments"
+                value={form.department || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, department: e.target.value }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <datalist id="directory-departments">
+                {departments.map(dept => <option key={dept} value={dept} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Position</label>
+              <input
+                type="text"
+                value={form.position || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, position: e.target.value }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Hire Date</label>
+              <input
+                type="date"
+                value={form.hire_date || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, hire_date: e.target.value }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Reports To</label>
+              <select
+                value={form.manager_code || ''}
+                onChange={(e) => setForm(prev => ({ ...prev, manager_code: e.target.value }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">No manager</option>
+                {managerOptions.map(emp => (
+                  <option key={emp.emp_code} value={emp.emp_code}>
+                    {emp.name} (Code: {emp.emp_code})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center text-sm text-gray-700 mt-3">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm(prev => ({ ...prev, is_active: e.target.checked }))}
+              className="mr-2"
+            />
+            Active - on the roster, expected to work and shown in reports
+          </label>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={handleSave}
+              disabled={loading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              {loading ? '⏳ Saving...' : '💾 Save Employee'}
+            </button>
+            <button
+              onClick={closeForm}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 text-sm transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Directory */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">🗂️ Employee Directory</h3>
+            <p className="text-sm text-gray-500">
+              {employees.length - inactiveCount} active{inactiveCount > 0 && `, ${inactiveCount} inactive`}
+            </p>
+          </div>
+          {canManageEmployees && !showForm && (
+            <button
+              onClick={() => openForm(EMPTY_EMPLOYEE, null)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm transition-colors"
+            >
+              ➕ Add Employee
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          <input
+            type="text"
+            placeholder="Search by name, code or position..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={departmentFilter}
+            onChange={(e) => setDepartmentFilter(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All departments</option>
+            {departments.map(dept => <option key={dept} value={dept}>{dept}</option>)}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="mr-2"
+            />
+            Show inactive employees
+          </label>
+        </div>
+
+        {loading && employees.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading directory...</p>
+          </div>
+        ) : filteredEmployees.length === 0 ? (
+          <p className="text-gray-600 text-center py-8">
+            {employees.length === 0 ? 'The directory is empty - add employees or use the unknown codes above.' : 'No employees match these filters.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Employee', 'Department', 'Position', 'Hire Date', 'Reports To', 'Status', ...(canManageEmployees ? ['Actions'] : [])].map(label => (
+                    <th key={label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredEmployees.map(emp => (
+                  <tr key={emp.emp_code} className={emp.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-500'}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{emp.name}</div>
+                      <div className="text-sm text-gray-500">Code: {emp.emp_code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{emp.department || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{emp.position || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{emp.hire_date ? formatDate(emp.hire_date) : '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{emp.manager_code ? getName(emp.manager_code) : '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        emp.is_active ? 'text-green-700 bg-green-50' : 'text-gray-600 bg-gray-100'
+                      }`}>
+                        {emp.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    {canManageEmployees && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                        <button
+                          onClick={() => openForm(emp, emp.emp_code)}
+                          disabled={loading}
+                          className="text-blue-600 hover:text-blue-800 text-xs transition-colors disabled:opacity-50"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => setEmployeeActive(emp.emp_code, !emp.is_active)}
+                          disabled={loading}
+                          className={`${emp.is_active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} text-xs transition-colors disabled:opacity-50`}
+                        >
+                          {emp.is_active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
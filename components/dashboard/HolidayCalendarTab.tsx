@@ -0,0 +1,279 @@
+// components/dashboard/HolidayCalendarTab.tsx
+// 🎉 Holiday Calendar Tab Component
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Holiday } from '../../lib/types';
+import { formatDate } from '../../lib/formatters';
+import { unique } from '../../lib/utils';
+import { parseHolidayFile } from '../../lib/holidays';
+import { useHolidays } from '../../hooks/useHolidays';
+import { useWorkSchedule } from '../../hooks/useWorkSchedule';
+import { UPLOAD_CONFIG, VALIDATION_RULES } from '../../constants/config';
+
+export const HolidayCalendarTab: React.FC = () => {
+  const { holidays, loading, error, loadHolidays, saveHolidays, deleteHoliday } = useHolidays();
+  const { schedule, loadSchedule } = useWorkSchedule();
+
+  // Local state
+  const [selectedYear, setSelectedYear] = useState(String(new Date().getFullYear()));
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '', department: '' });
+  const [formError, setFormError] = useState('');
+  const [importDepartment, setImportDepartment] = useState('');
+  const [importPreview, setImportPreview] = useState<Holiday[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importFilename, setImportFilename] = useState('');
+
+  useEffect(() => {
+    loadHolidays();
+    loadSchedule();
+  }, [loadHolidays, loadSchedule]);
+
+  const departments = unique(
+    schedule.employees.map(emp => emp.department).filter((dept): dept is string => !!dept)
+  ).sort();
+
+  const years = unique([selectedYear, ...holidays.map(holiday => holiday.date.slice(0, 4))]).sort().reverse();
+  const yearHolidays = holidays.filter(holiday => holiday.date.startsWith(selectedYear));
+
+  // Add a single holiday from the form
+  const handleAdd = useCallback(async () => {
+    const name = newHoliday.name.trim();
+    if (!VALIDATION_RULES.attendance.dateFormat.test(newHoliday.date)) {
+      setFormError('Please choose a date.');
+      return;
+    }
+    if (!name) {
+      setFormError('Please enter a holiday name.');
+      return;
+    }
+
+    setFormError('');
+    const result = await saveHolidays([{
+      date: newHoliday.date,
+      name,
+      department: newHoliday.department || null,
+      source: 'manual'
+    }]);
+    if (!result.error) {
+      setNewHoliday({ date: '', name: '', department: '' });
+    }
+  }, [newHoliday, saveHolidays]);
+
+  // Parse an uploaded ICS or JSON file into a preview
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImportFilename(file.name);
+    if (file.size > UPLOAD_CONFIG.maxFileSize) {
+      setImportPreview([]);
+      setImportErrors([`${file.name} is larger than ${Math.round(UPLOAD_CONFIG.maxFileSize / 1024 / 1024)}MB`]);
+      return;
+    }
+
+    const content = await file.text();
+    const result = parseHolidayFile(file.name, content, importDepartment || null);
+    setImportPreview(result.holidays);
+    setImportErrors(result.errors);
+  }, [importDepartment]);
+
+  // Save the previewed holidays
+  const handleImport = useCallback(async () => {
+    if (importPreview.length === 0) return;
+    const result = await saveHolidays(importPreview);
+    if (!result.error) {
+      setImportPreview([]);
+      setImportErrors([]);
+      setImportFilename('');
+    }
+  }, [importPreview, saveHolidays]);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Manual Entry */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">➕ Add Holiday</h3>
+          <div className="space-y-3">
+            <input
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              placeholder="Holiday name, e.g. National Day"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={newHoliday.department}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, department: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Company-wide</option>
+              {departments.map(dept => (
+                <option key={dept} value={dept}>{dept} only</option>
+              ))}
+            </select>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <button
+              onClick={handleAdd}
+              disabled={loading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              Add Holiday
+            </button>
+          </div>
+        </div>
+
+        {/* File Import */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">📥 Import Calendar</h3>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Upload an iCalendar (.ics) file or a JSON list of <code className="bg-gray-100 px-1 rounded">{'{ date, name, end_date?, department? }'}</code> entries.
+            </p>
+            <select
+              value={importDepartment}
+              onChange={(e) => setImportDepartment(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Apply to the whole company</option>
+              {departments.map(dept => (
+                <option key={dept} value={dept}>Apply to {dept} only</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".ics,.json,text/calendar,application/json"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-600"
+            />
+
+            {importErrors.length > 0 && (
+              <div className="bg-red-50 p-3 rounded-lg text-sm text-red-700 space-y-1">
+                {importErrors.map((message, index) => (
+                  <p key={index}>⚠️ {message}</p>
+                ))}
+              </div>
+            )}
+
+            {importPreview.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-700">
+                  {importPreview.length} holiday day{importPreview.length > 1 ? 's' : ''} found in {importFilename}
+                </p>
+                <ul className="max-h-40 overflow-y-auto text-sm text-gray-600 border rounded-lg divide-y">
+                  {importPreview.map(holiday => (
+                    <li key={`${holiday.date}-${holiday.name}`} className="px-3 py-1">
+                      {formatDate(holiday.date)} - {holiday.name}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={handleImport}
+                  disabled={loading}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+                >
+                  Import {importPreview.length} Holidays
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Holiday List */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-900">🎉 Holidays in {selectedYear}</h3>
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading && holidays.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading holidays...</p>
+          </div>
+        ) : yearHolidays.length === 0 ? (
+          <p className="text-gray-600">No holidays recorded for {selectedYear}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Holiday
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Applies To
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {yearHolidays.map(holiday => (
+                  <tr key={holiday.id || `${holiday.date}-${holiday.department}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{formatDate(holiday.date)}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(holiday.date).toLocaleDateString('en-US', { weekday: 'long' })}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {holiday.name}
+                      {holiday.source && holiday.source !== 'manual' && (
+                        <span className="ml-2 text-xs text-gray-400">({holiday.source.toUpperCase()})</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full text-purple-700 bg-purple-50">
+                        {holiday.department || 'Company-wide'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {holiday.id != null && (
+                        <button
+                          onClick={() => deleteHoliday(holiday.id!)}
+                          disabled={loading}
+                          className="text-red-600 hover:text-red-800 text-xs transition-colors disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+// components/dashboard/LatenessReportTab.tsx
+// ⏰ Lateness Report Tab Component - employees by total late minutes for a period, flagged against a monthly budget
+
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { CheckInThresholds, OrgFilter } from '../../lib/types';
+import { formatDate, formatMinutes, formatMonthYear, getCurrentMonth, getMonthDateRange } from '../../lib/formatters';
+import { useLatenessReport } from '../../hooks/useLatenessReport';
+import { useDataExport } from '../../hooks/useDataExport';
+import { LATENESS_CONFIG } from '../../constants/config';
+
+// YYYY-MM of the month `offset` months from the current one
+const getMonthFromNow = (offset: number): string => {
+  const [year, month] = getCurrentMonth().split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+const THRESHOLD_LABELS: Record<keyof CheckInThresholds, string> = {
+  earlyThreshold: 'early',
+  onTimeThreshold: 'on-time',
+  acceptableThreshold: 'acceptable'
+};
+
+const PERIOD_PRESETS = [
+  { label: 'This month', startMonth: 0, endMonth: 0 },
+  { label: 'Last month', startMonth: -1, endMonth: -1 },
+  { label: 'Last 3 months', startMonth: -2, endMonth: 0 }
+];
+
+interface LatenessReportTabProps {
+  orgFilter: OrgFilter;
+}
+
+export const LatenessReportTab: React.FC<LatenessReportTabProps> = ({ orgFilter }) => {
+  const { report, loading, error, loadReport } = useLatenessReport();
+  const { exporting, exportData } = useDataExport();
+
+  // Local state
+  const [startDate, setStartDate] = useState(() => getMonthDateRange(getCurrentMonth()).startDate);
+  const [endDate, setEndDate] = useState(() => getMonthDateRange(getCurrentMonth()).endDate);
+  const [budgetEnabled, setBudgetEnabled] = useState(LATENESS_CONFIG.monthlyBudgetMinutes !== null);
+  const [budgetMinutes, setBudgetMinutes] = useState(LATENESS_CONFIG.monthlyBudgetMinutes ?? 60);
+  const [showOverBudgetOnly, setShowOverBudgetOnly] = useState(false);
+  const lastQuery = useRef({
+    ...getMonthDateRange(getCurrentMonth()),
+    budget: LATENESS_CONFIG.monthlyBudgetMinutes as number | null
+  });
+
+  // Load the current month with the configured budget on open, and the last query again when the filter changes
+  useEffect(() => {
+    const { startDate: start, endDate: end, budget } = lastQuery.current;
+    loadReport(start, end, budget, orgFilter);
+  }, [orgFilter, loadReport]);
+
+  const handleLoad = useCallback((start: string = startDate, end: string = endDate) => {
+    lastQuery.current = { startDate: start, endDate: end, budget: budgetEnabled ? budgetMinutes : null };
+    loadReport(start, end, lastQuery.current.budget, orgFilter);
+  }, [startDate, endDate, budgetEnabled, budgetMinutes, orgFilter, loadReport]);
+
+  const handlePreset = useCallback((startMonth: number, endMonth: number) => {
+    const start = getMonthDateRange(getMonthFromNow(startMonth)).startDate;
+    const end = getMonthDateRange(getMonthFromNow(endMonth)).endDate;
+    setStartDate(start);
+    setEndDate(end);
+    handleLoad(start, end);
+  }, [handleLoad]);
+
+  const entries = report
+    ? report.entries.filter(entry => !showOverBudgetOnly || entry.overBudgetMonths.length > 0)
+    : [];
+  const overBudgetCount = report ? report.entries.filter(entry => entry.overBudgetMonths.length > 0).length : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Period and Budget */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-4">⏰ Lateness Report</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={budgetEnabled}
+                onChange={(e) => setBudgetEnabled(e.target.checked)}
+                className="mr-2"
+              />
+              Monthly budget (minutes)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={budgetMinutes}
+              disabled={!budgetEnabled}
+              onChange={(e) => setBudgetMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          <button
+            onClick={() => handleLoad()}
+            disabled={loading || !startDate || !endDate}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+          >
+            {loading ? '⏳ Loading...' : '🔍 Show Report'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {PERIOD_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => handlePreset(preset.startMonth, preset.endMonth)}
+              disabled={loading}
+              className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">
+                {formatDate(report.startDate)} - {formatDate(report.endDate)}
+              </h3>
+              <p className="text-sm text-gray-500">Minutes are counted past the {THRESHOLD_LABELS[report.measureFrom]} threshold of each shift.</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportData('lateness', entries, `${report.startDate}_${report.endDate}`)}
+                disabled={exporting || entries.length === 0}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+              </button>
+              <button
+                onClick={() => exportData('lateness', entries, `${report.startDate}_${report.endDate}`, undefined, 'excel')}
+                disabled={exporting || entries.length === 0}
+                className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+              </button>
+            </div>
+          </div>
+
+          {/* Summary Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-red-50 p-4 rounded-lg text-center">
+              <p className="text-2xl font-bold text-red-600">{report.entries.length}</p>
+              <p className="text-sm text-red-800">Employees Late</p>
+            </div>
+            <div className="bg-orange-50 p-4 rounded-lg text-center">
+              <p className="text-2xl font-bold text-orange-600">{report.totalLateDays}</p>
+              <p className="text-sm text-orange-800">Late Check-ins</p>
+            </div>
+            <div className="bg-yellow-50 p-4 rounded-lg text-center">
+              <p className="text-2xl font-bold text-yellow-600">{formatMinutes(report.totalLateMinutes)}</p>
+              <p className="text-sm text-yellow-800">Total Late Time</p>
+            </div>
+            <button
+              onClick={() => setShowOverBudgetOnly(!showOverBudgetOnly)}
+              disabled={report.budgetMinutes === null}
+              className={`p-4 rounded-lg text-center transition-colors ${showOverBudgetOnly ? 'bg-purple-100 ring-2 ring-purple-300' : 'bg-purple-50 hover:bg-purple-100'} disabled:hover:bg-purple-50`}
+              title="Show only employees over the monthly budget"
+            >
+              <p className="text-2xl font-bold text-purple-600">{report.budgetMinutes === null ? '—' : overBudgetCount}</p>
+              <p className="text-sm text-purple-800">Over Budget</p>
+              {report.budgetMinutes !== null && (
+                <p className="text-xs text-purple-600">more than {formatMinutes(report.budgetMinutes)} in a month</p>
+              )}
+            </button>
+          </div>
+
+          {/* Lateness Table */}
+          {entries.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Employee
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Late Minutes
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Late Days
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Average / Worst
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      By Month
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map((entry, index) => {
+                    const overBudget = entry.overBudgetMonths.length > 0;
+                    return (
+                      <tr key={entry.emp_code} className={overBudget ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {index + 1}. {entry.name}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            Code: {entry.emp_code}{entry.department && ` - ${entry.department}`}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-bold text-red-600">{formatMinutes(entry.lateMinutes)}</div>
+                          {overBudget && (
+                            <div className="text-xs text-red-700">⚠️ Over budget</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {entry.lateDays}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatMinutes(entry.averageLateMinutes)}
+                          <span className="text-gray-400"> / </span>
+                          {formatMinutes(entry.maxLateMinutes)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex flex-wrap gap-1">
+                            {Object.keys(entry.monthlyLateMinutes).sort().map(month => (
+                              <span
+                                key={month}
+                                className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                                  entry.overBudgetMonths.includes(month) ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'
+                                }`}
+                              >
+                                {formatMonthYear(month)}: {formatMinutes(entry.monthlyLateMinutes[month])}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-gray-500">
+                {showOverBudgetOnly ? 'Nobody went over the monthly budget in this period.' : 'Nobody was late in this period.'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,430 @@
+// components/dashboard/LeaveManagementTab.tsx
+// 🌴 Leave Management Tab Component
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { LeaveRequest, LeaveTypeId, LeaveRequestStatus, UserProfile } from '../../lib/types';
+import { formatDate } from '../../lib/formatters';
+import { countLeaveDays, getLeaveType } from '../../lib/leave';
+import { getRoleDefinition } from '../../lib/access';
+import { useLeave } from '../../hooks/useLeave';
+import { useWorkSchedule } from '../../hooks/useWorkSchedule';
+import { LEAVE_TYPES, LEAVE_CONFIG } from '../../constants/config';
+
+const LEAVE_STATUS_COLORS: Record<LeaveRequestStatus, string> = {
+  pending: 'text-yellow-700 bg-yellow-50',
+  approved: 'text-green-700 bg-green-50',
+  rejected: 'text-red-700 bg-red-50',
+  cancelled: 'text-gray-600 bg-gray-100'
+};
+
+const EMPTY_REQUEST = {
+  emp_code: '',
+  leave_type: LEAVE_CONFIG.defaultType,
+  start_date: '',
+  end_date: '',
+  half_day_start: false,
+  half_day_end: false,
+  reason: ''
+};
+
+interface LeaveManagementTabProps {
+  profile: UserProfile;
+}
+
+export const LeaveManagementTab: React.FC<LeaveManagementTabProps> = ({ profile }) => {
+  const {
+    leaveRequests,
+    loading,
+    error,
+    loadLeave,
+    submitLeaveRequest,
+    updateLeaveStatus,
+    saveLeaveBalance,
+    getBalancesFor,
+    clearError
+  } = useLeave();
+  const { schedule, loadSchedule } = useWorkSchedule();
+
+  // Users who cannot review leave file requests for themselves only
+  const role = getRoleDefinition(profile.role);
+  const ownCode = String(profile.emp_code || '').trim();
+  const emptyRequest = React.useMemo(
+    () => ({ ...EMPTY_REQUEST, emp_code: role.canReviewLeave ? '' : ownCode }),
+    [role.canReviewLeave, ownCode]
+  );
+
+  // Local state
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [newRequest, setNewRequest] = useState(emptyRequest);
+  const [statusFilter, setStatusFilter] = useState<LeaveRequestStatus | 'all'>('pending');
+  const [balanceEmployee, setBalanceEmployee] = useState(role.scope === 'self' ? ownCode : '');
+  const [balanceEdit, setBalanceEdit] = useState({ leave_type: LEAVE_CONFIG.defaultType, allowance: '', carried_over: '' });
+
+  useEffect(() => {
+    loadLeave(selectedYear);
+    loadSchedule();
+  }, [selectedYear, loadLeave, loadSchedule]);
+
+  const employees = schedule.employees;
+  const getName = (empCode: string) => employees.find(emp => emp.emp_code === String(empCode).trim())?.name || empCode;
+  // Nobody reviews their own requests - they can only withdraw them; reviewers cancel other people's approved leave
+  const isOwn = (request: LeaveRequest) => !!ownCode && String(request.emp_code).trim() === ownCode;
+  const canCancel = (request: LeaveRequest) => isOwn(request)
+    ? request.status === 'pending' || request.status === 'approved'
+    : role.canReviewLeave && request.status === 'approved';
+  const isSingleDay = !!newRequest.start_date && newRequest.start_date === newRequest.end_date;
+
+  const filteredRequests = leaveRequests.filter(request => statusFilter === 'all' || request.status === statusFilter);
+  const balances = balanceEmployee ? getBalancesFor(balanceEmployee, selectedYear) : [];
+
+  // Submit a new request for approval
+  const handleSubmit = useCallback(async () => {
+    const result = await submitLeaveRequest({
+      ...newRequest,
+      end_date: newRequest.end_date || newRequest.start_date,
+      half_day_end: isSingleDay ? false : newRequest.half_day_end,
+      reason: newRequest.reason.trim() || null,
+      status: 'pending'
+    });
+    if (!result.error) {
+      setNewRequest(emptyRequest);
+      setStatusFilter('pending');
+    }
+  }, [newRequest, emptyRequest, isSingleDay, submitLeaveRequest]);
+
+  // Save an allowance override or carry-over for the selected employee
+  const handleSaveBalance = useCallback(async () => {
+    if (!balanceEmployee) return;
+    const carriedOver = Math.min(Number(balanceEdit.carried_over) || 0, LEAVE_CONFIG.maxCarryOver);
+    const result = await saveLeaveBalance({
+      emp_code: balanceEmployee,
+      leave_type: balanceEdit.leave_type,
+      year: selectedYear,
+      allowance: balanceEdit.allowance === '' ? null : Number(balanceEdit.allowance),
+      carried_over: carriedOver
+    });
+    if (!result.error) {
+      setBalanceEdit(prev => ({ ...prev, allowance: '', carried_over: '' }));
+    }
+  }, [balanceEmployee, balanceEdit, selectedYear, saveLeaveBalance]);
+
+  const currentYear = new Date().getFullYear();
+  const years = [currentYear + 1, currentYear, currentYear - 1, currentYear - 2];
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-start">
+          <p className="text-red-700">{error}</p>
+          <button onClick={clearError} className="text-red-600 hover:text-red-800 text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* New Request */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">➕ Request Leave</h3>
+          <div className="space-y-3">
+            <select
+              value={newRequest.emp_code}
+              onChange={(e) => setNewRequest(prev => ({ ...prev, emp_code: e.target.value }))}
+              disabled={!role.canReviewLeave}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+            >
+              <option value="">Choose an employee...</option>
+              {employees.map(emp => (
+                <option key={emp.emp_code} value={emp.emp_code}>
+                  {emp.name} (Code: {emp.emp_code})
+                </option>
+              ))}
+            </select>
+            <select
+              value={newRequest.leave_type}
+              onChange={(e) => setNewRequest(prev => ({ ...prev, leave_type: e.target.value as LeaveTypeId }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(LEAVE_TYPES) as LeaveTypeId[]).map(leaveType => (
+                <option key={leaveType} value={leaveType}>{LEAVE_TYPES[leaveType].name}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">From</label>
+                <input
+                  type="date"
+                  value={newRequest.start_date}
+                  onChange={(e) => setNewRequest(prev => ({ ...prev, start_date: e.target.value }))}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <label className="flex items-center mt-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={newRequest.half_day_start}
+                    onChange={(e) => setNewRequest(prev => ({ ...prev, half_day_start: e.target.checked }))}
+                    className="mr-2"
+                  />
+                  {isSingleDay ? 'Half day' : 'First day is a half day'}
+                </label>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">To</label>
+                <input
+                  type="date"
+                  value={newRequest.end_date}
+                  min={newRequest.start_date}
+                  onChange={(e) => setNewRequest(prev => ({ ...prev, end_date: e.target.value }))}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                {!isSingleDay && (
+                  <label className="flex items-center mt-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={newRequest.half_day_end}
+                      onChange={(e) => setNewRequest(prev => ({ ...prev, half_day_end: e.target.checked }))}
+                      className="mr-2"
+                    />
+                    Last day is a half day
+                  </label>
+                )}
+              </div>
+            </div>
+            <input
+              type="text"
+              placeholder="Reason (optional)"
+              value={newRequest.reason}
+              onChange={(e) => setNewRequest(prev => ({ ...prev, reason: e.target.value }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={loading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              Submit Request
+            </button>
+          </div>
+        </div>
+
+        {/* Balances */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-bold text-gray-900">📊 Leave Balances</h3>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {years.map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </div>
+          <select
+            value={balanceEmployee}
+            onChange={(e) => setBalanceEmployee(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 mb-4"
+          >
+            <option value="">Choose an employee...</option>
+            {employees.map(emp => (
+              <option key={emp.emp_code} value={emp.emp_code}>
+                {emp.name} (Code: {emp.emp_code})
+              </option>
+            ))}
+          </select>
+
+          {balanceEmployee ? (
+            <div className="space-y-4">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2">Type</th>
+                    <th className="py-2 text-right">Accrued</th>
+                    <th className="py-2 text-right">Used</th>
+                    <th className="py-2 text-right">Pending</th>
+                    <th className="py-2 text-right">Remaining</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {balances.map(balance => (
+                    <tr key={balance.leave_type}>
+                      <td className="py-2 text-gray-900">{LEAVE_TYPES[balance.leave_type].name}</td>
+                      <td className="py-2 text-right text-gray-600">
+                        {balance.accrued ?? '—'}
+                        {balance.entitlement != null && (
+                          <span className="text-xs text-gray-400"> / {balance.entitlement}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-gray-900">{balance.used}</td>
+                      <td className="py-2 text-right text-yellow-700">{balance.pending || ''}</td>
+                      <td className={`py-2 text-right font-medium ${balance.remaining != null && balance.remaining < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {balance.remaining ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {role.canManageBalances && (
+                <div className="border-t pt-4">
+                  <p className="text-xs text-gray-600 mb-2">
+                    Override the allowance or record days carried over from last year (max {LEAVE_CONFIG.maxCarryOver}).
+                  </p>
+                  <div className="grid grid-cols-4 gap-2">
+                    <select
+                      value={balanceEdit.leave_type}
+                      onChange={(e) => setBalanceEdit(prev => ({ ...prev, leave_type: e.target.value as LeaveTypeId }))}
+                      className="col-span-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      {(Object.keys(LEAVE_TYPES) as LeaveTypeId[]).map(leaveType => (
+                        <option key={leaveType} value={leaveType}>{LEAVE_TYPES[leaveType].name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="Allowance"
+                      value={balanceEdit.allowance}
+                      onChange={(e) => setBalanceEdit(prev => ({ ...prev, allowance: e.target.value }))}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      max={LEAVE_CONFIG.maxCarryOver}
+                      step={0.5}
+                      placeholder="Carried"
+                      value={balanceEdit.carried_over}
+                      onChange={(e) => setBalanceEdit(prev => ({ ...prev, carried_over: e.target.value }))}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSaveBalance}
+                    disabled={loading}
+                    className="mt-2 bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+                  >
+                    Save Balance
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-gray-600 text-sm">Select an employee to see their {selectedYear} balances.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Requests */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-900">📋 Leave Requests</h3>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LeaveRequestStatus | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+
+        {loading && leaveRequests.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading leave requests...</p>
+          </div>
+        ) : filteredRequests.length === 0 ? (
+          <p className="text-gray-600">No {statusFilter === 'all' ? '' : `${statusFilter} `}leave requests.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Employee
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Dates
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Days
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredRequests.map(request => (
+                  <tr key={request.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{getName(request.emp_code)}</div>
+                      <div className="text-sm text-gray-500">Code: {request.emp_code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {getLeaveType(request.leave_type).name}
+                      {request.reason && <div className="text-xs text-gray-500">{request.reason}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(request.start_date)}
+                      {request.end_date !== request.start_date && ` - ${formatDate(request.end_date)}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {countLeaveDays(request, schedule)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${LEAVE_STATUS_COLORS[request.status]}`}>
+                        {request.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                      {request.status === 'pending' && role.canReviewLeave && !isOwn(request) && (
+                        <>
+                          <button
+                            onClick={() => updateLeaveStatus(request.id!, 'approved')}
+                            disabled={loading}
+                            className="text-green-600 hover:text-green-800 text-xs transition-colors disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => updateLeaveStatus(request.id!, 'rejected')}
+                            disabled={loading}
+                            className="text-red-600 hover:text-red-800 text-xs transition-colors disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {canCancel(request) && (
+                        <button
+                          onClick={() => updateLeaveStatus(request.id!, 'cancelled')}
+                          disabled={loading}
+                          className="text-gray-600 hover:text-gray-800 text-xs transition-colors disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+// components/dashboard/MonthlyOverviewTab.tsx
+// 🗓️ Monthly Overview Tab Component - company-wide check-in totals per month with month-over-month changes
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { MonthlyOverviewRow, MonthlySummaryMetric } from '../../lib/types';
+import { formatDelta, formatMonthYear } from '../../lib/formatters';
+import { useMonthlyOverview } from '../../hooks/useMonthlyOverview';
+import { useDataExport } from '../../hooks/useDataExport';
+import { MONTHLY_OVERVIEW_CONFIG } from '../../constants/config';
+
+// Which way a change counts as an improvement (null = neither)
+const METRIC_COLUMNS: Array<{ metric: MonthlySummaryMetric; label: string; better: 'up' | 'down' | null; unit?: string }> = [
+  { metric: 'total_employees', label: 'Employees', better: null },
+  { metric: 'early_count', label: 'Early', better: 'up' },
+  { metric: 'ontime_count', label: 'On-time', better: 'up' },
+  { metric: 'acceptable_count', label: 'Acceptable', better: null },
+  { metric: 'late_count', label: 'Late', better: 'down' },
+  { metric: 'average_ontime_rate', label: 'Avg On-time Rate', better: 'up', unit: 'pts' }
+];
+
+const getDeltaClass = (delta: number, better: 'up' | 'down' | null): string => {
+  if (delta === 0 || better === null) return 'text-gray-500';
+  return (delta > 0) === (better === 'up') ? 'text-green-600' : 'text-red-600';
+};
+
+const formatValue = (row: Pick<MonthlyOverviewRow, MonthlySummaryMetric>, metric: MonthlySummaryMetric): string =>
+  metric === 'average_ontime_rate' ? `${row[metric]}%` : String(row[metric]);
+
+export const MonthlyOverviewTab: React.FC = () => {
+  const { overview, loading, error, loadOverview } = useMonthlyOverview();
+  const { exporting, exportData } = useDataExport();
+  const [year, setYear] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadOverview(year);
+  }, [year, loadOverview]);
+
+  const exportContext = year ? String(year) : undefined;
+  const rows = overview ? [...overview.rows].reverse() : []; // newest first on screen
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">🗓️ Monthly Overview</h3>
+            <p className="text-sm text-gray-500">
+              Company-wide check-in totals per month, compared with the month before.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={year ?? ''}
+              onChange={(e) => setYear(e.target.value ? Number(e.target.value) : null)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Last {MONTHLY_OVERVIEW_CONFIG.recentMonths} months</option>
+              {(overview?.years || []).map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => exportData('monthlyOverview', overview?.rows || [], exportContext)}
+              disabled={exporting || !overview || overview.rows.length === 0}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+            </button>
+            <button
+              onClick={() => exportData('monthlyOverview', overview?.rows || [], exportContext, undefined, 'excel')}
+              disabled={exporting || !overview || overview.rows.length === 0}
+              className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading && !overview ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading monthly summaries...</p>
+        </div>
+      ) : overview && overview.rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+          No monthly summaries{year ? ` for ${year}` : ''} yet.
+        </div>
+      ) : overview && (
+        <>
+          {/* Period Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-green-600">{overview.totals.average_ontime_rate}%</p>
+              <p className="text-sm text-green-800">Avg On-time Rate</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-blue-600">{overview.totals.early_count}</p>
+              <p className="text-sm text-blue-800">Early</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-green-600">{overview.totals.ontime_count}</p>
+              <p className="text-sm text-green-800">On-time</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-yellow-600">{overview.totals.acceptable_count}</p>
+              <p className="text-sm text-yellow-800">Acceptable</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-red-600">{overview.totals.late_count}</p>
+              <p className="text-sm text-red-800">Late</p>
+            </div>
+          </div>
+
+          {/* Months Table */}
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Month
+                  </th>
+                  {METRIC_COLUMNS.map(column => (
+                    <th key={column.metric} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.monthKey} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatMonthYear(row.monthKey)}
+                    </td>
+                    {METRIC_COLUMNS.map(column => (
+                      <td key={column.metric} className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{formatValue(row, column.metric)}</div>
+                        {row.deltas && (
+                          <div className={`text-xs ${getDeltaClass(row.deltas[column.metric], column.better)}`}>
+                            {formatDelta(row.deltas[column.metric], column.unit)}
+                          </div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {year !== null && (
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td className="px-6 py-3 text-sm font-bold text-gray-900">{year} total</td>
+                    {METRIC_COLUMNS.map(column => (
+                      <td key={column.metric} className="px-6 py-3 text-sm font-bold text-gray-900">
+                        {formatValue(overview.totals, column.metric)}
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
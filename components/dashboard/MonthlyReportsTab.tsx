@@ -4,25 +4,39 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import type { Employee, EmployeeRecord } from '../../lib/types';
-import { formatDate, formatMonthYear, getCurrentMonth } from '../../lib/formatters';
+import type { Employee, EmployeeRecord, UserProfile } from '../../lib/types';
+import { formatDate, formatMinutes, formatMonthYear, getCurrentMonth, getMonthDateRange } from '../../lib/formatters';
 import { getStatusColor, getCategoryColor } from '../../lib/utils';
+import { buildAttendanceCalendar } from '../../lib/attendanceCalendar';
+import { calculateMonthlyStats } from '../../lib/monthlyStatement';
+import { getLeaveType, isHalfLeaveDay, buildLeaveRecord } from '../../lib/leave';
+import { getRoleDefinition } from '../../lib/access';
 import { useEmployeeData } from '../../hooks/useEmployeeData';
+import { useWorkSchedule } from '../../hooks/useWorkSchedule';
 import { useDataExport } from '../../hooks/useDataExport';
+import { useMonthlyStatements } from '../../hooks/useMonthlyStatements';
+import { usePayrollExport } from '../../hooks/usePayrollExport';
+import { CorrectionNote } from './CorrectionNote';
+import { WorkTimeCells, WORK_TIME_HEADERS } from './WorkTimeCells';
 
 interface MonthlyReportsTabProps {
   employees: Employee[];
   loading: boolean;
   error: string;
+  profile?: UserProfile | null;
 }
 
 export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
   employees,
   loading,
-  error
+  error,
+  profile
 }) => {
   const { exporting, exportData } = useDataExport();
-  const { loadEmployeeMonthlyData, getEmployeeName } = useEmployeeData();
+  const { loadEmployeeMonthlyData, getEmployeeName, classifyRecord, checkRecordCategory } = useEmployeeData();
+  const { schedule, loadSchedule, getWorkTime, getLateMinutes } = useWorkSchedule();
+  const { generating, error: statementError, downloadStatement, downloadAllStatements } = useMonthlyStatements();
+  const { exporting: exportingPayroll, error: payrollError, exportPayroll } = usePayrollExport();
   
   // Local state
   const [selectedEmployee, setSelectedEmployee] = useState('');
@@ -30,6 +44,12 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
   const [employeeMonthlyData, setEmployeeMonthlyData] = useState<EmployeeRecord[]>([]);
   const [monthlyLoading, setMonthlyLoading] = useState(false);
 
+  // Employees can only see their own month, so their selection is fixed
+  const lockedEmployee = profile && getRoleDefinition(profile.role).scope === 'self'
+    ? String(profile.emp_code || '').trim()
+    : '';
+  const canExportPayroll = !profile || getRoleDefinition(profile.role).canExportPayroll;
+
   // Handle employee selection
   const handleEmployeeSelect = useCallback(async (empCode: string) => {
     if (empCode === selectedEmployee) return;
@@ -74,42 +94,47 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
     }
   }, [selectedMonth, selectedEmployee, loadEmployeeMonthlyData]);
 
-  // Calculate monthly stats
-  const monthlyStats = React.useMemo(() => {
-    if (!employeeMonthlyData.length) {
-      return {
-        totalDays: 0,
-        onTimeDays: 0,
-        lateDays: 0,
-        totalHours: 0,
-        avgHours: 0,
-        attendanceRate: 0
-      };
+  React.useEffect(() => {
+    if (lockedEmployee && !selectedEmployee) {
+      handleEmployeeSelect(lockedEmployee);
     }
+  }, [lockedEmployee, selectedEmployee, handleEmployeeSelect]);
 
-    const totalDays = employeeMonthlyData.length;
-    const onTimeDays = employeeMonthlyData.filter(d => 
-      ['On Time', 'On-time Check-in', 'Early Check-in'].includes(d.time_category || '')
-    ).length;
-    const lateDays = employeeMonthlyData.filter(d => 
-      ['Late', 'Late Check-in'].includes(d.time_category || '')
-    ).length;
-    const totalHours = employeeMonthlyData.reduce((sum, d) => sum + (d.work_hours || 0), 0);
-    const avgHours = totalDays > 0 ? totalHours / totalDays : 0;
-    
-    // Calculate attendance rate based on working days in the month
-    const workingDaysInMonth = Math.ceil(totalDays * 1.4); // Rough estimate (5/7 ratio)
-    const attendanceRate = Math.round((totalDays / workingDaysInMonth) * 100);
+  // Holidays are needed for working days and the daily table
+  React.useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  // Day-by-day calendar for the month: expected working days, absences and reconciled totals
+  const monthCalendar = React.useMemo(() => {
+    const { startDate, endDate } = getMonthDateRange(selectedMonth);
+    return buildAttendanceCalendar(selectedEmployee, startDate, endDate, employeeMonthlyData, schedule);
+  }, [selectedEmployee, selectedMonth, employeeMonthlyData, schedule]);
+
+  // Rows for the daily table - records plus the absences, leave and holidays around them
+  const monthlyRows = React.useMemo(() => {
+    return monthCalendar.days.filter(day =>
+      day.record || day.kind === 'absent' || day.kind === 'holiday' ||
+      (day.leave && (day.kind === 'leave' || day.kind === 'present'))
+    );
+  }, [monthCalendar]);
+
+  // Export rows include absences and leave alongside the synced records
+  const exportRows = React.useMemo((): EmployeeRecord[] => {
+    const name = getEmployeeName(selectedEmployee);
+    return monthlyRows
+      .filter(day => day.kind !== 'holiday' || day.record)
+      .map(day => {
+        if (day.record) return day.record;
+        if (day.leave) return buildLeaveRecord(day.leave, day.date, name);
+        return { date: day.date, emp_code: selectedEmployee, name, status: 'Absent', synthesized: true };
+      });
+  }, [monthlyRows, selectedEmployee, getEmployeeName]);
 
-    return {
-      totalDays,
-      onTimeDays,
-      lateDays,
-      totalHours: Math.round(totalHours * 10) / 10,
-      avgHours: Math.round(avgHours * 10) / 10,
-      attendanceRate: Math.min(attendanceRate, 100) // Cap at 100%
-    };
-  }, [employeeMonthlyData]);
+  // Calculate monthly stats - shared with the printable statement
+  const monthlyStats = React.useMemo(() => {
+    return calculateMonthlyStats(employeeMonthlyData, monthCalendar, classifyRecord, getWorkTime);
+  }, [employeeMonthlyData, classifyRecord, getWorkTime, monthCalendar]);
 
   if (loading) {
     return (
@@ -140,6 +165,43 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
             onChange={(e) => handleMonthChange(e.target.value)}
             className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           />
+          {!lockedEmployee && (
+            <div className="mt-4 flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                One PDF statement per employee for {formatMonthYear(selectedMonth)}, in a single ZIP archive.
+              </p>
+              <button
+                onClick={() => downloadAllStatements(selectedMonth, employees)}
+                disabled={generating || employees.length === 0}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm whitespace-nowrap transition-colors"
+              >
+                {generating ? '⏳ Generating...' : '📦 All Statements'}
+              </button>
+            </div>
+          )}
+          {canExportPayroll && (
+            <div className="mt-3 flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                Payroll timesheet: hours, overtime, late minutes, absences and leave per employee.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => exportPayroll(selectedMonth, employees)}
+                  disabled={exportingPayroll || employees.length === 0}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm whitespace-nowrap transition-colors"
+                >
+                  {exportingPayroll ? '⏳ Exporting...' : '💰 Payroll CSV'}
+                </button>
+                <button
+                  onClick={() => exportPayroll(selectedMonth, employees, 'excel')}
+                  disabled={exportingPayroll || employees.length === 0}
+                  className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm whitespace-nowrap transition-colors"
+                >
+                  {exportingPayroll ? '⏳ Exporting...' : '📗 Payroll Excel'}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="bg-white rounded-lg shadow p-6">
@@ -147,7 +209,8 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
           <select
             value={selectedEmployee}
             onChange={(e) => handleEmployeeSelect(e.target.value)}
-            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            disabled={!!lockedEmployee}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
           >
             <option value="">Choose an employee...</option>
             {employees && employees.map((emp) => (
@@ -159,6 +222,12 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
         </div>
       </div>
 
+      {(statementError || payrollError) && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{statementError || payrollError}</p>
+        </div>
+      )}
+
       {/* Loading State */}
       {monthlyLoading && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -170,28 +239,47 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
       )}
 
       {/* Monthly Employee Data */}
-      {!monthlyLoading && selectedEmployee && employeeMonthlyData && employeeMonthlyData.length > 0 ? (
+      {!monthlyLoading && selectedEmployee && (employeeMonthlyData.length > 0 || monthCalendar.missingDates.length > 0) ? (
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-bold text-gray-900">
               📊 Monthly Attendance for {getEmployeeName(selectedEmployee)} - {formatMonthYear(selectedMonth)}
             </h3>
-            <button
-              onClick={() => {
-                const employeeName = getEmployeeName(selectedEmployee);
-                exportData('monthly', employeeMonthlyData, employeeName, selectedMonth);
-              }}
-              disabled={exporting}
-              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
-            >
-              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  const employeeName = getEmployeeName(selectedEmployee);
+                  exportData('monthly', exportRows, employeeName, selectedMonth);
+                }}
+                disabled={exporting}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+              </button>
+              <button
+                onClick={() => {
+                  const employeeName = getEmployeeName(selectedEmployee);
+                  exportData('monthly', exportRows, employeeName, selectedMonth, 'excel');
+                }}
+                disabled={exporting}
+                className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+              </button>
+              <button
+                onClick={() => downloadStatement(selectedEmployee, getEmployeeName(selectedEmployee), selectedMonth)}
+                disabled={generating}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm transition-colors"
+              >
+                {generating ? '⏳ Generating...' : '📄 Statement PDF'}
+              </button>
+            </div>
           </div>
 
           {/* Monthly Summary Stats */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-blue-50 p-4 rounded-lg text-center">
-              <p className="text-2xl font-bold text-blue-600">{monthlyStats.totalDays}</p>
+              <p className="text-2xl font-bold text-blue-600">{monthlyStats.presentDays}</p>
               <p className="text-sm text-blue-800">Days Present</p>
             </div>
             <div className="bg-green-50 p-4 rounded-lg text-center">
@@ -217,15 +305,87 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
             <div className="bg-purple-50 p-3 rounded-lg text-center">
               <p className="text-lg font-bold text-purple-600">{monthlyStats.attendanceRate}%</p>
               <p className="text-xs text-purple-800">Attendance Rate</p>
+              <p className="text-xs text-purple-600">of {monthlyStats.workingDays} expected working days</p>
             </div>
             <div className="bg-indigo-50 p-3 rounded-lg text-center">
-              <p className="text-lg font-bold text-indigo-600">
-                {monthlyStats.totalDays > 0 ? Math.round((monthlyStats.onTimeDays / monthlyStats.totalDays) * 100) : 0}%
-              </p>
+              <p className="text-lg font-bold text-indigo-600">{monthlyStats.onTimeRate}%</p>
               <p className="text-xs text-indigo-800">On-time Rate</p>
             </div>
           </div>
 
+          {/* Work Time vs Shift - net of the lunch break */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-green-50 p-3 rounded-lg text-center">
+              <p className="text-lg font-bold text-green-600">+{monthlyStats.workTime.overtimeHours}h</p>
+              <p className="text-xs text-green-800">Overtime</p>
+            </div>
+            <div className="bg-orange-50 p-3 rounded-lg text-center">
+              <p className="text-lg font-bold text-orange-600">-{monthlyStats.workTime.undertimeHours}h</p>
+              <p className="text-xs text-orange-800">Undertime</p>
+            </div>
+            <div className="bg-red-50 p-3 rounded-lg text-center">
+              <p className="text-lg font-bold text-red-600">{monthlyStats.workTime.earlyLeaveMinutes}m</p>
+              <p className="text-xs text-red-800">Early Leave</p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg text-center">
+              <p className="text-lg font-bold text-gray-600">{monthlyStats.workTime.netHours}h</p>
+              <p className="text-xs text-gray-800">Net Hours</p>
+              <p className="text-xs text-gray-600">{monthlyStats.workTime.lunchDeductionHours}h lunch deducted</p>
+            </div>
+          </div>
+
+          {/* Day Breakdown - every day of the month falls in exactly one bucket */}
+          <div className="bg-gray-50 p-4 rounded-lg mb-6">
+            <h4 className="font-semibold text-gray-900 mb-3">
+              🗓️ Day Breakdown ({monthCalendar.totalDays} days)
+            </h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 text-center text-sm">
+              <div>
+                <p className="text-lg font-bold text-green-600">{monthCalendar.presentDays}</p>
+                <p className="text-gray-600">Present</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-red-600">{monthCalendar.absentDays}</p>
+                <p className="text-gray-600">Absent</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-blue-600">{monthCalendar.leaveDays}</p>
+                <p className="text-gray-600">Leave</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-purple-600">{monthCalendar.holidayDays}</p>
+                <p className="text-gray-600">Holidays</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-gray-600">{monthCalendar.offDays}</p>
+                <p className="text-gray-600">Days Off</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-gray-400">{monthCalendar.upcomingDays}</p>
+                <p className="text-gray-600">Upcoming</p>
+              </div>
+              <div>
+                <p className="text-lg font-bold text-gray-400">{monthCalendar.notEmployedDays}</p>
+                <p className="text-gray-600">Before Hire</p>
+              </div>
+            </div>
+
+            {monthCalendar.missingDates.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium text-red-800 mb-2">
+                  ❌ Missing on {monthCalendar.missingDates.length} expected working day{monthCalendar.missingDates.length > 1 ? 's' : ''}:
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {monthCalendar.missingDates.map(date => (
+                    <span key={date} className="inline-flex px-2 py-1 text-xs font-medium rounded-full text-red-700 bg-red-50 border border-red-200">
+                      {formatDate(date)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Daily Records Table */}
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
@@ -246,56 +406,111 @@ export const MonthlyReportsTab: React.FC<MonthlyReportsTabProps> = ({
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
+                  {WORK_TIME_HEADERS.map(header => (
+                    <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {header}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {employeeMonthlyData.map((day, index) => (
-                  <tr key={day.date || index} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">
-                        {formatDate(day.date)}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`text-sm font-medium ${getCategoryColor(day.time_category).replace('bg-', '').replace('50', '700')}`}>
-                        {day.check_in || 'N/A'}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {day.check_out || 'N/A'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      <div className="flex flex-col">
-                        <span className="font-medium">{day.work_hours ? `${Math.round(day.work_hours * 10) / 10}h` : 'N/A'}</span>
-                        {day.total_punches && (
-                          <span className="text-xs text-gray-500">{day.total_punches} punches</span>
+                {monthlyRows.map(({ date, kind, record: day, holiday, leave }, index) => {
+                  if (!day) {
+                    const isHolidayRow = kind === 'holiday';
+                    return (
+                      <tr key={`${kind}-${date}`} className={isHolidayRow ? 'bg-purple-50' : kind === 'absent' ? 'bg-red-50' : 'bg-blue-50'}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {formatDate(date)}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(date).toLocaleDateString('en-US', { weekday: 'short' })}
+                          </div>
+                        </td>
+                        {isHolidayRow ? (
+                          <td colSpan={4 + WORK_TIME_HEADERS.length} className="px-6 py-4 whitespace-nowrap text-sm font-medium text-purple-700">
+                            🎉 {holiday?.name}
+                            <span className="ml-2 text-xs text-purple-500">
+                              {holiday?.department ? `${holiday.department} holiday` : 'Public holiday'}
+                            </span>
+                          </td>
+                        ) : (
+                          <td colSpan={4 + WORK_TIME_HEADERS.length} className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${kind === 'absent' ? 'text-red-700' : 'text-blue-700'}`}>
+                            {kind === 'absent'
+                              ? '❌ No attendance recorded'
+                              : `${kind === 'leave' ? '🌴' : '🏠'} ${getLeaveType(leave?.leave_type).name}`}
+                            {leave && isHalfLeaveDay(leave, date) && (
+                              <span className="ml-2 text-xs text-blue-500">Half day</span>
+                            )}
+                          </td>
                         )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="space-y-1">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(day.status)}`}>
-                          {day.status || 'N/A'}
+                      </tr>
+                    );
+                  }
+
+                  const categoryCheck = checkRecordCategory(day);
+                  const lateMinutes = getLateMinutes(day);
+                  return (
+                    <tr key={day.date || index} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">
+                          {formatDate(day.date)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
+                        </div>
+                        {holiday && (
+                          <div className="text-xs text-purple-600">🎉 {holiday.name}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`text-sm font-medium ${getCategoryColor(categoryCheck.computed).replace('bg-', '').replace('50', '700')}`}>
+                          {day.check_in || 'N/A'}
                         </span>
-                        {day.time_category && (
-                          <div>
-                            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(day.time_category)}`}>
-                              {day.time_category}
-                            </span>
-                          </div>
+                        {lateMinutes > 0 && (
+                          <div className="text-xs text-red-600">{formatMinutes(lateMinutes)} late</div>
                         )}
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {day.check_out || 'N/A'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{day.work_hours ? `${Math.round(day.work_hours * 10) / 10}h` : 'N/A'}</span>
+                          {day.total_punches && (
+                            <span className="text-xs text-gray-500">{day.total_punches} punches</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="space-y-1">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(day.status)}`}>
+                            {day.status || 'N/A'}
+                          </span>
+                          {categoryCheck.computed !== 'N/A' && (
+                            <div>
+                              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(categoryCheck.computed)}`}>
+                                {categoryCheck.computed}
+                              </span>
+                            </div>
+                          )}
+                          {categoryCheck.mismatch && (
+                            <div className="text-xs text-orange-600" title="The synced category differs from the one computed for this employee's shift">
+                              ⚠️ Synced as {categoryCheck.stored}
+                            </div>
+                          )}
+                          <CorrectionNote record={day} />
+                        </div>
+                      </td>
+                      <WorkTimeCells workTime={getWorkTime(day)} />
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         </div>
-      ) : !monthlyLoading && selectedEmployee && employeeMonthlyData && employeeMonthlyData.length === 0 ? (
+      ) : !monthlyLoading && selectedEmployee ? (
         <div className="bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-bold text-gray-900 mb-4">📊 No Monthly Data</h3>
           <p className="text-gray-600">
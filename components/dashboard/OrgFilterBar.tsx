@@ -0,0 +1,70 @@
+// components/dashboard/OrgFilterBar.tsx
+// 🏢 Department / team filter shared by the report tabs
+
+'use client';
+
+import React from 'react';
+import type { Employee, OrgFilter } from '../../lib/types';
+import { getDepartments, getReportCodes } from '../../lib/employeeDirectory';
+import { EMPTY_ORG_FILTER, getManagers, getOrgFilterCodes, isOrgFilterActive } from '../../lib/departments';
+import { DEPARTMENT_CONFIG } from '../../constants/config';
+
+interface OrgFilterBarProps {
+  employees: Employee[];
+  filter: OrgFilter;
+  onChange: (filter: OrgFilter) => void;
+}
+
+export const OrgFilterBar: React.FC<OrgFilterBarProps> = ({ employees, filter, onChange }) => {
+  const departments = getDepartments(employees);
+  const hasUnassigned = employees.some(emp => !emp.department?.trim());
+  const managers = getManagers(employees).sort((a, b) => a.name.localeCompare(b.name));
+  const matched = getOrgFilterCodes(filter, employees);
+
+  return (
+    <div className="bg-white rounded-lg shadow px-6 py-4 flex flex-wrap items-end gap-4">
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">🏢 Department</label>
+        <select
+          value={filter.department}
+          onChange={(e) => onChange({ ...filter, department: e.target.value })}
+          className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          <option value="">All departments</option>
+          {departments.map(dept => <option key={dept} value={dept}>{dept}</option>)}
+          {hasUnassigned && (
+            <option value={DEPARTMENT_CONFIG.unassignedLabel}>{DEPARTMENT_CONFIG.unassignedLabel}</option>
+          )}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">👥 Team</label>
+        <select
+          value={filter.managerCode}
+          onChange={(e) => onChange({ ...filter, managerCode: e.target.value })}
+          className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          <option value="">Everyone</option>
+          {managers.map(manager => (
+            <option key={manager.emp_code} value={manager.emp_code}>
+              {manager.name} and {getReportCodes(manager.emp_code, employees).size} reporting up
+            </option>
+          ))}
+        </select>
+      </div>
+      {isOrgFilterActive(filter) && (
+        <>
+          <p className="text-sm text-gray-600 pb-2">
+            {matched?.size || 0} of {employees.length} employees
+          </p>
+          <button
+            onClick={() => onChange(EMPTY_ORG_FILTER)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium pb-2"
+          >
+            Clear filter
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+// components/dashboard/PunchTimelineDetails.tsx
+// 👆 Every punch of one employee's day in order, with the in/out pairs and the time between them
+
+'use client';
+
+import React from 'react';
+import type { PunchTimeline } from '../../lib/types';
+import { formatHours, formatTime } from '../../lib/formatters';
+import { getPunchClockTime } from '../../lib/punches';
+import { PUNCH_CONFIG } from '../../constants/config';
+
+interface PunchTimelineDetailsProps {
+  timeline: PunchTimeline;
+}
+
+export const PunchTimelineDetails: React.FC<PunchTimelineDetailsProps> = ({ timeline }) => (
+  <div className="space-y-3">
+    {/* Punches */}
+    <div className="flex flex-wrap items-center gap-2">
+      {timeline.punches.map((punch, index) => {
+        const direction = PUNCH_CONFIG.directions[punch.direction];
+        return (
+          <React.Fragment key={punch.id ?? `${punch.punch_time}-${punch.device_id}`}>
+            {index > 0 && <span className="text-gray-300">→</span>}
+            <span
+              className="inline-flex items-center gap-1 px-2 py-1 rounded bg-white border border-gray-200 text-xs text-gray-700"
+              title={punch.device_id ? `Device ${punch.device_id}` : undefined}
+            >
+              {direction.icon} {direction.label} {formatTime(getPunchClockTime(punch))}
+              {punch.device_id && <span className="text-gray-400">· {punch.device_id}</span>}
+            </span>
+          </React.Fragment>
+        );
+      })}
+    </div>
+
+    {/* Pairs */}
+    <div className="flex flex-wrap gap-2 text-xs">
+      {timeline.pairs.map((pair, index) => (
+        <span
+          key={index}
+          className={`px-2 py-1 rounded ${pair.in && pair.out ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'}`}
+        >
+          {pair.in ? formatTime(getPunchClockTime(pair.in)) : '?'} - {pair.out ? formatTime(getPunchClockTime(pair.out)) : '?'}
+          {pair.in && pair.out ? ` (${formatHours(pair.hours)})` : pair.in ? ' no out punch' : ' no in punch'}
+        </span>
+      ))}
+    </div>
+
+    <p className="text-xs text-gray-500">
+      Worked {formatHours(timeline.workHours)} in {timeline.pairs.length - timeline.unpaired} pair{timeline.pairs.length - timeline.unpaired === 1 ? '' : 's'}
+      {timeline.breakHours > 0 && `, ${formatHours(timeline.breakHours)} of breaks left out`}
+      {timeline.unpaired > 0 && ` - ${timeline.unpaired} unpaired punch${timeline.unpaired === 1 ? '' : 'es'} not counted`}
+      {timeline.duplicates > 0 && ` - ${timeline.duplicates} repeat punch${timeline.duplicates === 1 ? '' : 'es'} ignored`}
+    </p>
+  </div>
+);
@@ -0,0 +1,174 @@
+// components/dashboard/SyncStatusTab.tsx
+// 🔄 Sync Status Tab Component - recent device sync runs, failures and days without a run
+
+'use client';
+
+import React, { useEffect } from 'react';
+import type { SyncLog } from '../../lib/types';
+import { formatDate, formatDuration, formatRelativeTime } from '../../lib/formatters';
+import { getSyncTime, isSuccessfulSync } from '../../lib/syncStatus';
+import { addDays, getToday } from '../../lib/holidays';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { SYNC_STATUS_CONFIG } from '../../constants/config';
+
+const RANGE_PRESETS = [7, SYNC_STATUS_CONFIG.defaultRangeDays, 90]; // days up to today
+
+const formatRunTime = (log: SyncLog): string => {
+  const time = getSyncTime(log);
+  const date = new Date(time);
+  return isNaN(date.getTime())
+    ? time
+    : date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export const SyncStatusTab: React.FC = () => {
+  const { report, loading, error, loadSyncStatus } = useSyncStatus();
+
+  useEffect(() => {
+    loadSyncStatus();
+  }, [loadSyncStatus]);
+
+  const handlePreset = (days: number) => {
+    const end = getToday();
+    loadSyncStatus(addDays(end, -(days - 1)), end);
+  };
+
+  const days = report ? Object.entries(report.days) : [];
+  const failedDates = days.filter(([, status]) => status === 'failed').map(([date]) => date);
+  const missingDates = days.filter(([, status]) => status === 'missing').map(([date]) => date);
+  const failedRuns = report ? report.logs.filter(log => !isSuccessfulSync(log)).length : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">🔄 Sync Status</h3>
+            <p className="text-sm text-gray-500">
+              {report
+                ? `Device sync runs for ${formatDate(report.startDate)} to ${formatDate(report.endDate)}.`
+                : 'Device sync runs recorded by the sync service.'}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {RANGE_PRESETS.map(presetDays => (
+              <button
+                key={presetDays}
+                onClick={() => handlePreset(presetDays)}
+                disabled={loading}
+                className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Last {presetDays} days
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading sync runs...</p>
+        </div>
+      ) : report && (
+        <>
+          {/* Health Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className={`text-2xl font-bold ${report.stale ? 'text-red-600' : 'text-green-600'}`}>
+                {report.lastSuccess ? formatRelativeTime(getSyncTime(report.lastSuccess)) : 'Never'}
+              </p>
+              <p className={`text-sm ${report.stale ? 'text-red-800' : 'text-green-800'}`}>Last Successful Sync</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-blue-600">{report.logs.length}</p>
+              <p className="text-sm text-blue-800">Runs</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-red-600">{failedRuns}</p>
+              <p className="text-sm text-red-800">Failed Runs</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-2xl font-bold text-yellow-600">{missingDates.length}</p>
+              <p className="text-sm text-yellow-800">Days Without a Run</p>
+            </div>
+          </div>
+
+          {/* Problem Days */}
+          {(failedDates.length > 0 || missingDates.length > 0) && (
+            <div className="bg-white rounded-lg shadow p-4 space-y-2">
+              {([['failed', failedDates], ['missing', missingDates]] as const).map(([status, dates]) =>
+                dates.length > 0 && (
+                  <div key={status} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium text-gray-700">
+                      {SYNC_STATUS_CONFIG.dayStatuses[status].icon} {SYNC_STATUS_CONFIG.dayStatuses[status].label}:
+                    </span>
+                    {dates.map(date => (
+                      <span
+                        key={date}
+                        className={`px-2 py-0.5 rounded-full text-xs ${
+                          status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                        }`}
+                      >
+                        {formatDate(date)}
+                      </span>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+          )}
+
+          {/* Runs Table */}
+          {report.logs.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+              No sync runs between {formatDate(report.startDate)} and {formatDate(report.endDate)}.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Run', 'Type', 'Data Date', 'Status', 'Records', 'Duration', 'Error'].map(label => (
+                      <th key={label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.logs.map((log, index) => {
+                    const ok = isSuccessfulSync(log);
+                    return (
+                      <tr key={log.id ?? index} className={ok ? 'hover:bg-gray-50' : 'bg-red-50'}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatRunTime(log)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{log.sync_type}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{formatDate(log.sync_date)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                            {ok ? '✅' : '❌'} {log.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{log.records_processed ?? '-'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {log.sync_duration_seconds != null ? formatDuration(log.sync_duration_seconds) : '-'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-red-700">{log.error_message || ''}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
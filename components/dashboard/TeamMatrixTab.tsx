@@ -0,0 +1,231 @@
+// components/dashboard/TeamMatrixTab.tsx
+// 🧮 Team Matrix Tab Component - every employee against every day of a month, colour-coded, with totals
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { OrgFilter, TeamMatrixCell, TeamMatrixSortKey } from '../../lib/types';
+import { formatHours, formatMonthYear, formatTime, getCurrentMonth } from '../../lib/formatters';
+import { getTeamMatrixCellColor, sortTeamMatrixRows } from '../../lib/teamMatrix';
+import { useTeamMatrix } from '../../hooks/useTeamMatrix';
+import { useDataExport } from '../../hooks/useDataExport';
+import { TIME_CATEGORIES, TEAM_MATRIX_CONFIG } from '../../constants/config';
+
+// Tailwind classes for the colour names used by TIME_CATEGORIES and TEAM_MATRIX_CONFIG
+const CELL_CLASSES: Record<string, string> = {
+  blue: 'bg-blue-100 text-blue-800',
+  green: 'bg-green-100 text-green-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  red: 'bg-red-100 text-red-800',
+  teal: 'bg-teal-100 text-teal-800',
+  purple: 'bg-purple-100 text-purple-800',
+  gray: 'bg-gray-100 text-gray-500'
+};
+
+const TOTAL_COLUMNS: Array<{ key: TeamMatrixSortKey; label: string }> = [
+  { key: 'presentDays', label: 'Present' },
+  { key: 'lateDays', label: 'Late' },
+  { key: 'absentDays', label: 'Absent' },
+  { key: 'totalHours', label: 'Hours' },
+  { key: 'attendanceRate', label: 'Rate' }
+];
+
+// Legend: the check-in categories, then the other kinds of day
+const LEGEND = [
+  ...['Early Check-in', 'On Time', 'Acceptable', 'Late'].map(category => ({
+    label: TIME_CATEGORIES[category].label,
+    color: TIME_CATEGORIES[category].color,
+    code: TEAM_MATRIX_CONFIG.dayKinds.present.code
+  })),
+  ...(['absent', 'leave', 'holiday', 'off'] as const).map(kind => ({
+    label: TEAM_MATRIX_CONFIG.dayKinds[kind].label,
+    color: TEAM_MATRIX_CONFIG.dayKinds[kind].color,
+    code: TEAM_MATRIX_CONFIG.dayKinds[kind].code
+  }))
+];
+
+const describeCell = (name: string, cell: TeamMatrixCell): string => {
+  const parts = [`${name} - ${cell.date}`, TEAM_MATRIX_CONFIG.dayKinds[cell.kind].label];
+  if (cell.check_in) parts.push(`In ${formatTime(cell.check_in)}`);
+  if (cell.check_out) parts.push(`Out ${formatTime(cell.check_out)}`);
+  if (cell.work_hours) parts.push(formatHours(cell.work_hours));
+  if (cell.category) parts.push(TIME_CATEGORIES[cell.category]?.label || cell.category);
+  if (cell.note) parts.push(cell.note);
+  return parts.join('\n');
+};
+
+interface TeamMatrixTabProps {
+  orgFilter: OrgFilter;
+}
+
+export const TeamMatrixTab: React.FC<TeamMatrixTabProps> = ({ orgFilter }) => {
+  const { matrix, loading, error, loadMatrix } = useTeamMatrix();
+  const { exporting, exportData } = useDataExport();
+  const [month, setMonth] = useState(getCurrentMonth());
+  const [sortKey, setSortKey] = useState<TeamMatrixSortKey>('name');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  useEffect(() => {
+    if (month) loadMatrix(month, orgFilter);
+  }, [month, orgFilter, loadMatrix]);
+
+  const rows = useMemo(
+    () => (matrix ? sortTeamMatrixRows(matrix.rows, sortKey, sortDirection) : []),
+    [matrix, sortKey, sortDirection]
+  );
+
+  // Click a header to sort by it; click again to reverse. Totals start with the highest first.
+  const handleSort = (key: TeamMatrixSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'name' || key === 'department' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortIndicator = (key: TeamMatrixSortKey) =>
+    sortKey === key ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : '';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">🧮 Team Matrix</h3>
+            <p className="text-sm text-gray-500">Every employee against every day of the month - hover a cell for the times.</p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => exportData('teamMatrix', rows, month)}
+              disabled={exporting || rows.length === 0}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+            </button>
+            <button
+              onClick={() => exportData('teamMatrix', rows, month, undefined, 'excel')}
+              disabled={exporting || rows.length === 0}
+              className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+            >
+              {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading && !matrix ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading team matrix...</p>
+        </div>
+      ) : matrix && rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+          No employees or records for {formatMonthYear(matrix.month)}.
+        </div>
+      ) : matrix && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr>
+                  <th
+                    onClick={() => handleSort('name')}
+                    className="sticky left-0 bg-white px-2 py-1 text-left font-medium text-gray-500 uppercase cursor-pointer hover:text-gray-900"
+                  >
+                    Employee{sortIndicator('name')}
+                  </th>
+                  {matrix.dates.map(date => (
+                    <th key={date} className="px-1 py-1 text-center font-medium text-gray-500 w-7">
+                      {Number(date.slice(8))}
+                    </th>
+                  ))}
+                  {TOTAL_COLUMNS.map(column => (
+                    <th
+                      key={column.key}
+                      onClick={() => handleSort(column.key)}
+                      className="px-2 py-1 text-right font-medium text-gray-500 uppercase cursor-pointer hover:text-gray-900 whitespace-nowrap"
+                    >
+                      {column.label}{sortIndicator(column.key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.emp_code} className="hover:bg-gray-50">
+                    <td className="sticky left-0 bg-white px-2 py-1 whitespace-nowrap">
+                      <div className="font-medium text-gray-900">{row.name}</div>
+                      <div className="text-gray-500">{row.emp_code}{row.department && ` - ${row.department}`}</div>
+                    </td>
+                    {row.cells.map(cell => {
+                      const color = getTeamMatrixCellColor(cell);
+                      return (
+                        <td
+                          key={cell.date}
+                          title={describeCell(row.name, cell)}
+                          className={`w-7 h-7 text-center rounded ${color ? CELL_CLASSES[color] || CELL_CLASSES.gray : ''}`}
+                        >
+                          {TEAM_MATRIX_CONFIG.dayKinds[cell.kind].code}
+                        </td>
+                      );
+                    })}
+                    <td className="px-2 py-1 text-right text-gray-900">{row.presentDays}</td>
+                    <td className={`px-2 py-1 text-right ${row.lateDays > 0 ? 'text-red-600 font-semibold' : 'text-gray-900'}`}>{row.lateDays}</td>
+                    <td className={`px-2 py-1 text-right ${row.absentDays > 0 ? 'text-red-600' : 'text-gray-900'}`}>{row.absentDays}</td>
+                    <td className="px-2 py-1 text-right text-gray-900">{row.totalHours}h</td>
+                    <td className="px-2 py-1 text-right text-gray-900">{row.attendanceRate}%</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="text-gray-600">
+                {([
+                  ['Present', 'present'],
+                  ['Late', 'late'],
+                  ['Hours', 'totalHours']
+                ] as const).map(([label, field]) => (
+                  <tr key={field}>
+                    <td className="sticky left-0 bg-white px-2 py-1 font-semibold">{label}</td>
+                    {matrix.dayTotals.map(day => (
+                      <td key={day.date} className="text-center">
+                        {day[field] || ''}
+                      </td>
+                    ))}
+                    <td colSpan={TOTAL_COLUMNS.length}></td>
+                  </tr>
+                ))}
+              </tfoot>
+            </table>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3 mt-4 text-xs text-gray-600">
+            {LEGEND.map(item => (
+              <span key={item.label} className="inline-flex items-center">
+                <span className={`inline-flex items-center justify-center w-5 h-5 rounded mr-1 ${item.color ? CELL_CLASSES[item.color] : ''}`}>
+                  {item.code}
+                </span>
+                {item.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
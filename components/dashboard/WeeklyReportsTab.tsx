@@ -4,16 +4,23 @@
 'use client';
 
 import React, { useState, useCallback, useEffect } from 'react';
-import type { WeeklySummary, WeeklyEmployeeData } from '../../lib/types';
-import { formatDate, getWeekDays } from '../../lib/formatters';
+import type { WeeklySummary, WeeklyEmployeeData, OrgFilter } from '../../lib/types';
+import { formatDate, formatHours, roundHours } from '../../lib/formatters';
 import { getCategoryColor, getStatusColor } from '../../lib/utils';
+import { normalizeTimeCategory } from '../../lib/classification';
+import { TIME_CATEGORIES } from '../../constants/config';
+import { getWeekDays } from '../../lib/shifts';
+import { getLeaveType } from '../../lib/leave';
+import { filterByOrg, groupByDepartment } from '../../lib/departments';
 import { useEmployeeData } from '../../hooks/useEmployeeData';
+import { useWorkSchedule } from '../../hooks/useWorkSchedule';
 import { useDataExport } from '../../hooks/useDataExport';
 
 interface WeeklyReportsTabProps {
   weeklyData: WeeklySummary[];
   loading: boolean;
   error: string;
+  orgFilter: OrgFilter;
 }
 
 type WeeklyViewMode = 'summary' | 'details';
@@ -21,10 +28,12 @@ type WeeklyViewMode = 'summary' | 'details';
 export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
   weeklyData,
   loading,
-  error
+  error,
+  orgFilter
 }) => {
   const { exporting, exportData } = useDataExport();
   const { loadWeeklyEmployeeData } = useEmployeeData();
+  const { schedule, loadSchedule, getWorkTime } = useWorkSchedule();
   
   // Local state
   const [viewMode, setViewMode] = useState<WeeklyViewMode>('summary');
@@ -32,6 +41,12 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
   const [weeklyEmployeeData, setWeeklyEmployeeData] = useState<WeeklyEmployeeData[]>([]);
   const [employeeLoading, setEmployeeLoading] = useState(false);
   const [expandedEmployee, setExpandedEmployee] = useState<string | null>(null);
+  const [groupByDept, setGroupByDept] = useState(false);
+
+  // Holidays are needed for the daily breakdown grid
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
 
   // Initialize selected week
   useEffect(() => {
@@ -69,6 +84,176 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
     }
   }, [viewMode, selectedWeek, weeklyEmployeeData.length, handleWeeklySelect]);
 
+  // The department / team filter applies to the loaded week; grouping adds subtotal rows
+  const visibleEmployeeData = filterByOrg(weeklyEmployeeData, orgFilter, schedule.employees);
+  const departmentGroups = groupByDepartment(visibleEmployeeData, schedule.employees);
+
+  // One employee's row, and their daily breakdown when expanded - shared by the flat and grouped tables
+  const renderEmployeeRow = (employee: WeeklyEmployeeData, index: number) => {
+    const attendanceRate = employee.totalDays > 0 ? Math.round((employee.presentDays / employee.totalDays) * 100) : 0;
+    const isExpanded = expandedEmployee === employee.emp_code;
+    const weekDays = selectedWeek
+      ? getWeekDays(employee.emp_code, selectedWeek.split('_')[0], selectedWeek.split('_')[1], schedule)
+      : [];
+
+    return (
+      <React.Fragment key={employee.emp_code || index}>
+        {/* Main Employee Row */}
+        <tr className="hover:bg-gray-50">
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="text-sm font-medium text-gray-900">
+              {employee.name}
+            </div>
+            <div className="text-sm text-gray-500">
+              Code: {employee.emp_code}
+            </div>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="text-sm text-gray-900">
+              {employee.presentDays}/{employee.totalDays} days
+            </div>
+            <div className={`text-xs font-medium ${
+              attendanceRate >= 100 ? 'text-green-600' :
+              attendanceRate >= 80 ? 'text-yellow-600' : 'text-red-600'
+            }`}>
+              {attendanceRate}% attendance
+            </div>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+              employee.leaveDays === 0 ? 'text-green-600 bg-green-50' : 
+              employee.leaveDays <= 1 ? 'text-yellow-600 bg-yellow-50' : 'text-red-600 bg-red-50'
+            }`}>
+              {employee.leaveDays} days
+            </span>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+            <div className="font-medium">{Math.round(employee.totalHours * 10) / 10}h</div>
+            <div className="text-xs text-gray-500">
+              Avg: {employee.presentDays > employee.flaggedDays ? Math.round((employee.totalHours / (employee.presentDays - employee.flaggedDays)) * 10) / 10 : 0}h/day
+            </div>
+            {employee.flaggedDays > 0 && (
+              <div className="text-xs text-orange-600" title="Days with a missing check-out, a single punch or impossible hours are left out of the total">
+                ⚠️ {employee.flaggedDays} day{employee.flaggedDays > 1 ? 's' : ''} not counted
+              </div>
+            )}
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm">
+            <div className="font-medium text-green-700">+{formatHours(employee.overtimeHours)}</div>
+            <div className="text-xs text-orange-600">-{formatHours(employee.undertimeHours)}</div>
+            {employee.earlyLeaveMinutes > 0 && (
+              <div className="text-xs text-red-600">Left early {employee.earlyLeaveMinutes}m</div>
+            )}
+            <div className="text-xs text-gray-500">Lunch -{formatHours(employee.lunchDeductionHours)}</div>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap">
+            <div className="flex space-x-1">
+              <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-green-50 text-green-700">
+                On-time: {employee.onTimeDays}
+              </span>
+              <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-red-50 text-red-700">
+                Late: {employee.lateDays}
+              </span>
+            </div>
+          </td>
+          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+            <button
+              onClick={() => setExpandedEmployee(isExpanded ? null : employee.emp_code)}
+              className="text-blue-600 hover:text-blue-900 text-xs transition-colors"
+            >
+              {isExpanded ? '▼ Hide Details' : '▶ Show Details'}
+            </button>
+          </td>
+        </tr>
+
+        {/* Expanded Daily Details Row */}
+        {isExpanded && (
+          <tr className="bg-blue-50">
+            <td colSpan={7} className="px-6 py-4">
+              <div className="bg-white rounded-lg p-4 shadow-sm">
+                <h4 className="font-semibold text-gray-900 mb-3">
+                  📅 Daily Breakdown for {employee.name}
+                </h4>
+                <div className="grid grid-cols-5 gap-4">
+                  {weekDays.map(day => {
+                    const dayData = employee.dailyBreakdown?.[day.date];
+                    const workTime = dayData ? getWorkTime(dayData) : null;
+                    return (
+                      <div
+                        key={day.date}
+                        className={`text-center border rounded-lg p-3 ${day.holiday ? 'bg-purple-50 border-purple-200' : ''}`}
+                      >
+                        <h5 className="font-medium text-gray-900 text-sm">{day.dayName}</h5>
+                        <p className="text-xs text-gray-500 mb-2">{day.shortDate}</p>
+                        {day.holiday && dayData && (
+                          <p className="text-xs text-purple-700 mb-1">🎉 {day.holiday.name}</p>
+                        )}
+
+                        {dayData?.leave_type && !dayData.check_in ? (
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium text-gray-900">
+                              {dayData.status === 'WFH' ? '🏠' : '🌴'} {getLeaveType(dayData.leave_type).name}
+                            </p>
+                            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(dayData.status)}`}>
+                              {dayData.status}
+                            </span>
+                          </div>
+                        ) : dayData ? (
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium text-gray-900">
+                              {dayData.check_in || 'N/A'}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {dayData.check_out || 'N/A'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {dayData.work_hours ? `${Math.round(dayData.work_hours * 10) / 10}h` : 'N/A'}
+                            </p>
+                            {workTime && workTime.overtimeHours > 0 && (
+                              <p className="text-xs text-green-700">+{formatHours(workTime.overtimeHours)} overtime</p>
+                            )}
+                            {workTime && workTime.undertimeHours > 0 && (
+                              <p className="text-xs text-orange-600">-{formatHours(workTime.undertimeHours)} short</p>
+                            )}
+                            {workTime && workTime.earlyLeaveMinutes > 0 && (
+                              <p className="text-xs text-red-600">Left {workTime.earlyLeaveMinutes}m early</p>
+                            )}
+                            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(dayData.time_category)}`}>
+                              {TIME_CATEGORIES[normalizeTimeCategory(dayData.time_category)].label}
+                            </span>
+                            {dayData.correction && (
+                              <p className="text-xs text-indigo-600" title={dayData.correction.reason}>✏️ Corrected</p>
+                            )}
+                          </div>
+                        ) : day.holiday ? (
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium text-purple-700">🎉 Holiday</p>
+                            <p className="text-xs text-purple-600">{day.holiday.name}</p>
+                            <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                              {day.holiday.department ? `${day.holiday.department} only` : 'Company-wide'}
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium text-red-600">Absent</p>
+                            <p className="text-xs text-gray-400">No check-in</p>
+                            <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-red-50 text-red-700">
+                              No record
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
   if (loading) {
     return (
       <div className="text-center py-12">
@@ -139,13 +324,22 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-bold text-gray-900">📈 Weekly Performance Summary</h3>
-            <button
-              onClick={() => exportData('weekly', weeklyData)}
-              disabled={exporting}
-              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
-            >
-              {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportData('weekly', weeklyData)}
+                disabled={exporting}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+              </button>
+              <button
+                onClick={() => exportData('weekly', weeklyData, undefined, undefined, 'excel')}
+                disabled={exporting}
+                className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+              >
+                {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+              </button>
+            </div>
           </div>
           
           {/* Weekly Summary Stats */}
@@ -234,48 +428,78 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
                 <p className="mt-2 text-gray-600">Loading weekly employee data...</p>
               </div>
             </div>
-          ) : weeklyEmployeeData && weeklyEmployeeData.length > 0 ? (
+          ) : visibleEmployeeData.length > 0 ? (
             <div className="bg-white rounded-lg shadow p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-bold text-gray-900">
                   👥 Weekly Employee Details - {selectedWeek ? formatDate(selectedWeek.split('_')[0]) : ''} to {selectedWeek ? formatDate(selectedWeek.split('_')[1]) : ''}
                 </h3>
-                <button
-                  onClick={() => {
-                    const weekRange = selectedWeek.split('_');
-                    exportData('weeklyDetails', weeklyEmployeeData, `${weekRange[0]}-to-${weekRange[1]}`);
-                  }}
-                  disabled={exporting}
-                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
-                >
-                  {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
-                </button>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mr-2">
+                    <input
+                      type="checkbox"
+                      checked={groupByDept}
+                      onChange={(e) => setGroupByDept(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Group by department
+                  </label>
+                  <button
+                    onClick={() => {
+                      const weekRange = selectedWeek.split('_');
+                      exportData('weeklyDetails', visibleEmployeeData, `${weekRange[0]}-to-${weekRange[1]}`);
+                    }}
+                    disabled={exporting}
+                    className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm transition-colors"
+                  >
+                    {exporting ? '⏳ Exporting...' : '📊 Export CSV'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      const weekRange = selectedWeek.split('_');
+                      exportData('weeklyDetails', visibleEmployeeData, `${weekRange[0]}-to-${weekRange[1]}`, undefined, 'excel');
+                    }}
+                    disabled={exporting}
+                    className="bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 disabled:opacity-50 text-sm transition-colors"
+                  >
+                    {exporting ? '⏳ Exporting...' : '📗 Export Excel'}
+                  </button>
+                </div>
               </div>
 
               {/* Weekly Summary Stats */}
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
                 <div className="bg-blue-50 p-4 rounded-lg text-center">
-                  <p className="text-2xl font-bold text-blue-600">{weeklyEmployeeData.length}</p>
+                  <p className="text-2xl font-bold text-blue-600">{visibleEmployeeData.length}</p>
                   <p className="text-sm text-blue-800">Total Employees</p>
                 </div>
                 <div className="bg-green-50 p-4 rounded-lg text-center">
                   <p className="text-2xl font-bold text-green-600">
-                    {weeklyEmployeeData.filter((emp) => emp.leaveDays === 0).length}
+                    {visibleEmployeeData.filter((emp) => emp.leaveDays === 0).length}
                   </p>
                   <p className="text-sm text-green-800">Perfect Attendance</p>
                 </div>
                 <div className="bg-red-50 p-4 rounded-lg text-center">
                   <p className="text-2xl font-bold text-red-600">
-                    {weeklyEmployeeData.filter((emp) => emp.leaveDays > 0).length}
+                    {visibleEmployeeData.filter((emp) => emp.leaveDays > 0).length}
                   </p>
                   <p className="text-sm text-red-800">Had Leave Days</p>
                 </div>
                 <div className="bg-yellow-50 p-4 rounded-lg text-center">
                   <p className="text-2xl font-bold text-yellow-600">
-                    {Math.round(weeklyEmployeeData.reduce((sum, emp) => sum + emp.totalHours, 0))}h
+                    {Math.round(visibleEmployeeData.reduce((sum, emp) => sum + emp.totalHours, 0))}h
                   </p>
                   <p className="text-sm text-yellow-800">Total Hours</p>
                 </div>
+                <div className="bg-orange-50 p-4 rounded-lg text-center">
+                  <p className="text-2xl font-bold text-orange-600">
+                    +{roundHours(visibleEmployeeData.reduce((sum, emp) => sum + emp.overtimeHours, 0))}h
+                  </p>
+                  <p className="text-sm text-orange-800">Overtime</p>
+                  <p className="text-xs text-orange-600">
+                    -{roundHours(visibleEmployeeData.reduce((sum, emp) => sum + emp.undertimeHours, 0))}h undertime
+                  </p>
+                </div>
               </div>
 
               {/* Employee Details Table with Expandable Rows */}
@@ -295,6 +519,9 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Total Hours
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Overtime / Undertime
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Performance
                       </th>
@@ -304,123 +531,37 @@ export const WeeklyReportsTab: React.FC<WeeklyReportsTabProps> = ({
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {weeklyEmployeeData.map((employee, index) => {
-                      const attendanceRate = employee.totalDays > 0 ? Math.round((employee.presentDays / employee.totalDays) * 100) : 0;
-                      const isExpanded = expandedEmployee === employee.emp_code;
-                      const weekDays = selectedWeek ? getWeekDays(selectedWeek.split('_')[0], selectedWeek.split('_')[1]) : [];
-
+                    {groupByDept ? departmentGroups.map(group => {
+                      const present = group.rows.reduce((sum, emp) => sum + emp.presentDays, 0);
+                      const expected = group.rows.reduce((sum, emp) => sum + emp.totalDays, 0);
                       return (
-                        <React.Fragment key={employee.emp_code || index}>
-                          {/* Main Employee Row */}
-                          <tr className="hover:bg-gray-50">
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm font-medium text-gray-900">
-                                {employee.name}
-                              </div>
-                              <div className="text-sm text-gray-500">
-                                Code: {employee.emp_code}
-                              </div>
+                        <React.Fragment key={group.department}>
+                          <tr className="bg-gray-100">
+                            <td className="px-6 py-2 whitespace-nowrap text-sm font-semibold text-gray-900">
+                              🏢 {group.department} ({group.rows.length})
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm text-gray-900">
-                                {employee.presentDays}/{employee.totalDays} days
-                              </div>
-                              <div className={`text-xs font-medium ${
-                                attendanceRate >= 100 ? 'text-green-600' :
-                                attendanceRate >= 80 ? 'text-yellow-600' : 'text-red-600'
-                              }`}>
-                                {attendanceRate}% attendance
-                              </div>
+                            <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-700">
+                              {present}/{expected} days · {expected > 0 ? Math.round((present / expected) * 100) : 0}%
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                employee.leaveDays === 0 ? 'text-green-600 bg-green-50' : 
-                                employee.leaveDays <= 1 ? 'text-yellow-600 bg-yellow-50' : 'text-red-600 bg-red-50'
-                              }`}>
-                                {employee.leaveDays} days
-                              </span>
+                            <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-700">
+                              {group.rows.reduce((sum, emp) => sum + emp.leaveDays, 0)} days
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              <div className="font-medium">{Math.round(employee.totalHours * 10) / 10}h</div>
-                              <div className="text-xs text-gray-500">
-                                Avg: {employee.presentDays > 0 ? Math.round((employee.totalHours / employee.presentDays) * 10) / 10 : 0}h/day
-                              </div>
+                            <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-700">
+                              {roundHours(group.rows.reduce((sum, emp) => sum + emp.totalHours, 0))}h
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex space-x-1">
-                                <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-green-50 text-green-700">
-                                  On-time: {employee.onTimeDays}
-                                </span>
-                                <span className="inline-flex px-2 py-1 text-xs font-medium rounded bg-red-50 text-red-700">
-                                  Late: {employee.lateDays}
-                                </span>
-                              </div>
+                            <td className="px-6 py-2 whitespace-nowrap text-xs">
+                              <span className="text-green-700">+{formatHours(group.rows.reduce((sum, emp) => sum + emp.overtimeHours, 0))}</span>
+                              {' / '}
+                              <span className="text-orange-600">-{formatHours(group.rows.reduce((sum, emp) => sum + emp.undertimeHours, 0))}</span>
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              <button
-                                onClick={() => setExpandedEmployee(isExpanded ? null : employee.emp_code)}
-                                className="text-blue-600 hover:text-blue-900 text-xs transition-colors"
-                              >
-                                {isExpanded ? '▼ Hide Details' : '▶ Show Details'}
-                              </button>
+                            <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-700" colSpan={2}>
+                              On-time: {group.rows.reduce((sum, emp) => sum + emp.onTimeDays, 0)} · Late: {group.rows.reduce((sum, emp) => sum + emp.lateDays, 0)}
                             </td>
                           </tr>
-
-                          {/* Expanded Daily Details Row */}
-                          {isExpanded && (
-                            <tr className="bg-blue-50">
-                              <td colSpan={6} className="px-6 py-4">
-                                <div className="bg-white rounded-lg p-4 shadow-sm">
-                                  <h4 className="font-semibold text-gray-900 mb-3">
-                                    📅 Daily Breakdown for {employee.name}
-                                  </h4>
-                                  <div className="grid grid-cols-5 gap-4">
-                                    {weekDays.map(day => {
-                                      const dayData = employee.dailyBreakdown?.[day.date];
-                                      return (
-                                        <div key={day.date} className="text-center border rounded-lg p-3">
-                                          <h5 className="font-medium text-gray-900 text-sm">{day.dayName}</h5>
-                                          <p className="text-xs text-gray-500 mb-2">{day.shortDate}</p>
-                                          
-                                          {dayData ? (
-                                            <div className="space-y-1">
-                                              <p className="text-sm font-medium text-gray-900">
-                                                {dayData.check_in || 'N/A'}
-                                              </p>
-                                              <p className="text-sm text-gray-600">
-                                                {dayData.check_out || 'N/A'}
-                                              </p>
-                                              <p className="text-xs text-gray-500">
-                                                {dayData.work_hours ? `${Math.round(dayData.work_hours * 10) / 10}h` : 'N/A'}
-                                              </p>
-                                              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getCategoryColor(dayData.time_category)}`}>
-                                                {dayData.time_category === 'On-time Check-in' ? 'On-time' :
-                                                 dayData.time_category === 'Late Check-in' ? 'Late' :
-                                                 dayData.time_category === 'Early Check-in' ? 'Early' :
-                                                 dayData.time_category === 'Acceptable Check-in' ? 'Acceptable' : 
-                                                 dayData.time_category || 'N/A'}
-                                              </span>
-                                            </div>
-                                          ) : (
-                                            <div className="space-y-1">
-                                              <p className="text-sm font-medium text-red-600">Absent</p>
-                                              <p className="text-xs text-gray-400">No check-in</p>
-                                              <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-red-50 text-red-700">
-                                                Leave
-                                              </span>
-                                            </div>
-                                          )}
-                                        </div>
-                                      );
-                                    })}
-                                  </div>
-                                </div>
-                              </td>
-                            </tr>
-                          )}
+                          {group.rows.map(renderEmployeeRow)}
                         </React.Fragment>
                       );
-                    })}
+                    }) : visibleEmployeeData.map(renderEmployeeRow)}
                   </tbody>
                 </table>
               </div>
@@ -0,0 +1,39 @@
+// components/dashboard/WorkTimeCells.tsx
+// ⏱️ Overtime, undertime, early leave and lunch deduction table cells for one record
+
+'use client';
+
+import React from 'react';
+import type { WorkTimeBreakdown } from '../../lib/types';
+import { formatHours } from '../../lib/formatters';
+
+export const WORK_TIME_HEADERS = ['Overtime', 'Undertime', 'Early Leave', 'Lunch'];
+
+interface WorkTimeCellsProps {
+  workTime: WorkTimeBreakdown;
+}
+
+export const WorkTimeCells: React.FC<WorkTimeCellsProps> = ({ workTime }) => {
+  const { overtimeHours, undertimeHours, earlyLeaveMinutes, lunchDeductionHours, netHours } = workTime;
+  const empty = <span className="text-gray-300">—</span>;
+
+  return (
+    <>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-700">
+        {overtimeHours > 0 ? `+${formatHours(overtimeHours)}` : empty}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-orange-600">
+        {undertimeHours > 0 ? `-${formatHours(undertimeHours)}` : empty}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-red-600">
+        {earlyLeaveMinutes > 0 ? `${earlyLeaveMinutes}m` : empty}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+        {lunchDeductionHours > 0 ? `-${formatHours(lunchDeductionHours)}` : empty}
+        {netHours > 0 && (
+          <div className="text-xs text-gray-500">Net {formatHours(netHours)}</div>
+        )}
+      </td>
+    </>
+  );
+};
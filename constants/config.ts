@@ -1,7 +1,7 @@
 // constants/config.ts
 // 🔧 Application configuration and constants
 
-import type { TimeCategory, AttendanceStatus } from '../lib/types';
+import type { TimeCategory, AttendanceStatus, AttendanceDayKind, DataSource, ShiftSchedule, LeaveTypeId, LeaveTypeDefinition, UserRole, RoleDefinition, PayrollColumn, CheckInThresholds, RecordAnomalyType, TabType } from '../lib/types';
 
 // Application metadata
 export const APP_CONFIG = {
@@ -30,6 +30,7 @@ export const ATTENDANCE_STATUS: Record<string, { label: string; color: string }>
   'Present': { label: 'Present', color: 'green' },
   'Absent': { label: 'Absent', color: 'red' },
   'Leave': { label: 'Leave', color: 'yellow' },
+  'WFH': { label: 'Working from home', color: 'teal' },
   'N/A': { label: 'N/A', color: 'gray' }
 } as const;
 
@@ -46,6 +47,147 @@ export const WORK_SCHEDULE = {
   workDays: [1, 2, 3, 4, 5] // Monday to Friday
 } as const;
 
+// Named shift definitions - assign them to a department or emp_code via the shift_assignments table
+// Employees without an assignment fall back to DEFAULT_SHIFT_ID
+export const SHIFT_DEFINITIONS: Record<string, ShiftSchedule> = {
+  standard: {
+    name: 'Standard (09:00-18:00)',
+    ...WORK_SCHEDULE
+  },
+  mid: {
+    name: 'Mid (10:00-19:00)',
+    standardStart: '10:00',
+    earlyThreshold: '10:00',
+    onTimeThreshold: '10:30',
+    acceptableThreshold: '11:00',
+    standardEnd: '19:00',
+    lunchBreakStart: '14:00',
+    lunchBreakEnd: '15:00',
+    minimumWorkHours: 8,
+    workDays: [1, 2, 3, 4, 5]
+  },
+  evening: {
+    name: 'Evening (14:00-23:00)',
+    standardStart: '14:00',
+    earlyThreshold: '14:00',
+    onTimeThreshold: '14:15',
+    acceptableThreshold: '14:30',
+    standardEnd: '23:00',
+    lunchBreakStart: '18:00',
+    lunchBreakEnd: '19:00',
+    minimumWorkHours: 8,
+    workDays: [1, 2, 3, 4, 5]
+  },
+  split: {
+    name: 'Split (08:00-12:00, 16:00-20:00)',
+    standardStart: '08:00',
+    earlyThreshold: '08:00',
+    onTimeThreshold: '08:15',
+    acceptableThreshold: '08:30',
+    standardEnd: '20:00',
+    lunchBreakStart: '12:00', // the mid-day gap is treated like a long lunch break
+    lunchBreakEnd: '16:00',
+    minimumWorkHours: 8,
+    workDays: [0, 1, 2, 3, 4]
+  }
+};
+
+export const DEFAULT_SHIFT_ID = 'standard';
+
+// Leave types - approved leave replaces absence on the days it covers
+export const LEAVE_TYPES: Record<LeaveTypeId, LeaveTypeDefinition> = {
+  annual: { name: 'Annual Leave', paid: true, annualAllowance: 22, accrual: 'monthly', countsAsAttendance: false, color: 'blue' },
+  sick: { name: 'Sick Leave', paid: true, annualAllowance: 10, accrual: 'yearly', countsAsAttendance: false, color: 'orange' },
+  unpaid: { name: 'Unpaid Leave', paid: false, annualAllowance: null, accrual: 'yearly', countsAsAttendance: false, color: 'gray' },
+  maternity: { name: 'Maternity Leave', paid: true, annualAllowance: 60, accrual: 'yearly', countsAsAttendance: false, color: 'pink' },
+  wfh: { name: 'Work From Home', paid: true, annualAllowance: null, accrual: 'yearly', countsAsAttendance: true, color: 'teal' }
+};
+
+export const LEAVE_CONFIG = {
+  defaultType: 'annual' as LeaveTypeId,
+  maxCarryOver: 5 // days of unused allowance that may be carried into the next year
+} as const;
+
+// Roles - what each kind of user can see and do
+export const ROLE_DEFINITIONS: Record<UserRole, RoleDefinition> = {
+  admin: {
+    label: 'Administrator',
+    scope: 'all',
+    tabs: ['summary', 'employees', 'weekly', 'monthly', 'matrix', 'overview', 'lateness', 'sync', 'import', 'quality', 'directory', 'holidays', 'leave', 'corrections'],
+    canManageHolidays: true,
+    canReviewLeave: true,
+    canReviewCorrections: true,
+    canManageBalances: true,
+    canExportPayroll: true,
+    canImportPunches: true,
+    canManageEmployees: true,
+    readOnly: false
+  },
+  hr: {
+    label: 'HR',
+    scope: 'all',
+    tabs: ['summary', 'employees', 'weekly', 'monthly', 'matrix', 'overview', 'lateness', 'sync', 'import', 'quality', 'directory', 'holidays', 'leave', 'corrections'],
+    canManageHolidays: true,
+    canReviewLeave: true,
+    canReviewCorrections: true,
+    canManageBalances: true,
+    canExportPayroll: true,
+    canImportPunches: true,
+    canManageEmployees: true,
+    readOnly: false
+  },
+  manager: {
+    label: 'Manager',
+    scope: 'department',
+    tabs: ['summary', 'employees', 'weekly', 'monthly', 'matrix', 'overview', 'lateness', 'quality', 'directory', 'leave', 'corrections'],
+    canManageHolidays: false,
+    canReviewLeave: true,
+    canReviewCorrections: true,
+    canManageBalances: false,
+    canExportPayroll: false,
+    canImportPunches: false,
+    canManageEmployees: false,
+    readOnly: false
+  },
+  employee: {
+    label: 'Employee',
+    scope: 'self',
+    tabs: ['monthly', 'leave', 'corrections'],
+    canManageHolidays: false,
+    canReviewLeave: false,
+    canReviewCorrections: false,
+    canManageBalances: false,
+    canExportPayroll: false,
+    canImportPunches: false,
+    canManageEmployees: false,
+    readOnly: false
+  },
+  // Internal tools calling the REST API with ATTENDANCE_API_KEY - they see everything and change nothing
+  api: {
+    label: 'API client',
+    scope: 'all',
+    tabs: [],
+    canManageHolidays: false,
+    canReviewLeave: false,
+    canReviewCorrections: false,
+    canManageBalances: false,
+    canExportPayroll: false,
+    canImportPunches: false,
+    canManageEmployees: false,
+    readOnly: true
+  }
+};
+
+// Authentication configuration
+// Demo sign-in (token "demo:<profile id>") is only accepted when DATA_SOURCE_CONFIG.source is 'memory'
+export const AUTH_CONFIG = {
+  demoTokenPrefix: 'demo:',
+  demoStorageKey: 'boopin-demo-user',
+  profileEndpoint: '/api/auth/profile',
+  demoUsersEndpoint: '/api/auth/demo',
+  repositoryEndpoint: '/api/repository'
+} as const;
+
 // Dashboard configuration
 export const DASHBOARD_CONFIG = {
   defaultTab: 'summary' as const,
@@ -57,6 +199,164 @@ export const DASHBOARD_CONFIG = {
   timezone: 'Asia/Dubai'
 } as const;
 
+// Spreadsheet (XLSX) export formatting - fills are the light tints of the badge colours
+export const EXCEL_EXPORT_CONFIG = {
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  dateFormat: 'yyyy-mm-dd',
+  timeFormat: 'hh:mm',
+  hoursFormat: '0.0',
+  percentFormat: '0"%"',
+  headerFill: 'FFE5E7EB',
+  fills: {
+    blue: 'FFDBEAFE',
+    green: 'FFDCFCE7',
+    yellow: 'FFFEF9C3',
+    red: 'FFFEE2E2',
+    gray: 'FFF3F4F6',
+    teal: 'FFCCFBF1',
+    purple: 'FFF3E8FF'
+  } as Record<string, string>,
+  defaultColumnWidth: 14
+} as const;
+
+// Printable monthly statements (PDF) - light fills and matching text colours for the calendar grid
+export const STATEMENT_CONFIG = {
+  pdfMimeType: 'application/pdf',
+  zipMimeType: 'application/zip',
+  margin: 40,
+  fills: {
+    blue: '#DBEAFE',
+    green: '#DCFCE7',
+    yellow: '#FEF9C3',
+    red: '#FEE2E2',
+    gray: '#F3F4F6',
+    teal: '#CCFBF1',
+    orange: '#FFEDD5',
+    pink: '#FCE7F3',
+    purple: '#F3E8FF'
+  } as Record<string, string>,
+  textColors: {
+    blue: '#1D4ED8',
+    green: '#15803D',
+    yellow: '#A16207',
+    red: '#B91C1C',
+    gray: '#4B5563',
+    teal: '#0F766E',
+    orange: '#C2410C',
+    pink: '#BE185D',
+    purple: '#7E22CE'
+  } as Record<string, string>,
+  signatures: ['Employee', 'Line Manager', 'HR']
+} as const;
+
+// Payroll timesheet export - one row per employee per month.
+// Reorder, rename or drop columns to match the payroll system's CSV import template.
+export const PAYROLL_EXPORT_CONFIG = {
+  columns: [
+    { field: 'emp_code', header: 'Employee ID' },
+    { field: 'name', header: 'Employee Name' },
+    { field: 'department', header: 'Department' },
+    { field: 'period_start', header: 'Period Start' },
+    { field: 'period_end', header: 'Period End' },
+    { field: 'expected_days', header: 'Scheduled Days' },
+    { field: 'days_worked', header: 'Days Worked' },
+    { field: 'regular_hours', header: 'Regular Hours' },
+    { field: 'overtime_hours', header: 'Overtime Hours' },
+    { field: 'late_minutes', header: 'Late Minutes' },
+    { field: 'absent_days', header: 'Absent Days' },
+    { field: 'leave_annual', header: 'Annual Leave Days' },
+    { field: 'leave_sick', header: 'Sick Leave Days' },
+    { field: 'leave_unpaid', header: 'Unpaid Leave Days' },
+    { field: 'leave_maternity', header: 'Maternity Leave Days' },
+    { field: 'leave_wfh', header: 'WFH Days' }
+  ] as PayrollColumn[],
+  hoursDecimals: 2
+};
+
+// Lateness report - minutes past a shift threshold, totalled per employee
+export const LATENESS_CONFIG = {
+  measureFrom: 'acceptableThreshold' as keyof CheckInThresholds, // the same cut-off as the Late category; payroll late minutes use it too
+  monthlyBudgetMinutes: 60 as number | null, // late minutes allowed per calendar month before an employee is flagged
+  defaultRangeDays: 30
+};
+
+// Team matrix - how each day that is not a check-in is shown (present days are coloured by time category)
+export const TEAM_MATRIX_CONFIG = {
+  dayKinds: {
+    present: { code: '•', label: 'Present', color: 'green' },
+    absent: { code: 'A', label: 'Absent', color: 'red' },
+    leave: { code: 'L', label: 'Leave', color: 'teal' },
+    holiday: { code: 'H', label: 'Holiday', color: 'purple' },
+    off: { code: '', label: 'Day off', color: 'gray' },
+    not_employed: { code: '–', label: 'Not employed', color: 'gray' },
+    upcoming: { code: '', label: 'Upcoming', color: null }
+  } as Record<AttendanceDayKind, { code: string; label: string; color: string | null }>
+};
+
+// Monthly overview - company-wide totals per month from monthly_summaries
+export const MONTHLY_OVERVIEW_CONFIG = {
+  recentMonths: 12 // months shown when no year is picked
+} as const;
+
+// Sync status - device sync runs recorded in sync_logs
+export const SYNC_STATUS_CONFIG = {
+  successStatuses: ['success', 'completed'], // compared in lowercase
+  staleAfterHours: 26, // the nightly sync plus some slack
+  defaultRangeDays: 30,
+  runDays: [1, 2, 3, 4, 5], // days of the week the nightly sync runs for; no run on other days is not flagged
+  dayStatuses: {
+    ok: { icon: '✅', label: 'Synced', color: 'green' },
+    failed: { icon: '⚠️', label: 'Sync failed', color: 'red' },
+    missing: { icon: '❓', label: 'No sync run', color: 'yellow' }
+  }
+};
+
+// Data quality - synced records whose hours are left out of the totals until they are corrected
+export const DATA_QUALITY_CONFIG = {
+  defaultRangeDays: 30,
+  anomalyTypes: {
+    missing_checkout: {
+      icon: '🚪',
+      label: 'Missing check-out',
+      description: 'Checked in on a past day but never checked out'
+    },
+    single_punch: {
+      icon: '☝️',
+      label: 'Single punch',
+      description: 'Only one punch, so check-in and check-out are the same moment'
+    },
+    checkout_before_checkin: {
+      icon: '🔀',
+      label: 'Out before in',
+      description: 'Check-out is earlier than check-in (no shift runs past midnight)'
+    },
+    excessive_hours: {
+      icon: '⏳',
+      label: 'Too many hours',
+      description: 'More work hours in a day than the daily maximum'
+    }
+  } as Record<RecordAnomalyType, { icon: string; label: string; description: string }>
+};
+
+// Departments and the org chart - the filter bar and department breakdowns
+export const DEPARTMENT_CONFIG = {
+  unassignedLabel: 'No department',
+  // Attendance and on-time rates at or above these are shown green / yellow, below them red
+  rateThresholds: { good: 90, fair: 75 },
+  // Tabs whose rows follow the department / team filter; the rest are company-wide or not per employee
+  filterTabs: ['summary', 'employees', 'weekly', 'monthly', 'matrix', 'lateness', 'quality'] as TabType[]
+};
+
+// Device punches - pairing rules for the per-day punch timeline
+export const PUNCH_CONFIG = {
+  duplicateWindowSeconds: 60, // a second punch this soon after the first is a double tap
+  directions: {
+    in: { icon: '🟢', label: 'In' },
+    out: { icon: '🔴', label: 'Out' },
+    unknown: { icon: '⚪', label: 'Punch' }
+  }
+} as const;
+
 // Color palette for charts and UI elements
 export const COLORS = {
   primary: {
@@ -115,7 +415,11 @@ export const CHART_CONFIG = {
   animations: {
     duration: 1000,
     easing: 'easeInOutQuart'
-  }
+  },
+  width: 800, // viewBox width - charts scale to their container
+  tickCount: 5,
+  rangeOptions: [7, 14, 30, 90], // days back from the latest summary
+  defaultRangeDays: 30
 } as const;
 
 // API endpoints and configuration
@@ -126,10 +430,18 @@ export const API_CONFIG = {
   retryDelay: 1000
 } as const;
 
+// Data source configuration
+// Set NEXT_PUBLIC_DATA_SOURCE=memory to run the dashboard offline against lib/fixtures
+export const DATA_SOURCE_CONFIG = {
+  source: (process.env.NEXT_PUBLIC_DATA_SOURCE === 'memory' ? 'memory' : 'supabase') as DataSource,
+  pageSize: 1000 // rows per request when paging; keep at or below the project's max rows setting
+} as const;
+
 // File upload configuration
 export const UPLOAD_CONFIG = {
   maxFileSize: 10 * 1024 * 1024, // 10MB
-  allowedTypes: ['image/jpeg', 'image/png', 'application/pdf', 'text/csv'],
+  allowedTypes: ['image/jpeg', 'image/png', 'application/pdf', 'text/csv', 'text/plain', 'text/tab-separated-values', 'text/calendar', 'application/json'],
+  deviceLogExtensions: ['.dat', '.txt', '.csv', '.tsv'], // attendance log exports from the terminals
   maxFiles: 5
 } as const;
 
@@ -144,8 +456,16 @@ export const VALIDATION_RULES = {
   attendance: {
     timeFormat: /^([01]?[0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$/,
     dateFormat: /^\d{4}-\d{2}-\d{2}$/,
+    monthFormat: /^\d{4}-(0[1-9]|1[0-2])$/,
+    punchTimeFormat: /^\d{4}-\d{2}-\d{2}T([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$/,
     maxWorkHours: 24,
     minWorkHours: 0
+  },
+  api: {
+    maxLimit: 100, // rows per summary request
+    maxRangeDays: 31, // longest date range for record requests
+    maxReportRangeDays: 92, // longest period for reports that return totals instead of records
+    maxPunchesPerImport: 5000
   }
 } as const;
 
@@ -222,10 +542,26 @@ export default {
   TIME_CATEGORIES,
   ATTENDANCE_STATUS,
   WORK_SCHEDULE,
+  SHIFT_DEFINITIONS,
+  LEAVE_TYPES,
+  LEAVE_CONFIG,
+  ROLE_DEFINITIONS,
+  AUTH_CONFIG,
   DASHBOARD_CONFIG,
+  EXCEL_EXPORT_CONFIG,
+  STATEMENT_CONFIG,
+  PAYROLL_EXPORT_CONFIG,
+  LATENESS_CONFIG,
+  TEAM_MATRIX_CONFIG,
+  MONTHLY_OVERVIEW_CONFIG,
+  SYNC_STATUS_CONFIG,
+  DATA_QUALITY_CONFIG,
+  DEPARTMENT_CONFIG,
+  PUNCH_CONFIG,
   COLORS,
   CHART_CONFIG,
   API_CONFIG,
+  DATA_SOURCE_CONFIG,
   UPLOAD_CONFIG,
   VALIDATION_RULES,
   ERROR_MESSAGES,
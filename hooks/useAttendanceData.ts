@@ -1,14 +1,18 @@
 // hooks/useAttendanceData.ts
 // 📊 Custom hook for managing attendance data (daily & weekly summaries)
 
-import { useState, useCallback } from 'react';
-import type { DailySummary, WeeklySummary, UseAttendanceDataReturn } from '../lib/types';
-import { commonQueries, handleSupabaseError } from '../lib/supabase';
+import { useState, useCallback, useRef } from 'react';
+import type { DailySummary, DailySummaryRange, WeeklySummary, UseAttendanceDataReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { attendanceApi } from '../lib/api';
 import { handleAsyncOperation } from '../lib/utils';
 
 export const useAttendanceData = (): UseAttendanceDataReturn => {
   const [dailyData, setDailyData] = useState<DailySummary[]>([]);
   const [weeklyData, setWeeklyData] = useState<WeeklySummary[]>([]);
+  const [dailyRange, setDailyRange] = useState<DailySummaryRange | null>(null);
+  // Read by refreshData without making it change identity whenever the range does
+  const dailyRangeRef = useRef<DailySummaryRange | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -17,17 +21,15 @@ export const useAttendanceData = (): UseAttendanceDataReturn => {
     setError('');
   }, []);
 
-  // Load daily summaries
+  // Load the most recent daily summaries
   const loadDailyData = useCallback(async (limit?: number) => {
     setLoading(true);
     clearError();
+    dailyRangeRef.current = null;
+    setDailyRange(null);
 
     const { data, error: loadError } = await handleAsyncOperation(
-      (async () => {
-        const response = await commonQueries.getRecentDailySummaries(limit);
-        if (response.error) throw response.error;
-        return response.data;
-      })(),
+      attendanceApi.getDailySummaries(limit),
       'Failed to load daily summaries'
     );
 
@@ -42,17 +44,36 @@ export const useAttendanceData = (): UseAttendanceDataReturn => {
     return { data, error: loadError };
   }, [clearError]);
 
+  // Load the daily summaries between two dates (inclusive) - kept on refresh until another range is chosen
+  const loadDailyRange = useCallback(async (startDate: string, endDate: string) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getDailySummariesInRange(startDate, endDate),
+      'Failed to load daily summaries'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Daily Data Loading'));
+      setDailyData([]);
+    } else {
+      setDailyData(data || []);
+      dailyRangeRef.current = { startDate, endDate };
+      setDailyRange(dailyRangeRef.current);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
   // Load weekly summaries
   const loadWeeklyData = useCallback(async (limit?: number) => {
     setLoading(true);
     clearError();
 
     const { data, error: loadError } = await handleAsyncOperation(
-      (async () => {
-        const response = await commonQueries.getRecentWeeklySummaries(limit);
-        if (response.error) throw response.error;
-        return response.data;
-      })(),
+      attendanceApi.getWeeklySummaries(limit),
       'Failed to load weekly summaries'
     );
 
@@ -71,23 +92,18 @@ export const useAttendanceData = (): UseAttendanceDataReturn => {
   const refreshData = useCallback(async () => {
     setLoading(true);
     clearError();
+    const dailyRange = dailyRangeRef.current;
 
     try {
       const [dailyResult, weeklyResult] = await Promise.all([
         handleAsyncOperation(
-          (async () => {
-            const response = await commonQueries.getRecentDailySummaries();
-            if (response.error) throw response.error;
-            return response.data;
-          })(),
+          dailyRange
+            ? attendanceApi.getDailySummariesInRange(dailyRange.startDate, dailyRange.endDate)
+            : attendanceApi.getDailySummaries(),
           'Failed to load daily summaries'
         ),
         handleAsyncOperation(
-          (async () => {
-            const response = await commonQueries.getRecentWeeklySummaries();
-            if (response.error) throw response.error;
-            return response.data;
-          })(),
+          attendanceApi.getWeeklySummaries(),
           'Failed to load weekly summaries'
         )
       ]);
@@ -182,12 +198,14 @@ export const useAttendanceData = (): UseAttendanceDataReturn => {
     // Data
     dailyData,
     weeklyData,
+    dailyRange,
     loading,
     error,
     
     // Actions
     refreshData,
     loadDailyData,
+    loadDailyRange,
     loadWeeklyData,
     clearError,
     
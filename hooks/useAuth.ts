@@ -0,0 +1,84 @@
+// hooks/useAuth.ts
+// 🔐 Custom hook for the signed-in user - restores the session, signs in and out
+
+import { useState, useEffect, useCallback } from 'react';
+import type { UserProfile, UseAuthReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { fetchProfile, signInWithPassword, signInAsDemoUser, signOut as signOutUser } from '../lib/auth';
+import { invalidateScheduleCache } from './useWorkSchedule';
+
+export const useAuth = (): UseAuthReturn => {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Restore an existing session on mount
+  useEffect(() => {
+    const restoreSession = async () => {
+      const { data, error: restoreError } = await handleAsyncOperation(fetchProfile(), 'Failed to restore session');
+      if (restoreError) {
+        setError(handleSupabaseError(restoreError, 'Session'));
+      }
+      setProfile(data || null);
+      setLoading(false);
+    };
+
+    restoreSession();
+  }, []);
+
+  // Cached schedule data belongs to the previous user, so drop it whenever the user changes
+  const completeSignIn = useCallback(async (operation: Promise<UserProfile>, context: string) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: signInError } = await handleAsyncOperation(operation, 'Failed to sign in');
+
+    if (signInError || !data) {
+      setError(handleSupabaseError(signInError, context));
+      setLoading(false);
+      return { data: null, error: signInError };
+    }
+
+    invalidateScheduleCache();
+    setProfile(data);
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError]);
+
+  // Sign in with email and password
+  const signIn = useCallback(async (email: string, password: string) => {
+    if (!email.trim() || !password) {
+      setError('Please enter your email and password.');
+      return { data: null, error: 'Missing credentials' };
+    }
+    return completeSignIn(signInWithPassword(email, password), 'Sign In');
+  }, [completeSignIn]);
+
+  // Sign in as a fixture user (offline mode)
+  const signInAsDemo = useCallback(async (userId: string) => {
+    return completeSignIn(signInAsDemoUser(userId), 'Demo Sign In');
+  }, [completeSignIn]);
+
+  // Sign out
+  const signOut = useCallback(async () => {
+    await signOutUser();
+    invalidateScheduleCache();
+    setProfile(null);
+  }, []);
+
+  return {
+    profile,
+    loading,
+    error,
+    signIn,
+    signInAsDemo,
+    signOut,
+    clearError
+  };
+};
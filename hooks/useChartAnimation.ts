@@ -0,0 +1,36 @@
+// hooks/useChartAnimation.ts
+// 🎞️ Custom hook for chart entry animations - eases from 0 to 1 with CHART_CONFIG.animations whenever the data changes
+
+import { useState, useEffect } from 'react';
+import { EASINGS } from '../lib/charts';
+import { CHART_CONFIG } from '../constants/config';
+
+export const useChartAnimation = (dataKey: string): number => {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    // Skip the animation when it can't run or the user asked for reduced motion
+    if (typeof window === 'undefined' || !window.requestAnimationFrame ||
+        window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      setProgress(1);
+      return;
+    }
+
+    const { duration, easing } = CHART_CONFIG.animations;
+    const ease = EASINGS[easing] || EASINGS.linear;
+    const startedAt = performance.now();
+    let frame = 0;
+
+    const step = (now: number) => {
+      const elapsed = Math.min(1, (now - startedAt) / duration);
+      setProgress(ease(elapsed));
+      if (elapsed < 1) frame = window.requestAnimationFrame(step);
+    };
+
+    setProgress(0);
+    frame = window.requestAnimationFrame(step);
+    return () => window.cancelAnimationFrame(frame);
+  }, [dataKey]);
+
+  return progress;
+};
@@ -0,0 +1,114 @@
+// hooks/useCorrections.ts
+// ✏️ Custom hook for attendance correction requests and their review
+
+import { useState, useCallback } from 'react';
+import type { AttendanceCorrection, CorrectionStatus, UseCorrectionsReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { getRepository } from '../lib/repositories';
+import { validateCorrection } from '../lib/corrections';
+import { invalidateScheduleCache } from './useWorkSchedule';
+
+export const useCorrections = (): UseCorrectionsReturn => {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load every correction request, newest date first
+  const loadCorrections = useCallback(async () => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      getRepository().getCorrections(),
+      'Failed to load corrections'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Correction Loading'));
+      setCorrections([]);
+    } else {
+      setCorrections(data || []);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  // Submit a correction for review
+  const submitCorrection = useCallback(async (correction: AttendanceCorrection) => {
+    // The synced record supplies whichever time the correction leaves unchanged
+    const { data: records } = correction.emp_code && correction.date
+      ? await handleAsyncOperation(
+          getRepository().getEmployeeRecordsInRange(correction.date, correction.date, [correction.emp_code]),
+          'Failed to load the attendance record'
+        )
+      : { data: null };
+    const problems = validateCorrection(correction, corrections, records?.[0]);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return { data: null, error: problems.join(' ') };
+    }
+
+    setLoading(true);
+    clearError();
+
+    const { data, error: saveError } = await handleAsyncOperation(
+      getRepository().saveCorrection(correction),
+      'Failed to save correction'
+    );
+
+    if (saveError || !data) {
+      setError(handleSupabaseError(saveError, 'Correction Saving'));
+      setLoading(false);
+      return { data: null, error: saveError };
+    }
+
+    setCorrections(prev => [data, ...prev.filter(c => c.id !== data.id)]);
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError, corrections]);
+
+  // Approve or reject a pending correction
+  const reviewCorrection = useCallback(async (id: number, status: CorrectionStatus, reviewedBy: string, note?: string) => {
+    if (!reviewedBy.trim()) {
+      setError('Please enter the reviewer name.');
+      return { data: null, error: 'Missing reviewer' };
+    }
+
+    setLoading(true);
+    clearError();
+
+    const { data, error: reviewError } = await handleAsyncOperation(
+      getRepository().reviewCorrection(id, status, reviewedBy.trim(), note),
+      'Failed to review correction'
+    );
+
+    if (reviewError || !data) {
+      setError(handleSupabaseError(reviewError, 'Correction Review'));
+      setLoading(false);
+      return { data: null, error: reviewError };
+    }
+
+    // Approved corrections reach the reports through the schedule cache
+    invalidateScheduleCache();
+    setCorrections(prev => prev.map(c => (c.id === id ? data : c)));
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError]);
+
+  return {
+    corrections,
+    loading,
+    error,
+    loadCorrections,
+    submitCorrection,
+    reviewCorrection,
+    clearError
+  };
+};
@@ -2,15 +2,21 @@
 // 📊 Custom hook for handling data export functionality
 
 import { useState, useCallback } from 'react';
-import type { ExportType } from '../lib/types';
+import type { ExportType, ExportFormat, ExportConfig } from '../lib/types';
 import { exportToCSV, generateExportFilename } from '../lib/utils';
+import { exportToExcel } from '../lib/excelExport';
 
 interface UseDataExportReturn {
   exporting: boolean;
-  exportData: (type: ExportType, data: any[], context?: string, date?: string) => Promise<void>;
-  exportWithCustomFilename: (data: any[], filename: string, type: ExportType) => Promise<void>;
+  exportData: (type: ExportType, data: any[], context?: string, date?: string, format?: ExportFormat) => Promise<void>;
+  exportWithCustomFilename: (data: any[], filename: string, type: ExportType, format?: ExportFormat) => Promise<void>;
 }
 
+const EXPORTERS: Record<ExportFormat, (config: ExportConfig) => void> = {
+  csv: exportToCSV,
+  excel: exportToExcel
+};
+
 export const useDataExport = (): UseDataExportReturn => {
   const [exporting, setExporting] = useState(false);
 
@@ -19,7 +25,8 @@ export const useDataExport = (): UseDataExportReturn => {
     type: ExportType, 
     data: any[], 
     context?: string, 
-    date?: string
+    date?: string,
+    format: ExportFormat = 'csv'
   ) => {
     if (!data || data.length === 0) {
       alert('No data to export');
@@ -29,12 +36,12 @@ export const useDataExport = (): UseDataExportReturn => {
     setExporting(true);
     
     try {
-      const filename = generateExportFilename(type, context, date);
+      const filename = generateExportFilename(type, context, date, format);
       
       // Small delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      exportToCSV({ data, filename, type });
+      EXPORTERS[format]({ data, filename, type });
       
       // Track export success (could be extended with analytics)
       console.log(`✅ Export successful: ${filename}`);
@@ -51,7 +58,8 @@ export const useDataExport = (): UseDataExportReturn => {
   const exportWithCustomFilename = useCallback(async (
     data: any[], 
     filename: string, 
-    type: ExportType
+    type: ExportType,
+    format: ExportFormat = 'csv'
   ) => {
     if (!data || data.length === 0) {
       alert('No data to export');
@@ -64,7 +72,7 @@ export const useDataExport = (): UseDataExportReturn => {
       // Small delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      exportToCSV({ data, filename, type });
+      EXPORTERS[format]({ data, filename, type });
       
       console.log(`✅ Export successful: ${filename}`);
       
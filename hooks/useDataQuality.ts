@@ -0,0 +1,49 @@
+// hooks/useDataQuality.ts
+// 🩺 Custom hook for the data quality report - records with missing check-outs, single punches and impossible hours
+
+import { useState, useCallback } from 'react';
+import type { DataQualityReport, OrgFilter, UseDataQualityReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useDataQuality = (): UseDataQualityReturn => {
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the anomalies for a period, for one employee or everyone visible (optionally one department or team)
+  const loadReport = useCallback(async (startDate: string, endDate: string, empCode?: string, orgFilter?: OrgFilter) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getDataQualityReport(startDate, endDate, empCode, orgFilter),
+      'Failed to load data quality report'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Data Quality'));
+      setReport(null);
+    } else {
+      console.log(`✅ Data quality: ${data?.anomalies.length || 0} records with problems between ${startDate} and ${endDate}`);
+      setReport(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    report,
+    loading,
+    error,
+    loadReport,
+    clearError
+  };
+};
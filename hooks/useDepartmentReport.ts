@@ -0,0 +1,49 @@
+// hooks/useDepartmentReport.ts
+// 🏢 Custom hook for the department report - attendance by department, by day and up the org chart
+
+import { useState, useCallback } from 'react';
+import type { DepartmentReport, OrgFilter, UseDepartmentReportReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useDepartmentReport = (): UseDepartmentReportReturn => {
+  const [report, setReport] = useState<DepartmentReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the report for a period, optionally for one department or team
+  const loadReport = useCallback(async (startDate: string, endDate: string, orgFilter?: OrgFilter) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getDepartmentReport(startDate, endDate, orgFilter),
+      'Failed to load department report'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Department Report'));
+      setReport(null);
+    } else {
+      console.log(`✅ Department report: ${data?.departments.length || 0} departments between ${startDate} and ${endDate}`);
+      setReport(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    report,
+    loading,
+    error,
+    loadReport,
+    clearError
+  };
+};
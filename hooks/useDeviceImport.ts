@@ -0,0 +1,101 @@
+// hooks/useDeviceImport.ts
+// 📥 Custom hook for importing terminal log files - a dry run against existing records, then the import
+
+import { useState, useCallback } from 'react';
+import type { AttendancePunch, DeviceImportResult, UseDeviceImportReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+import { batchPunchesByDay } from '../lib/deviceImport';
+
+/**
+ * Send punches in batches of whole days (so each day is planned from all its punches) and merge the results
+ */
+const importInBatches = async (
+  punches: AttendancePunch[],
+  names: Record<string, string>,
+  dryRun: boolean
+): Promise<DeviceImportResult> => {
+  const merged: DeviceImportResult = { dryRun, punchesSaved: 0, days: [], inserted: 0, skipped: 0 };
+  for (const batch of batchPunchesByDay(punches)) {
+    const result = await attendanceApi.importDeviceLog(batch, names, dryRun);
+    merged.punchesSaved += result.punchesSaved;
+    merged.days.push(...result.days);
+    merged.inserted += result.inserted;
+    merged.skipped += result.skipped;
+  }
+  return merged;
+};
+
+export const useDeviceImport = (): UseDeviceImportReturn => {
+  const [preview, setPreview] = useState<DeviceImportResult | null>(null);
+  const [result, setResult] = useState<DeviceImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Forget the preview and the last result (a new file was chosen)
+  const reset = useCallback(() => {
+    setPreview(null);
+    setResult(null);
+    setError('');
+  }, []);
+
+  // Dry run - which days would be inserted and which skipped
+  const checkImport = useCallback(async (punches: AttendancePunch[], names: Record<string, string>) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: checkError } = await handleAsyncOperation(
+      importInBatches(punches, names, true),
+      'Failed to check the import'
+    );
+
+    if (checkError) {
+      setError(handleSupabaseError(checkError, 'Device Import'));
+      setPreview(null);
+    } else {
+      setPreview(data);
+    }
+
+    setLoading(false);
+    return { data, error: checkError };
+  }, [clearError]);
+
+  // Store the punches and insert records for the days that have none
+  const runImport = useCallback(async (punches: AttendancePunch[], names: Record<string, string>) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: importError } = await handleAsyncOperation(
+      importInBatches(punches, names, false),
+      'Failed to import the device log'
+    );
+
+    if (importError) {
+      setError(handleSupabaseError(importError, 'Device Import'));
+    } else {
+      console.log(`✅ Device import: ${data?.inserted || 0} days inserted, ${data?.skipped || 0} skipped`);
+      setResult(data);
+      setPreview(null);
+    }
+
+    setLoading(false);
+    return { data, error: importError };
+  }, [clearError]);
+
+  return {
+    preview,
+    result,
+    loading,
+    error,
+    checkImport,
+    runImport,
+    reset,
+    clearError
+  };
+};
@@ -4,128 +4,44 @@
 import { useState, useCallback } from 'react';
 import type { Employee, EmployeeRecord, UseEmployeeDataReturn } from '../lib/types';
 import { handleSupabaseError } from '../lib/supabase';
-import { handleAsyncOperation, groupBy } from '../lib/utils';
-import { getMonthDateRange } from '../lib/formatters';
-import { supabase } from '../lib/supabase';
+import { groupBy } from '../lib/utils';
+import { EMPTY_WORK_TIME, sumWorkTime } from '../lib/workTime';
+import { attendanceApi } from '../lib/api';
+import { useWorkSchedule } from './useWorkSchedule';
+import { getRecordDayKind } from '../lib/attendanceCalendar';
+import { isFlaggedRecord } from '../lib/dataQuality';
+import {
+  isOnTimeCategory,
+  isLateCategory,
+  isEarlyCategory,
+  isAcceptableCategory
+} from '../lib/classification';
 
 export const useEmployeeData = (): UseEmployeeDataReturn => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [employeeRecords, setEmployeeRecords] = useState<EmployeeRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const { loadSchedule, classifyRecord, checkRecordCategory, getShiftFor, getWorkTime, getLateMinutes } = useWorkSchedule();
 
   // Clear error
   const clearError = useCallback(() => {
     setError('');
   }, []);
 
-  // Load all active employees - FIXED VERSION WITH PAGINATION AND MOST RECENT NAME
+  // Load all active employees from the employee directory
   const loadEmployees = useCallback(async () => {
     setLoading(true);
     clearError();
 
     try {
-      console.log('🔍 Loading all unique employees...');
-      
-      // Load ALL records using pagination to avoid 1000 record limit
-      // Order by date DESC to get most recent records first
-      let allRecords: any[] = [];
-      let rangeStart = 0;
-      const rangeSize = 1000;
-      let hasMore = true;
-
-      while (hasMore) {
-        const { data: batch, error: loadError } = await supabase
-          .from('daily_employee_records')
-          .select('emp_code, name, date')
-          .range(rangeStart, rangeStart + rangeSize - 1)
-          .order('date', { ascending: false });  // Most recent first
-
-        if (loadError) {
-          console.error('❌ Supabase error:', loadError);
-          throw loadError;
-        }
-        
-        if (batch && batch.length > 0) {
-          allRecords = [...allRecords, ...batch];
-          rangeStart += rangeSize;
-          console.log(`📈 Loaded ${allRecords.length} records so far...`);
-          
-          // If we got less than the range size, we've reached the end
-          if (batch.length < rangeSize) {
-            hasMore = false;
-          }
-        } else {
-          hasMore = false;
-        }
-      }
-      
-      console.log(`📊 Total records loaded: ${allRecords.length}`);
-      
-      // Debug: Check for any null or empty values
-      const recordsWithIssues = allRecords.filter(emp => 
-        !emp.emp_code || !emp.name || String(emp.emp_code).trim() === '' || String(emp.name).trim() === ''
-      );
-      console.log(`⚠️ Records with missing data: ${recordsWithIssues.length}`);
-
-      // Use Map for efficient deduplication - FIX: Use most recent name (first encountered since sorted by date DESC)
-      const uniqueEmployeesMap = new Map<string, Employee>();
-      let processedCount = 0;
-      let skippedCount = 0;
-      
-      allRecords.forEach((emp) => {
-        processedCount++;
-        
-        // FIX: Convert emp_code to string for consistent handling
-        const empCodeStr = String(emp.emp_code || '').trim();
-        const nameStr = String(emp.name || '').trim();
-        
-        if (empCodeStr && nameStr) {
-          // Only set if not already in map (first = most recent due to date DESC ordering)
-          if (!uniqueEmployeesMap.has(empCodeStr)) {
-            uniqueEmployeesMap.set(empCodeStr, {
-              emp_code: empCodeStr,
-              name: nameStr,
-              is_active: true
-            });
-            console.log(`✅ Added employee: ${nameStr} (Code: ${empCodeStr})`);
-          }
-        } else {
-          skippedCount++;
-          console.log(`⚠️ Skipped record: emp_code="${emp.emp_code}" (type: ${typeof emp.emp_code}), name="${emp.name}"`);
-        }
-      });
-
-      console.log(`📋 Processing complete: ${processedCount} total records, ${skippedCount} skipped`);
-
-      const uniqueEmployees = Array.from(uniqueEmployeesMap.values())
-        .sort((a, b) => a.name.localeCompare(b.name));
-
-      console.log(`✅ Found ${uniqueEmployees.length} unique employees`);
-      console.log('📝 All unique employee codes:', uniqueEmployees.map(e => e.emp_code).sort((a, b) => {
-        // Sort numerically if possible
-        const numA = parseInt(a, 10);
-        const numB = parseInt(b, 10);
-        if (!isNaN(numA) && !isNaN(numB)) return numA - numB;
-        return a.localeCompare(b);
-      }));
-      
-      // Check specifically for employee 14 (Randa)
-      const hasEmployee14 = uniqueEmployees.some(e => e.emp_code === '14');
-      console.log(`🔍 Employee 14 (Randa) found: ${hasEmployee14}`);
-      if (hasEmployee14) {
-        const randa = uniqueEmployees.find(e => e.emp_code === '14');
-        console.log(`✅ Randa details: ${randa?.name} (Code: ${randa?.emp_code})`);
-      } else {
-        // Additional debug: check if 14 exists as a number
-        const hasNumeric14 = allRecords.some(r => r.emp_code === 14 || r.emp_code === '14');
-        console.log(`🔍 Raw records contain emp_code 14: ${hasNumeric14}`);
-        if (hasNumeric14) {
-          const sample = allRecords.find(r => r.emp_code === 14 || r.emp_code === '14');
-          console.log(`📋 Sample record for 14:`, sample, `Type: ${typeof sample?.emp_code}`);
-        }
-      }
-      
+      console.log('🔍 Loading active employees...');
+
+      // The server falls back to the names in the records while the directory is empty
+      const uniqueEmployees = await attendanceApi.getEmployees();
+
+      console.log(`✅ Found ${uniqueEmployees.length} active employees`);
+
       setEmployees(uniqueEmployees);
       setLoading(false);
       return { data: uniqueEmployees, error: null };
@@ -148,25 +64,13 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
     try {
       console.log(`🔍 Loading employee records for date: ${date}`);
 
-      const { data, error: loadError } = await supabase
-        .from('daily_employee_records')
-        .select('emp_code, name, date, check_in, check_out, work_hours, time_category, status, total_punches')
-        .eq('date', date)
-        .order('check_in', { ascending: true });
-
-      if (loadError) {
-        console.error('❌ Supabase error:', loadError);
-        throw loadError;
-      }
+      // Absences and leave are filled in from the roster on the server
+      const [normalizedData] = await Promise.all([
+        attendanceApi.getDailyRecords(date),
+        loadSchedule()
+      ]);
 
-      console.log(`✅ Found ${data?.length || 0} employee records for ${date}`);
-
-      // FIX: Normalize emp_code to string in all records
-      const normalizedData = (data || []).map(record => ({
-        ...record,
-        emp_code: String(record.emp_code || '').trim(),
-        name: String(record.name || '').trim()
-      }));
+      console.log(`✅ Found ${normalizedData.filter(record => !record.synthesized).length} employee records for ${date}`);
 
       setEmployeeRecords(normalizedData);
       setLoading(false);
@@ -180,7 +84,7 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       setLoading(false);
       return { data: null, error: errorMsg };
     }
-  }, [clearError]);
+  }, [clearError, loadSchedule]);
 
   // Load monthly data for a specific employee
   const loadEmployeeMonthlyData = useCallback(async (empCode: string, month: string) => {
@@ -192,27 +96,13 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       const empCodeStr = String(empCode).trim();
       console.log(`🔍 Loading monthly data for employee ${empCodeStr} in ${month}`);
       
-      const { startDate, endDate } = getMonthDateRange(month);
-      
-      // FIX: Try both string and numeric versions of emp_code
-      const { data, error: loadError } = await supabase
-        .from('daily_employee_records')
-        .select('*')
-        .or(`emp_code.eq.${empCodeStr},emp_code.eq.${parseInt(empCodeStr, 10) || empCodeStr}`)
-        .gte('date', startDate)
-        .lte('date', endDate)
-        .order('date', { ascending: true });
-
-      if (loadError) throw loadError;
-
-      console.log(`✅ Found ${data?.length || 0} monthly records for employee ${empCodeStr}`);
-
-      // FIX: Normalize emp_code to string in all records
-      const normalizedData = (data || []).map(record => ({
-        ...record,
-        emp_code: String(record.emp_code || '').trim(),
-        name: String(record.name || '').trim()
-      }));
+      // Approved corrections are applied on the server
+      const [normalizedData] = await Promise.all([
+        attendanceApi.getEmployeeRecords(empCodeStr, month),
+        loadSchedule()
+      ]);
+
+      console.log(`✅ Found ${normalizedData.length} monthly records for employee ${empCodeStr}`);
 
       setEmployeeRecords(normalizedData);
       setLoading(false);
@@ -226,7 +116,7 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       setLoading(false);
       return { data: null, error: errorMsg };
     }
-  }, [clearError]);
+  }, [clearError, loadSchedule]);
 
   // Load weekly employee data with daily breakdown
   const loadWeeklyEmployeeData = useCallback(async (weekStart: string, weekEnd: string) => {
@@ -236,73 +126,11 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
     try {
       console.log(`🔍 Loading weekly data from ${weekStart} to ${weekEnd}`);
       
-      const { data, error: loadError } = await supabase
-        .from('daily_employee_records')
-        .select('*')
-        .gte('date', weekStart)
-        .lte('date', weekEnd)
-        .order('emp_code')
-        .order('date');
-
-      if (loadError) throw loadError;
-
-      console.log(`✅ Found ${data?.length || 0} weekly records`);
-
-      // Process data into WeeklyEmployeeData format - FIX: Use string keys consistently
-      const employeeMap = new Map<string, any>();
-      
-      data?.forEach(record => {
-        // FIX: Convert emp_code to string for consistent Map keys
-        const empCodeStr = String(record.emp_code || '').trim();
-        const nameStr = String(record.name || '').trim();
-        
-        if (!empCodeStr) return; // Skip records without emp_code
-        
-        if (!employeeMap.has(empCodeStr)) {
-          employeeMap.set(empCodeStr, {
-            emp_code: empCodeStr,
-            name: nameStr,
-            days: [],
-            totalDays: 0,
-            presentDays: 0,
-            leaveDays: 0,
-            totalHours: 0,
-            onTimeDays: 0,
-            lateDays: 0,
-            dailyBreakdown: {}
-          });
-        }
-
-        const employee = employeeMap.get(empCodeStr)!;
-        employee.days.push(record);
-        employee.totalDays++;
-        
-        // Store daily details by date
-        employee.dailyBreakdown[record.date] = {
-          date: record.date,
-          check_in: record.check_in,
-          check_out: record.check_out,
-          work_hours: record.work_hours,
-          status: record.status,
-          time_category: record.time_category
-        };
-        
-        if (record.status === 'Present') {
-          employee.presentDays++;
-          employee.totalHours += record.work_hours || 0;
-          
-          if (['On Time', 'On-time Check-in', 'Early Check-in'].includes(record.time_category)) {
-            employee.onTimeDays++;
-          } else if (['Late Check-in', 'Late'].includes(record.time_category)) {
-            employee.lateDays++;
-          }
-        } else {
-          employee.leaveDays++;
-        }
-      });
-
-      const processedData = Array.from(employeeMap.values())
-        .sort((a, b) => a.name.localeCompare(b.name));
+      // Corrections and approved leave are applied on the server
+      const [processedData] = await Promise.all([
+        attendanceApi.getWeeklyEmployees(weekStart, weekEnd),
+        loadSchedule()
+      ]);
 
       console.log(`✅ Processed ${processedData.length} employees for weekly report`);
 
@@ -316,7 +144,7 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       setLoading(false);
       return { data: [], error: errorMsg };
     }
-  }, [clearError]);
+  }, [clearError, loadSchedule]);
 
   // Get employee by code - FIX: Handle both string and number comparisons
   const getEmployeeByCode = useCallback((empCode: string): Employee | null => {
@@ -338,17 +166,21 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
 
   // Get employee records grouped by time category
   const getRecordsByTimeCategory = useCallback(() => {
-    return groupBy(employeeRecords, 'time_category');
-  }, [employeeRecords]);
-
-  // Calculate attendance statistics for current records
-  const getAttendanceStats = useCallback(() => {
-    const total = employeeRecords.length;
+    return groupBy(
+      employeeRecords.map(r => ({ ...r, time_category: classifyRecord(r) })),
+      'time_category'
+    );
+  }, [employeeRecords, classifyRecord]);
+
+  // Calculate attendance statistics for current records, or a subset of them (one department)
+  const getAttendanceStats = useCallback((records: EmployeeRecord[] = employeeRecords) => {
+    const total = records.length;
     if (total === 0) {
       return {
         totalEmployees: 0,
         presentCount: 0,
         absentCount: 0,
+        leaveCount: 0,
         onTimeCount: 0,
         lateCount: 0,
         earlyCount: 0,
@@ -358,32 +190,30 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       };
     }
 
-    const presentCount = employeeRecords.filter(r => r.status === 'Present').length;
-    const absentCount = total - presentCount;
+    // Absences include the roster entries synthesized for employees with no record
+    const kinds = records.map(getRecordDayKind);
+    const presentCount = kinds.filter(kind => kind === 'present').length;
+    const absentCount = kinds.filter(kind => kind === 'absent').length;
+    const leaveCount = kinds.filter(kind => kind === 'leave').length;
+    const syncedCount = records.filter(r => !r.synthesized).length;
     
-    const onTimeCount = employeeRecords.filter(r => 
-      ['On Time', 'On-time Check-in'].includes(r.time_category || '')
-    ).length;
-    
-    const lateCount = employeeRecords.filter(r => 
-      ['Late', 'Late Check-in'].includes(r.time_category || '')
-    ).length;
-    
-    const earlyCount = employeeRecords.filter(r => 
-      r.time_category === 'Early Check-in'
-    ).length;
-    
-    const acceptableCount = employeeRecords.filter(r => 
-      ['Acceptable', 'Acceptable Check-in'].includes(r.time_category || '')
-    ).length;
-
-    const attendanceRate = Math.round((presentCount / total) * 100);
-    const onTimeRate = Math.round(((onTimeCount + earlyCount) / total) * 100);
+    // Categories are derived from check-in times and each employee's shift, not the synced strings
+    const categories = records.map(r => classifyRecord(r));
+    const onTimeCount = categories.filter(isOnTimeCategory).length;
+    const lateCount = categories.filter(isLateCategory).length;
+    const earlyCount = categories.filter(isEarlyCategory).length;
+    const acceptableCount = categories.filter(isAcceptableCategory).length;
+
+    // Leave is excused, so it is left out of the attendance rate
+    const expectedCount = presentCount + absentCount;
+    const attendanceRate = expectedCount > 0 ? Math.round((presentCount / expectedCount) * 100) : 0;
+    const onTimeRate = syncedCount > 0 ? Math.round(((onTimeCount + earlyCount) / syncedCount) * 100) : 0;
 
     return {
       totalEmployees: total,
       presentCount,
       absentCount,
+      leaveCount,
       onTimeCount,
       lateCount,
       earlyCount,
@@ -391,11 +221,12 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
       attendanceRate,
       onTimeRate
     };
-  }, [employeeRecords]);
+  }, [employeeRecords, classifyRecord]);
 
-  // Get work hours statistics
-  const getWorkHoursStats = useCallback(() => {
-    const recordsWithHours = employeeRecords.filter(r => r.work_hours && r.work_hours > 0);
+  // Get work hours statistics - records with a data problem are counted but their hours left out
+  const getWorkHoursStats = useCallback((records: EmployeeRecord[] = employeeRecords) => {
+    const flaggedRecords = records.filter(r => isFlaggedRecord(r)).length;
+    const recordsWithHours = records.filter(r => r.work_hours && r.work_hours > 0 && !isFlaggedRecord(r));
     
     if (recordsWithHours.length === 0) {
       return {
@@ -403,7 +234,12 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
         averageHours: 0,
         minHours: 0,
         maxHours: 0,
-        employeesWithHours: 0
+        employeesWithHours: 0,
+        ...EMPTY_WORK_TIME,
+        overtimeCount: 0,
+        undertimeCount: 0,
+        earlyLeaveCount: 0,
+        flaggedRecords
       };
     }
 
@@ -413,14 +249,22 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
     const minHours = Math.min(...hours);
     const maxHours = Math.max(...hours);
 
+    // Measured against each employee's shift, net of the lunch break
+    const workTimes = recordsWithHours.map(r => getWorkTime(r));
+
     return {
       totalHours: Math.round(totalHours * 10) / 10,
       averageHours: Math.round(averageHours * 10) / 10,
       minHours: Math.round(minHours * 10) / 10,
       maxHours: Math.round(maxHours * 10) / 10,
-      employeesWithHours: recordsWithHours.length
+      employeesWithHours: recordsWithHours.length,
+      ...sumWorkTime(workTimes),
+      overtimeCount: workTimes.filter(w => w.overtimeHours > 0).length,
+      undertimeCount: workTimes.filter(w => w.undertimeHours > 0).length,
+      earlyLeaveCount: workTimes.filter(w => w.earlyLeaveMinutes > 0).length,
+      flaggedRecords
     };
-  }, [employeeRecords]);
+  }, [employeeRecords, getWorkTime]);
 
   return {
     // Data
@@ -442,6 +286,11 @@ export const useEmployeeData = (): UseEmployeeDataReturn => {
     getRecordsByStatus,
     getRecordsByTimeCategory,
     getAttendanceStats,
-    getWorkHoursStats
+    getWorkHoursStats,
+    classifyRecord,
+    checkRecordCategory,
+    getShiftFor,
+    getWorkTime,
+    getLateMinutes
   };
 };
@@ -0,0 +1,99 @@
+// hooks/useEmployeeDirectory.ts
+// 🗂️ Custom hook for the employee directory - master records and the codes seen in attendance records
+
+import { useState, useCallback } from 'react';
+import type { Employee, EmployeeDirectoryReconciliation, UseEmployeeDirectoryReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { getRepository } from '../lib/repositories';
+import { normalizeEmployee, reconcileEmployeeDirectory, validateEmployee } from '../lib/employeeDirectory';
+import { invalidateScheduleCache } from './useWorkSchedule';
+
+export const useEmployeeDirectory = (): UseEmployeeDirectoryReturn => {
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [reconciliation, setReconciliation] = useState<EmployeeDirectoryReconciliation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the whole directory and check it against the codes in the attendance records
+  const loadDirectory = useCallback(async () => {
+    setLoading(true);
+    clearError();
+
+    const repository = getRepository();
+    const { data, error: loadError } = await handleAsyncOperation(
+      Promise.all([repository.getEmployees(), repository.getEmployeeIndex()]),
+      'Failed to load employee directory'
+    );
+
+    if (loadError || !data) {
+      setError(handleSupabaseError(loadError, 'Employee Directory'));
+      setEmployees([]);
+      setReconciliation(null);
+    } else {
+      const [directory, index] = data;
+      const result = reconcileEmployeeDirectory(directory, index);
+      console.log(`✅ Employee directory: ${directory.length} employees, ${result.unknownCodes.length} unknown codes in records`);
+      setEmployees(directory);
+      setReconciliation(result);
+    }
+
+    setLoading(false);
+    return { data: data ? data[0] : null, error: loadError };
+  }, [clearError]);
+
+  // Add a new employee or update an existing one
+  const saveEmployee = useCallback(async (employee: Employee, isNew: boolean) => {
+    const problems = validateEmployee(employee, employees, isNew);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return { data: null, error: problems.join(' ') };
+    }
+
+    setLoading(true);
+    clearError();
+
+    const { data, error: saveError } = await handleAsyncOperation(
+      getRepository().saveEmployee(normalizeEmployee(employee)),
+      'Failed to save employee'
+    );
+
+    if (saveError || !data) {
+      setError(handleSupabaseError(saveError, 'Employee Saving'));
+      setLoading(false);
+      return { data: null, error: saveError };
+    }
+
+    // Departments and hire dates feed shift resolution and absences through the schedule cache
+    invalidateScheduleCache();
+    setLoading(false);
+    await loadDirectory();
+    return { data, error: null };
+  }, [clearError, employees, loadDirectory]);
+
+  // Deactivate (or reactivate) an employee - records are kept, they just leave the roster
+  const setEmployeeActive = useCallback(async (empCode: string, isActive: boolean) => {
+    const employee = employees.find(emp => emp.emp_code === empCode);
+    if (!employee) {
+      setError(`Employee ${empCode} is not in the directory.`);
+      return { data: null, error: 'Unknown employee' };
+    }
+    return saveEmployee({ ...employee, is_active: isActive }, false);
+  }, [employees, saveEmployee]);
+
+  return {
+    employees,
+    reconciliation,
+    loading,
+    error,
+    loadDirectory,
+    saveEmployee,
+    setEmployeeActive,
+    clearError
+  };
+};
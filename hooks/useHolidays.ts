@@ -0,0 +1,96 @@
+// hooks/useHolidays.ts
+// 🎉 Custom hook for managing the holiday calendar
+
+import { useState, useCallback } from 'react';
+import type { Holiday, UseHolidaysReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { getRepository } from '../lib/repositories';
+import { invalidateScheduleCache } from './useWorkSchedule';
+
+export const useHolidays = (): UseHolidaysReturn => {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load all holidays
+  const loadHolidays = useCallback(async () => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      getRepository().getHolidays(),
+      'Failed to load holidays'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Holiday Loading'));
+      setHolidays([]);
+    } else {
+      setHolidays(data || []);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  // Add or update holidays (upserted on date + department)
+  const saveHolidays = useCallback(async (entries: Holiday[]) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: saveError } = await handleAsyncOperation(
+      getRepository().saveHolidays(entries),
+      'Failed to save holidays'
+    );
+
+    if (saveError) {
+      setError(handleSupabaseError(saveError, 'Holiday Saving'));
+      setLoading(false);
+      return { data: null, error: saveError };
+    }
+
+    // Reports read holidays through the schedule cache
+    invalidateScheduleCache();
+    setLoading(false);
+    await loadHolidays();
+    return { data, error: null };
+  }, [clearError, loadHolidays]);
+
+  // Remove a holiday
+  const deleteHoliday = useCallback(async (id: number) => {
+    setLoading(true);
+    clearError();
+
+    const { error: deleteError } = await handleAsyncOperation(
+      getRepository().deleteHoliday(id),
+      'Failed to delete holiday'
+    );
+
+    if (deleteError) {
+      setError(handleSupabaseError(deleteError, 'Holiday Deletion'));
+      setLoading(false);
+      return { data: null, error: deleteError };
+    }
+
+    invalidateScheduleCache();
+    setHolidays(prev => prev.filter(holiday => holiday.id !== id));
+    setLoading(false);
+    return { data: id, error: null };
+  }, [clearError]);
+
+  return {
+    holidays,
+    loading,
+    error,
+    loadHolidays,
+    saveHolidays,
+    deleteHoliday,
+    clearError
+  };
+};
@@ -0,0 +1,49 @@
+// hooks/useLatenessReport.ts
+// ⏰ Custom hook for the cumulative lateness report - employees by total late minutes for a period
+
+import { useState, useCallback } from 'react';
+import type { LatenessReport, OrgFilter, UseLatenessReportReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useLatenessReport = (): UseLatenessReportReturn => {
+  const [report, setReport] = useState<LatenessReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the report for a period; budgetMinutes null turns the monthly budget off, orgFilter narrows it to a department or team
+  const loadReport = useCallback(async (startDate: string, endDate: string, budgetMinutes?: number | null, orgFilter?: OrgFilter) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getLatenessReport(startDate, endDate, budgetMinutes, orgFilter),
+      'Failed to load lateness report'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Lateness Report'));
+      setReport(null);
+    } else {
+      console.log(`✅ Lateness report: ${data?.entries.length || 0} employees late between ${startDate} and ${endDate}`);
+      setReport(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    report,
+    loading,
+    error,
+    loadReport,
+    clearError
+  };
+};
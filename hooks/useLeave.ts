@@ -0,0 +1,142 @@
+// hooks/useLeave.ts
+// 🌴 Custom hook for leave requests, approvals and balances
+
+import { useState, useCallback } from 'react';
+import type { LeaveRequest, LeaveRequestStatus, LeaveBalance, UseLeaveReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { getRepository } from '../lib/repositories';
+import { buildLeaveBalances, validateLeaveRequest } from '../lib/leave';
+import { useWorkSchedule, invalidateScheduleCache } from './useWorkSchedule';
+
+export const useLeave = (): UseLeaveReturn => {
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { schedule, loadSchedule } = useWorkSchedule();
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load all leave requests and the balances for a year
+  const loadLeave = useCallback(async (year: number) => {
+    setLoading(true);
+    clearError();
+
+    const repository = getRepository();
+    const { data, error: loadError } = await handleAsyncOperation(
+      Promise.all([repository.getLeaveRequests(), repository.getLeaveBalances(year), loadSchedule()]),
+      'Failed to load leave'
+    );
+
+    if (loadError || !data) {
+      setError(handleSupabaseError(loadError, 'Leave Loading'));
+      setLeaveRequests([]);
+      setLeaveBalances([]);
+    } else {
+      setLeaveRequests(data[0]);
+      setLeaveBalances(data[1]);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError, loadSchedule]);
+
+  // Submit a new leave request (or edit an existing one)
+  const submitLeaveRequest = useCallback(async (request: LeaveRequest) => {
+    const problems = validateLeaveRequest(request, leaveRequests);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return { data: null, error: problems.join(' ') };
+    }
+
+    setLoading(true);
+    clearError();
+
+    const { data, error: saveError } = await handleAsyncOperation(
+      getRepository().saveLeaveRequest(request),
+      'Failed to save leave request'
+    );
+
+    if (saveError || !data) {
+      setError(handleSupabaseError(saveError, 'Leave Request Saving'));
+      setLoading(false);
+      return { data: null, error: saveError };
+    }
+
+    // Approved leave feeds the reports through the schedule cache
+    if (data.status === 'approved') invalidateScheduleCache();
+    setLeaveRequests(prev => [data, ...prev.filter(r => r.id !== data.id)]
+      .sort((a, b) => b.start_date.localeCompare(a.start_date)));
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError, leaveRequests]);
+
+  // Approve, reject or cancel a request
+  const updateLeaveStatus = useCallback(async (id: number, status: LeaveRequestStatus) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: updateError } = await handleAsyncOperation(
+      getRepository().updateLeaveRequestStatus(id, status),
+      'Failed to update leave request'
+    );
+
+    if (updateError || !data) {
+      setError(handleSupabaseError(updateError, 'Leave Request Update'));
+      setLoading(false);
+      return { data: null, error: updateError };
+    }
+
+    invalidateScheduleCache();
+    await loadSchedule(true);
+    setLeaveRequests(prev => prev.map(r => (r.id === id ? data : r)));
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError, loadSchedule]);
+
+  // Set an employee's allowance or carry-over for a year
+  const saveLeaveBalance = useCallback(async (balance: LeaveBalance) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: saveError } = await handleAsyncOperation(
+      getRepository().saveLeaveBalance(balance),
+      'Failed to save leave balance'
+    );
+
+    if (saveError || !data) {
+      setError(handleSupabaseError(saveError, 'Leave Balance Saving'));
+      setLoading(false);
+      return { data: null, error: saveError };
+    }
+
+    setLeaveBalances(prev => [
+      ...prev.filter(b => !(b.emp_code === data.emp_code && b.leave_type === data.leave_type && b.year === data.year)),
+      data
+    ]);
+    setLoading(false);
+    return { data, error: null };
+  }, [clearError]);
+
+  // Balances for one employee, counting used and pending days against the schedule
+  const getBalancesFor = useCallback((empCode: string, year: number) => {
+    return buildLeaveBalances(empCode, year, leaveRequests, leaveBalances, schedule);
+  }, [leaveRequests, leaveBalances, schedule]);
+
+  return {
+    leaveRequests,
+    leaveBalances,
+    loading,
+    error,
+    loadLeave,
+    submitLeaveRequest,
+    updateLeaveStatus,
+    saveLeaveBalance,
+    getBalancesFor,
+    clearError
+  };
+};
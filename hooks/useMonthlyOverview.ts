@@ -0,0 +1,49 @@
+// hooks/useMonthlyOverview.ts
+// 🗓️ Custom hook for the company-wide monthly overview - monthly summaries with month-over-month changes
+
+import { useState, useCallback } from 'react';
+import type { MonthlyOverview, UseMonthlyOverviewReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useMonthlyOverview = (): UseMonthlyOverviewReturn => {
+  const [overview, setOverview] = useState<MonthlyOverview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load one year, or the most recent months when year is null
+  const loadOverview = useCallback(async (year: number | null = null) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getMonthlyOverview(year),
+      'Failed to load monthly overview'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Monthly Overview'));
+      setOverview(null);
+    } else {
+      console.log(`✅ Monthly overview: ${data?.rows.length || 0} months${year ? ` in ${year}` : ''}`);
+      setOverview(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    overview,
+    loading,
+    error,
+    loadOverview,
+    clearError
+  };
+};
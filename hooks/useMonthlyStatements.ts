@@ -0,0 +1,99 @@
+// hooks/useMonthlyStatements.ts
+// 🧾 Custom hook for generating printable monthly statements (one PDF, or a ZIP of one PDF per employee)
+
+import { useState, useCallback } from 'react';
+import type { Employee, UseMonthlyStatementsReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation, downloadFile } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+import {
+  buildMonthlyStatement,
+  buildMonthlyStatements,
+  createMonthlyStatementPdf,
+  createMonthlyStatementArchive,
+  getStatementFilename
+} from '../lib/monthlyStatement';
+import { useWorkSchedule } from './useWorkSchedule';
+import { STATEMENT_CONFIG } from '../constants/config';
+
+export const useMonthlyStatements = (): UseMonthlyStatementsReturn => {
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const { loadSchedule } = useWorkSchedule();
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Statement for one employee and month
+  const downloadStatement = useCallback(async (empCode: string, name: string, month: string) => {
+    setGenerating(true);
+    clearError();
+
+    const { data, error: generateError } = await handleAsyncOperation(
+      (async () => {
+        const [records, context] = await Promise.all([
+          attendanceApi.getEmployeeRecords(empCode, month),
+          loadSchedule()
+        ]);
+        const statement = buildMonthlyStatement(empCode, name, month, records, context);
+        const filename = getStatementFilename(statement);
+        downloadFile(createMonthlyStatementPdf(statement), filename, STATEMENT_CONFIG.pdfMimeType);
+        return filename;
+      })(),
+      'Failed to generate statement'
+    );
+
+    if (generateError) {
+      setError(handleSupabaseError(generateError, 'Statement Generation'));
+    } else {
+      console.log(`✅ Statement generated: ${data}`);
+    }
+
+    setGenerating(false);
+    return { data, error: generateError };
+  }, [clearError, loadSchedule]);
+
+  // One statement per employee for the month, in a single archive
+  const downloadAllStatements = useCallback(async (month: string, employees: Employee[]) => {
+    if (employees.length === 0) {
+      setError('No employees to generate statements for.');
+      return { data: null, error: 'No employees to generate statements for.' };
+    }
+
+    setGenerating(true);
+    clearError();
+
+    const { data, error: generateError } = await handleAsyncOperation(
+      (async () => {
+        const [records, context] = await Promise.all([
+          attendanceApi.getMonthRecords(month),
+          loadSchedule()
+        ]);
+        const statements = buildMonthlyStatements(month, employees, records, context);
+        const filename = `monthly-statements-${month}.zip`;
+        downloadFile(createMonthlyStatementArchive(statements), filename, STATEMENT_CONFIG.zipMimeType);
+        return filename;
+      })(),
+      'Failed to generate statements'
+    );
+
+    if (generateError) {
+      setError(handleSupabaseError(generateError, 'Statement Generation'));
+    } else {
+      console.log(`✅ ${employees.length} statements generated: ${data}`);
+    }
+
+    setGenerating(false);
+    return { data, error: generateError };
+  }, [clearError, loadSchedule]);
+
+  return {
+    generating,
+    error,
+    downloadStatement,
+    downloadAllStatements,
+    clearError
+  };
+};
@@ -0,0 +1,52 @@
+// hooks/usePayrollExport.ts
+// 💰 Custom hook for the payroll timesheet export - monthly totals for every employee
+
+import { useState, useCallback } from 'react';
+import type { Employee, ExportFormat, UsePayrollExportReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+import { buildPayrollRows } from '../lib/payroll';
+import { useWorkSchedule } from './useWorkSchedule';
+import { useDataExport } from './useDataExport';
+
+export const usePayrollExport = (): UsePayrollExportReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { loadSchedule } = useWorkSchedule();
+  const { exporting, exportData } = useDataExport();
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Build the month's payroll rows and download them in the payroll template columns
+  const exportPayroll = useCallback(async (month: string, employees: Employee[], format: ExportFormat = 'csv') => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      Promise.all([attendanceApi.getMonthRecords(month), loadSchedule()])
+        .then(([records, context]) => buildPayrollRows(month, employees, records, context)),
+      'Failed to build payroll export'
+    );
+
+    setLoading(false);
+
+    if (loadError || !data) {
+      setError(handleSupabaseError(loadError, 'Payroll Export'));
+      return { data: null, error: loadError };
+    }
+
+    await exportData('payroll', data, month, undefined, format);
+    return { data, error: null };
+  }, [clearError, loadSchedule, exportData]);
+
+  return {
+    exporting: loading || exporting,
+    error,
+    exportPayroll,
+    clearError
+  };
+};
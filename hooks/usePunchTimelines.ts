@@ -0,0 +1,49 @@
+// hooks/usePunchTimelines.ts
+// 👆 Custom hook for a day's punch timelines - every in/out punch per employee, paired
+
+import { useState, useCallback } from 'react';
+import type { PunchTimeline, UsePunchTimelinesReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const usePunchTimelines = (): UsePunchTimelinesReturn => {
+  const [timelines, setTimelines] = useState<Record<string, PunchTimeline>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the punches for a YYYY-MM-DD date, keyed by emp_code
+  const loadPunches = useCallback(async (date: string) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getDailyPunches(date),
+      'Failed to load punches'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Punch Timeline'));
+      setTimelines({});
+    } else {
+      console.log(`✅ Punches for ${date}: ${data?.length || 0} employees`);
+      setTimelines(Object.fromEntries((data || []).map(timeline => [timeline.emp_code, timeline])));
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    timelines,
+    loading,
+    error,
+    loadPunches,
+    clearError
+  };
+};
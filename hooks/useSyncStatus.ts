@@ -0,0 +1,49 @@
+// hooks/useSyncStatus.ts
+// 🔄 Custom hook for device sync health - recent runs, per-day status and the stale-sync flag
+
+import { useState, useCallback } from 'react';
+import type { SyncStatusReport, UseSyncStatusReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useSyncStatus = (): UseSyncStatusReturn => {
+  const [report, setReport] = useState<SyncStatusReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load sync runs for a range of data dates (the API defaults to the last few weeks)
+  const loadSyncStatus = useCallback(async (startDate?: string, endDate?: string) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getSyncStatus(startDate, endDate),
+      'Failed to load sync status'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Sync Status'));
+      setReport(null);
+    } else {
+      console.log(`✅ Sync status: ${data?.logs.length || 0} runs${data?.stale ? ' (stale)' : ''}`);
+      setReport(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    report,
+    loading,
+    error,
+    loadSyncStatus,
+    clearError
+  };
+};
@@ -0,0 +1,49 @@
+// hooks/useTeamMatrix.ts
+// 🧮 Custom hook for the team matrix - every employee against every day of a month
+
+import { useState, useCallback } from 'react';
+import type { OrgFilter, TeamMatrix, UseTeamMatrixReturn } from '../lib/types';
+import { handleSupabaseError } from '../lib/supabase';
+import { handleAsyncOperation } from '../lib/utils';
+import { attendanceApi } from '../lib/api';
+
+export const useTeamMatrix = (): UseTeamMatrixReturn => {
+  const [matrix, setMatrix] = useState<TeamMatrix | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError('');
+  }, []);
+
+  // Load the matrix for a YYYY-MM month, optionally for one department or team
+  const loadMatrix = useCallback(async (month: string, orgFilter?: OrgFilter) => {
+    setLoading(true);
+    clearError();
+
+    const { data, error: loadError } = await handleAsyncOperation(
+      attendanceApi.getTeamMatrix(month, orgFilter),
+      'Failed to load team matrix'
+    );
+
+    if (loadError) {
+      setError(handleSupabaseError(loadError, 'Team Matrix'));
+      setMatrix(null);
+    } else {
+      console.log(`✅ Team matrix for ${month}: ${data?.rows.length || 0} employees`);
+      setMatrix(data);
+    }
+
+    setLoading(false);
+    return { data, error: loadError };
+  }, [clearError]);
+
+  return {
+    matrix,
+    loading,
+    error,
+    loadMatrix,
+    clearError
+  };
+};
@@ -0,0 +1,88 @@
+// hooks/useWorkSchedule.ts
+// 🕘 Custom hook for shift assignments, holidays, approved leave and corrections, and schedule-aware check-in classification
+
+import { useState, useCallback } from 'react';
+import type { EmployeeRecord, ScheduleContext, UseWorkScheduleReturn } from '../lib/types';
+import { getRepository } from '../lib/repositories';
+import { EMPTY_SCHEDULE_CONTEXT, loadScheduleContext, resolveShift, classifyRecordForShift, checkRecordForShift } from '../lib/shifts';
+import { getRecordWorkTime } from '../lib/workTime';
+import { getLateMinutes as getRecordLateMinutes } from '../lib/lateness';
+import { PERFORMANCE_THRESHOLDS } from '../constants/config';
+
+// Shared across hook instances so every tab reuses one load of the schedule tables
+let cachedSchedule: { promise: Promise<ScheduleContext>; loadedAt: number } | null = null;
+
+const fetchScheduleContext = (force: boolean = false): Promise<ScheduleContext> => {
+  const now = Date.now();
+  if (!force && cachedSchedule && now - cachedSchedule.loadedAt < PERFORMANCE_THRESHOLDS.cacheExpiration) {
+    return cachedSchedule.promise;
+  }
+
+  const promise = loadScheduleContext(getRepository());
+
+  cachedSchedule = { promise, loadedAt: now };
+  promise.catch(() => {
+    cachedSchedule = null;
+  });
+
+  return promise;
+};
+
+/**
+ * Drop the cached schedule so the next load re-reads shifts, holidays, leave and corrections
+ */
+export const invalidateScheduleCache = (): void => {
+  cachedSchedule = null;
+};
+
+export const useWorkSchedule = (): UseWorkScheduleReturn => {
+  const [schedule, setSchedule] = useState<ScheduleContext>(EMPTY_SCHEDULE_CONTEXT);
+
+  // Load shift assignments and holidays - falls back to the default shift and no holidays if they can't be read
+  const loadSchedule = useCallback(async (force?: boolean) => {
+    try {
+      const context = await fetchScheduleContext(force);
+      setSchedule(context);
+      return context;
+    } catch (err: any) {
+      console.warn('⚠️ Could not load shift assignments or holidays, using the default schedule:', err?.message || err);
+      setSchedule(EMPTY_SCHEDULE_CONTEXT);
+      return EMPTY_SCHEDULE_CONTEXT;
+    }
+  }, []);
+
+  // Get the shift an employee works on a date
+  const getShiftFor = useCallback((empCode: string, date: string) => {
+    return resolveShift(empCode, date, schedule);
+  }, [schedule]);
+
+  // Classify a record against its employee's shift
+  const classifyRecord = useCallback((record: EmployeeRecord) => {
+    return classifyRecordForShift(record, schedule);
+  }, [schedule]);
+
+  // Compare a record's synced category with the shift-based one
+  const checkRecordCategory = useCallback((record: EmployeeRecord) => {
+    return checkRecordForShift(record, schedule);
+  }, [schedule]);
+
+  // Overtime, undertime, early leave and lunch deduction against the record's shift
+  const getWorkTime = useCallback((record: EmployeeRecord) => {
+    return getRecordWorkTime(record, schedule);
+  }, [schedule]);
+
+  // Minutes past the Late threshold of the record's shift
+  const getLateMinutes = useCallback((record: EmployeeRecord) => {
+    return getRecordLateMinutes(record, schedule);
+  }, [schedule]);
+
+  return {
+    schedule,
+    loadSchedule,
+    getShiftFor,
+    classifyRecord,
+    checkRecordCategory,
+    getWorkTime,
+    getLateMinutes
+  };
+};
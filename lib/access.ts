@@ -0,0 +1,56 @@
+// lib/access.ts
+// 🔐 Role-based access - which tabs, employees and actions a signed-in user may use
+
+import type { Employee, RoleDefinition, TabType, UserProfile } from './types';
+import { getReportCodes } from './employeeDirectory';
+import { ROLE_DEFINITIONS } from '../constants/config';
+
+/**
+ * Get the definition for a role (unknown roles get the most restricted one)
+ */
+export const getRoleDefinition = (role: string | null | undefined): RoleDefinition =>
+  ROLE_DEFINITIONS[role as keyof typeof ROLE_DEFINITIONS] || ROLE_DEFINITIONS.employee;
+
+/**
+ * Check whether a dashboard tab is available to the user
+ */
+export const canAccessTab = (profile: UserProfile, tab: TabType): boolean =>
+  getRoleDefinition(profile.role).tabs.includes(tab);
+
+/**
+ * Employee codes whose records the user may see, or null when the role sees everyone.
+ * Managers see their department, anyone reporting up to them and themselves; employees see
+ * only their own code.
+ */
+export const getVisibleEmployeeCodes = (profile: UserProfile, employees: Employee[]): Set<string> | null => {
+  const { scope } = getRoleDefinition(profile.role);
+  if (scope === 'all') return null;
+
+  const codes = new Set<string>();
+  if (profile.emp_code) codes.add(String(profile.emp_code).trim());
+
+  if (scope === 'department' && profile.department) {
+    employees
+      .filter(emp => emp.department === profile.department)
+      .forEach(emp => codes.add(String(emp.emp_code).trim()));
+  }
+
+  // Reports in other departments still roll up to their manager
+  if (scope === 'department' && profile.emp_code) {
+    getReportCodes(profile.emp_code, employees).forEach(empCode => codes.add(empCode));
+  }
+
+  return codes;
+};
+
+/**
+ * Check an employee code against the visible set (null = everyone is visible)
+ */
+export const canAccessEmployee = (empCode: string, visible: Set<string> | null): boolean =>
+  !visible || visible.has(String(empCode).trim());
+
+/**
+ * Keep only the rows for visible employees
+ */
+export const filterByEmployee = <T extends { emp_code?: string | null }>(rows: T[], visible: Set<string> | null): T[] =>
+  visible ? rows.filter(row => canAccessEmployee(String(row.emp_code ?? ''), visible)) : rows;
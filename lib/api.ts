@@ -0,0 +1,75 @@
+// lib/api.ts
+// 🌐 Client for the attendance REST endpoints under /api - same shapes the hooks used to build in the browser
+
+import type { DailySummary, WeeklySummary, MonthlyOverview, Employee, EmployeeRecord, WeeklyEmployeeData, LatenessReport, TeamMatrix, SyncStatusReport, DataQualityReport, DepartmentReport, OrgFilter, AttendancePunch, PunchTimeline, PunchImportResult, DeviceImportResult } from './types';
+import { apiRequest } from './auth';
+
+const withQuery = (path: string, query: Record<string, string | number | undefined>): string => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+// Report endpoints take the department / team filter as department and manager
+const orgQuery = (filter?: OrgFilter) => ({ department: filter?.department, manager: filter?.managerCode });
+
+export const attendanceApi = {
+  getDailySummaries: (limit?: number) =>
+    apiRequest<DailySummary[]>(withQuery('/api/daily-summaries', { limit })),
+
+  getDailySummariesInRange: (startDate: string, endDate: string) =>
+    apiRequest<DailySummary[]>(withQuery('/api/daily-summaries', { start: startDate, end: endDate })),
+
+  getWeeklySummaries: (limit?: number) =>
+    apiRequest<WeeklySummary[]>(withQuery('/api/weekly-summaries', { limit })),
+
+  getMonthlyOverview: (year?: number | null) =>
+    apiRequest<MonthlyOverview>(withQuery('/api/monthly-summaries', { year: year ?? undefined })),
+
+  getEmployees: () =>
+    apiRequest<Employee[]>('/api/employees'),
+
+  getDailyRecords: (date: string) =>
+    apiRequest<EmployeeRecord[]>(`/api/days/${encodeURIComponent(date)}/records`),
+
+  getDailyPunches: (date: string) =>
+    apiRequest<PunchTimeline[]>(`/api/days/${encodeURIComponent(date)}/punches`),
+
+  importPunches: (punches: AttendancePunch[]) =>
+    apiRequest<PunchImportResult>('/api/punches', { method: 'POST', body: JSON.stringify({ punches }) }),
+
+  importDeviceLog: (punches: AttendancePunch[], names: Record<string, string>, dryRun: boolean) =>
+    apiRequest<DeviceImportResult>('/api/device-imports', { method: 'POST', body: JSON.stringify({ punches, names, dryRun }) }),
+
+  getEmployeeRecords: (empCode: string, month: string) =>
+    apiRequest<EmployeeRecord[]>(withQuery(`/api/employees/${encodeURIComponent(empCode)}/records`, { month })),
+
+  getMonthRecords: (month: string) =>
+    apiRequest<EmployeeRecord[]>(`/api/months/${encodeURIComponent(month)}/records`),
+
+  getTeamMatrix: (month: string, filter?: OrgFilter) =>
+    apiRequest<TeamMatrix>(withQuery(`/api/months/${encodeURIComponent(month)}/matrix`, orgQuery(filter))),
+
+  getSyncStatus: (startDate?: string, endDate?: string) =>
+    apiRequest<SyncStatusReport>(withQuery('/api/sync-logs', { start: startDate, end: endDate })),
+
+  getDataQualityReport: (startDate?: string, endDate?: string, empCode?: string, filter?: OrgFilter) =>
+    apiRequest<DataQualityReport>(withQuery('/api/anomalies', { start: startDate, end: endDate, emp_code: empCode, ...orgQuery(filter) })),
+
+  getDepartmentReport: (startDate: string, endDate: string, filter?: OrgFilter) =>
+    apiRequest<DepartmentReport>(withQuery('/api/departments', { start: startDate, end: endDate, ...orgQuery(filter) })),
+
+  getWeeklyEmployees: (weekStart: string, weekEnd?: string) =>
+    apiRequest<WeeklyEmployeeData[]>(withQuery(`/api/weeks/${encodeURIComponent(weekStart)}/employees`, { end: weekEnd })),
+
+  getLatenessReport: (startDate: string, endDate: string, budgetMinutes?: number | null, filter?: OrgFilter) =>
+    apiRequest<LatenessReport>(withQuery('/api/lateness', {
+      start: startDate,
+      end: endDate,
+      budget: budgetMinutes === null ? 'none' : budgetMinutes,
+      ...orgQuery(filter)
+    }))
+};
@@ -0,0 +1,51 @@
+// lib/apiRoute.ts
+// 🌐 Shared handling for the API routes - authentication, role scoping and JSON error responses
+
+import { NextResponse } from 'next/server';
+import type { AttendanceRepository, UserProfile } from './types';
+import { getRequestProfile } from './serverAuth';
+import { getServerRepository } from './repositories/server';
+import { createScopedRepository } from './repositories/scopedRepository';
+import { createHttpError } from './utils';
+import { ERROR_MESSAGES } from '../constants/config';
+
+export interface ApiRouteContext {
+  profile: UserProfile;
+  repository: AttendanceRepository; // already scoped to the profile's role
+  searchParams: URLSearchParams;
+}
+
+/**
+ * Throw a 400 listing every problem found while validating a request
+ */
+export const assertValid = (problems: string[]): void => {
+  if (problems.length > 0) throw createHttpError(problems.join(' '), 400);
+};
+
+/**
+ * Run a route for the signed-in user. Responds { data } on success and { error } with the
+ * thrown error's status otherwise (401 when signed out, 500 for anything unexpected).
+ */
+export const handleApiRequest = async (
+  request: Request,
+  handler: (context: ApiRouteContext) => Promise<unknown>
+): Promise<NextResponse> => {
+  try {
+    const profile = await getRequestProfile(request);
+    if (!profile) {
+      return NextResponse.json({ error: 'Please sign in to continue.' }, { status: 401 });
+    }
+
+    const data = await handler({
+      profile,
+      repository: createScopedRepository(getServerRepository(), profile),
+      searchParams: new URL(request.url).searchParams
+    });
+
+    return NextResponse.json({ data: data ?? null });
+  } catch (error: any) {
+    const status = typeof error?.status === 'number' ? error.status : 500;
+    if (status === 500) console.error(`❌ API request failed: ${request.method} ${request.url}`, error);
+    return NextResponse.json({ error: error?.message || ERROR_MESSAGES.generic }, { status });
+  }
+};
@@ -0,0 +1,133 @@
+// lib/attendanceCalendar.ts
+// 🗓️ Per-employee attendance calendar - expected working days, absences and reconciled totals
+
+import type {
+  EmployeeRecord,
+  ScheduleContext,
+  AttendanceDayKind,
+  AttendanceCalendarDay,
+  AttendanceCalendarSummary
+} from './types';
+import { getDatesBetween, getHolidayOn, getToday } from './holidays';
+import { resolveShift, isShiftWorkDay, getEmployeeDepartment, isExpectedWorkDay } from './shifts';
+import { getLeaveOn, getLeaveType, buildLeaveRecord, applyApprovedLeave } from './leave';
+
+/**
+ * Map a synced record's status onto a calendar day kind
+ */
+export const getRecordDayKind = (record: Pick<EmployeeRecord, 'status'>): AttendanceDayKind => {
+  switch ((record.status || '').toLowerCase()) {
+    case 'leave': return 'leave';
+    case 'absent': return 'absent';
+    case 'wfh': return 'present';
+    default: return 'present';
+  }
+};
+
+/**
+ * Build the attendance calendar for one employee over a date range.
+ *
+ * Every day gets exactly one kind, so present + absent + leave + holiday + off
+ * + not_employed + upcoming always adds up to the number of days in the range.
+ * A day is expected when it is a shift work day on or after the hire date, not a
+ * holiday, not in the future and not covered by leave. Approved leave replaces an
+ * absence; leave types that count as attendance (working from home) make the day present.
+ * The attendance rate is present expected days over expected days; work on a day off
+ * still counts as present.
+ */
+export const buildAttendanceCalendar = (
+  empCode: string,
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): AttendanceCalendarSummary => {
+  const code = String(empCode).trim();
+  const employee = context.employees.find(emp => String(emp.emp_code).trim() === code);
+  const department = getEmployeeDepartment(code, context);
+  const recordsByDate = new Map<string, EmployeeRecord>();
+  records
+    .filter(record => String(record.emp_code).trim() === code)
+    .forEach(record => recordsByDate.set(record.date, applyApprovedLeave(record, context)));
+
+  const days: AttendanceCalendarDay[] = getDatesBetween(startDate, endDate).map(date => {
+    const record = recordsByDate.get(date);
+    const holiday = getHolidayOn(date, context.holidays, department);
+    const leave = getLeaveOn(code, date, context.leave);
+    const isWorkDay = isShiftWorkDay(resolveShift(code, date, context), date);
+    const isEmployed = !employee?.hire_date || date >= employee.hire_date;
+    const scheduled = isWorkDay && isEmployed && !holiday && date <= today;
+
+    if (record) {
+      const kind = getRecordDayKind(record);
+      return { date, kind, expected: scheduled && kind !== 'leave', record, holiday, leave };
+    }
+
+    let kind: AttendanceDayKind;
+    if (!isEmployed) kind = 'not_employed';
+    else if (!isWorkDay) kind = 'off';
+    else if (holiday) kind = 'holiday';
+    else if (leave && !getLeaveType(leave.leave_type).countsAsAttendance) kind = 'leave';
+    else if (date > today) kind = 'upcoming';
+    else if (leave) kind = 'present';
+    else kind = 'absent';
+
+    return { date, kind, expected: scheduled && kind !== 'leave', holiday, leave };
+  });
+
+  const count = (kind: AttendanceDayKind) => days.filter(day => day.kind === kind).length;
+  const expectedWorkingDays = days.filter(day => day.expected).length;
+  const presentOnExpected = days.filter(day => day.expected && day.kind === 'present').length;
+
+  return {
+    days,
+    totalDays: days.length,
+    expectedWorkingDays,
+    presentDays: count('present'),
+    absentDays: count('absent'),
+    leaveDays: count('leave'),
+    holidayDays: count('holiday'),
+    offDays: count('off'),
+    notEmployedDays: count('not_employed'),
+    upcomingDays: count('upcoming'),
+    missingDates: days.filter(day => day.kind === 'absent').map(day => day.date),
+    attendanceRate: expectedWorkingDays > 0
+      ? Math.round((presentOnExpected / expectedWorkingDays) * 100)
+      : 0
+  };
+};
+
+/**
+ * Add an "Absent" entry for every active employee on the roster who was expected to work
+ * on a date but has no synced record, or a leave entry when they have approved leave.
+ * Synced absences covered by leave become leave; synthesized entries are flagged so they
+ * can be told apart. Future dates only get leave entries.
+ */
+export const synthesizeAbsences = (
+  date: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): EmployeeRecord[] => {
+  const recorded = new Set(records.map(record => String(record.emp_code).trim()));
+  const absences: EmployeeRecord[] = context.employees
+    .filter(emp => emp.is_active !== false)
+    .filter(emp => !recorded.has(emp.emp_code))
+    .filter(emp => !emp.hire_date || date >= emp.hire_date)
+    .filter(emp => isExpectedWorkDay(emp.emp_code, date, context))
+    .flatMap((emp): EmployeeRecord[] => {
+      const leave = getLeaveOn(emp.emp_code, date, context.leave);
+      if (leave) return [buildLeaveRecord(leave, date, emp.name)];
+      if (date > today) return [];
+      return [{
+        date,
+        emp_code: emp.emp_code,
+        name: emp.name,
+        status: 'Absent',
+        synthesized: true
+      }];
+    });
+
+  return [...records.map(record => applyApprovedLeave(record, context)), ...absences];
+};
@@ -0,0 +1,199 @@
+// lib/attendanceReports.ts
+// 🧾 Report builders - turn repository rows into the daily, monthly and weekly shapes the dashboard and API return
+
+import type {
+  Employee,
+  EmployeeIndexEntry,
+  EmployeeRecord,
+  ScheduleContext,
+  WeeklyEmployeeData,
+  WorkTimeBreakdown
+} from './types';
+import { classifyRecordForShift, isExpectedWorkDay } from './shifts';
+import { synthesizeAbsences, getRecordDayKind } from './attendanceCalendar';
+import { applyApprovedLeave, buildLeaveRecord, isLeaveOnDate } from './leave';
+import { getDatesBetween } from './holidays';
+import { applyApprovedCorrections } from './corrections';
+import { countsAsOnTime, isLateCategory } from './classification';
+import { getRecordWorkTime, sumWorkTime } from './workTime';
+import { isFlaggedRecord } from './dataQuality';
+
+/**
+ * emp_code is stored as text in some rows and as a number in others - normalize to a trimmed string
+ */
+export const normalizeRecords = (records: EmployeeRecord[]): EmployeeRecord[] =>
+  records.map(record => ({
+    ...record,
+    emp_code: String(record.emp_code || '').trim(),
+    name: String(record.name || '').trim()
+  }));
+
+/**
+ * Build the employee list from the record index (sorted newest first, so the latest name wins)
+ */
+export const buildEmployeeList = (index: EmployeeIndexEntry[]): Employee[] => {
+  const employees = new Map<string, Employee>();
+
+  index.forEach(entry => {
+    const empCode = String(entry.emp_code || '').trim();
+    const name = String(entry.name || '').trim();
+    if (empCode && name && !employees.has(empCode)) {
+      employees.set(empCode, { emp_code: empCode, name, is_active: true });
+    }
+  });
+
+  return Array.from(employees.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Records for one day: approved corrections applied, then absences and leave filled in from the roster
+ */
+export const buildDailyRecords = (date: string, records: EmployeeRecord[], context: ScheduleContext): EmployeeRecord[] => {
+  const corrected = applyApprovedCorrections(normalizeRecords(records), context, date, date);
+  return synthesizeAbsences(date, corrected, context);
+};
+
+/**
+ * One employee's records for a date range with approved corrections applied, oldest first
+ */
+export const buildEmployeeRangeRecords = (
+  empCode: string,
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext
+): EmployeeRecord[] =>
+  applyApprovedCorrections(normalizeRecords(records), context, startDate, endDate, String(empCode).trim())
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Every employee's records for a date range with approved corrections applied, oldest first
+ */
+export const buildRangeRecords = (
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext
+): EmployeeRecord[] =>
+  applyApprovedCorrections(normalizeRecords(records), context, startDate, endDate)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.emp_code.localeCompare(b.emp_code));
+
+/**
+ * Per-employee totals and daily breakdown for a week (or any short range)
+ */
+export const buildWeeklyEmployeeData = (
+  weekStart: string,
+  weekEnd: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext
+): WeeklyEmployeeData[] => {
+  const employeeMap = new Map<string, WeeklyEmployeeData & { dailyBreakdown: Record<string, EmployeeRecord> }>();
+  const workTimes = new Map<string, WorkTimeBreakdown[]>();
+
+  const getWeeklyEntry = (empCode: string, name: string) => {
+    if (!employeeMap.has(empCode)) {
+      employeeMap.set(empCode, {
+        emp_code: empCode,
+        name,
+        days: [],
+        totalDays: 0,
+        presentDays: 0,
+        leaveDays: 0,
+        totalHours: 0,
+        onTimeDays: 0,
+        lateDays: 0,
+        overtimeHours: 0,
+        undertimeHours: 0,
+        earlyLeaveMinutes: 0,
+        lunchDeductionHours: 0,
+        flaggedDays: 0,
+        dailyBreakdown: {}
+      });
+      workTimes.set(empCode, []);
+    }
+    return employeeMap.get(empCode)!;
+  };
+
+  // Approved corrections replace the synced times
+  const correctedData = applyApprovedCorrections(normalizeRecords(records), context, weekStart, weekEnd);
+
+  correctedData.forEach(rawRecord => {
+    if (!rawRecord.emp_code) return; // Skip records without emp_code
+
+    // Approved leave turns a synced absence into leave
+    const record = applyApprovedLeave(rawRecord, context);
+    const employee = getWeeklyEntry(record.emp_code, record.name);
+    employee.days.push(record);
+    employee.totalDays++;
+
+    // Store daily details by date
+    employee.dailyBreakdown[record.date] = {
+      date: record.date,
+      emp_code: record.emp_code,
+      name: record.name,
+      check_in: record.check_in,
+      check_out: record.check_out,
+      work_hours: record.work_hours,
+      status: record.status,
+      leave_type: record.leave_type,
+      correction: record.correction,
+      time_category: classifyRecordForShift(record, context)
+    };
+
+    if (record.status === 'Present') {
+      employee.presentDays++;
+
+      // Hours that cannot be trusted stay out of the totals until corrected
+      if (isFlaggedRecord(record)) {
+        employee.flaggedDays++;
+      } else {
+        employee.totalHours += record.work_hours || 0;
+        workTimes.get(record.emp_code)!.push(getRecordWorkTime(record, context));
+      }
+
+      const category = employee.dailyBreakdown[record.date].time_category;
+      if (countsAsOnTime(category)) {
+        employee.onTimeDays++;
+      } else if (isLateCategory(category)) {
+        employee.lateDays++;
+      }
+    } else if (getRecordDayKind(record) === 'present') {
+      employee.presentDays++;
+    } else {
+      employee.leaveDays++;
+    }
+  });
+
+  // Approved leave on working days without a synced record
+  context.leave
+    .filter(request => request.start_date <= weekEnd && request.end_date >= weekStart)
+    .forEach(request => {
+      const empCode = String(request.emp_code).trim();
+      const rosterEntry = context.employees.find(emp => emp.emp_code === empCode);
+
+      getDatesBetween(weekStart, weekEnd)
+        .filter(date => isLeaveOnDate(request, date) && isExpectedWorkDay(empCode, date, context))
+        .forEach(date => {
+          const employee = getWeeklyEntry(empCode, rosterEntry?.name || empCode);
+          if (employee.dailyBreakdown[date]) return;
+
+          const record = buildLeaveRecord(request, date, employee.name);
+          employee.days.push(record);
+          employee.dailyBreakdown[date] = record;
+          employee.totalDays++;
+          if (getRecordDayKind(record) === 'present') {
+            employee.presentDays++;
+          } else {
+            employee.leaveDays++;
+          }
+        });
+    });
+
+  // Overtime and undertime totals are net of the lunch break
+  employeeMap.forEach((employee, empCode) => {
+    const { overtimeHours, undertimeHours, earlyLeaveMinutes, lunchDeductionHours } = sumWorkTime(workTimes.get(empCode)!);
+    Object.assign(employee, { overtimeHours, undertimeHours, earlyLeaveMinutes, lunchDeductionHours });
+  });
+
+  return Array.from(employeeMap.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,125 @@
+// lib/auth.ts
+// 🔐 Client-side sign-in - Supabase email/password, or fixture demo users when running offline
+
+import type { UserProfile } from './types';
+import { supabase } from './supabase';
+import { createHttpError } from './utils';
+import { API_CONFIG, AUTH_CONFIG, DATA_SOURCE_CONFIG, ERROR_MESSAGES } from '../constants/config';
+
+const isOffline = (): boolean => DATA_SOURCE_CONFIG.source === 'memory';
+
+const getDemoUserId = (): string | null =>
+  typeof window !== 'undefined' ? window.localStorage.getItem(AUTH_CONFIG.demoStorageKey) : null;
+
+/**
+ * Get the bearer token for API requests, or null when nobody is signed in
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (isOffline()) {
+    const demoUserId = getDemoUserId();
+    return demoUserId ? `${AUTH_CONFIG.demoTokenPrefix}${demoUserId}` : null;
+  }
+  if (!supabase) return null;
+
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token || null;
+};
+
+/**
+ * Call one of the dashboard API routes with the signed-in user's token.
+ * Routes answer { data } or { error }; failures throw with the HTTP status attached.
+ */
+export const apiRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), API_CONFIG.timeout);
+
+  try {
+    const token = await getAccessToken();
+    const response = await fetch(`${API_CONFIG.baseURL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers
+      },
+      signal: controller.signal
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw createHttpError(body?.error || ERROR_MESSAGES.generic, response.status);
+    }
+    return body?.data as T;
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw new Error(ERROR_MESSAGES.timeout);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Load the profile for the current session (null when signed out or not linked to a profile)
+ */
+export const fetchProfile = async (): Promise<UserProfile | null> => {
+  if (!(await getAccessToken())) return null;
+
+  try {
+    return await apiRequest<UserProfile>(AUTH_CONFIG.profileEndpoint);
+  } catch (error: any) {
+    if (error?.status === 401) return null;
+    throw error;
+  }
+};
+
+/**
+ * Sign in with a Supabase email and password
+ */
+export const signInWithPassword = async (email: string, password: string): Promise<UserProfile> => {
+  if (!supabase) {
+    throw new Error('Supabase is not configured. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.');
+  }
+
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+
+  const profile = await fetchProfile();
+  if (!profile) {
+    await supabase.auth.signOut();
+    throw new Error('No dashboard profile is linked to this account. Ask an administrator for access.');
+  }
+  return profile;
+};
+
+/**
+ * Sign in as one of the fixture users (offline mode only)
+ */
+export const signInAsDemoUser = async (userId: string): Promise<UserProfile> => {
+  if (!isOffline()) throw new Error('Demo sign-in is only available in offline mode.');
+
+  window.localStorage.setItem(AUTH_CONFIG.demoStorageKey, userId);
+  const profile = await fetchProfile();
+  if (!profile) {
+    window.localStorage.removeItem(AUTH_CONFIG.demoStorageKey);
+    throw new Error(`Unknown demo user: ${userId}`);
+  }
+  return profile;
+};
+
+/**
+ * List the fixture users available for demo sign-in (offline mode only)
+ */
+export const getDemoUsers = async (): Promise<UserProfile[]> =>
+  isOffline() ? apiRequest<UserProfile[]>(AUTH_CONFIG.demoUsersEndpoint) : [];
+
+/**
+ * Sign out of Supabase and forget any demo user
+ */
+export const signOut = async (): Promise<void> => {
+  if (typeof window !== 'undefined') {
+    window.localStorage.removeItem(AUTH_CONFIG.demoStorageKey);
+  }
+  if (supabase) {
+    await supabase.auth.signOut();
+  }
+};
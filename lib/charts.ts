@@ -0,0 +1,70 @@
+// lib/charts.ts
+// 📈 Chart helpers - scales, SVG paths, easing and the daily summary series, drawn by components/charts
+
+import type { ChartScale, DailySummary } from './types';
+import { addDays } from './holidays';
+import { CHART_CONFIG } from '../constants/config';
+
+export const EASINGS: Record<string, (t: number) => number> = {
+  linear: t => t,
+  easeOutQuad: t => t * (2 - t),
+  easeInOutQuad: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInOutQuart: t => (t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2)
+};
+
+/**
+ * Round a step up to 1, 2, 2.5 or 5 times a power of ten
+ */
+const getNiceStep = (roughStep: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const fraction = roughStep / magnitude;
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 2.5 ? 2.5 : fraction <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+/**
+ * A scale from zero (or the lowest value) to a round number above the highest value, with evenly spaced ticks
+ */
+export const getNiceScale = (values: number[], tickCount: number = CHART_CONFIG.tickCount, fixedMax?: number): ChartScale => {
+  const min = Math.min(0, ...values);
+  const highest = fixedMax ?? Math.max(0, ...values);
+  if (highest <= min) return { min, max: min + 1, ticks: [min, min + 1] };
+
+  const step = fixedMax !== undefined ? (fixedMax - min) / (tickCount - 1) : getNiceStep((highest - min) / (tickCount - 1));
+  const max = fixedMax ?? Math.ceil(highest / step) * step;
+  const ticks: number[] = [];
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    ticks.push(Math.round(tick * 100) / 100);
+  }
+  return { min, max, ticks };
+};
+
+/**
+ * Map a value onto a pixel position between bottom and top (SVG y grows downwards)
+ */
+export const scaleValue = (value: number, scale: ChartScale, bottom: number, top: number): number =>
+  bottom - ((value - scale.min) / (scale.max - scale.min)) * (bottom - top);
+
+/**
+ * SVG path through the points with straight segments
+ */
+export const buildLinePath = (points: Array<[number, number]>): string =>
+  points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+/**
+ * Daily summaries from the last `days` days up to the latest one, oldest first for plotting
+ */
+export const getDailyTrend = (dailyData: DailySummary[], days: number): DailySummary[] => {
+  if (dailyData.length === 0) return [];
+  const latest = dailyData.reduce((max, day) => (day.date > max ? day.date : max), dailyData[0].date);
+  const from = addDays(latest, -(days - 1));
+  return dailyData
+    .filter(day => day.date >= from && day.date <= latest)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Pick every nth label so at most maxLabels fit along the x axis
+ */
+export const getLabelStep = (labelCount: number, maxLabels: number = 10): number =>
+  Math.max(1, Math.ceil(labelCount / maxLabels));
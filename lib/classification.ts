@@ -0,0 +1,130 @@
+// lib/classification.ts
+// ⏱️ Check-in classification - derives time categories from WORK_SCHEDULE thresholds
+
+import type {
+  TimeCategory,
+  CanonicalTimeCategory,
+  CheckInThresholds,
+  CategoryCheck,
+  EmployeeRecord
+} from './types';
+import { WORK_SCHEDULE } from '../constants/config';
+import { timeToMinutes } from './formatters';
+
+// Legacy spellings written by the sync service, keyed by lowercase value
+const CATEGORY_ALIASES: Record<string, TimeCategory> = {
+  'early': 'Early Check-in',
+  'early check-in': 'Early Check-in',
+  'on time': 'On Time',
+  'on-time': 'On Time',
+  'on-time check-in': 'On Time',
+  'acceptable': 'Acceptable',
+  'acceptable check-in': 'Acceptable',
+  'late': 'Late',
+  'late check-in': 'Late',
+  'invalid time': 'Invalid Time',
+  'invalid': 'Invalid Time',
+  'n/a': 'N/A'
+};
+
+/**
+ * Normalize any stored time_category string into the canonical TimeCategory values
+ * ('Early Check-in', 'On Time', 'Acceptable', 'Late', 'Invalid Time' or 'N/A')
+ */
+export const normalizeTimeCategory = (category: string | null | undefined): TimeCategory => {
+  if (!category) return 'N/A';
+  return CATEGORY_ALIASES[category.trim().toLowerCase()] || 'N/A';
+};
+
+/**
+ * Classify a check-in time against the configured thresholds.
+ * Times are compared at minute precision, so 09:30:45 counts as 09:30.
+ */
+export const classifyCheckIn = (
+  checkIn: string | null | undefined,
+  thresholds: CheckInThresholds = WORK_SCHEDULE
+): TimeCategory => {
+  if (!checkIn) return 'N/A';
+
+  const minutes = timeToMinutes(checkIn);
+  if (minutes === null) return 'Invalid Time';
+
+  const checkInMinute = Math.floor(minutes);
+  const early = timeToMinutes(thresholds.earlyThreshold) ?? 0;
+  const onTime = timeToMinutes(thresholds.onTimeThreshold) ?? early;
+  const acceptable = timeToMinutes(thresholds.acceptableThreshold) ?? onTime;
+
+  if (checkInMinute < early) return 'Early Check-in';
+  if (checkInMinute <= onTime) return 'On Time';
+  if (checkInMinute <= acceptable) return 'Acceptable';
+  return 'Late';
+};
+
+/**
+ * Get the category reports should use for a record: computed from check_in when
+ * possible, otherwise the normalized stored value
+ */
+export const getEffectiveTimeCategory = (
+  record: Pick<EmployeeRecord, 'check_in' | 'time_category'>,
+  thresholds: CheckInThresholds = WORK_SCHEDULE
+): TimeCategory => {
+  const computed = classifyCheckIn(record.check_in, thresholds);
+  return computed === 'N/A' || computed === 'Invalid Time'
+    ? normalizeTimeCategory(record.time_category)
+    : computed;
+};
+
+/**
+ * Compare the stored category with the one computed from the current thresholds
+ */
+export const checkTimeCategory = (
+  record: Pick<EmployeeRecord, 'check_in' | 'time_category'>,
+  thresholds: CheckInThresholds = WORK_SCHEDULE
+): CategoryCheck => {
+  const stored = normalizeTimeCategory(record.time_category);
+  const computed = getEffectiveTimeCategory(record, thresholds);
+  return { stored, computed, mismatch: !!record.time_category && stored !== computed };
+};
+
+/**
+ * Find records whose stored category disagrees with the computed one
+ */
+export const findCategoryMismatches = <T extends Pick<EmployeeRecord, 'check_in' | 'time_category'>>(
+  records: T[],
+  thresholds: CheckInThresholds = WORK_SCHEDULE
+): Array<T & { check: CategoryCheck }> => {
+  return records
+    .map(record => ({ ...record, check: checkTimeCategory(record, thresholds) }))
+    .filter(record => record.check.mismatch);
+};
+
+/**
+ * Category predicates - accept raw or normalized strings
+ */
+export const isEarlyCategory = (category: string | null | undefined): boolean =>
+  normalizeTimeCategory(category) === 'Early Check-in';
+
+export const isOnTimeCategory = (category: string | null | undefined): boolean =>
+  normalizeTimeCategory(category) === 'On Time';
+
+export const isAcceptableCategory = (category: string | null | undefined): boolean =>
+  normalizeTimeCategory(category) === 'Acceptable';
+
+export const isLateCategory = (category: string | null | undefined): boolean =>
+  normalizeTimeCategory(category) === 'Late';
+
+/**
+ * Early and on-time check-ins both count towards the on-time rate
+ */
+export const countsAsOnTime = (category: string | null | undefined): boolean =>
+  isEarlyCategory(category) || isOnTimeCategory(category);
+
+/**
+ * Narrow a category to the four check-in buckets, or null for N/A / invalid
+ */
+export const toCanonicalCategory = (category: string | null | undefined): CanonicalTimeCategory | null => {
+  const normalized = normalizeTimeCategory(category);
+  return normalized === 'N/A' || normalized === 'Invalid Time'
+    ? null
+    : normalized as CanonicalTimeCategory;
+};
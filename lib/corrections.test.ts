@@ -0,0 +1,56 @@
+// lib/corrections.test.ts
+// 🧪 Correction validation and overlaying approved corrections
+
+import { describe, expect, it } from 'vitest';
+import type { AttendanceCorrection } from './types';
+import { applyCorrection, validateCorrection } from './corrections';
+
+const correction = (changes: Partial<AttendanceCorrection>): AttendanceCorrection => ({
+  emp_code: '1',
+  date: '2025-06-02',
+  reason: 'Forgot to punch',
+  status: 'pending',
+  ...changes
+});
+
+const stored = { check_in: '09:00', check_out: '18:00' };
+
+describe('validateCorrection', () => {
+  it('accepts a corrected pair in order', () => {
+    expect(validateCorrection(correction({ check_in: '09:00', check_out: '17:00' }))).toEqual([]);
+  });
+
+  it('rejects a check-out before the check-in', () => {
+    expect(validateCorrection(correction({ check_in: '10:00', check_out: '09:00' }))).toContain(
+      'The check-out has to be later than the check-in.'
+    );
+  });
+
+  it('compares a single corrected time with the stored record', () => {
+    expect(validateCorrection(correction({ check_out: '08:30' }), [], stored)).toContain(
+      'The check-out has to be later than the check-in.'
+    );
+    expect(validateCorrection(correction({ check_in: '18:30' }), [], stored)).toContain(
+      'The check-out has to be later than the check-in.'
+    );
+    expect(validateCorrection(correction({ check_in: '08:30' }), [], stored)).toEqual([]);
+  });
+
+  it('allows one pending correction per employee and date', () => {
+    const pending = correction({ id: 1, check_in: '09:00' });
+    expect(validateCorrection(correction({ check_in: '09:05' }), [pending])).toContain(
+      'There is already a pending correction for this employee and date.'
+    );
+    expect(validateCorrection({ ...pending, check_in: '09:05' }, [pending])).toEqual([]);
+  });
+});
+
+describe('applyCorrection', () => {
+  it('keeps the synced time for the side left blank and recomputes the hours', () => {
+    const record = { emp_code: '1', name: 'Rana', date: '2025-06-02', check_in: '09:00', check_out: '12:00', work_hours: 3, status: 'Present' };
+    const corrected = applyCorrection(record, correction({ id: 4, check_out: '18:00', status: 'approved' }));
+
+    expect(corrected).toMatchObject({ check_in: '09:00', check_out: '18:00', work_hours: 9 });
+    expect(corrected.correction?.original).toMatchObject({ check_out: '12:00', work_hours: 3 });
+  });
+});
@@ -0,0 +1,155 @@
+// lib/corrections.ts
+// ✏️ Attendance corrections - validation and overlaying approved corrections on synced records
+
+import type { AttendanceCorrection, EmployeeRecord, ScheduleContext } from './types';
+import { timeToMinutes } from './formatters';
+import { VALIDATION_RULES } from '../constants/config';
+
+const getCorrectionKey = (empCode: string, date: string): string => `${String(empCode).trim()}|${date}`;
+
+/**
+ * Work out hours between two times. No shift runs past midnight, so a check-out before
+ * the check-in gives no hours (Data Quality flags that record instead)
+ */
+export const getHoursBetween = (checkIn?: string | null, checkOut?: string | null): number | undefined => {
+  const start = timeToMinutes(checkIn);
+  const end = timeToMinutes(checkOut);
+  if (start === null || end === null || end < start) return undefined;
+  return Math.round(((end - start) / 60) * 100) / 100;
+};
+
+/**
+ * Validate a correction before saving. Returns a list of problems (empty when valid).
+ * A time left blank keeps the synced record's, so the check-out is compared with the
+ * check-in the record will end up with.
+ */
+export const validateCorrection = (
+  correction: AttendanceCorrection,
+  existing: AttendanceCorrection[] = [],
+  record?: Pick<EmployeeRecord, 'check_in' | 'check_out'> | null
+): string[] => {
+  const errors: string[] = [];
+  const { dateFormat, timeFormat } = VALIDATION_RULES.attendance;
+
+  if (!String(correction.emp_code || '').trim()) errors.push('Please choose an employee.');
+  if (!dateFormat.test(correction.date || '')) errors.push('Please choose a date.');
+  if (!correction.check_in && !correction.check_out) errors.push('Enter a corrected check-in or check-out time.');
+  if (correction.check_in && !timeFormat.test(correction.check_in)) errors.push(`Invalid check-in time: ${correction.check_in}`);
+  if (correction.check_out && !timeFormat.test(correction.check_out)) errors.push(`Invalid check-out time: ${correction.check_out}`);
+  if (!correction.reason?.trim()) errors.push('Please give a reason for the correction.');
+
+  const checkIn = timeToMinutes(correction.check_in || record?.check_in);
+  const checkOut = timeToMinutes(correction.check_out || record?.check_out);
+  if (checkIn !== null && checkOut !== null && checkOut <= checkIn) {
+    errors.push('The check-out has to be later than the check-in.');
+  }
+
+  const pending = existing.find(other =>
+    other.id !== correction.id &&
+    other.status === 'pending' &&
+    getCorrectionKey(other.emp_code, other.date) === getCorrectionKey(correction.emp_code, correction.date)
+  );
+  if (pending) errors.push('There is already a pending correction for this employee and date.');
+
+  return errors;
+};
+
+/**
+ * Find the approved correction for an employee on a date (the latest approval wins)
+ */
+export const getCorrectionFor = (
+  empCode: string,
+  date: string,
+  corrections: AttendanceCorrection[]
+): AttendanceCorrection | null => {
+  const key = getCorrectionKey(empCode, date);
+  return corrections
+    .filter(correction => correction.status === 'approved' && getCorrectionKey(correction.emp_code, correction.date) === key)
+    .sort((a, b) => (b.reviewed_at || '').localeCompare(a.reviewed_at || ''))[0] || null;
+};
+
+/**
+ * Overlay a correction on a record. The corrected times replace the synced ones, work hours
+ * are recomputed and the stored time category is dropped so it is reclassified from the new
+ * check-in. The synced values are kept on `correction.original`.
+ */
+export const applyCorrection = (record: EmployeeRecord, correction: AttendanceCorrection): EmployeeRecord => {
+  const checkIn = correction.check_in || record.check_in;
+  const checkOut = correction.check_out || record.check_out;
+  const isSynced = !record.synthesized;
+
+  return {
+    ...record,
+    check_in: checkIn,
+    check_out: checkOut,
+    // Reversed times keep no hours rather than the synced ones
+    work_hours: getHoursBetween(checkIn, checkOut) ?? (checkIn && checkOut ? undefined : record.work_hours),
+    status: checkIn ? 'Present' : record.status,
+    time_category: undefined,
+    synthesized: false,
+    leave_type: undefined,
+    correction: {
+      id: correction.id,
+      reason: correction.reason,
+      requested_by: correction.requested_by,
+      reviewed_by: correction.reviewed_by,
+      reviewed_at: correction.reviewed_at,
+      original: isSynced
+        ? {
+            check_in: record.check_in,
+            check_out: record.check_out,
+            work_hours: record.work_hours,
+            status: record.status,
+            time_category: record.time_category
+          }
+        : null
+    }
+  };
+};
+
+/**
+ * Apply approved corrections to a set of records. Corrections for days with no synced record
+ * (every punch missed) within the range add a record, optionally limited to one employee.
+ */
+export const applyApprovedCorrections = (
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  startDate: string,
+  endDate: string,
+  empCode?: string
+): EmployeeRecord[] => {
+  if (context.corrections.length === 0) return records;
+
+  const corrected = records.map(record => {
+    const correction = getCorrectionFor(record.emp_code, record.date, context.corrections);
+    return correction ? applyCorrection(record, correction) : record;
+  });
+
+  const existing = new Set(records.map(record => getCorrectionKey(record.emp_code, record.date)));
+  const added = context.corrections
+    .filter(correction => correction.date >= startDate && correction.date <= endDate)
+    .filter(correction => !empCode || String(correction.emp_code).trim() === String(empCode).trim())
+    .filter(correction => !existing.has(getCorrectionKey(correction.emp_code, correction.date)))
+    .filter(correction => getCorrectionFor(correction.emp_code, correction.date, context.corrections) === correction)
+    .map(correction => {
+      const code = String(correction.emp_code).trim();
+      const name = context.employees.find(emp => emp.emp_code === code)?.name || code;
+      return applyCorrection({ date: correction.date, emp_code: code, name, synthesized: true }, correction);
+    });
+
+  return [...corrected, ...added];
+};
+
+/**
+ * Describe what a correction changed, e.g. "check-in 10:42 → 09:05"
+ */
+export const describeCorrection = (record: EmployeeRecord): string => {
+  const original = record.correction?.original;
+  if (!record.correction) return '';
+  if (!original) return 'added - no punches were synced';
+
+  const changes: string[] = [];
+  if (original.check_in !== record.check_in) changes.push(`check-in ${original.check_in || 'none'} → ${record.check_in}`);
+  if (original.check_out !== record.check_out) changes.push(`check-out ${original.check_out || 'none'} → ${record.check_out}`);
+  return changes.join(', ');
+};
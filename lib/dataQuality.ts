@@ -0,0 +1,90 @@
+// lib/dataQuality.ts
+// 🩺 Data quality - synced records with a missing check-out, a single punch, reversed times or impossible hours
+
+import type { DataQualityReport, EmployeeRecord, RecordAnomaly, RecordAnomalyType, ScheduleContext } from './types';
+import { getEmployeeDepartment } from './shifts';
+import { getToday } from './holidays';
+import { timeToMinutes } from './formatters';
+import { DATA_QUALITY_CONFIG, VALIDATION_RULES } from '../constants/config';
+
+/**
+ * What is wrong with a record's times or hours - empty for a clean record.
+ *
+ * Only days with a check-in are checked, and a check-in today without a check-out is someone
+ * still at work. A single punch is reported rather than a missing check-out, since the one
+ * punch explains it.
+ */
+export const detectRecordAnomalies = (
+  record: Pick<EmployeeRecord, 'date' | 'check_in' | 'check_out' | 'work_hours' | 'total_punches'>,
+  today: string = getToday()
+): RecordAnomalyType[] => {
+  if (!record.check_in) return [];
+  const checkIn = timeToMinutes(record.check_in);
+  const checkOut = timeToMinutes(record.check_out);
+  const types: RecordAnomalyType[] = [];
+
+  const stillAtWork = checkOut === null && record.date >= today;
+  if (!stillAtWork) {
+    if (record.total_punches === 1 || (checkOut !== null && checkOut === checkIn)) {
+      types.push('single_punch');
+    } else if (checkOut === null) {
+      types.push('missing_checkout');
+    } else if (checkIn !== null && checkOut < checkIn) {
+      types.push('checkout_before_checkin');
+    }
+  }
+  if ((record.work_hours || 0) > VALIDATION_RULES.attendance.maxWorkHours) types.push('excessive_hours');
+
+  return types;
+};
+
+/**
+ * Whether a record's work hours should be left out of hours totals
+ */
+export const isFlaggedRecord = (
+  record: Pick<EmployeeRecord, 'date' | 'check_in' | 'check_out' | 'work_hours' | 'total_punches'>,
+  today: string = getToday()
+): boolean => detectRecordAnomalies(record, today).length > 0;
+
+/**
+ * Every record with an anomaly in a date range, newest first, with counts per type. Pass the
+ * records with approved corrections applied (buildRangeRecords), so a fixed record drops out.
+ */
+export const buildDataQualityReport = (
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  empCode: string | null = null,
+  today: string = getToday()
+): DataQualityReport => {
+  const anomalies: RecordAnomaly[] = records
+    .map(record => ({ record, types: detectRecordAnomalies(record, today) }))
+    .filter(({ types }) => types.length > 0)
+    .map(({ record, types }) => ({
+      emp_code: record.emp_code,
+      name: record.name,
+      department: getEmployeeDepartment(record.emp_code, context),
+      date: record.date,
+      check_in: record.check_in,
+      check_out: record.check_out,
+      work_hours: record.work_hours,
+      total_punches: record.total_punches,
+      types
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.emp_code.localeCompare(b.emp_code, undefined, { numeric: true }));
+
+  const counts = (Object.keys(DATA_QUALITY_CONFIG.anomalyTypes) as RecordAnomalyType[]).reduce((totals, type) => {
+    totals[type] = anomalies.filter(anomaly => anomaly.types.includes(type)).length;
+    return totals;
+  }, {} as Record<RecordAnomalyType, number>);
+
+  return {
+    startDate,
+    endDate,
+    empCode,
+    recordsChecked: records.filter(record => record.check_in).length,
+    anomalies,
+    counts
+  };
+};
@@ -0,0 +1,285 @@
+// lib/departments.ts
+// 🏢 Departments and the org chart - the department / team filter, department groups and attendance roll-ups
+
+import type {
+  AttendanceRollup,
+  DepartmentDayStats,
+  DepartmentGroup,
+  DepartmentReport,
+  DepartmentStats,
+  Employee,
+  EmployeeRecord,
+  ManagerRollup,
+  OrgFilter,
+  ScheduleContext
+} from './types';
+import { filterByEmployee } from './access';
+import { getReportCodes } from './employeeDirectory';
+import { classifyRecordForShift } from './shifts';
+import { buildDailyRecords } from './attendanceReports';
+import { getRecordDayKind } from './attendanceCalendar';
+import { countsAsOnTime, isLateCategory } from './classification';
+import { isFlaggedRecord } from './dataQuality';
+import { getDatesBetween } from './holidays';
+import { DEPARTMENT_CONFIG } from '../constants/config';
+
+type RollupCounts = Omit<AttendanceRollup, 'employees' | 'expectedDays' | 'attendanceRate' | 'onTimeRate'>;
+
+export const EMPTY_ORG_FILTER: OrgFilter = { department: '', managerCode: '' };
+
+const getCode = (value: string | null | undefined): string => String(value ?? '').trim();
+
+/**
+ * Whether a filter narrows anything
+ */
+export const isOrgFilterActive = (filter: OrgFilter | null | undefined): filter is OrgFilter =>
+  !!filter && (!!filter.department || !!filter.managerCode);
+
+/**
+ * Read the department / team filter from report query parameters (department, manager)
+ */
+export const readOrgFilter = (searchParams: URLSearchParams): OrgFilter => ({
+  department: (searchParams.get('department') || '').trim(),
+  managerCode: (searchParams.get('manager') || '').trim()
+});
+
+/**
+ * Department of each employee code, with DEPARTMENT_CONFIG.unassignedLabel for those without one
+ */
+const getDepartmentMap = (employees: Employee[]): Map<string, string> =>
+  new Map(employees.map(emp => [getCode(emp.emp_code), emp.department?.trim() || DEPARTMENT_CONFIG.unassignedLabel]));
+
+/**
+ * Department names in display order - alphabetical, employees without a department last
+ */
+export const compareDepartments = (a: string, b: string): number =>
+  Number(a === DEPARTMENT_CONFIG.unassignedLabel) - Number(b === DEPARTMENT_CONFIG.unassignedLabel) || a.localeCompare(b);
+
+/**
+ * Employees with at least one direct report, for the team picker
+ */
+export const getManagers = (employees: Employee[]): Employee[] => {
+  const managerCodes = new Set(employees.map(emp => getCode(emp.manager_code)).filter(Boolean));
+  return employees.filter(emp => managerCodes.has(getCode(emp.emp_code)));
+};
+
+/**
+ * Codes of the employees a filter keeps, or null when it keeps everyone. A team is the
+ * manager and everyone reporting up to them; with a department as well, only the team
+ * members in that department are kept.
+ */
+export const getOrgFilterCodes = (filter: OrgFilter | null | undefined, employees: Employee[]): Set<string> | null => {
+  if (!isOrgFilterActive(filter)) return null;
+
+  const departments = getDepartmentMap(employees);
+  const team = filter.managerCode
+    ? new Set([getCode(filter.managerCode), ...Array.from(getReportCodes(filter.managerCode, employees))])
+    : null;
+
+  return new Set(
+    Array.from(departments.keys()).filter(empCode =>
+      (!filter.department || departments.get(empCode) === filter.department) && (!team || team.has(empCode))
+    )
+  );
+};
+
+/**
+ * Keep only the rows of employees the filter keeps
+ */
+export const filterByOrg = <T extends { emp_code?: string | null }>(
+  rows: T[],
+  filter: OrgFilter | null | undefined,
+  employees: Employee[]
+): T[] => filterByEmployee(rows, getOrgFilterCodes(filter, employees));
+
+/**
+ * Narrow records and the schedule context to a filter before building a report, so
+ * totals, absences and leave only cover the employees it keeps. Shift assignments stay
+ * whole - department-wide assignments have no employee code.
+ */
+export const scopeToOrg = (
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  filter: OrgFilter | null | undefined
+): { records: EmployeeRecord[]; context: ScheduleContext } => {
+  const codes = getOrgFilterCodes(filter, context.employees);
+  if (!codes) return { records, context };
+
+  return {
+    records: filterByEmployee(records, codes),
+    context: {
+      ...context,
+      employees: filterByEmployee(context.employees, codes),
+      leave: filterByEmployee(context.leave, codes),
+      corrections: filterByEmployee(context.corrections, codes)
+    }
+  };
+};
+
+/**
+ * Split rows into their employees' departments, in display order
+ */
+export const groupByDepartment = <T extends { emp_code: string }>(rows: T[], employees: Employee[]): DepartmentGroup<T>[] => {
+  const departments = getDepartmentMap(employees);
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const department = departments.get(getCode(row.emp_code)) || DEPARTMENT_CONFIG.unassignedLabel;
+    groups.set(department, [...(groups.get(department) || []), row]);
+  });
+
+  return Array.from(groups.keys())
+    .sort(compareDepartments)
+    .map(department => ({ department, rows: groups.get(department)! }));
+};
+
+const emptyCounts = (): RollupCounts => ({
+  presentDays: 0,
+  absentDays: 0,
+  leaveDays: 0,
+  syncedDays: 0,
+  onTimeDays: 0,
+  lateDays: 0,
+  totalHours: 0
+});
+
+const addCounts = (target: RollupCounts, source: RollupCounts): RollupCounts => {
+  (Object.keys(target) as Array<keyof RollupCounts>).forEach(key => {
+    target[key] += source[key];
+  });
+  return target;
+};
+
+/**
+ * Rates as the Employee Details stats work them out: leave is excused, and the on-time
+ * rate is on-time and early check-ins over synced records
+ */
+const toRollup = (counts: RollupCounts, employees: number): AttendanceRollup => {
+  const expectedDays = counts.presentDays + counts.absentDays;
+  return {
+    employees,
+    ...counts,
+    expectedDays,
+    totalHours: Math.round(counts.totalHours * 10) / 10,
+    attendanceRate: expectedDays > 0 ? Math.round((counts.presentDays / expectedDays) * 100) : 0,
+    onTimeRate: counts.syncedDays > 0 ? Math.round((counts.onTimeDays / counts.syncedDays) * 100) : 0
+  };
+};
+
+/**
+ * Attendance by department, by day and department, and rolled up the org chart for a date range.
+ *
+ * Every day is built like the Employee Details view - approved corrections applied, absences
+ * and leave filled in from the roster - and each record counts towards its employee's
+ * department. A manager's roll-up covers them and everyone reporting up to them, whatever
+ * their department. Flagged records keep their day but not their hours.
+ */
+export const buildDepartmentReport = (
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  filter: OrgFilter = EMPTY_ORG_FILTER
+): DepartmentReport => {
+  const scoped = scopeToOrg(records, context, filter);
+  const departments = getDepartmentMap(context.employees);
+  const getDepartment = (empCode: string) => departments.get(empCode) || DEPARTMENT_CONFIG.unassignedLabel;
+
+  const recordsByDate = new Map<string, EmployeeRecord[]>();
+  scoped.records.forEach(record => {
+    recordsByDate.set(record.date, [...(recordsByDate.get(record.date) || []), record]);
+  });
+
+  const byEmployee = new Map<string, RollupCounts>();
+  const byDay = new Map<string, { date: string; department: string; codes: Set<string>; counts: RollupCounts }>();
+
+  getDatesBetween(startDate, endDate).forEach(date => {
+    buildDailyRecords(date, recordsByDate.get(date) || [], scoped.context).forEach(record => {
+      const empCode = getCode(record.emp_code);
+      if (!empCode) return;
+
+      const counts = emptyCounts();
+      const kind = getRecordDayKind(record);
+      if (kind === 'leave') counts.leaveDays++;
+      else if (kind === 'absent') counts.absentDays++;
+      else counts.presentDays++;
+
+      if (!record.synthesized) {
+        counts.syncedDays++;
+        const category = classifyRecordForShift(record, scoped.context);
+        if (countsAsOnTime(category)) counts.onTimeDays++;
+        else if (isLateCategory(category)) counts.lateDays++;
+        if (kind === 'present' && !isFlaggedRecord(record)) counts.totalHours += record.work_hours || 0;
+      }
+
+      byEmployee.set(empCode, addCounts(byEmployee.get(empCode) || emptyCounts(), counts));
+
+      const department = getDepartment(empCode);
+      const dayKey = `${date}|${department}`;
+      if (!byDay.has(dayKey)) byDay.set(dayKey, { date, department, codes: new Set(), counts: emptyCounts() });
+      const day = byDay.get(dayKey)!;
+      day.codes.add(empCode);
+      addCounts(day.counts, counts);
+    });
+  });
+
+  const rollUp = (codes: string[]): AttendanceRollup => {
+    const counted = codes.filter(empCode => byEmployee.has(empCode));
+    return toRollup(counted.reduce((total, empCode) => addCounts(total, byEmployee.get(empCode)!), emptyCounts()), counted.length);
+  };
+
+  const departmentNames = Array.from(new Set(Array.from(byEmployee.keys()).map(getDepartment))).sort(compareDepartments);
+  const departmentStats: DepartmentStats[] = departmentNames.map(department => ({
+    department,
+    ...rollUp(Array.from(byEmployee.keys()).filter(empCode => getDepartment(empCode) === department))
+  }));
+
+  const days: DepartmentDayStats[] = Array.from(byDay.values())
+    .sort((a, b) => b.date.localeCompare(a.date) || compareDepartments(a.department, b.department))
+    .map(day => ({ date: day.date, department: day.department, ...toRollup(day.counts, day.codes.size) }));
+
+  // The org chart comes from the whole directory, so a team can reach across departments
+  const managers = getManagers(context.employees);
+  const managerCodes = new Set(managers.map(emp => getCode(emp.emp_code)));
+  const managerRollups: ManagerRollup[] = [];
+  const visited = new Set<string>();
+
+  const addManager = (manager: Employee, depth: number) => {
+    const empCode = getCode(manager.emp_code);
+    if (visited.has(empCode)) return;
+    visited.add(empCode);
+
+    const team = [empCode, ...Array.from(getReportCodes(empCode, context.employees))];
+    const rollup = rollUp(team);
+    if (rollup.employees > 0) {
+      managerRollups.push({
+        emp_code: empCode,
+        name: manager.name,
+        department: manager.department || null,
+        depth,
+        directReports: context.employees.filter(emp => getCode(emp.manager_code) === empCode).length,
+        teamSize: team.length,
+        ...rollup
+      });
+    }
+
+    managers
+      .filter(emp => getCode(emp.manager_code) === empCode)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(emp => addManager(emp, depth + 1));
+  };
+
+  managers
+    .filter(emp => !managerCodes.has(getCode(emp.manager_code)))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(emp => addManager(emp, 0));
+
+  return {
+    startDate,
+    endDate,
+    filter,
+    total: rollUp(Array.from(byEmployee.keys())),
+    departments: departmentStats,
+    days,
+    managers: managerRollups
+  };
+};
@@ -0,0 +1,283 @@
+// lib/deviceImport.ts
+// 📥 Device log import - parsing terminal attendance exports and turning their punches into daily records
+
+import type {
+  AttendancePunch,
+  DeviceImportDay,
+  DeviceLogFormat,
+  DeviceLogLine,
+  DeviceLogParseResult,
+  Employee,
+  EmployeeRecord
+} from './types';
+import { buildPunchTimeline, getPunchClockTime, getPunchDate, getPunchKey, parsePunchDirection } from './punches';
+import { getHoursBetween } from './corrections';
+import { validateDate, validateEmployeeCode } from './validation';
+import { UPLOAD_CONFIG, VALIDATION_RULES } from '../constants/config';
+
+// Header names used by the terminal software and common spreadsheet exports, lowercased
+const COLUMN_ALIASES: Record<string, string[]> = {
+  emp_code: ['emp_code', 'employee code', 'user id', 'userid', 'user_id', 'pin', 'ac-no', 'ac-no.', 'enroll number', 'enrollnumber', 'id', 'no', 'no.'],
+  name: ['name', 'employee', 'employee name'],
+  datetime: ['punch_time', 'datetime', 'date/time', 'date time', 'check time', 'checktime', 'timestamp'],
+  date: ['date'],
+  time: ['time'],
+  direction: ['direction', 'state', 'status', 'in/out', 'type', 'check type', 'punch state'],
+  device: ['device', 'device_id', 'terminal', 'machine', 'sn', 'device sn']
+};
+
+// attlog.dat columns: user id, date and time, verify mode, state, work code
+const ATTLOG_COLUMNS: Record<string, number> = { emp_code: 0, datetime: 1, direction: 3 };
+
+/**
+ * Check an uploaded file against UPLOAD_CONFIG - size, and a log extension or text MIME type
+ */
+export const checkDeviceLogFile = (file: Pick<File, 'name' | 'size' | 'type'>): string | null => {
+  if (file.size > UPLOAD_CONFIG.maxFileSize) {
+    return `${file.name} is larger than ${Math.round(UPLOAD_CONFIG.maxFileSize / 1024 / 1024)}MB`;
+  }
+  const lower = file.name.toLowerCase();
+  const knownExtension = UPLOAD_CONFIG.deviceLogExtensions.some(extension => lower.endsWith(extension));
+  const allowedType = !file.type || (UPLOAD_CONFIG.allowedTypes as readonly string[]).includes(file.type);
+  if (!knownExtension || !allowedType) {
+    return `Unsupported file type: ${file.name} (use ${UPLOAD_CONFIG.deviceLogExtensions.join(', ')})`;
+  }
+  return null;
+};
+
+const detectDelimiter = (line: string): string => {
+  if (line.includes('\t')) return '\t';
+  return (line.match(/;/g) || []).length > (line.match(/,/g) || []).length ? ';' : ',';
+};
+
+// Split one line, honouring double quotes around fields
+const splitLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// attlog rows re-saved with spaces instead of tabs: the date and time words form one field
+const splitWords = (line: string): string[] => {
+  const [empCode = '', date = '', time = '', ...rest] = line.trim().split(/\s+/);
+  return [empCode, `${date} ${time}`.trim(), ...rest];
+};
+
+// Map header cells to columns; null when the line is data rather than a header
+const readHeader = (fields: string[]): Record<string, number> | null => {
+  const columns: Record<string, number> = {};
+  fields.forEach((field, index) => {
+    const name = field.toLowerCase();
+    const column = Object.keys(COLUMN_ALIASES).find(key => COLUMN_ALIASES[key].includes(name));
+    if (column && columns[column] === undefined) columns[column] = index;
+  });
+  const hasTime = columns.datetime !== undefined || (columns.date !== undefined && columns.time !== undefined);
+  return columns.emp_code !== undefined && hasTime ? columns : null;
+};
+
+/**
+ * Read "2025-06-11 10:17:22", "2025/06/11 10:17" or "2025-06-11T10:17:22" as a date and a time
+ */
+const splitDateTime = (value: string): { date: string; time: string } | null => {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T]+(\d{1,2}:\d{2}(?::\d{2})?)$/);
+  if (!match) return null;
+  return { date: `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`, time: match[4] };
+};
+
+const padTime = (time: string): string => {
+  const [hours, minutes, seconds = '00'] = time.split(':');
+  return `${hours.padStart(2, '0')}:${minutes}:${seconds}`;
+};
+
+const parseLine = (
+  fields: string[],
+  columns: Record<string, number>,
+  deviceId: string
+): { punch: AttendancePunch | null; name: string | null; error: string | null } => {
+  const field = (column: string): string => (columns[column] !== undefined ? fields[columns[column]] || '' : '');
+  const empCode = field('emp_code');
+  const name = field('name') || null;
+
+  const codeProblem = validateEmployeeCode(empCode);
+  if (codeProblem) return { punch: null, name, error: codeProblem };
+
+  const dateTime = columns.datetime !== undefined
+    ? splitDateTime(field('datetime'))
+    : splitDateTime(`${field('date')} ${field('time')}`);
+  if (!dateTime) {
+    const value = columns.datetime !== undefined ? field('datetime') : `${field('date')} ${field('time')}`.trim();
+    return { punch: null, name, error: `Unrecognised date/time "${value}" (use YYYY-MM-DD HH:MM:SS)` };
+  }
+
+  const dateProblem = validateDate(dateTime.date);
+  if (dateProblem) return { punch: null, name, error: dateProblem };
+  if (!VALIDATION_RULES.attendance.timeFormat.test(dateTime.time)) {
+    return { punch: null, name, error: `Invalid time: ${dateTime.time}` };
+  }
+
+  return {
+    punch: {
+      emp_code: empCode,
+      punch_time: `${dateTime.date}T${padTime(dateTime.time)}`,
+      device_id: field('device') || deviceId,
+      direction: parsePunchDirection(field('direction'))
+    },
+    name,
+    error: null
+  };
+};
+
+/**
+ * Parse a terminal log export. A first line naming an employee code and a time column is read as
+ * a CSV header (comma, semicolon or tab separated); otherwise lines are read as attlog.dat rows:
+ * user id, date and time, verify mode, state. Every data line is returned with either its punch
+ * or the reason it was rejected.
+ */
+export const parseDeviceLog = (content: string, deviceId: string = ''): DeviceLogParseResult => {
+  const rows = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')
+    .map((raw, index) => ({ raw, line: index + 1 }))
+    .filter(row => row.raw.trim() !== '');
+
+  if (rows.length === 0) return { format: 'attlog', lines: [], errors: ['The file is empty'] };
+
+  const delimiter = detectDelimiter(rows[0].raw);
+  const header = readHeader(splitLine(rows[0].raw, delimiter));
+  const format: DeviceLogFormat = header ? 'csv' : 'attlog';
+  const columns = header || ATTLOG_COLUMNS;
+
+  const lines: DeviceLogLine[] = (header ? rows.slice(1) : rows).map(row => ({
+    line: row.line,
+    raw: row.raw,
+    ...parseLine(
+      !header && !row.raw.includes(delimiter) ? splitWords(row.raw) : splitLine(row.raw.trim(), delimiter),
+      columns,
+      deviceId.trim()
+    )
+  }));
+
+  const errors = lines.length === 0 ? ['No punches found after the header line'] : [];
+  return { format, lines, errors };
+};
+
+/**
+ * Punches from the valid lines, each once, with the names the file gives per employee code
+ */
+export const getParsedPunches = (result: DeviceLogParseResult): { punches: AttendancePunch[]; names: Record<string, string> } => {
+  const punches = new Map<string, AttendancePunch>();
+  const names: Record<string, string> = {};
+  result.lines.forEach(line => {
+    if (!line.punch) return;
+    punches.set(getPunchKey(line.punch), line.punch);
+    if (line.name && !names[line.punch.emp_code]) names[line.punch.emp_code] = line.name;
+  });
+  return { punches: Array.from(punches.values()), names };
+};
+
+/**
+ * Split punches into batches of whole days, each no larger than maxSize where a day allows it
+ */
+export const batchPunchesByDay = (
+  punches: AttendancePunch[],
+  maxSize: number = VALIDATION_RULES.api.maxPunchesPerImport
+): AttendancePunch[][] => {
+  const byDate = new Map<string, AttendancePunch[]>();
+  punches.forEach(punch => {
+    const date = getPunchDate(punch);
+    byDate.set(date, [...(byDate.get(date) || []), punch]);
+  });
+
+  const batches: AttendancePunch[][] = [];
+  Array.from(byDate.keys()).sort().forEach(date => {
+    const day = byDate.get(date)!;
+    const current = batches[batches.length - 1];
+    if (current && current.length + day.length <= maxSize) {
+      current.push(...day);
+    } else {
+      batches.push([...day]);
+    }
+  });
+  return batches;
+};
+
+/**
+ * Decide what each employee-day in the punches becomes. Days that already have a record (synced
+ * or imported before) are skipped, as are codes that are neither on the roster nor named in the
+ * file; the rest become records from the first and last punch, like the sync service writes them.
+ */
+export const planDeviceImport = (
+  punches: AttendancePunch[],
+  existing: Array<Pick<EmployeeRecord, 'emp_code' | 'date'>>,
+  employees: Employee[],
+  names: Record<string, string> = {}
+): DeviceImportDay[] => {
+  const existingKeys = new Set(existing.map(record => `${String(record.emp_code).trim()}|${record.date}`));
+  const rosterNames = new Map(employees.map(emp => [String(emp.emp_code).trim(), emp.name]));
+
+  const days = new Map<string, { empCode: string; date: string }>();
+  punches.forEach(punch => {
+    const empCode = String(punch.emp_code).trim();
+    const date = getPunchDate(punch);
+    days.set(`${empCode}|${date}`, { empCode, date });
+  });
+
+  return Array.from(days.entries())
+    .map(([key, { empCode, date }]) => {
+      const timeline = buildPunchTimeline(empCode, date, punches);
+      const first = timeline.punches[0];
+      const last = timeline.punches[timeline.punches.length - 1];
+      const checkIn = getPunchClockTime(first);
+      const checkOut = timeline.punches.length > 1 ? getPunchClockTime(last) : null;
+      const name = rosterNames.get(empCode) || names[empCode] || '';
+
+      const reason = existingKeys.has(key)
+        ? 'Already has a record for this day'
+        : !name
+          ? 'Unknown employee code - not on the roster and no name in the file'
+          : null;
+
+      return {
+        emp_code: empCode,
+        name: name || empCode,
+        date,
+        check_in: checkIn,
+        check_out: checkOut,
+        work_hours: checkOut ? getHoursBetween(checkIn, checkOut) ?? null : null,
+        total_punches: timeline.punches.length,
+        action: reason ? 'skip' as const : 'insert' as const,
+        reason
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.emp_code.localeCompare(b.emp_code, undefined, { numeric: true }));
+};
+
+/**
+ * The daily_employee_records row for an imported day
+ */
+export const toImportedRecord = (day: DeviceImportDay): EmployeeRecord => ({
+  date: day.date,
+  emp_code: day.emp_code,
+  name: day.name,
+  check_in: day.check_in,
+  check_out: day.check_out || undefined,
+  work_hours: day.work_hours ?? undefined,
+  total_punches: day.total_punches,
+  status: 'Present'
+});
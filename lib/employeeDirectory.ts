@@ -0,0 +1,153 @@
+// lib/employeeDirectory.ts
+// 🗂️ Employee directory - validating master records and reconciling them with codes seen in attendance records
+
+import type {
+  Employee,
+  EmployeeDirectoryReconciliation,
+  EmployeeIndexEntry,
+  EmployeeNameMismatch,
+  UnknownEmployeeCode
+} from './types';
+import { validateDate, validateEmployeeCode } from './validation';
+import { unique } from './utils';
+import { VALIDATION_RULES } from '../constants/config';
+
+const getCode = (value: string | null | undefined): string => String(value ?? '').trim();
+
+/**
+ * Tidy a directory entry before saving: trimmed text, and optional fields empty rather than blank
+ */
+export const normalizeEmployee = (employee: Employee): Employee => ({
+  ...employee,
+  emp_code: getCode(employee.emp_code),
+  name: employee.name.trim(),
+  department: employee.department?.trim() || undefined,
+  position: employee.position?.trim() || undefined,
+  hire_date: employee.hire_date || undefined,
+  manager_code: getCode(employee.manager_code) || null
+});
+
+/**
+ * Validate a directory entry before saving. Returns a list of problems (empty when valid).
+ * The manager of an active employee must be another active employee, without making a
+ * reporting loop; a deactivated employee keeps whoever they last reported to.
+ */
+export const validateEmployee = (employee: Employee, directory: Employee[], isNew: boolean): string[] => {
+  const errors: string[] = [];
+  const { nameMinLength, nameMaxLength } = VALIDATION_RULES.employee;
+  const empCode = getCode(employee.emp_code);
+  const name = String(employee.name || '').trim();
+
+  const codeProblem = validateEmployeeCode(empCode);
+  if (codeProblem) errors.push(codeProblem);
+  if (isNew && directory.some(other => getCode(other.emp_code) === empCode)) {
+    errors.push(`Employee code ${empCode} is already in the directory.`);
+  }
+  if (name.length < nameMinLength || name.length > nameMaxLength) {
+    errors.push(`Name must be ${nameMinLength}-${nameMaxLength} characters.`);
+  }
+  if (employee.hire_date) {
+    const dateProblem = validateDate(employee.hire_date, 'Hire date');
+    if (dateProblem) errors.push(dateProblem);
+  }
+
+  const managerCode = getCode(employee.manager_code);
+  if (managerCode && employee.is_active) {
+    const byCode = new Map(directory.map(other => [getCode(other.emp_code), other]));
+    const manager = byCode.get(managerCode);
+    if (managerCode === empCode) {
+      errors.push('An employee cannot report to themselves.');
+    } else if (!manager || !manager.is_active) {
+      errors.push(`Manager ${managerCode} is not an active employee.`);
+    } else {
+      // Walk up from the chosen manager; reaching this employee again would be a loop
+      const seen = new Set<string>();
+      let current: Employee | undefined = manager;
+      while (current && !seen.has(getCode(current.emp_code))) {
+        if (getCode(current.manager_code) === empCode) {
+          errors.push(`${manager.name} already reports to ${name || empCode}, directly or indirectly.`);
+          break;
+        }
+        seen.add(getCode(current.emp_code));
+        current = byCode.get(getCode(current.manager_code));
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Everyone reporting up to a manager, directly or through other managers (not the manager)
+ */
+export const getReportCodes = (managerCode: string, employees: Employee[]): Set<string> => {
+  const top = getCode(managerCode);
+  const reports = new Set<string>();
+  let managers = new Set([top]);
+  // One level of the org chart per pass; codes already seen are skipped so a loop cannot hang
+  while (managers.size > 0) {
+    const next = employees
+      .filter(emp => managers.has(getCode(emp.manager_code)))
+      .map(emp => getCode(emp.emp_code))
+      .filter(empCode => empCode !== top && !reports.has(empCode));
+    next.forEach(empCode => reports.add(empCode));
+    managers = new Set(next);
+  }
+  return reports;
+};
+
+/**
+ * Departments used in the directory, for pickers
+ */
+export const getDepartments = (employees: Employee[]): string[] =>
+  unique(employees.map(emp => emp.department?.trim()).filter((dept): dept is string => !!dept)).sort();
+
+/**
+ * Check the directory against the record index (newest first, as getEmployeeIndex returns it):
+ * codes that punch without a directory entry, names that differ from the latest record, and
+ * active employees with no records at all.
+ */
+export const reconcileEmployeeDirectory = (
+  directory: Employee[],
+  index: EmployeeIndexEntry[]
+): EmployeeDirectoryReconciliation => {
+  const seen = new Map<string, UnknownEmployeeCode>();
+  index.forEach(entry => {
+    const empCode = getCode(entry.emp_code);
+    if (!empCode) return;
+    const current = seen.get(empCode);
+    if (!current) {
+      seen.set(empCode, {
+        emp_code: empCode,
+        name: String(entry.name || '').trim(),
+        firstSeen: entry.date,
+        lastSeen: entry.date,
+        records: 1
+      });
+      return;
+    }
+    current.records++;
+    if (entry.date < current.firstSeen) current.firstSeen = entry.date;
+    if (entry.date > current.lastSeen) {
+      current.lastSeen = entry.date;
+      current.name = String(entry.name || '').trim() || current.name;
+    }
+  });
+
+  const byCode = new Map(directory.map(emp => [getCode(emp.emp_code), emp]));
+
+  const unknownCodes = Array.from(seen.values())
+    .filter(code => !byCode.has(code.emp_code))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen) || a.emp_code.localeCompare(b.emp_code, undefined, { numeric: true }));
+
+  const nameMismatches: EmployeeNameMismatch[] = Array.from(seen.values())
+    .filter(code => {
+      const employee = byCode.get(code.emp_code);
+      return employee && code.name && employee.name.trim().toLowerCase() !== code.name.toLowerCase();
+    })
+    .map(code => ({ emp_code: code.emp_code, name: byCode.get(code.emp_code)!.name, recordName: code.name }));
+
+  const withoutRecords = directory.filter(emp => emp.is_active && !seen.has(getCode(emp.emp_code)));
+
+  return { unknownCodes, nameMismatches, withoutRecords };
+};
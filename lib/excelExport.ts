@@ -0,0 +1,363 @@
+// lib/excelExport.ts
+// 📗 Excel export - turns each export type into workbook sheets with typed, colour-coded cells
+
+import type {
+  DailySummary,
+  WeeklySummary,
+  EmployeeRecord,
+  WeeklyEmployeeData,
+  ExportConfig,
+  ExportType,
+  LatenessEntry,
+  MonthlyOverviewRow,
+  TeamMatrixRow,
+  PayrollField,
+  PayrollRow,
+  SpreadsheetCell,
+  SpreadsheetColumnType,
+  SpreadsheetColumn,
+  SpreadsheetSheet
+} from './types';
+import { getEffectiveTimeCategory, countsAsOnTime, isLateCategory } from './classification';
+import { getRecordDayKind } from './attendanceCalendar';
+import { getLeaveType } from './leave';
+import { calculateAttendanceRate, describeExportCorrection, downloadFile } from './utils';
+import { getPayrollValue } from './payroll';
+import { getTeamMatrixCellColor, getTeamMatrixCellText, getTeamMatrixDayTotals } from './teamMatrix';
+import { createWorkbook } from './xlsx';
+import { TIME_CATEGORIES, ATTENDANCE_STATUS, EXCEL_EXPORT_CONFIG, PAYROLL_EXPORT_CONFIG } from '../constants/config';
+
+const RECORD_COLUMNS: SpreadsheetColumn[] = [
+  { header: 'Date', type: 'date', width: 12 },
+  { header: 'Employee Code', type: 'string', width: 14 },
+  { header: 'Name', type: 'string', width: 24 },
+  { header: 'Check In', type: 'time', width: 10 },
+  { header: 'Check Out', type: 'time', width: 10 },
+  { header: 'Work Hours', type: 'hours', width: 11 },
+  { header: 'Total Punches', type: 'number', width: 13 },
+  { header: 'Status', type: 'string', width: 12 },
+  { header: 'Time Category', type: 'string', width: 18 },
+  { header: 'Leave Type', type: 'string', width: 16 },
+  { header: 'Correction', type: 'string', width: 40 }
+];
+
+const roundHours = (hours: number): number => Math.round(hours * 10) / 10;
+
+const statusCell = (status: string | null | undefined): SpreadsheetCell => ({
+  value: status || '',
+  fill: status ? ATTENDANCE_STATUS[status]?.color : null
+});
+
+const categoryCell = (category: string): SpreadsheetCell => ({
+  value: category,
+  fill: TIME_CATEGORIES[category]?.color
+});
+
+const recordRow = (row: EmployeeRecord) => [
+  row.date,
+  row.emp_code,
+  row.name,
+  row.check_in || '',
+  row.check_out || '',
+  row.work_hours || null,
+  row.total_punches || null,
+  statusCell(row.status),
+  categoryCell(getEffectiveTimeCategory(row)),
+  row.leave_type ? getLeaveType(row.leave_type).name : '',
+  describeExportCorrection(row)
+];
+
+const sortRecords = (records: EmployeeRecord[]): EmployeeRecord[] =>
+  [...records].sort((a, b) => a.date.localeCompare(b.date) || String(a.emp_code).localeCompare(String(b.emp_code)));
+
+const buildDailySheets = (data: DailySummary[]): SpreadsheetSheet[] => [{
+  name: 'Daily Summaries',
+  columns: [
+    { header: 'Date', type: 'date', width: 12 },
+    { header: 'Total Employees', type: 'number', width: 15 },
+    { header: 'Early Count', type: 'number', width: 12 },
+    { header: 'On-time Count', type: 'number', width: 13 },
+    { header: 'Acceptable Count', type: 'number', width: 16 },
+    { header: 'Late Count', type: 'number', width: 11 },
+    { header: 'On-time Rate', type: 'percent', width: 13 },
+    { header: 'Earliest Check-in', type: 'time', width: 16 },
+    { header: 'Latest Check-in', type: 'time', width: 15 }
+  ],
+  rows: data.map(row => [
+    row.date,
+    row.total_employees_present,
+    row.early_count,
+    row.ontime_count,
+    row.acceptable_count,
+    row.late_count,
+    row.ontime_rate,
+    row.earliest_checkin || '',
+    row.latest_checkin || ''
+  ])
+}];
+
+const buildWeeklySheets = (data: WeeklySummary[]): SpreadsheetSheet[] => [{
+  name: 'Weekly Summaries',
+  columns: [
+    { header: 'Week Start', type: 'date', width: 12 },
+    { header: 'Week End', type: 'date', width: 12 },
+    { header: 'Total Employees', type: 'number', width: 15 },
+    { header: 'Perfect Attendance Count', type: 'number', width: 24 },
+    { header: 'Perfect Attendance Rate', type: 'percent', width: 23 }
+  ],
+  rows: data.map(row => [
+    row.week_start,
+    row.week_end,
+    row.total_employees,
+    row.perfect_attendance_count,
+    row.perfect_attendance_rate
+  ])
+}];
+
+// Weekly details: one summary row per employee, then every day of the week on its own sheet
+const buildWeeklyDetailSheets = (data: WeeklyEmployeeData[]): SpreadsheetSheet[] => [
+  {
+    name: 'Summary',
+    columns: [
+      { header: 'Employee Code', type: 'string', width: 14 },
+      { header: 'Name', type: 'string', width: 24 },
+      { header: 'Total Days', type: 'number', width: 11 },
+      { header: 'Present Days', type: 'number', width: 13 },
+      { header: 'Leave Days', type: 'number', width: 11 },
+      { header: 'Total Hours', type: 'hours', width: 12 },
+      { header: 'On-time Days', type: 'number', width: 13 },
+      { header: 'Late Days', type: 'number', width: 10 },
+      { header: 'Attendance Rate', type: 'percent', width: 16 },
+      { header: 'Overtime Hours', type: 'hours', width: 15 },
+      { header: 'Undertime Hours', type: 'hours', width: 16 },
+      { header: 'Early Leave (min)', type: 'number', width: 17 }
+    ],
+    rows: data.map(row => [
+      row.emp_code,
+      row.name,
+      row.totalDays,
+      row.presentDays,
+      row.leaveDays,
+      roundHours(row.totalHours),
+      row.onTimeDays,
+      row.lateDays,
+      calculateAttendanceRate(row.presentDays, row.totalDays),
+      row.overtimeHours,
+      row.undertimeHours,
+      row.earlyLeaveMinutes
+    ])
+  },
+  {
+    name: 'Daily Detail',
+    columns: RECORD_COLUMNS,
+    rows: sortRecords(data.flatMap(row => row.dailyBreakdown ? Object.values(row.dailyBreakdown) : row.days)).map(recordRow)
+  }
+];
+
+// Monthly: the month at a glance for the selected employee, then one row per day
+const buildMonthlySheets = (data: EmployeeRecord[]): SpreadsheetSheet[] => {
+  const records = sortRecords(data);
+  const kinds = records.map(getRecordDayKind);
+  const categories = records.filter(record => getRecordDayKind(record) === 'present').map(record => getEffectiveTimeCategory(record));
+  const presentDays = kinds.filter(kind => kind === 'present').length;
+  const absentDays = kinds.filter(kind => kind === 'absent').length;
+  const totalHours = records.reduce((sum, record) => sum + (record.work_hours || 0), 0);
+
+  return [
+    {
+      name: 'Summary',
+      columns: [
+        { header: 'Employee Code', type: 'string', width: 14 },
+        { header: 'Name', type: 'string', width: 24 },
+        { header: 'From', type: 'date', width: 12 },
+        { header: 'To', type: 'date', width: 12 },
+        { header: 'Present Days', type: 'number', width: 13 },
+        { header: 'Absent Days', type: 'number', width: 12 },
+        { header: 'Leave Days', type: 'number', width: 11 },
+        { header: 'On-time Days', type: 'number', width: 13 },
+        { header: 'Late Days', type: 'number', width: 10 },
+        { header: 'Total Hours', type: 'hours', width: 12 },
+        { header: 'Average Hours', type: 'hours', width: 14 },
+        { header: 'Attendance Rate', type: 'percent', width: 16 }
+      ],
+      rows: records.length === 0 ? [] : [[
+        records[0].emp_code,
+        records[records.length - 1].name,
+        records[0].date,
+        records[records.length - 1].date,
+        presentDays,
+        absentDays,
+        kinds.filter(kind => kind === 'leave').length,
+        categories.filter(countsAsOnTime).length,
+        categories.filter(isLateCategory).length,
+        roundHours(totalHours),
+        presentDays > 0 ? roundHours(totalHours / presentDays) : 0,
+        // Leave is excused, so it is left out of the attendance rate
+        calculateAttendanceRate(presentDays, presentDays + absentDays)
+      ]]
+    },
+    {
+      name: 'Daily Records',
+      columns: RECORD_COLUMNS,
+      rows: records.map(recordRow)
+    }
+  ];
+};
+
+const getPayrollColumnType = (field: PayrollField): SpreadsheetColumnType => {
+  if (field === 'emp_code' || field === 'name' || field === 'department' || field === 'month') return 'string';
+  if (field === 'period_start' || field === 'period_end') return 'date';
+  // Hours keep the precision set by PAYROLL_EXPORT_CONFIG.hoursDecimals
+  return 'number';
+};
+
+// Payroll: one row per employee in the configured template columns
+const buildPayrollSheets = (data: PayrollRow[]): SpreadsheetSheet[] => [{
+  name: 'Payroll',
+  columns: PAYROLL_EXPORT_CONFIG.columns.map(column => ({
+    header: column.header,
+    type: getPayrollColumnType(column.field),
+    width: Math.max(column.field === 'name' ? 24 : 12, column.header.length + 2)
+  })),
+  rows: data.map(row => PAYROLL_EXPORT_CONFIG.columns.map(column => getPayrollValue(row, column.field)))
+}];
+
+// Lateness: worst first, with the months over budget highlighted
+const buildLatenessSheets = (data: LatenessEntry[]): SpreadsheetSheet[] => [{
+  name: 'Lateness',
+  columns: [
+    { header: 'Employee Code', type: 'string', width: 14 },
+    { header: 'Name', type: 'string', width: 24 },
+    { header: 'Department', type: 'string', width: 16 },
+    { header: 'Late Days', type: 'number', width: 11 },
+    { header: 'Late Minutes', type: 'number', width: 13 },
+    { header: 'Average Late Minutes', type: 'number', width: 21 },
+    { header: 'Worst Late Minutes', type: 'number', width: 19 },
+    { header: 'Months Over Budget', type: 'string', width: 20 }
+  ],
+  rows: data.map(row => [
+    row.emp_code,
+    row.name,
+    row.department,
+    row.lateDays,
+    row.lateMinutes,
+    row.averageLateMinutes,
+    row.maxLateMinutes,
+    { value: row.overBudgetMonths.join(' '), fill: row.overBudgetMonths.length > 0 ? 'red' : null }
+  ])
+}];
+
+// Team matrix: employees down, days across, cells coloured like the dashboard, column totals at the bottom
+const buildTeamMatrixSheets = (data: TeamMatrixRow[]): SpreadsheetSheet[] => {
+  const dates = data[0]?.cells.map(cell => cell.date) || [];
+  const dayTotals = getTeamMatrixDayTotals(data, dates);
+  const totalRow = (label: string, values: number[]) => ['', label, '', ...values, null, null, null, null, null, null];
+
+  return [{
+    name: 'Team Matrix',
+    columns: [
+      { header: 'Employee Code', type: 'string', width: 14 },
+      { header: 'Name', type: 'string', width: 24 },
+      { header: 'Department', type: 'string', width: 16 },
+      ...dates.map((date): SpreadsheetColumn => ({ header: date.slice(8), type: 'string', width: 6 })),
+      { header: 'Present Days', type: 'number', width: 12 },
+      { header: 'Late Days', type: 'number', width: 10 },
+      { header: 'Absent Days', type: 'number', width: 12 },
+      { header: 'Leave Days', type: 'number', width: 11 },
+      { header: 'Total Hours', type: 'hours', width: 11 },
+      { header: 'Attendance Rate', type: 'percent', width: 15 }
+    ],
+    rows: [
+      ...data.map(row => [
+        row.emp_code,
+        row.name,
+        row.department,
+        ...row.cells.map(cell => ({ value: getTeamMatrixCellText(cell), fill: getTeamMatrixCellColor(cell) })),
+        row.presentDays,
+        row.lateDays,
+        row.absentDays,
+        row.leaveDays,
+        row.totalHours,
+        row.attendanceRate
+      ]),
+      totalRow('Present', dayTotals.map(day => day.present)),
+      totalRow('Late', dayTotals.map(day => day.late)),
+      totalRow('Hours', dayTotals.map(day => day.totalHours))
+    ]
+  }];
+};
+
+// Monthly overview: company totals per month, with the change from the month before
+const buildMonthlyOverviewSheets = (data: MonthlyOverviewRow[]): SpreadsheetSheet[] => [{
+  name: 'Monthly Overview',
+  columns: [
+    { header: 'Month', type: 'string', width: 10 },
+    { header: 'Total Employees', type: 'number', width: 15 },
+    { header: 'Early Count', type: 'number', width: 12 },
+    { header: 'On-time Count', type: 'number', width: 13 },
+    { header: 'Acceptable Count', type: 'number', width: 16 },
+    { header: 'Late Count', type: 'number', width: 11 },
+    { header: 'Average On-time Rate', type: 'percent', width: 20 },
+    { header: 'On-time Rate Change (pts)', type: 'number', width: 24 },
+    { header: 'Late Count Change', type: 'number', width: 17 }
+  ],
+  rows: data.map(row => [
+    row.monthKey,
+    row.total_employees,
+    row.early_count,
+    row.ontime_count,
+    row.acceptable_count,
+    row.late_count,
+    row.average_ontime_rate,
+    row.deltas ? { value: row.deltas.average_ontime_rate, fill: row.deltas.average_ontime_rate < 0 ? 'red' : null } : null,
+    row.deltas ? { value: row.deltas.late_count, fill: row.deltas.late_count > 0 ? 'red' : null } : null
+  ])
+}];
+
+/**
+ * Build the workbook sheets for an export type
+ */
+export const buildExportSheets = (type: ExportType, data: any[]): SpreadsheetSheet[] => {
+  switch (type) {
+    case 'daily':
+      return buildDailySheets(data);
+    case 'weekly':
+      return buildWeeklySheets(data);
+    case 'weeklyDetails':
+      return buildWeeklyDetailSheets(data);
+    case 'monthly':
+      return buildMonthlySheets(data);
+    case 'teamMatrix':
+      return buildTeamMatrixSheets(data);
+    case 'monthlyOverview':
+      return buildMonthlyOverviewSheets(data);
+    case 'payroll':
+      return buildPayrollSheets(data);
+    case 'lateness':
+      return buildLatenessSheets(data);
+    case 'employee':
+      return [{ name: 'Employee Records', columns: RECORD_COLUMNS, rows: sortRecords(data).map(recordRow) }];
+    default:
+      throw new Error(`Unknown export type: ${type}`);
+  }
+};
+
+/**
+ * Export data to an Excel (.xlsx) workbook
+ */
+export const exportToExcel = (config: ExportConfig): void => {
+  const { data, filename, type } = config;
+
+  if (!data || data.length === 0) {
+    alert('No data to export');
+    return;
+  }
+
+  try {
+    const workbook = createWorkbook(buildExportSheets(type, data));
+    downloadFile(workbook, filename, EXCEL_EXPORT_CONFIG.mimeType);
+  } catch (error: any) {
+    console.error('Export error:', error);
+    alert(`Failed to export data: ${error.message}`);
+  }
+};
@@ -2,6 +2,7 @@
 // 📅 Date, time, and data formatting utilities
 
 import type { TimeCategory, AttendanceStatus } from './types';
+import { getToday } from './holidays';
 
 /**
  * Format time string to user-friendly format
@@ -38,6 +39,30 @@ export const formatTime = (timeString: string | null | undefined): string => {
   }
 };
 
+/**
+ * Convert a time string to minutes since midnight
+ * Accepts HH:MM, HH:MM:SS and ISO datetime strings (read as UTC, like formatTime)
+ */
+export const timeToMinutes = (timeString: string | null | undefined): number | null => {
+  if (!timeString) return null;
+
+  if (timeString.includes('T')) {
+    const date = new Date(timeString);
+    if (isNaN(date.getTime())) return null;
+    return date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  }
+
+  const match = timeString.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = match[3] ? parseInt(match[3], 10) : 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return hours * 60 + minutes + seconds / 60;
+};
+
 /**
  * Format date string to user-friendly format
  */
@@ -54,6 +79,15 @@ export const formatDate = (dateString: string): string => {
   }
 };
 
+/**
+ * Format a YYYY-MM-DD date as "Jun 27" for chart axes
+ */
+export const formatShortDate = (dateString: string): string => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
 /**
  * Format date string to long format (e.g., "January 15, 2025")
  */
@@ -117,10 +151,10 @@ export const formatEmployeeDisplay = (name: string, empCode: string): string =>
 };
 
 /**
- * Get current month in YYYY-MM format
+ * Get current month in YYYY-MM format, in the dashboard timezone like getToday
  */
 export const getCurrentMonth = (): string => {
-  return new Date().toISOString().slice(0, 7);
+  return getToday().slice(0, 7);
 };
 
 /**
@@ -143,28 +177,6 @@ export const getMonthDateRange = (monthString: string): { startDate: string; end
   return { startDate, endDate };
 };
 
-/**
- * Get week days between two dates (Monday-Friday only)
- */
-export const getWeekDays = (weekStart: string, weekEnd: string) => {
-  const start = new Date(weekStart);
-  const end = new Date(weekEnd);
-  const days = [];
-  
-  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-    // Only include weekdays (Monday-Friday)
-    if (d.getDay() >= 1 && d.getDay() <= 5) {
-      days.push({
-        date: d.toISOString().split('T')[0],
-        dayName: d.toLocaleDateString('en-US', { weekday: 'long' }),
-        shortDate: d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-      });
-    }
-  }
-  
-  return days;
-};
-
 /**
  * Format relative time (e.g., "2 hours ago")
  */
@@ -207,4 +219,21 @@ export const formatDuration = (seconds: number): string => {
     const minutes = Math.floor((seconds % 3600) / 60);
     return `${hours}h ${minutes}m`;
   }
+};
+
+/**
+ * Format a number of minutes as 45m or 2h 30m
+ */
+export const formatMinutes = (minutes: number): string => {
+  if (minutes < 60) return `${minutes}m`;
+  const remainder = minutes % 60;
+  return remainder > 0 ? `${Math.floor(minutes / 60)}h ${remainder}m` : `${Math.floor(minutes / 60)}h`;
+};
+
+/**
+ * Format a change with its sign, e.g. +3, -1.5 pts, 0
+ */
+export const formatDelta = (value: number, unit: string = ''): string => {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value}${unit ? ` ${unit}` : ''}`;
 };
\ No newline at end of file
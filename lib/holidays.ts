@@ -0,0 +1,222 @@
+// lib/holidays.ts
+// 🎉 Holiday calendar - lookups plus ICS and JSON importers
+
+import type { Holiday, HolidayImportResult } from './types';
+import { DASHBOARD_CONFIG, VALIDATION_RULES } from '../constants/config';
+
+/**
+ * Find the holiday that applies on a date. Company-wide holidays apply to everyone;
+ * department holidays only apply when the department matches.
+ */
+export const getHolidayOn = (
+  date: string,
+  holidays: Holiday[],
+  department?: string | null
+): Holiday | null => {
+  return holidays.find(holiday =>
+    holiday.date === date && (!holiday.department || holiday.department === department)
+  ) || null;
+};
+
+/**
+ * Check whether a date is a holiday (optionally for a specific department)
+ */
+export const isHoliday = (date: string, holidays: Holiday[], department?: string | null): boolean => {
+  return getHolidayOn(date, holidays, department) !== null;
+};
+
+/**
+ * Get holidays within a date range (inclusive), sorted by date
+ */
+export const getHolidaysInRange = (holidays: Holiday[], startDate: string, endDate: string): Holiday[] => {
+  return holidays
+    .filter(holiday => holiday.date >= startDate && holiday.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Expand an inclusive date range into YYYY-MM-DD strings
+ */
+export const getDatesBetween = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (current <= end) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * Add days to a YYYY-MM-DD date (negative to go back)
+ */
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+/**
+ * Get today's date as YYYY-MM-DD in DASHBOARD_CONFIG.timezone - the UTC date is still
+ * yesterday for the first hours of the day there
+ */
+export const getToday = (): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: DASHBOARD_CONFIG.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date());
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+/**
+ * Convert an ICS date value (20250606, 20250606T000000Z) to YYYY-MM-DD
+ */
+const parseICSDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Unescape ICS text values (\, \; \n)
+ */
+const unescapeICSText = (value: string): string => {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+};
+
+/**
+ * Parse an iCalendar (.ics) file into holidays.
+ * Each VEVENT becomes one holiday per day; DTEND is exclusive as per RFC 5545.
+ */
+export const parseICS = (content: string, department?: string | null): HolidayImportResult => {
+  const holidays: Holiday[] = [];
+  const errors: string[] = [];
+
+  // Unfold continuation lines (lines starting with a space or tab)
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  let event: Record<string, string> | null = null;
+  let eventIndex = 0;
+
+  lines.forEach(line => {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      event = {};
+      eventIndex++;
+      return;
+    }
+
+    if (line.startsWith('END:VEVENT') && event) {
+      const start = event.DTSTART ? parseICSDate(event.DTSTART) : null;
+      const name = event.SUMMARY ? unescapeICSText(event.SUMMARY) : '';
+
+      if (!start) {
+        errors.push(`Event ${eventIndex}: missing or invalid DTSTART`);
+      } else if (!name) {
+        errors.push(`Event ${eventIndex} (${start}): missing SUMMARY`);
+      } else {
+        let end = start;
+        const exclusiveEnd = event.DTEND ? parseICSDate(event.DTEND) : null;
+        if (exclusiveEnd && exclusiveEnd > start) {
+          const last = new Date(`${exclusiveEnd}T00:00:00Z`);
+          last.setUTCDate(last.getUTCDate() - 1);
+          end = last.toISOString().slice(0, 10);
+        }
+
+        getDatesBetween(start, end).forEach(date => {
+          holidays.push({ date, name, department: department || null, source: 'ics' });
+        });
+      }
+
+      event = null;
+      return;
+    }
+
+    if (event) {
+      // Property names may carry parameters, e.g. DTSTART;VALUE=DATE:20250606
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        const key = line.slice(0, separator).split(';')[0].toUpperCase();
+        event[key] = line.slice(separator + 1);
+      }
+    }
+  });
+
+  return { holidays, errors };
+};
+
+/**
+ * Parse a JSON holiday list. Accepts an array or { holidays: [...] } where each entry has
+ * date, name, optional end_date (inclusive) and optional department.
+ */
+export const parseHolidayJSON = (content: string, department?: string | null): HolidayImportResult => {
+  const holidays: Holiday[] = [];
+  const errors: string[] = [];
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    return { holidays, errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : parsed?.holidays;
+  if (!Array.isArray(entries)) {
+    return { holidays, errors: ['Expected an array of holidays or an object with a "holidays" array'] };
+  }
+
+  const { dateFormat } = VALIDATION_RULES.attendance;
+
+  entries.forEach((entry: any, index: number) => {
+    const date = String(entry?.date || '').trim();
+    const endDate = entry?.end_date ? String(entry.end_date).trim() : date;
+    const name = String(entry?.name || '').trim();
+
+    if (!dateFormat.test(date) || !dateFormat.test(endDate) || endDate < date) {
+      errors.push(`Entry ${index + 1}: invalid date "${entry?.date}"`);
+      return;
+    }
+    if (!name) {
+      errors.push(`Entry ${index + 1} (${date}): missing name`);
+      return;
+    }
+
+    getDatesBetween(date, endDate).forEach(day => {
+      holidays.push({
+        date: day,
+        name,
+        department: entry.department || department || null,
+        source: 'json'
+      });
+    });
+  });
+
+  return { holidays, errors };
+};
+
+/**
+ * Parse an uploaded holiday file based on its extension (.ics or .json)
+ */
+export const parseHolidayFile = (
+  filename: string,
+  content: string,
+  department?: string | null
+): HolidayImportResult => {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.ics')) return parseICS(content, department);
+  if (lower.endsWith('.json')) return parseHolidayJSON(content, department);
+  return { holidays: [], errors: [`Unsupported file type: ${filename} (use .ics or .json)`] };
+};
+
+/**
+ * Build the key used to detect duplicate holidays (same date and scope)
+ */
+export const getHolidayKey = (holiday: Pick<Holiday, 'date' | 'department'>): string => {
+  return `${holiday.date}|${holiday.department || ''}`;
+};
@@ -0,0 +1,61 @@
+// lib/lateness.test.ts
+// 🧪 Late minutes - whole minutes past the cut-off, only on expected work days
+
+import { describe, expect, it } from 'vitest';
+import type { ScheduleContext } from './types';
+import { getLateMinutes, buildLatenessReport } from './lateness';
+import { classifyRecordForShift } from './shifts';
+
+const context: ScheduleContext = {
+  assignments: [{ shift_id: 'split', emp_code: '2', effective_from: '2025-01-01' }],
+  employees: [
+    { emp_code: '1', name: 'Standard Shift', department: 'Sales', is_active: true },
+    { emp_code: '2', name: 'Split Shift', department: 'Sales', is_active: true }
+  ],
+  holidays: [{ date: '2025-06-05', name: 'Eid', department: null }],
+  leave: [],
+  corrections: []
+};
+
+const record = (empCode: string, date: string, checkIn: string) => ({ emp_code: empCode, name: empCode, date, check_in: checkIn });
+
+describe('getLateMinutes', () => {
+  it('counts whole minutes past the acceptable threshold', () => {
+    expect(getLateMinutes(record('1', '2025-06-02', '10:25'), context)).toBe(25);
+    expect(getLateMinutes(record('1', '2025-06-02', '09:45'), context)).toBe(0);
+  });
+
+  it('floors seconds the same way the classifier does', () => {
+    const notLate = record('1', '2025-06-02', '10:00:45');
+    expect(getLateMinutes(notLate, context)).toBe(0);
+    expect(classifyRecordForShift(notLate, context)).toBe('Acceptable');
+
+    const late = record('1', '2025-06-02', '10:01:10');
+    expect(getLateMinutes(late, context)).toBe(1);
+    expect(classifyRecordForShift(late, context)).toBe('Late');
+  });
+
+  it('never counts days off or holidays as late', () => {
+    expect(getLateMinutes(record('1', '2025-06-07', '11:00'), context)).toBe(0); // Saturday
+    expect(getLateMinutes(record('1', '2025-06-05', '11:00'), context)).toBe(0); // holiday
+  });
+
+  it('measures against the shift worked that day', () => {
+    expect(getLateMinutes(record('2', '2025-06-01', '08:40'), context)).toBe(10); // split shift works Sundays
+    expect(getLateMinutes(record('2', '2025-06-06', '08:40'), context)).toBe(0); // but not Fridays
+  });
+});
+
+describe('buildLatenessReport', () => {
+  it('adds up minutes and late days per employee', () => {
+    const report = buildLatenessReport('2025-06-01', '2025-06-30', [
+      record('1', '2025-06-02', '10:20'),
+      record('1', '2025-06-03', '10:50'),
+      record('1', '2025-06-04', '09:10'),
+      record('1', '2025-06-07', '12:00')
+    ], context, 60);
+
+    expect(report.entries).toHaveLength(1);
+    expect(report.entries[0]).toMatchObject({ emp_code: '1', lateMinutes: 70, lateDays: 2, overBudgetMonths: ['2025-06'] });
+  });
+});
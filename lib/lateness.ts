@@ -0,0 +1,97 @@
+// lib/lateness.ts
+// ⏰ Lateness - minutes past the shift threshold per record, and the cumulative lateness report for a period
+
+import type {
+  CheckInThresholds,
+  EmployeeRecord,
+  LatenessEntry,
+  LatenessReport,
+  ScheduleContext
+} from './types';
+import { resolveShift, getEmployeeDepartment, isExpectedWorkDay } from './shifts';
+import { getRecordDayKind } from './attendanceCalendar';
+import { buildRangeRecords } from './attendanceReports';
+import { timeToMinutes } from './formatters';
+import { LATENESS_CONFIG } from '../constants/config';
+
+/**
+ * Minutes checked in after one of the shift's thresholds (LATENESS_CONFIG.measureFrom by default).
+ * Whole minutes, floored like classifyCheckIn, so a 10:00:45 check-in against 10:00 is not
+ * late; check-ins on days off and holidays are never late
+ */
+export const getLateMinutes = (
+  record: Pick<EmployeeRecord, 'emp_code' | 'date' | 'check_in'>,
+  context: ScheduleContext,
+  measureFrom: keyof CheckInThresholds = LATENESS_CONFIG.measureFrom
+): number => {
+  const checkIn = timeToMinutes(record.check_in);
+  const cutOff = timeToMinutes(resolveShift(record.emp_code, record.date, context)[measureFrom]);
+  if (checkIn === null || cutOff === null) return 0;
+  if (!isExpectedWorkDay(record.emp_code, record.date, context)) return 0;
+  return Math.max(0, Math.floor(checkIn) - Math.floor(cutOff));
+};
+
+/**
+ * Total late minutes and late occurrences per employee for a period, worst first.
+ *
+ * Only employees who were late at least once are listed. Minutes are also split by
+ * calendar month so an employee is flagged for every month over budgetMinutes
+ * (null turns the budget off).
+ */
+export const buildLatenessReport = (
+  startDate: string,
+  endDate: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  budgetMinutes: number | null = LATENESS_CONFIG.monthlyBudgetMinutes
+): LatenessReport => {
+  const entries = new Map<string, LatenessEntry>();
+
+  buildRangeRecords(startDate, endDate, records, context)
+    .filter(record => record.check_in && getRecordDayKind(record) === 'present')
+    .forEach(record => {
+      const lateMinutes = getLateMinutes(record, context);
+      if (lateMinutes === 0) return;
+
+      if (!entries.has(record.emp_code)) {
+        entries.set(record.emp_code, {
+          emp_code: record.emp_code,
+          name: record.name,
+          department: getEmployeeDepartment(record.emp_code, context),
+          lateMinutes: 0,
+          lateDays: 0,
+          averageLateMinutes: 0,
+          maxLateMinutes: 0,
+          monthlyLateMinutes: {},
+          overBudgetMonths: []
+        });
+      }
+
+      const entry = entries.get(record.emp_code)!;
+      const month = record.date.slice(0, 7);
+      entry.lateMinutes += lateMinutes;
+      entry.lateDays++;
+      entry.maxLateMinutes = Math.max(entry.maxLateMinutes, lateMinutes);
+      entry.monthlyLateMinutes[month] = (entry.monthlyLateMinutes[month] || 0) + lateMinutes;
+    });
+
+  const rows = Array.from(entries.values())
+    .map(entry => ({
+      ...entry,
+      averageLateMinutes: Math.round(entry.lateMinutes / entry.lateDays),
+      overBudgetMonths: budgetMinutes === null
+        ? []
+        : Object.keys(entry.monthlyLateMinutes).filter(month => entry.monthlyLateMinutes[month] > budgetMinutes).sort()
+    }))
+    .sort((a, b) => b.lateMinutes - a.lateMinutes || b.lateDays - a.lateDays || a.name.localeCompare(b.name));
+
+  return {
+    startDate,
+    endDate,
+    measureFrom: LATENESS_CONFIG.measureFrom,
+    budgetMinutes,
+    totalLateMinutes: rows.reduce((sum, entry) => sum + entry.lateMinutes, 0),
+    totalLateDays: rows.reduce((sum, entry) => sum + entry.lateDays, 0),
+    entries: rows
+  };
+};
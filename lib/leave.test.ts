@@ -0,0 +1,50 @@
+// lib/leave.test.ts
+// 🧪 Leave balances - accrual, carry-over, used and pending days
+
+import { describe, expect, it } from 'vitest';
+import type { LeaveRequest, ScheduleContext } from './types';
+import { buildLeaveBalances, getAccruedAllowance } from './leave';
+
+const context: ScheduleContext = {
+  assignments: [],
+  employees: [{ emp_code: '1', name: 'Rana Aziz', department: 'Sales', is_active: true, hire_date: '2024-03-01' }],
+  holidays: [{ date: '2025-06-05', name: 'Eid', department: null }],
+  leave: [],
+  corrections: []
+};
+
+const requests: LeaveRequest[] = [
+  { id: 1, emp_code: '1', leave_type: 'annual', start_date: '2025-06-02', end_date: '2025-06-06', status: 'approved' },
+  { id: 2, emp_code: '1', leave_type: 'annual', start_date: '2025-06-09', end_date: '2025-06-10', half_day_end: true, status: 'pending' },
+  { id: 3, emp_code: '1', leave_type: 'annual', start_date: '2025-06-11', end_date: '2025-06-11', status: 'rejected' },
+  { id: 4, emp_code: '2', leave_type: 'annual', start_date: '2025-06-02', end_date: '2025-06-02', status: 'approved' }
+];
+
+describe('getAccruedAllowance', () => {
+  it('accrues monthly allowances from the hire month, to the nearest half day', () => {
+    expect(getAccruedAllowance(22, 'monthly', 2025, '2025-06-15')).toBe(11);
+    expect(getAccruedAllowance(22, 'monthly', 2025, '2025-06-15', '2025-04-10')).toBe(5.5);
+    expect(getAccruedAllowance(22, 'monthly', 2024, '2025-06-15')).toBe(22);
+    expect(getAccruedAllowance(22, 'monthly', 2026, '2025-06-15', '2026-01-01')).toBe(0);
+  });
+
+  it('grants yearly allowances up front', () => {
+    expect(getAccruedAllowance(10, 'yearly', 2025, '2025-01-01')).toBe(10);
+  });
+});
+
+describe('buildLeaveBalances', () => {
+  const balances = buildLeaveBalances('1', 2025, requests, [
+    { emp_code: '1', leave_type: 'annual', year: 2025, carried_over: 2 }
+  ], context, '2025-06-15');
+  const byType = Object.fromEntries(balances.map(balance => [balance.leave_type, balance]));
+
+  it('counts working days only, without holidays or other employees', () => {
+    expect(byType.annual).toMatchObject({ entitlement: 22, accrued: 13, used: 4, pending: 1.5, remaining: 9 });
+  });
+
+  it('leaves types without an allowance unlimited', () => {
+    expect(byType.wfh).toMatchObject({ entitlement: null, remaining: null });
+    expect(byType.sick).toMatchObject({ entitlement: 10, accrued: 10, used: 0, remaining: 10 });
+  });
+});
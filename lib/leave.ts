@@ -0,0 +1,199 @@
+// lib/leave.ts
+// 🌴 Leave management - leave lookups, day counts, balances and accruals
+
+import type {
+  EmployeeRecord,
+  LeaveRequest,
+  LeaveBalance,
+  LeaveBalanceSummary,
+  LeaveTypeId,
+  LeaveTypeDefinition,
+  ScheduleContext
+} from './types';
+import { getDatesBetween, getToday } from './holidays';
+import { isExpectedWorkDay } from './shifts';
+import { LEAVE_TYPES, LEAVE_CONFIG, VALIDATION_RULES } from '../constants/config';
+
+/**
+ * Get a leave type definition, falling back to the default type for unknown ids
+ */
+export const getLeaveType = (leaveType: string | null | undefined): LeaveTypeDefinition => {
+  return LEAVE_TYPES[leaveType as LeaveTypeId] || LEAVE_TYPES[LEAVE_CONFIG.defaultType];
+};
+
+/**
+ * Check whether a leave request covers a date (both ends inclusive)
+ */
+export const isLeaveOnDate = (request: LeaveRequest, date: string): boolean =>
+  request.start_date <= date && request.end_date >= date;
+
+/**
+ * Find the approved leave an employee has on a date
+ */
+export const getLeaveOn = (empCode: string, date: string, requests: LeaveRequest[]): LeaveRequest | null => {
+  const code = String(empCode).trim();
+  return requests.find(request =>
+    request.status === 'approved' &&
+    String(request.emp_code).trim() === code &&
+    isLeaveOnDate(request, date)
+  ) || null;
+};
+
+/**
+ * Check whether a date is taken as a half day within a request
+ */
+export const isHalfLeaveDay = (request: LeaveRequest, date: string): boolean =>
+  (!!request.half_day_start && date === request.start_date) ||
+  (!!request.half_day_end && date === request.end_date);
+
+/**
+ * Count the working days a request takes, optionally limited to a date range.
+ * Weekends, holidays and other non-working days for the employee's shift are not counted.
+ */
+export const countLeaveDays = (
+  request: LeaveRequest,
+  context: ScheduleContext,
+  rangeStart?: string,
+  rangeEnd?: string
+): number => {
+  const start = rangeStart && rangeStart > request.start_date ? rangeStart : request.start_date;
+  const end = rangeEnd && rangeEnd < request.end_date ? rangeEnd : request.end_date;
+  if (end < start) return 0;
+
+  return getDatesBetween(start, end)
+    .filter(date => isExpectedWorkDay(request.emp_code, date, context))
+    .reduce((days, date) => days + (isHalfLeaveDay(request, date) ? 0.5 : 1), 0);
+};
+
+/**
+ * Validate a leave request before saving. Returns a list of problems (empty when valid).
+ */
+export const validateLeaveRequest = (request: LeaveRequest, existing: LeaveRequest[] = []): string[] => {
+  const errors: string[] = [];
+  const { dateFormat } = VALIDATION_RULES.attendance;
+
+  if (!String(request.emp_code || '').trim()) errors.push('Please choose an employee.');
+  if (!LEAVE_TYPES[request.leave_type]) errors.push(`Unknown leave type: ${request.leave_type}`);
+  if (!dateFormat.test(request.start_date) || !dateFormat.test(request.end_date)) {
+    errors.push('Please choose a start and end date.');
+  } else if (request.end_date < request.start_date) {
+    errors.push('The end date must be on or after the start date.');
+  }
+  if (request.start_date === request.end_date && request.half_day_start && request.half_day_end) {
+    errors.push('A single-day request can be a half day or a full day, not two halves.');
+  }
+
+  const overlapping = existing.find(other =>
+    other.id !== request.id &&
+    String(other.emp_code).trim() === String(request.emp_code).trim() &&
+    (other.status === 'approved' || other.status === 'pending') &&
+    other.start_date <= request.end_date &&
+    other.end_date >= request.start_date
+  );
+  if (overlapping) {
+    errors.push(`Overlaps an existing ${overlapping.status} request (${overlapping.start_date} to ${overlapping.end_date}).`);
+  }
+
+  return errors;
+};
+
+/**
+ * Work out how much of a yearly entitlement has accrued by a date.
+ * Monthly accrual credits 1/12 at the start of each month from the hire month on; yearly grants it all up front.
+ */
+export const getAccruedAllowance = (
+  entitlement: number,
+  accrual: LeaveTypeDefinition['accrual'],
+  year: number,
+  today: string,
+  hireDate?: string | null
+): number => {
+  const hireYear = hireDate ? parseInt(hireDate.slice(0, 4), 10) : 0;
+  if (hireYear > year) return 0;
+  if (accrual === 'yearly') return entitlement;
+
+  const firstMonth = hireYear === year ? parseInt(hireDate!.slice(5, 7), 10) : 1;
+  const todayYear = parseInt(today.slice(0, 4), 10);
+  const lastMonth = todayYear > year ? 12 : todayYear < year ? 0 : parseInt(today.slice(5, 7), 10);
+  const months = Math.max(0, lastMonth - firstMonth + 1);
+
+  // Round to the nearest half day
+  return Math.round((entitlement * months / 12) * 2) / 2;
+};
+
+/**
+ * Build an employee's balance for every leave type in a year.
+ * Entitlement comes from their leave_balances row when present, otherwise from the leave type.
+ */
+export const buildLeaveBalances = (
+  empCode: string,
+  year: number,
+  requests: LeaveRequest[],
+  balances: LeaveBalance[],
+  context: ScheduleContext,
+  today: string = getToday()
+): LeaveBalanceSummary[] => {
+  const code = String(empCode).trim();
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const employee = context.employees.find(emp => String(emp.emp_code).trim() === code);
+  const employeeRequests = requests.filter(request => String(request.emp_code).trim() === code);
+
+  return (Object.keys(LEAVE_TYPES) as LeaveTypeId[]).map(leaveType => {
+    const definition = LEAVE_TYPES[leaveType];
+    const balance = balances.find(b =>
+      String(b.emp_code).trim() === code && b.leave_type === leaveType && b.year === year
+    );
+
+    const daysWithStatus = (status: LeaveRequest['status']) => employeeRequests
+      .filter(request => request.leave_type === leaveType && request.status === status)
+      .reduce((days, request) => days + countLeaveDays(request, context, yearStart, yearEnd), 0);
+
+    const used = daysWithStatus('approved');
+    const pending = daysWithStatus('pending');
+    const entitlement = balance?.allowance ?? definition.annualAllowance;
+
+    if (entitlement == null) {
+      return { leave_type: leaveType, entitlement: null, accrued: null, used, pending, remaining: null };
+    }
+
+    const accrued = getAccruedAllowance(entitlement, definition.accrual, year, today, employee?.hire_date)
+      + (balance?.carried_over || 0);
+
+    return {
+      leave_type: leaveType,
+      entitlement,
+      accrued,
+      used,
+      pending,
+      remaining: accrued - used
+    };
+  });
+};
+
+/**
+ * Build the record shown for a day covered by approved leave with no synced attendance
+ */
+export const buildLeaveRecord = (request: LeaveRequest, date: string, name: string): EmployeeRecord => ({
+  date,
+  emp_code: String(request.emp_code).trim(),
+  name,
+  status: getLeaveType(request.leave_type).countsAsAttendance ? 'WFH' : 'Leave',
+  leave_type: request.leave_type,
+  synthesized: true
+});
+
+/**
+ * Replace an absence with approved leave when the employee has leave that day.
+ * Records with attendance are left alone - someone who came in is present.
+ */
+export const applyApprovedLeave = (record: EmployeeRecord, context: ScheduleContext): EmployeeRecord => {
+  if ((record.status || '').toLowerCase() !== 'absent') return record;
+  const leave = getLeaveOn(record.emp_code, record.date, context.leave);
+  if (!leave) return record;
+  return {
+    ...record,
+    status: getLeaveType(leave.leave_type).countsAsAttendance ? 'WFH' : 'Leave',
+    leave_type: leave.leave_type
+  };
+};
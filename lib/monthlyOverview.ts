@@ -0,0 +1,79 @@
+// lib/monthlyOverview.ts
+// 🗓️ Monthly overview - company-wide monthly summaries with month-over-month changes and year totals
+
+import type { MonthlySummary, MonthlySummaryMetric, MonthlyOverview, MonthlyOverviewRow } from './types';
+import { MONTHLY_OVERVIEW_CONFIG } from '../constants/config';
+
+export const MONTHLY_SUMMARY_METRICS: MonthlySummaryMetric[] = [
+  'total_employees',
+  'early_count',
+  'ontime_count',
+  'acceptable_count',
+  'late_count',
+  'average_ontime_rate'
+];
+
+const roundRate = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * YYYY-MM for a monthly summary
+ */
+export const getMonthlySummaryKey = (summary: Pick<MonthlySummary, 'year' | 'month'>): string =>
+  `${summary.year}-${String(summary.month).padStart(2, '0')}`;
+
+const getPreviousMonthKey = (summary: Pick<MonthlySummary, 'year' | 'month'>): string =>
+  summary.month === 1
+    ? getMonthlySummaryKey({ year: summary.year - 1, month: 12 })
+    : getMonthlySummaryKey({ year: summary.year, month: summary.month - 1 });
+
+const getDeltas = (current: MonthlySummary, previous: MonthlySummary): Record<MonthlySummaryMetric, number> =>
+  MONTHLY_SUMMARY_METRICS.reduce((deltas, metric) => {
+    const change = (Number(current[metric]) || 0) - (Number(previous[metric]) || 0);
+    deltas[metric] = metric === 'average_ontime_rate' ? roundRate(change) : change;
+    return deltas;
+  }, {} as Record<MonthlySummaryMetric, number>);
+
+/**
+ * Monthly summaries for one year (or the most recent months when year is null), oldest first.
+ *
+ * Deltas compare each month with the calendar month before it - looked up in all the
+ * summaries, so January is compared with the previous December. A month whose previous
+ * month has no summary gets no deltas.
+ */
+export const buildMonthlyOverview = (
+  summaries: MonthlySummary[],
+  year: number | null = null,
+  recentMonths: number = MONTHLY_OVERVIEW_CONFIG.recentMonths
+): MonthlyOverview => {
+  const byMonth = new Map(summaries.map(summary => [getMonthlySummaryKey(summary), summary]));
+  const ordered = Array.from(byMonth.values()).sort((a, b) => a.year - b.year || a.month - b.month);
+
+  const selected = year === null
+    ? ordered.slice(-recentMonths)
+    : ordered.filter(summary => summary.year === year);
+
+  const rows: MonthlyOverviewRow[] = selected.map(summary => {
+    const previous = byMonth.get(getPreviousMonthKey(summary));
+    return {
+      ...summary,
+      monthKey: getMonthlySummaryKey(summary),
+      deltas: previous ? getDeltas(summary, previous) : null
+    };
+  });
+
+  const sum = (metric: MonthlySummaryMetric) => rows.reduce((total, row) => total + (Number(row[metric]) || 0), 0);
+
+  return {
+    year,
+    years: Array.from(new Set(ordered.map(summary => summary.year))).sort((a, b) => b - a),
+    rows,
+    totals: {
+      total_employees: rows.reduce((max, row) => Math.max(max, row.total_employees || 0), 0),
+      early_count: sum('early_count'),
+      ontime_count: sum('ontime_count'),
+      acceptable_count: sum('acceptable_count'),
+      late_count: sum('late_count'),
+      average_ontime_rate: rows.length > 0 ? roundRate(sum('average_ontime_rate') / rows.length) : 0
+    }
+  };
+};
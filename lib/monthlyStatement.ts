@@ -0,0 +1,347 @@
+// lib/monthlyStatement.ts
+// 🧾 Monthly attendance statements - per-employee month data and its printable PDF layout
+
+import type {
+  AttendanceCalendarSummary,
+  Employee,
+  EmployeeRecord,
+  MonthlyStatement,
+  MonthlyStatementDay,
+  MonthlyStatementStats,
+  ScheduleContext,
+  TimeCategory,
+  WorkTimeBreakdown
+} from './types';
+import { buildAttendanceCalendar, getRecordDayKind } from './attendanceCalendar';
+import { getToday } from './holidays';
+import { classifyRecordForShift, getEmployeeDepartment } from './shifts';
+import { countsAsOnTime, isLateCategory } from './classification';
+import { getLeaveType, isHalfLeaveDay } from './leave';
+import { getRecordWorkTime, sumWorkTime } from './workTime';
+import { formatDate, formatMonthYear, getMonthDateRange } from './formatters';
+import type { PdfDocument } from './pdf';
+import { createPdfDocument, fitText } from './pdf';
+import { createZip } from './zip';
+import { APP_CONFIG, TIME_CATEGORIES, STATEMENT_CONFIG } from '../constants/config';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const GRID_LINE = '#E5E7EB';
+const MUTED_TEXT = '#6B7280';
+const HEADER_FILL = '#1E3A8A';
+
+/**
+ * Headline numbers for an employee's month, as shown on the Monthly Reports tab
+ */
+export const calculateMonthlyStats = (
+  records: EmployeeRecord[],
+  calendar: AttendanceCalendarSummary,
+  classify: (record: EmployeeRecord) => TimeCategory,
+  measure: (record: EmployeeRecord) => WorkTimeBreakdown
+): MonthlyStatementStats => {
+  const presentRecords = records.filter(record => getRecordDayKind(record) === 'present');
+  const categories = presentRecords.map(record => classify(record));
+  const onTimeDays = categories.filter(countsAsOnTime).length;
+  const lateDays = categories.filter(isLateCategory).length;
+  const totalHours = presentRecords.reduce((sum, record) => sum + (record.work_hours || 0), 0);
+  const avgHours = presentRecords.length > 0 ? totalHours / presentRecords.length : 0;
+
+  return {
+    presentDays: calendar.presentDays,
+    onTimeDays,
+    lateDays,
+    totalHours: Math.round(totalHours * 10) / 10,
+    avgHours: Math.round(avgHours * 10) / 10,
+    attendanceRate: calendar.attendanceRate,
+    onTimeRate: calendar.presentDays > 0 ? Math.round((onTimeDays / calendar.presentDays) * 100) : 0,
+    workingDays: calendar.expectedWorkingDays,
+    workTime: sumWorkTime(presentRecords.map(record => measure(record)))
+  };
+};
+
+/**
+ * Build the statement for one employee and month from their records (corrections already applied)
+ */
+export const buildMonthlyStatement = (
+  empCode: string,
+  name: string,
+  month: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): MonthlyStatement => {
+  const code = String(empCode).trim();
+  const { startDate, endDate } = getMonthDateRange(month);
+  const ownRecords = records.filter(record => String(record.emp_code).trim() === code);
+  const classify = (record: EmployeeRecord) => classifyRecordForShift(record, context);
+  const calendar = buildAttendanceCalendar(code, startDate, endDate, ownRecords, context, today);
+
+  const days: MonthlyStatementDay[] = calendar.days.map(day => ({
+    ...day,
+    category: day.record && day.kind === 'present' && day.record.check_in ? classify(day.record) : null
+  }));
+
+  return {
+    empCode: code,
+    name,
+    department: getEmployeeDepartment(code, context),
+    month,
+    days,
+    calendar,
+    stats: calculateMonthlyStats(ownRecords, calendar, classify, record => getRecordWorkTime(record, context))
+  };
+};
+
+/**
+ * Statements for every employee in the list, from one month of everyone's records
+ */
+export const buildMonthlyStatements = (
+  month: string,
+  employees: Employee[],
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): MonthlyStatement[] =>
+  [...employees]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(employee => buildMonthlyStatement(employee.emp_code, employee.name, month, records, context, today));
+
+const getDayColor = (day: MonthlyStatementDay): string | null => {
+  switch (day.kind) {
+    case 'present':
+      if (!day.record && day.leave) return getLeaveType(day.leave.leave_type).color;
+      return (day.category && TIME_CATEGORIES[day.category]?.color) || 'green';
+    case 'absent':
+      return 'red';
+    case 'leave':
+      return getLeaveType(day.leave?.leave_type).color;
+    case 'holiday':
+      return 'purple';
+    case 'off':
+      return 'gray';
+    default:
+      return null;
+  }
+};
+
+// Two short lines describing the day inside its calendar cell
+const describeDay = (day: MonthlyStatementDay): [string, string] => {
+  const halfDay = day.leave && isHalfLeaveDay(day.leave, day.date) ? ' (half)' : '';
+  switch (day.kind) {
+    case 'present':
+      if (!day.record) return [getLeaveType(day.leave?.leave_type).name, halfDay.trim()];
+      return [
+        day.record.check_in ? `In ${day.record.check_in.slice(0, 5)}` : day.record.status || 'Present',
+        [
+          day.category ? TIME_CATEGORIES[day.category]?.label : null,
+          day.record.work_hours ? `${Math.round(day.record.work_hours * 10) / 10}h` : null
+        ].filter(Boolean).join(' · ')
+      ];
+    case 'absent':
+      return ['Absent', day.record ? '' : 'No record'];
+    case 'leave':
+      return [getLeaveType(day.leave?.leave_type).name, halfDay.trim()];
+    case 'holiday':
+      return [day.holiday?.name || 'Holiday', 'Holiday'];
+    case 'off':
+      return ['Day off', ''];
+    case 'not_employed':
+      return ['Before hire', ''];
+    default:
+      return ['', ''];
+  }
+};
+
+const drawStatCard = (
+  doc: PdfDocument,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: string,
+  value: string,
+  label: string,
+  note?: string
+): void => {
+  doc.rect(x, y, width, height, { fill: STATEMENT_CONFIG.fills[color] });
+  doc.text(x + width / 2, y + 7, value, { size: 15, bold: true, color: STATEMENT_CONFIG.textColors[color], align: 'center' });
+  doc.text(x + width / 2, y + 26, label, { size: 8, color: STATEMENT_CONFIG.textColors[color], align: 'center' });
+  if (note) doc.text(x + width / 2, y + 36, note, { size: 6.5, color: MUTED_TEXT, align: 'center' });
+};
+
+/**
+ * Draw one statement on the current page of a PDF document
+ */
+export const drawMonthlyStatement = (doc: PdfDocument, statement: MonthlyStatement, generatedAt: Date = new Date()): void => {
+  const margin = STATEMENT_CONFIG.margin;
+  const width = doc.pageWidth - margin * 2;
+  const { stats, calendar, days } = statement;
+  const { startDate, endDate } = getMonthDateRange(statement.month);
+
+  // Header band
+  doc.rect(margin, margin, width, 56, { fill: HEADER_FILL });
+  doc.text(margin + 14, margin + 10, APP_CONFIG.name, { size: 8, color: '#BFDBFE' });
+  doc.text(margin + 14, margin + 24, 'Monthly Attendance Statement', { size: 16, bold: true, color: '#FFFFFF' });
+  doc.text(margin + width - 14, margin + 22, formatMonthYear(statement.month), { size: 14, bold: true, color: '#FFFFFF', align: 'right' });
+
+  // Employee details
+  let y = margin + 70;
+  let detailX = margin;
+  const details: Array<[string, string, number]> = [
+    ['Employee', statement.name, 0.3],
+    ['Employee Code', statement.empCode, 0.16],
+    ['Department', statement.department || 'Not assigned', 0.22],
+    ['Period', `${formatDate(startDate)} – ${formatDate(endDate)}`, 0.32]
+  ];
+  details.forEach(([label, value, share]) => {
+    const detailWidth = width * share;
+    doc.text(detailX, y, label.toUpperCase(), { size: 7, color: MUTED_TEXT });
+    doc.text(detailX, y + 11, fitText(value, detailWidth - 8, 10, true), { size: 10, bold: true });
+    detailX += detailWidth;
+  });
+  y += 32;
+  doc.line(margin, y, margin + width, y, { stroke: GRID_LINE });
+
+  // Stats cards - the same figures as the Monthly Reports tab
+  y += 10;
+  const gap = 8;
+  const cardWidth = (width - gap * 3) / 4;
+  [
+    ['blue', String(stats.presentDays), 'Days Present'],
+    ['green', String(stats.onTimeDays), 'On-time Days'],
+    ['red', String(stats.lateDays), 'Late Days'],
+    ['yellow', `${stats.totalHours}h`, 'Total Hours']
+  ].forEach(([color, value, label], index) => {
+    drawStatCard(doc, margin + index * (cardWidth + gap), y, cardWidth, 42, color, value, label);
+  });
+  y += 50;
+  const smallCardWidth = (width - gap * 2) / 3;
+  drawStatCard(doc, margin, y, smallCardWidth, 46, 'gray', `${stats.avgHours}h`, 'Avg Hours/Day',
+    `+${stats.workTime.overtimeHours}h overtime, -${stats.workTime.undertimeHours}h short`);
+  drawStatCard(doc, margin + smallCardWidth + gap, y, smallCardWidth, 46, 'purple', `${stats.attendanceRate}%`, 'Attendance Rate',
+    `of ${stats.workingDays} expected working days`);
+  drawStatCard(doc, margin + (smallCardWidth + gap) * 2, y, smallCardWidth, 46, 'teal', `${stats.onTimeRate}%`, 'On-time Rate');
+  y += 60;
+
+  // Calendar grid, Monday first
+  doc.text(margin, y, 'Attendance Calendar', { size: 11, bold: true });
+  y += 18;
+  const cellWidth = width / 7;
+  const cellHeight = 42;
+  doc.rect(margin, y, width, 16, { fill: '#F3F4F6' });
+  WEEKDAY_LABELS.forEach((label, index) => {
+    doc.text(margin + index * cellWidth + cellWidth / 2, y + 4, label, { size: 8, bold: true, color: MUTED_TEXT, align: 'center' });
+  });
+  y += 16;
+
+  const leadingBlanks = (new Date(`${startDate}T00:00:00Z`).getUTCDay() + 6) % 7;
+  days.forEach((day, index) => {
+    const slot = leadingBlanks + index;
+    const x = margin + (slot % 7) * cellWidth;
+    const top = y + Math.floor(slot / 7) * cellHeight;
+    const color = getDayColor(day);
+    const textColor = color ? STATEMENT_CONFIG.textColors[color] : MUTED_TEXT;
+    const [primary, secondary] = describeDay(day);
+
+    doc.rect(x, top, cellWidth, cellHeight, { fill: color ? STATEMENT_CONFIG.fills[color] : '#FFFFFF', stroke: GRID_LINE });
+    doc.text(x + 4, top + 4, String(Number(day.date.slice(8))), { size: 9, bold: true });
+    if (day.record?.correction) {
+      doc.text(x + cellWidth - 4, top + 4, 'corrected', { size: 6, color: MUTED_TEXT, align: 'right' });
+    }
+    doc.text(x + 4, top + 18, fitText(primary, cellWidth - 8, 7, true), { size: 7, bold: true, color: textColor });
+    doc.text(x + 4, top + 28, fitText(secondary, cellWidth - 8, 6.5), { size: 6.5, color: textColor });
+  });
+  y += Math.ceil((leadingBlanks + days.length) / 7) * cellHeight + 8;
+
+  // Legend
+  let legendX = margin;
+  [
+    ['blue', 'Early'],
+    ['green', 'On time'],
+    ['yellow', 'Acceptable'],
+    ['red', 'Late / Absent'],
+    ['purple', 'Holiday'],
+    ['gray', 'Day off']
+  ].forEach(([color, label]) => {
+    doc.rect(legendX, y, 9, 9, { fill: STATEMENT_CONFIG.fills[color], stroke: STATEMENT_CONFIG.textColors[color], lineWidth: 0.4 });
+    doc.text(legendX + 13, y + 1, label, { size: 7, color: MUTED_TEXT });
+    legendX += 80;
+  });
+  doc.text(margin + width, y + 1, 'Leave in its leave type colour', { size: 7, color: MUTED_TEXT, align: 'right' });
+  y += 22;
+
+  // Totals - every day of the month falls in exactly one bucket
+  doc.text(margin, y, `Day Breakdown (${calendar.totalDays} days)`, { size: 11, bold: true });
+  y += 16;
+  const totalWidth = width / 7;
+  [
+    ['Present', calendar.presentDays],
+    ['Absent', calendar.absentDays],
+    ['Leave', calendar.leaveDays],
+    ['Holidays', calendar.holidayDays],
+    ['Days Off', calendar.offDays],
+    ['Upcoming', calendar.upcomingDays],
+    ['Before Hire', calendar.notEmployedDays]
+  ].forEach(([label, value], index) => {
+    const x = margin + index * totalWidth;
+    doc.rect(x, y, totalWidth, 32, { stroke: GRID_LINE });
+    doc.text(x + totalWidth / 2, y + 5, String(value), { size: 12, bold: true, align: 'center' });
+    doc.text(x + totalWidth / 2, y + 21, String(label), { size: 7, color: MUTED_TEXT, align: 'center' });
+  });
+  y += 40;
+  if (calendar.missingDates.length > 0) {
+    const missing = calendar.missingDates.map(date => formatDate(date)).join(', ');
+    doc.text(margin, y, fitText(`Missing on ${calendar.missingDates.length} expected working day${calendar.missingDates.length > 1 ? 's' : ''}: ${missing}`, width, 8), {
+      size: 8,
+      color: STATEMENT_CONFIG.textColors.red
+    });
+  }
+
+  // Signature block, anchored to the bottom of the page
+  const signatureTop = doc.pageHeight - margin - 80;
+  const signatureWidth = (width - gap * 2 * (STATEMENT_CONFIG.signatures.length - 1)) / STATEMENT_CONFIG.signatures.length;
+  STATEMENT_CONFIG.signatures.forEach((role, index) => {
+    const x = margin + index * (signatureWidth + gap * 2);
+    doc.line(x, signatureTop + 28, x + signatureWidth, signatureTop + 28, { stroke: '#374151' });
+    doc.text(x, signatureTop + 32, `${role} signature`, { size: 8, color: MUTED_TEXT });
+    doc.line(x, signatureTop + 58, x + signatureWidth * 0.6, signatureTop + 58, { stroke: '#374151' });
+    doc.text(x, signatureTop + 62, 'Date', { size: 8, color: MUTED_TEXT });
+  });
+
+  // Footer
+  const footerY = doc.pageHeight - margin + 8;
+  const stamp = generatedAt.toISOString().slice(0, 16).replace('T', ' ');
+  doc.text(margin, footerY, `Generated ${stamp} UTC · ${APP_CONFIG.name}`, { size: 7, color: MUTED_TEXT });
+  doc.text(margin + width, footerY, `${statement.name} (${statement.empCode}) · ${statement.month}`, { size: 7, color: MUTED_TEXT, align: 'right' });
+};
+
+/**
+ * Render a single statement as a one-page PDF
+ */
+export const createMonthlyStatementPdf = (statement: MonthlyStatement, generatedAt: Date = new Date()): Uint8Array<ArrayBuffer> => {
+  const doc = createPdfDocument({
+    title: `Monthly Attendance Statement - ${statement.name} - ${formatMonthYear(statement.month)}`,
+    author: APP_CONFIG.author
+  });
+  drawMonthlyStatement(doc, statement, generatedAt);
+  return doc.toBytes();
+};
+
+/**
+ * File name for a statement, e.g. statement-2025-06-sara-mansour-7.pdf
+ */
+export const getStatementFilename = (statement: Pick<MonthlyStatement, 'name' | 'empCode' | 'month'>): string => {
+  const slug = statement.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `statement-${statement.month}-${slug ? `${slug}-` : ''}${statement.empCode}.pdf`;
+};
+
+/**
+ * One PDF per employee, packed into a single ZIP archive
+ */
+export const createMonthlyStatementArchive = (statements: MonthlyStatement[], generatedAt: Date = new Date()): Uint8Array<ArrayBuffer> =>
+  createZip(
+    statements.map(statement => ({
+      path: getStatementFilename(statement),
+      content: createMonthlyStatementPdf(statement, generatedAt)
+    })),
+    generatedAt
+  );
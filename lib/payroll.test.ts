@@ -0,0 +1,59 @@
+// lib/payroll.test.ts
+// 🧪 Payroll rows - days worked, hours, lateness and leave for one month
+
+import { describe, expect, it } from 'vitest';
+import type { EmployeeRecord, ScheduleContext } from './types';
+import { buildPayrollRow } from './payroll';
+
+const context: ScheduleContext = {
+  assignments: [],
+  employees: [{ emp_code: '1', name: 'Rana Aziz', department: 'Sales', is_active: true, hire_date: '2024-01-01' }],
+  holidays: [{ date: '2025-06-05', name: 'Eid', department: null }],
+  leave: [{ id: 1, emp_code: '1', leave_type: 'wfh', start_date: '2025-06-06', end_date: '2025-06-06', status: 'approved' }],
+  corrections: []
+};
+
+const records: EmployeeRecord[] = [
+  { emp_code: '1', name: 'Rana Aziz', date: '2025-06-02', check_in: '09:00', check_out: '18:00', work_hours: 9, total_punches: 2, status: 'Present' },
+  { emp_code: '1', name: 'Rana Aziz', date: '2025-06-03', check_in: '10:20', check_out: '18:00', work_hours: 7.67, total_punches: 2, status: 'Present' },
+  // Never checked out - flagged, so its hours stay out of payroll
+  { emp_code: '1', name: 'Rana Aziz', date: '2025-06-04', check_in: '09:00', work_hours: 9, total_punches: 1, status: 'Present' }
+];
+
+describe('buildPayrollRow', () => {
+  const row = buildPayrollRow({ emp_code: '1', name: 'Rana Aziz' }, '2025-06', records, context, '2025-06-30');
+
+  it('counts expected days without weekends and holidays', () => {
+    expect(row.expected_days).toBe(20);
+    expect(row.absent_days).toBe(16);
+  });
+
+  it('counts working from home only as WFH, not as a day worked', () => {
+    expect(row.days_worked).toBe(3);
+    expect(row.leave_days.wfh).toBe(1);
+    expect(row.paid_leave_days).toBe(0);
+  });
+
+  it('leaves the hours of flagged records out', () => {
+    expect(row.total_hours).toBe(14.67);
+    expect(row.regular_hours + row.overtime_hours).toBeCloseTo(row.total_hours, 2);
+  });
+
+  it('takes late minutes from the lateness rules', () => {
+    expect(row.late_minutes).toBe(20);
+    expect(row.late_days).toBe(1);
+  });
+
+  it('counts a half WFH day as half a day worked', () => {
+    const halfDay: ScheduleContext = {
+      ...context,
+      leave: [{ ...context.leave[0], half_day_start: true }]
+    };
+    const withHalfDay = buildPayrollRow({ emp_code: '1', name: 'Rana Aziz' }, '2025-06', [
+      ...records,
+      { emp_code: '1', name: 'Rana Aziz', date: '2025-06-06', check_in: '14:00', check_out: '18:00', work_hours: 4, total_punches: 2, status: 'Present' }
+    ], halfDay, '2025-06-30');
+
+    expect(withHalfDay.days_worked).toBe(3.5);
+  });
+});
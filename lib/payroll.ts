@@ -0,0 +1,132 @@
+// lib/payroll.ts
+// 💰 Payroll timesheets - per-employee monthly totals mapped onto the payroll system's import columns
+
+import type {
+  Employee,
+  EmployeeRecord,
+  LeaveTypeId,
+  PayrollField,
+  PayrollRow,
+  ScheduleContext
+} from './types';
+import { buildAttendanceCalendar } from './attendanceCalendar';
+import { getToday } from './holidays';
+import { getEmployeeDepartment } from './shifts';
+import { countLeaveDays, getLeaveType, isHalfLeaveDay } from './leave';
+import { getRecordWorkTime } from './workTime';
+import { getLateMinutes } from './lateness';
+import { isFlaggedRecord } from './dataQuality';
+import { getMonthDateRange } from './formatters';
+import { LEAVE_TYPES, PAYROLL_EXPORT_CONFIG } from '../constants/config';
+
+const LEAVE_TYPE_IDS = Object.keys(LEAVE_TYPES) as LeaveTypeId[];
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Monthly payroll totals for one employee.
+ *
+ * Hours are net of the lunch break. Up to the shift's minimumWorkHours they are regular and the
+ * rest overtime; all hours worked on a day off or a holiday are overtime. Records Data Quality flags (a missing
+ * check-out, impossible hours) add no hours until a correction fixes them. Absent days are unexcused absences only,
+ * approved leave is counted per leave type in working days (half days count 0.5), and WFH days are only counted
+ * as leave_wfh, not as days worked.
+ */
+export const buildPayrollRow = (
+  employee: Pick<Employee, 'emp_code' | 'name'>,
+  month: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): PayrollRow => {
+  const code = String(employee.emp_code).trim();
+  const { startDate, endDate } = getMonthDateRange(month);
+  const ownRecords = records.filter(record => String(record.emp_code).trim() === code);
+  const calendar = buildAttendanceCalendar(code, startDate, endDate, ownRecords, context, today);
+
+  let daysWorked = 0;
+  let regularHours = 0;
+  let overtimeHours = 0;
+  let lateMinutes = 0;
+  let lateDays = 0;
+
+  calendar.days.forEach(day => {
+    if (day.kind !== 'present') return;
+
+    const wfh = day.leave && getLeaveType(day.leave.leave_type).countsAsAttendance ? day.leave : null;
+    daysWorked += !wfh ? 1 : isHalfLeaveDay(wfh, day.date) ? 0.5 : 0;
+    if (!day.record) return;
+
+    if (!isFlaggedRecord(day.record, today)) {
+      const workTime = getRecordWorkTime(day.record, context);
+      regularHours += workTime.netHours - workTime.overtimeHours;
+      overtimeHours += workTime.overtimeHours;
+    }
+
+    // Same threshold as the lateness report, so minutes and late days always agree with it
+    const minutesLate = day.record.check_in ? getLateMinutes(day.record, context) : 0;
+    lateMinutes += minutesLate;
+    if (minutesLate > 0) lateDays++;
+  });
+
+  const leaveDays = LEAVE_TYPE_IDS.reduce((totals, type) => ({ ...totals, [type]: 0 }), {} as Record<LeaveTypeId, number>);
+  context.leave
+    .filter(request => String(request.emp_code).trim() === code && request.start_date <= endDate && request.end_date >= startDate)
+    .forEach(request => {
+      const type = LEAVE_TYPES[request.leave_type] ? request.leave_type : 'annual';
+      leaveDays[type] += countLeaveDays(request, context, startDate, endDate);
+    });
+
+  const decimals = PAYROLL_EXPORT_CONFIG.hoursDecimals;
+  const sumLeave = (paid: boolean) => LEAVE_TYPE_IDS
+    .filter(type => LEAVE_TYPES[type].paid === paid && !LEAVE_TYPES[type].countsAsAttendance)
+    .reduce((sum, type) => sum + leaveDays[type], 0);
+
+  return {
+    emp_code: code,
+    name: employee.name,
+    department: getEmployeeDepartment(code, context),
+    month,
+    period_start: startDate,
+    period_end: endDate,
+    expected_days: calendar.expectedWorkingDays,
+    days_worked: daysWorked,
+    regular_hours: roundTo(regularHours, decimals),
+    overtime_hours: roundTo(overtimeHours, decimals),
+    total_hours: roundTo(regularHours + overtimeHours, decimals),
+    late_minutes: lateMinutes,
+    late_days: lateDays,
+    absent_days: calendar.absentDays,
+    paid_leave_days: sumLeave(true),
+    unpaid_leave_days: sumLeave(false),
+    leave_days: leaveDays
+  };
+};
+
+/**
+ * Payroll rows for every employee in the list, from one month of everyone's records
+ */
+export const buildPayrollRows = (
+  month: string,
+  employees: Employee[],
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): PayrollRow[] =>
+  [...employees]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(employee => buildPayrollRow(employee, month, records, context, today));
+
+/**
+ * Read a mapped column's value from a payroll row
+ */
+export const getPayrollValue = (row: PayrollRow, field: PayrollField): string | number | null => {
+  if (field.startsWith('leave_')) {
+    return row.leave_days[field.slice('leave_'.length) as LeaveTypeId] ?? 0;
+  }
+  return row[field as Exclude<PayrollField, `leave_${LeaveTypeId}`>];
+};
+
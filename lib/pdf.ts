@@ -0,0 +1,203 @@
+// lib/pdf.ts
+// 📄 Minimal PDF writer - text, filled boxes and lines on A4 pages using the built-in Helvetica fonts
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #RRGGBB
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: string | null; // #RRGGBB
+  stroke?: string | null;
+  lineWidth?: number;
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  author?: string;
+  pageWidth?: number;
+  pageHeight?: number;
+}
+
+// Advance widths (1/1000 em) of Helvetica for the printable ASCII range, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const BOLD_WIDTH_FACTOR = 1.06; // Helvetica-Bold runs about 6% wider
+const DEFAULT_CHAR_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 128, '‘': 145, '’': 146, '“': 147, '”': 148,
+  '•': 149, '–': 150, '—': 151, '…': 133
+};
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+
+const formatNumber = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+const toRgb = (hex: string): string => {
+  const match = hex.replace('#', '').match(/^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return '0 0 0';
+  return match.slice(1).map(part => formatNumber(parseInt(part, 16) / 255)).join(' ');
+};
+
+/**
+ * Encode text as a PDF string literal in WinAnsiEncoding; unsupported characters become "?"
+ */
+const encodeText = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (code <= 255 && code >= 128) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+};
+
+/**
+ * Width of a string in points when set in Helvetica at the given size
+ */
+export const measureText = (text: string, size: number, bold: boolean = false): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_CHAR_WIDTH;
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+};
+
+/**
+ * Shorten a string with an ellipsis so it fits in the given width
+ */
+export const fitText = (text: string, maxWidth: number, size: number, bold: boolean = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+  let shortened = text;
+  while (shortened.length > 0 && measureText(`${shortened}…`, size, bold) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return shortened ? `${shortened.trimEnd()}…` : '';
+};
+
+/**
+ * Create a PDF document. Coordinates are in points from the top-left corner of the page,
+ * so layouts read top to bottom like the dashboard.
+ */
+export const createPdfDocument = (options: PdfDocumentOptions = {}) => {
+  const pageWidth = options.pageWidth ?? A4_WIDTH;
+  const pageHeight = options.pageHeight ?? A4_HEIGHT;
+  const pages: string[][] = [];
+
+  const currentPage = (): string[] => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  const addPage = (): void => {
+    pages.push([]);
+  };
+
+  const text = (x: number, y: number, value: string, textOptions: PdfTextOptions = {}): void => {
+    const { size = 10, bold = false, color = '#111827', align = 'left' } = textOptions;
+    const width = measureText(value, size, bold);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    // y is the top of the line; PDF places text on its baseline
+    const baseline = pageHeight - y - size * 0.8;
+    currentPage().push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${toRgb(color)} rg ${formatNumber(left)} ${formatNumber(baseline)} Td ${encodeText(value)} Tj ET`
+    );
+  };
+
+  const rect = (x: number, y: number, width: number, height: number, shapeOptions: PdfShapeOptions = {}): void => {
+    const { fill = null, stroke = null, lineWidth = 0.5 } = shapeOptions;
+    if (!fill && !stroke) return;
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    currentPage().push(
+      `${fill ? `${toRgb(fill)} rg ` : ''}${stroke ? `${toRgb(stroke)} RG ${formatNumber(lineWidth)} w ` : ''}` +
+      `${formatNumber(x)} ${formatNumber(pageHeight - y - height)} ${formatNumber(width)} ${formatNumber(height)} re ${operator}`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, shapeOptions: PdfShapeOptions = {}): void => {
+    const { stroke = '#9CA3AF', lineWidth = 0.5 } = shapeOptions;
+    currentPage().push(
+      `${toRgb(stroke || '#9CA3AF')} RG ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(pageHeight - y1)} m ${formatNumber(x2)} ${formatNumber(pageHeight - y2)} l S`
+    );
+  };
+
+  /**
+   * Serialize the document. Everything written is ASCII, so string length equals byte length
+   * and the cross-reference offsets can be taken from the string directly.
+   */
+  const toBytes = (): Uint8Array<ArrayBuffer> => {
+    if (pages.length === 0) addPage();
+
+    const objects: string[] = [];
+    const pageCount = pages.length;
+    const firstPageId = 5;
+    const infoId = firstPageId + pageCount * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPageId + index * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    pages.forEach((operations, index) => {
+      const pageId = firstPageId + index * 2;
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[infoId] = `<<${options.title ? ` /Title ${encodeText(options.title)}` : ''}` +
+      `${options.author ? ` /Author ${encodeText(options.author)}` : ''} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+  };
+
+  return {
+    pageWidth,
+    pageHeight,
+    addPage,
+    text,
+    rect,
+    line,
+    toBytes
+  };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
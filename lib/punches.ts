@@ -0,0 +1,138 @@
+// lib/punches.ts
+// 👆 Device punches - normalising imports, pairing ins with outs and recomputing work hours without breaks
+
+import type { AttendancePunch, PunchDirection, PunchPair, PunchTimeline, EmployeeRecord } from './types';
+import { groupBy } from './utils';
+import { PUNCH_CONFIG } from '../constants/config';
+
+const roundTo2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Terminal state codes: 0 check-in, 1 check-out, 2 break-out, 3 break-in, 4 overtime-in, 5 overtime-out
+const DIRECTION_ALIASES: Record<string, PunchDirection> = {
+  in: 'in', 'check-in': 'in', checkin: 'in', 'c/in': 'in', 'break-in': 'in', 'ot-in': 'in', '0': 'in', '3': 'in', '4': 'in',
+  out: 'out', 'check-out': 'out', checkout: 'out', 'c/out': 'out', 'break-out': 'out', 'ot-out': 'out', '1': 'out', '2': 'out', '5': 'out'
+};
+
+/**
+ * Read a device's direction value ("IN", "Check Out", state codes 0-5) - anything else is unknown
+ */
+export const parsePunchDirection = (value: unknown): PunchDirection =>
+  DIRECTION_ALIASES[String(value ?? '').trim().toLowerCase().replace(/\s+/g, '-')] || 'unknown';
+
+/**
+ * Identity of a punch - the same employee, time and device is the same punch (mirrors the unique constraint)
+ */
+export const getPunchKey = (punch: Pick<AttendancePunch, 'emp_code' | 'punch_time' | 'device_id'>): string =>
+  `${String(punch.emp_code).trim()}|${punch.punch_time}|${punch.device_id || ''}`;
+
+/**
+ * Day a punch belongs to (its device-local date)
+ */
+export const getPunchDate = (punch: Pick<AttendancePunch, 'punch_time'>): string => punch.punch_time.slice(0, 10);
+
+/**
+ * Time of day of a punch as HH:MM:SS
+ */
+export const getPunchClockTime = (punch: Pick<AttendancePunch, 'punch_time'>): string => {
+  const time = punch.punch_time.slice(11);
+  return time.length === 5 ? `${time}:00` : time.slice(0, 8);
+};
+
+const toSeconds = (punch: AttendancePunch): number =>
+  new Date(`${getPunchDate(punch)}T${getPunchClockTime(punch)}Z`).getTime() / 1000;
+
+/**
+ * Tidy an imported punch: trimmed code and device, seconds on the time, a known direction
+ */
+export const normalizePunch = (punch: AttendancePunch): AttendancePunch => ({
+  ...punch,
+  emp_code: String(punch.emp_code).trim(),
+  punch_time: `${punch.punch_time.slice(0, 10)}T${getPunchClockTime(punch)}`,
+  device_id: String(punch.device_id ?? '').trim(),
+  direction: parsePunchDirection(punch.direction)
+});
+
+/**
+ * Pair one employee's punches for a day.
+ *
+ * Punches are taken in time order and repeats within duplicateWindowSeconds are dropped. A punch
+ * with a reported direction is used as is; an unknown one closes the open pair if there is one and
+ * opens a new pair otherwise, so devices without directions alternate in, out, in, out.
+ */
+export const buildPunchTimeline = (empCode: string, date: string, punches: AttendancePunch[]): PunchTimeline => {
+  const sorted = punches
+    .filter(punch => String(punch.emp_code).trim() === String(empCode).trim() && getPunchDate(punch) === date)
+    .sort((a, b) => a.punch_time.localeCompare(b.punch_time));
+
+  const kept: AttendancePunch[] = [];
+  sorted.forEach(punch => {
+    const previous = kept[kept.length - 1];
+    const isRepeat = previous
+      && toSeconds(punch) - toSeconds(previous) < PUNCH_CONFIG.duplicateWindowSeconds
+      && (punch.direction === previous.direction || punch.direction === 'unknown');
+    if (!isRepeat) kept.push(punch);
+  });
+
+  const pairs: PunchPair[] = [];
+  let open: AttendancePunch | null = null;
+  kept.forEach(punch => {
+    const direction = punch.direction !== 'unknown' ? punch.direction : open ? 'out' : 'in';
+    if (direction === 'in') {
+      if (open) pairs.push({ in: open, out: null, hours: 0 });
+      open = punch;
+    } else if (open) {
+      pairs.push({ in: open, out: punch, hours: roundTo2((toSeconds(punch) - toSeconds(open)) / 3600) });
+      open = null;
+    } else {
+      pairs.push({ in: null, out: punch, hours: 0 });
+    }
+  });
+  if (open) pairs.push({ in: open, out: null, hours: 0 });
+
+  const complete = pairs.filter(pair => pair.in && pair.out);
+  const breakHours = complete.slice(1).reduce((sum, pair, index) =>
+    sum + Math.max(0, toSeconds(pair.in!) - toSeconds(complete[index].out!)) / 3600, 0);
+
+  return {
+    emp_code: String(empCode).trim(),
+    date,
+    punches: kept,
+    duplicates: sorted.length - kept.length,
+    pairs,
+    workHours: roundTo2(complete.reduce((sum, pair) => sum + pair.hours, 0)),
+    breakHours: roundTo2(breakHours),
+    unpaired: pairs.length - complete.length
+  };
+};
+
+/**
+ * Timelines for everyone with punches on a date, by emp_code
+ */
+export const buildDailyPunchTimelines = (date: string, punches: AttendancePunch[]): Record<string, PunchTimeline> => {
+  const byEmployee = groupBy(punches.filter(punch => getPunchDate(punch) === date), 'emp_code');
+  return Object.keys(byEmployee).reduce((timelines, empCode) => {
+    const timeline = buildPunchTimeline(empCode, date, byEmployee[empCode]);
+    timelines[timeline.emp_code] = timeline;
+    return timelines;
+  }, {} as Record<string, PunchTimeline>);
+};
+
+/**
+ * Recompute work hours from punches. Only synced, uncorrected records whose punches show a break
+ * (two or more complete pairs) change: work_hours becomes the paired time, so the breaks are not
+ * counted and the shift's lunch window is not deducted on top. A single in/out pair is the synced
+ * span already and keeps the usual lunch deduction.
+ */
+export const applyPunchTimelines = (records: EmployeeRecord[], timelines: Record<string, PunchTimeline>): EmployeeRecord[] =>
+  records.map(record => {
+    const timeline = timelines[String(record.emp_code).trim()];
+    if (!timeline || record.synthesized || record.correction) return record;
+    if (timeline.pairs.length - timeline.unpaired < 2) return record;
+    return {
+      ...record,
+      work_hours: timeline.workHours,
+      total_punches: timeline.punches.length,
+      break_hours: timeline.breakHours,
+      hours_from_punches: true
+    };
+  });
@@ -0,0 +1,55 @@
+// lib/repositories/httpRepository.ts
+// 🌐 Browser implementation of the attendance repository - every call goes through /api/repository
+
+import type { AttendanceRepository } from '../types';
+import { apiRequest } from '../auth';
+import { AUTH_CONFIG } from '../../constants/config';
+
+type RepositoryMethod = keyof AttendanceRepository;
+type RepositoryResult<M extends RepositoryMethod> = Awaited<ReturnType<AttendanceRepository[M]>>;
+
+/**
+ * Run a repository method on the server for the signed-in user
+ */
+const call = <M extends RepositoryMethod>(method: M, ...args: Parameters<AttendanceRepository[M]>): Promise<RepositoryResult<M>> =>
+  apiRequest<RepositoryResult<M>>(AUTH_CONFIG.repositoryEndpoint, {
+    method: 'POST',
+    body: JSON.stringify({ method, args })
+  });
+
+/**
+ * Create a repository that forwards to the API routes. The server checks the user's token
+ * and role on every call, so nothing here needs (or has) database credentials.
+ */
+export const createHttpRepository = (): AttendanceRepository => ({
+  getRecentDailySummaries: (limit) => call('getRecentDailySummaries', limit),
+  getDailySummariesInRange: (startDate, endDate) => call('getDailySummariesInRange', startDate, endDate),
+  getRecentWeeklySummaries: (limit) => call('getRecentWeeklySummaries', limit),
+  getMonthlySummaries: () => call('getMonthlySummaries'),
+  getSyncLogsInRange: (startDate, endDate) => call('getSyncLogsInRange', startDate, endDate),
+  getLatestSuccessfulSync: () => call('getLatestSuccessfulSync'),
+  getPunchesByDate: (date) => call('getPunchesByDate', date),
+  savePunches: (punches) => call('savePunches', punches),
+  saveEmployeeRecords: (records) => call('saveEmployeeRecords', records),
+  getEmployeeRecordsByDate: (date) => call('getEmployeeRecordsByDate', date),
+  getEmployeeRecordsInRange: (startDate, endDate, empCodes) => call('getEmployeeRecordsInRange', startDate, endDate, empCodes),
+  getEmployeeMonthlyRecords: (empCode, startDate, endDate) => call('getEmployeeMonthlyRecords', empCode, startDate, endDate),
+  getEmployeeIndex: () => call('getEmployeeIndex'),
+  getActiveEmployees: () => call('getActiveEmployees'),
+  getEmployees: () => call('getEmployees'),
+  saveEmployee: (employee) => call('saveEmployee', employee),
+  getShiftAssignments: () => call('getShiftAssignments'),
+  getHolidays: () => call('getHolidays'),
+  saveHolidays: (holidays) => call('saveHolidays', holidays),
+  deleteHoliday: (id) => call('deleteHoliday', id),
+  getLeaveRequests: () => call('getLeaveRequests'),
+  saveLeaveRequest: (request) => call('saveLeaveRequest', request),
+  updateLeaveRequestStatus: (id, status) => call('updateLeaveRequestStatus', id, status),
+  getLeaveBalances: (year) => call('getLeaveBalances', year),
+  saveLeaveBalance: (balance) => call('saveLeaveBalance', balance),
+  getCorrections: () => call('getCorrections'),
+  saveCorrection: (correction) => call('saveCorrection', correction),
+  reviewCorrection: (id, status, reviewedBy, note) => call('reviewCorrection', id, status, reviewedBy, note),
+  getUserProfile: (userId) => call('getUserProfile', userId),
+  getUserProfiles: () => call('getUserProfiles'),
+});
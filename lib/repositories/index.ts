@@ -0,0 +1,27 @@
+// lib/repositories/index.ts
+// 🔌 Repository selection for the browser - data is served by the API routes, scoped to the signed-in user
+
+import type { AttendanceRepository } from '../types';
+import { createHttpRepository } from './httpRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+export { createHttpRepository, createMemoryRepository };
+
+let activeRepository: AttendanceRepository | null = null;
+
+/**
+ * Get the active repository (the API-backed one unless another was set)
+ */
+export const getRepository = (): AttendanceRepository => {
+  if (!activeRepository) {
+    activeRepository = createHttpRepository();
+  }
+  return activeRepository;
+};
+
+/**
+ * Replace the active repository (e.g. with a fixture-backed one in tests or demos)
+ */
+export const setRepository = (repository: AttendanceRepository | null): void => {
+  activeRepository = repository;
+};
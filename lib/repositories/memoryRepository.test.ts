@@ -0,0 +1,31 @@
+// lib/repositories/memoryRepository.test.ts
+// 🧪 In-memory adapter - record imports and range reads
+
+import { describe, expect, it } from 'vitest';
+import type { AttendanceFixtures } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import fixtures from '../fixtures/attendance.json';
+
+describe('saveEmployeeRecords', () => {
+  it('adds new days and leaves days that already have a record alone', async () => {
+    const repository = createMemoryRepository(fixtures as AttendanceFixtures);
+    const saved = await repository.saveEmployeeRecords([
+      { emp_code: '3', name: 'Ahmed Khalil', date: '2025-06-02', check_in: '08:00', status: 'Present' },
+      { emp_code: '3', name: 'Ahmed Khalil', date: '2025-06-30', check_in: '09:00', status: 'Present' }
+    ]);
+
+    expect(saved.map(record => record.date)).toEqual(['2025-06-30']);
+    const [existing] = await repository.getEmployeeRecordsInRange('2025-06-02', '2025-06-02', ['3']);
+    expect(existing.check_in).toBe('09:01:41');
+  });
+});
+
+describe('getEmployeeRecordsInRange', () => {
+  it('filters by employee code when codes are given', async () => {
+    const repository = createMemoryRepository(fixtures as AttendanceFixtures);
+    const records = await repository.getEmployeeRecordsInRange('2025-06-01', '2025-06-30', ['7', '9']);
+
+    expect(new Set(records.map(record => record.emp_code))).toEqual(new Set(['7', '9']));
+    expect(records.every(record => record.date >= '2025-06-01' && record.date <= '2025-06-30')).toBe(true);
+  });
+});
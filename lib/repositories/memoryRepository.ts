@@ -0,0 +1,250 @@
+// lib/repositories/memoryRepository.ts
+// 🧪 In-memory implementation of the attendance repository, seeded from JSON fixtures
+
+import type { AttendanceRepository, AttendanceFixtures, EmployeeRecord } from '../types';
+import { QUERY_LIMITS } from '../supabase';
+import { deepClone } from '../utils';
+import { getHolidayKey } from '../holidays';
+import { isSuccessfulSync } from '../syncStatus';
+import { getPunchDate, getPunchKey } from '../punches';
+
+/**
+ * Order records by check-in time with missing check-ins last (mirrors the Supabase query)
+ */
+const byCheckIn = (a: EmployeeRecord, b: EmployeeRecord): number => {
+  if (!a.check_in) return b.check_in ? 1 : 0;
+  if (!b.check_in) return -1;
+  return a.check_in.localeCompare(b.check_in);
+};
+
+const inRange = (date: string, startDate: string, endDate: string): boolean =>
+  date >= startDate && date <= endDate;
+
+/**
+ * Create a repository that serves the given fixtures from memory.
+ * Results are cloned so callers can never mutate the backing data.
+ */
+export const createMemoryRepository = (fixtures: AttendanceFixtures = {}): AttendanceRepository => {
+  const store = {
+    employees: deepClone(fixtures.employees || []),
+    dailySummaries: fixtures.daily_summaries || [],
+    weeklySummaries: fixtures.weekly_summaries || [],
+    monthlySummaries: fixtures.monthly_summaries || [],
+    syncLogs: fixtures.sync_logs || [],
+    employeeRecords: deepClone(fixtures.daily_employee_records || []),
+    punches: deepClone(fixtures.attendance_punches || []),
+    shiftAssignments: fixtures.shift_assignments || [],
+    holidays: deepClone(fixtures.holidays || []),
+    leaveRequests: deepClone(fixtures.leave_requests || []),
+    leaveBalances: deepClone(fixtures.leave_balances || []),
+    corrections: deepClone(fixtures.attendance_corrections || []),
+    userProfiles: fixtures.user_profiles || []
+  };
+
+  const nextId = (rows: Array<{ id?: number }>): number =>
+    rows.reduce((max, row) => Math.max(max, row.id || 0), 0) + 1;
+
+  const respond = async <T>(data: T): Promise<T> => deepClone(data);
+
+  return {
+    getRecentDailySummaries: (limit = QUERY_LIMITS.DAILY_SUMMARIES) =>
+      respond([...store.dailySummaries]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, limit)),
+
+    getDailySummariesInRange: (startDate, endDate) =>
+      respond(store.dailySummaries
+        .filter(summary => inRange(summary.date, startDate, endDate))
+        .sort((a, b) => b.date.localeCompare(a.date))),
+
+    getRecentWeeklySummaries: (limit = QUERY_LIMITS.WEEKLY_SUMMARIES) =>
+      respond([...store.weeklySummaries]
+        .sort((a, b) => b.week_start.localeCompare(a.week_start))
+        .slice(0, limit)),
+
+    getMonthlySummaries: () =>
+      respond([...store.monthlySummaries]
+        .sort((a, b) => a.year - b.year || a.month - b.month)),
+
+    getSyncLogsInRange: (startDate, endDate) =>
+      respond(store.syncLogs
+        .filter(log => inRange(log.sync_date.slice(0, 10), startDate, endDate))
+        .sort((a, b) => String(b.created_at || '').localeCompare(String(a.created_at || '')))),
+
+    getLatestSuccessfulSync: () =>
+      respond([...store.syncLogs]
+        .filter(isSuccessfulSync)
+        .sort((a, b) => String(b.created_at || '').localeCompare(String(a.created_at || '')))[0] || null),
+
+    getPunchesByDate: (date) =>
+      respond(store.punches
+        .filter(punch => getPunchDate(punch) === date)
+        .sort((a, b) => a.punch_time.localeCompare(b.punch_time))),
+
+    savePunches: (punches) => {
+      // Upsert on (emp_code, punch_time, device_id) like the Supabase unique constraint
+      const saved = punches.map(punch => {
+        const existing = store.punches.find(p => getPunchKey(p) === getPunchKey(punch));
+        if (existing) {
+          Object.assign(existing, punch, { id: existing.id });
+          return existing;
+        }
+        const created = { ...punch, id: nextId(store.punches), created_at: new Date().toISOString() };
+        store.punches.push(created);
+        return created;
+      });
+      return respond(saved);
+    },
+
+    saveEmployeeRecords: (records) => {
+      // Like the Supabase adapter: a day that already has a record is left alone
+      const getRecordKey = (record: EmployeeRecord) => `${String(record.emp_code).trim()}|${record.date}`;
+      const created = records
+        .filter(record => !store.employeeRecords.some(r => getRecordKey(r) === getRecordKey(record)))
+        .map(record => {
+          const row = { ...record, id: nextId(store.employeeRecords), created_at: new Date().toISOString() };
+          store.employeeRecords.push(row);
+          return row;
+        });
+      return respond(created);
+    },
+
+    getEmployeeRecordsByDate: (date) =>
+      respond(store.employeeRecords
+        .filter(record => record.date === date)
+        .sort(byCheckIn)),
+
+    getEmployeeRecordsInRange: (startDate, endDate, empCodes) =>
+      respond(store.employeeRecords
+        .filter(record => inRange(record.date, startDate, endDate))
+        .filter(record => !empCodes || empCodes.includes(String(record.emp_code).trim()))
+        .sort((a, b) => String(a.emp_code).localeCompare(String(b.emp_code)) || a.date.localeCompare(b.date))),
+
+    getEmployeeMonthlyRecords: (empCode, startDate, endDate) =>
+      respond(store.employeeRecords
+        .filter(record => String(record.emp_code).trim() === empCode && inRange(record.date, startDate, endDate))
+        .sort((a, b) => a.date.localeCompare(b.date))),
+
+    getEmployeeIndex: () =>
+      respond([...store.employeeRecords]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map(({ emp_code, name, date }) => ({ emp_code, name, date }))),
+
+    getActiveEmployees: () =>
+      respond(store.employees
+        .filter(employee => employee.is_active)
+        .sort((a, b) => a.name.localeCompare(b.name))),
+
+    getEmployees: () =>
+      respond([...store.employees].sort((a, b) => a.name.localeCompare(b.name))),
+
+    saveEmployee: async (employee) => {
+      // Upsert on emp_code like the Supabase primary key
+      const now = new Date().toISOString();
+      const existing = store.employees.find(e => String(e.emp_code).trim() === String(employee.emp_code).trim());
+      if (existing) {
+        Object.assign(existing, employee, { created_at: existing.created_at, updated_at: now });
+        return respond(existing);
+      }
+      const created = { ...employee, created_at: now, updated_at: now };
+      store.employees.push(created);
+      return respond(created);
+    },
+
+    getShiftAssignments: () =>
+      respond([...store.shiftAssignments]
+        .sort((a, b) => a.effective_from.localeCompare(b.effective_from))),
+
+    getHolidays: () =>
+      respond([...store.holidays].sort((a, b) => a.date.localeCompare(b.date))),
+
+    saveHolidays: (holidays) => {
+      // Upsert on (date, department) like the Supabase unique constraint
+      const saved = holidays.map(holiday => {
+        const existing = store.holidays.find(h => getHolidayKey(h) === getHolidayKey(holiday));
+        if (existing) {
+          Object.assign(existing, holiday, { id: existing.id });
+          return existing;
+        }
+        const created = { ...holiday, id: nextId(store.holidays), created_at: new Date().toISOString() };
+        store.holidays.push(created);
+        return created;
+      });
+      return respond(saved);
+    },
+
+    deleteHoliday: async (id) => {
+      store.holidays = store.holidays.filter(holiday => holiday.id !== id);
+    },
+
+    getLeaveRequests: () =>
+      respond([...store.leaveRequests].sort((a, b) => b.start_date.localeCompare(a.start_date))),
+
+    saveLeaveRequest: async (request) => {
+      const existing = request.id != null ? store.leaveRequests.find(r => r.id === request.id) : undefined;
+      if (existing) {
+        Object.assign(existing, request);
+        return respond(existing);
+      }
+      const created = { ...request, id: nextId(store.leaveRequests), created_at: new Date().toISOString() };
+      store.leaveRequests.push(created);
+      return respond(created);
+    },
+
+    updateLeaveRequestStatus: async (id, status) => {
+      const request = store.leaveRequests.find(r => r.id === id);
+      if (!request) throw new Error(`Leave request ${id} not found`);
+      Object.assign(request, { status, decided_at: new Date().toISOString() });
+      return respond(request);
+    },
+
+    getLeaveBalances: (year) =>
+      respond(store.leaveBalances.filter(balance => balance.year === year)),
+
+    saveLeaveBalance: async (balance) => {
+      // Upsert on (emp_code, leave_type, year) like the Supabase unique constraint
+      const existing = store.leaveBalances.find(b =>
+        b.emp_code === balance.emp_code && b.leave_type === balance.leave_type && b.year === balance.year
+      );
+      if (existing) {
+        Object.assign(existing, balance, { id: existing.id });
+        return respond(existing);
+      }
+      const created = { ...balance, id: nextId(store.leaveBalances), created_at: new Date().toISOString() };
+      store.leaveBalances.push(created);
+      return respond(created);
+    },
+
+    getCorrections: () =>
+      respond([...store.corrections].sort((a, b) => b.date.localeCompare(a.date))),
+
+    saveCorrection: async (correction) => {
+      const existing = correction.id != null ? store.corrections.find(c => c.id === correction.id) : undefined;
+      if (existing) {
+        Object.assign(existing, correction);
+        return respond(existing);
+      }
+      const created = { ...correction, id: nextId(store.corrections), created_at: new Date().toISOString() };
+      store.corrections.push(created);
+      return respond(created);
+    },
+
+    reviewCorrection: async (id, status, reviewedBy, note) => {
+      const correction = store.corrections.find(c => c.id === id);
+      if (!correction) throw new Error(`Correction ${id} not found`);
+      Object.assign(correction, {
+        status,
+        reviewed_by: reviewedBy,
+        reviewed_at: new Date().toISOString(),
+        review_note: note || null
+      });
+      return respond(correction);
+    },
+
+    getUserProfile: (userId) =>
+      respond(store.userProfiles.find(profile => profile.id === userId) || null),
+
+    getUserProfiles: () =>
+      respond([...store.userProfiles].sort((a, b) => a.name.localeCompare(b.name))),
+  };
+};
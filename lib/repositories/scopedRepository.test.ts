@@ -0,0 +1,98 @@
+// lib/repositories/scopedRepository.test.ts
+// 🧪 Role scoping - what each kind of user can read and change, run against the fixtures
+
+import { describe, expect, it } from 'vitest';
+import type { AttendanceFixtures, UserProfile } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import { createScopedRepository } from './scopedRepository';
+import fixtures from '../fixtures/attendance.json';
+
+const profiles = (fixtures as AttendanceFixtures).user_profiles as UserProfile[];
+const profile = (role: UserProfile['role']): UserProfile => profiles.find(p => p.role === role)!;
+const apiClient: UserProfile = { id: 'api', email: '', name: 'API client', role: 'api' };
+
+// A fresh store for every test, so writes never leak between them
+const scoped = (user: UserProfile) => createScopedRepository(createMemoryRepository(fixtures as AttendanceFixtures), user);
+
+const codes = (rows: Array<{ emp_code: string }>) => Array.from(new Set(rows.map(row => String(row.emp_code)))).sort();
+
+const expectForbidden = (promise: Promise<unknown>) => expect(promise).rejects.toMatchObject({ status: 403 });
+
+describe('reads', () => {
+  it('gives admins and HR everyone', async () => {
+    expect(codes(await scoped(profile('admin')).getEmployees())).toHaveLength(9);
+    expect(codes(await scoped(profile('hr')).getEmployees())).toHaveLength(9);
+  });
+
+  it('limits managers to their department and their reporting line', async () => {
+    const repository = scoped(profile('manager'));
+    // 18 (Support) reports to the manager, and 14 reports to 18
+    expect(codes(await repository.getEmployees())).toEqual(['14', '18', '3', '7']);
+    expect(codes(await repository.getEmployeeRecordsInRange('2025-06-01', '2025-06-30'))).toEqual(['14', '18', '3', '7']);
+    await expectForbidden(repository.getEmployeeMonthlyRecords('9', '2025-06-01', '2025-06-30'));
+  });
+
+  it('limits employees to themselves and hides company summaries', async () => {
+    const repository = scoped(profile('employee'));
+    expect(codes(await repository.getEmployees())).toEqual(['7']);
+    expect(codes(await repository.getLeaveRequests())).toEqual(['7']);
+    expect(await repository.getRecentDailySummaries(10)).toEqual([]);
+    expect(await repository.getSyncLogsInRange('2025-06-01', '2025-06-30')).toEqual([]);
+  });
+});
+
+describe('leave requests', () => {
+  it('files new requests as pending whatever status is sent', async () => {
+    const saved = await scoped(profile('employee')).saveLeaveRequest({
+      emp_code: '7', leave_type: 'annual', start_date: '2025-07-01', end_date: '2025-07-01', status: 'approved'
+    });
+    expect(saved.status).toBe('pending');
+  });
+
+  it('stops employees filing for someone else', async () => {
+    await expectForbidden(scoped(profile('employee')).saveLeaveRequest({
+      emp_code: '3', leave_type: 'annual', start_date: '2025-07-01', end_date: '2025-07-01', status: 'pending'
+    }));
+  });
+
+  it('stops reviewers deciding their own requests', async () => {
+    await expectForbidden(scoped(profile('manager')).updateLeaveRequestStatus(3, 'rejected'));
+    await expectForbidden(scoped(profile('hr')).updateLeaveRequestStatus(2, 'rejected'));
+    expect((await scoped(profile('manager')).updateLeaveRequestStatus(1, 'rejected')).status).toBe('rejected');
+  });
+
+  it('keeps the stored employee and reopens a decided request whose dates change', async () => {
+    const repository = scoped(profile('hr'));
+    const [request] = (await repository.getLeaveRequests()).filter(r => r.id === 1);
+
+    await expectForbidden(repository.saveLeaveRequest({ ...request, emp_code: '9' }));
+    const edited = await repository.saveLeaveRequest({ ...request, end_date: '2025-06-18' });
+    expect(edited).toMatchObject({ emp_code: '7', status: 'pending', decided_at: null });
+    const [decided] = (await repository.getLeaveRequests()).filter(r => r.id === 5);
+    const reworded = await repository.saveLeaveRequest({ ...decided, reason: 'Moved' });
+    expect(reworded).toMatchObject({ status: 'rejected', decided_at: '2025-06-10T08:00:00Z' });
+  });
+});
+
+describe('corrections', () => {
+  it('takes the reviewer name from the profile', async () => {
+    const reviewed = await scoped(profile('hr')).reviewCorrection(2, 'approved', 'Someone Else');
+    expect(reviewed.reviewed_by).toBe('Nadia Farouk');
+  });
+
+  it('stops employees reviewing', async () => {
+    await expectForbidden(scoped(profile('employee')).reviewCorrection(2, 'approved', 'Sara Mansour'));
+  });
+});
+
+describe('API client', () => {
+  it('reads everything and writes nothing', async () => {
+    const repository = scoped(apiClient);
+    expect(codes(await repository.getEmployees())).toHaveLength(9);
+    await expectForbidden(repository.saveLeaveRequest({
+      emp_code: '7', leave_type: 'annual', start_date: '2025-07-01', end_date: '2025-07-01', status: 'pending'
+    }));
+    await expectForbidden(repository.updateLeaveRequestStatus(4, 'approved'));
+    await expectForbidden(repository.saveEmployeeRecords([]));
+  });
+});
@@ -0,0 +1,225 @@
+// lib/repositories/scopedRepository.ts
+// 🔐 Repository wrapper that limits reads and writes to what the signed-in user's role allows
+
+import type { AttendanceRepository, UserProfile } from '../types';
+import { getRoleDefinition, getVisibleEmployeeCodes, canAccessEmployee, filterByEmployee } from '../access';
+import { createHttpError } from '../utils';
+import { ERROR_MESSAGES } from '../../constants/config';
+
+const forbidden = () => createHttpError(ERROR_MESSAGES.unauthorized, 403);
+
+/**
+ * Wrap a repository for one user. Managers only see their department and employees only
+ * see themselves; approvals, balances and holidays need the matching role permission.
+ * Reviewer names are taken from the profile, never from the caller, and nobody reviews
+ * their own requests. Statuses only change through the review calls.
+ */
+export const createScopedRepository = (repository: AttendanceRepository, profile: UserProfile): AttendanceRepository => {
+  const role = getRoleDefinition(profile.role);
+  const ownCode = String(profile.emp_code || '').trim();
+
+  // Resolved once per wrapper - each API request builds a new one
+  let visibleCodes: Promise<Set<string> | null> | null = null;
+  const getVisible = (): Promise<Set<string> | null> => {
+    if (!visibleCodes) {
+      visibleCodes = role.scope === 'all'
+        ? Promise.resolve(null)
+        : repository.getActiveEmployees().then(employees => getVisibleEmployeeCodes(profile, employees));
+    }
+    return visibleCodes;
+  };
+
+  const assertEmployee = async (empCode: string): Promise<void> => {
+    if (!canAccessEmployee(empCode, await getVisible())) throw forbidden();
+  };
+
+  const assert = (allowed: boolean): void => {
+    if (!allowed) throw forbidden();
+  };
+
+  const findLeaveRequest = async (id: number) => {
+    const request = (await repository.getLeaveRequests()).find(r => r.id === id);
+    if (!request) throw createHttpError(`Leave request ${id} not found`, 404);
+    await assertEmployee(request.emp_code);
+    return request;
+  };
+
+  const findCorrection = async (id: number) => {
+    const correction = (await repository.getCorrections()).find(c => c.id === id);
+    if (!correction) throw createHttpError(`Correction ${id} not found`, 404);
+    await assertEmployee(correction.emp_code);
+    return correction;
+  };
+
+  const isOwn = (empCode: string): boolean => ownCode !== '' && String(empCode).trim() === ownCode;
+  const isSameEmployee = (a: string, b: string): boolean => String(a).trim() === String(b).trim();
+
+  return {
+    // Summaries are company-wide totals, so they are hidden from employees
+    getRecentDailySummaries: async (limit) =>
+      role.scope === 'self' ? [] : repository.getRecentDailySummaries(limit),
+
+    getDailySummariesInRange: async (startDate, endDate) =>
+      role.scope === 'self' ? [] : repository.getDailySummariesInRange(startDate, endDate),
+
+    getRecentWeeklySummaries: async (limit) =>
+      role.scope === 'self' ? [] : repository.getRecentWeeklySummaries(limit),
+
+    getMonthlySummaries: async () =>
+      role.scope === 'self' ? [] : repository.getMonthlySummaries(),
+
+    // Sync runs are operational detail for the people who can see the sync status tab
+    getSyncLogsInRange: async (startDate, endDate) =>
+      role.tabs.includes('sync') ? repository.getSyncLogsInRange(startDate, endDate) : [],
+
+    getLatestSuccessfulSync: async () =>
+      role.tabs.includes('sync') ? repository.getLatestSuccessfulSync() : null,
+
+    getPunchesByDate: async (date) =>
+      filterByEmployee(await repository.getPunchesByDate(date), await getVisible()),
+
+    savePunches: async (punches) => {
+      assert(role.canImportPunches);
+      return repository.savePunches(punches);
+    },
+
+    // Records are written by the sync service; people only add them by importing device logs
+    saveEmployeeRecords: async (records) => {
+      assert(role.canImportPunches);
+      return repository.saveEmployeeRecords(records);
+    },
+
+    getEmployeeRecordsByDate: async (date) =>
+      filterByEmployee(await repository.getEmployeeRecordsByDate(date), await getVisible()),
+
+    getEmployeeRecordsInRange: async (startDate, endDate, empCodes) =>
+      filterByEmployee(await repository.getEmployeeRecordsInRange(startDate, endDate, empCodes), await getVisible()),
+
+    getEmployeeMonthlyRecords: async (empCode, startDate, endDate) => {
+      await assertEmployee(empCode);
+      return repository.getEmployeeMonthlyRecords(empCode, startDate, endDate);
+    },
+
+    getEmployeeIndex: async () =>
+      filterByEmployee(await repository.getEmployeeIndex(), await getVisible()),
+
+    getActiveEmployees: async () =>
+      filterByEmployee(await repository.getActiveEmployees(), await getVisible()),
+
+    getEmployees: async () =>
+      filterByEmployee(await repository.getEmployees(), await getVisible()),
+
+    saveEmployee: async (employee) => {
+      assert(role.canManageEmployees);
+      return repository.saveEmployee(employee);
+    },
+
+    // Department-wide assignments (no emp_code) stay visible so shifts still resolve
+    getShiftAssignments: async () => {
+      const visible = await getVisible();
+      return (await repository.getShiftAssignments())
+        .filter(assignment => !assignment.emp_code || canAccessEmployee(assignment.emp_code, visible));
+    },
+
+    getHolidays: () => repository.getHolidays(),
+
+    saveHolidays: async (holidays) => {
+      assert(role.canManageHolidays);
+      return repository.saveHolidays(holidays);
+    },
+
+    deleteHoliday: async (id) => {
+      assert(role.canManageHolidays);
+      return repository.deleteHoliday(id);
+    },
+
+    getLeaveRequests: async () =>
+      filterByEmployee(await repository.getLeaveRequests(), await getVisible()),
+
+    // New requests are always filed as pending. Only reviewers edit stored requests: the
+    // employee and status stay as stored (their own only while pending), and a decided
+    // request whose dates or type change goes back to pending for a fresh decision
+    saveLeaveRequest: async (request) => {
+      assert(!role.readOnly);
+      await assertEmployee(request.emp_code);
+      if (request.id == null) return repository.saveLeaveRequest({ ...request, status: 'pending' });
+      assert(role.canReviewLeave);
+      const stored = await findLeaveRequest(request.id);
+      assert(isSameEmployee(request.emp_code, stored.emp_code) && request.status === stored.status);
+      assert(!isOwn(stored.emp_code) || stored.status === 'pending');
+      const changed = request.start_date !== stored.start_date || request.end_date !== stored.end_date ||
+        request.leave_type !== stored.leave_type || !!request.half_day_start !== !!stored.half_day_start ||
+        !!request.half_day_end !== !!stored.half_day_end;
+      return repository.saveLeaveRequest(changed
+        ? { ...request, emp_code: stored.emp_code, status: 'pending', decided_at: null }
+        : { ...request, emp_code: stored.emp_code, decided_at: stored.decided_at });
+    },
+
+    // Reviewers decide other people's requests; anyone may only cancel their own
+    updateLeaveRequestStatus: async (id, status) => {
+      const request = await findLeaveRequest(id);
+      if (!role.canReviewLeave || isOwn(request.emp_code)) {
+        assert(status === 'cancelled' && isOwn(request.emp_code));
+      }
+      return repository.updateLeaveRequestStatus(id, status);
+    },
+
+    getLeaveBalances: async (year) =>
+      filterByEmployee(await repository.getLeaveBalances(year), await getVisible()),
+
+    saveLeaveBalance: async (balance) => {
+      assert(role.canManageBalances);
+      await assertEmployee(balance.emp_code);
+      return repository.saveLeaveBalance(balance);
+    },
+
+    getCorrections: async () =>
+      filterByEmployee(await repository.getCorrections(), await getVisible()),
+
+    // Same rules as leave requests; the review fields come from the stored row, or are
+    // cleared when a decided correction's date or times change
+    saveCorrection: async (correction) => {
+      assert(!role.readOnly);
+      await assertEmployee(correction.emp_code);
+      if (correction.id == null) {
+        const requestedBy = role.canReviewCorrections && !isOwn(correction.emp_code)
+          ? correction.requested_by || profile.name
+          : profile.name;
+        return repository.saveCorrection({ ...correction, status: 'pending', requested_by: requestedBy });
+      }
+      assert(role.canReviewCorrections);
+      const stored = await findCorrection(correction.id);
+      assert(isSameEmployee(correction.emp_code, stored.emp_code) && correction.status === stored.status);
+      assert(!isOwn(stored.emp_code) || stored.status === 'pending');
+      const changed = correction.date !== stored.date ||
+        (correction.check_in || null) !== (stored.check_in || null) ||
+        (correction.check_out || null) !== (stored.check_out || null);
+      const review = changed
+        ? { status: 'pending' as const, reviewed_by: null, reviewed_at: null, review_note: null }
+        : { reviewed_by: stored.reviewed_by, reviewed_at: stored.reviewed_at, review_note: stored.review_note };
+      return repository.saveCorrection({
+        ...correction,
+        ...review,
+        emp_code: stored.emp_code,
+        requested_by: stored.requested_by
+      });
+    },
+
+    reviewCorrection: async (id, status, _reviewedBy, note) => {
+      assert(role.canReviewCorrections);
+      const correction = await findCorrection(id);
+      assert(!isOwn(correction.emp_code));
+      return repository.reviewCorrection(id, status, profile.name, note);
+    },
+
+    getUserProfile: async (userId) => {
+      assert(userId === profile.id || role.scope === 'all');
+      return repository.getUserProfile(userId);
+    },
+
+    getUserProfiles: async () => {
+      assert(role.scope === 'all');
+      return repository.getUserProfiles();
+    },
+  };
+};
@@ -0,0 +1,23 @@
+// lib/repositories/server.ts
+// 🗄️ Server-side repository selection - the only place the Supabase adapter and the fixtures are loaded
+
+import type { AttendanceRepository, AttendanceFixtures } from '../types';
+import { DATA_SOURCE_CONFIG } from '../../constants/config';
+import { supabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+import attendanceFixtures from '../fixtures/attendance.json';
+
+let serverRepository: AttendanceRepository | null = null;
+
+/**
+ * Get the unscoped repository for the configured data source (created once per server process).
+ * API routes wrap it with createScopedRepository before running anything for a user.
+ */
+export const getServerRepository = (): AttendanceRepository => {
+  if (!serverRepository) {
+    serverRepository = DATA_SOURCE_CONFIG.source === 'memory'
+      ? createMemoryRepository(attendanceFixtures as AttendanceFixtures)
+      : supabaseRepository;
+  }
+  return serverRepository;
+};
@@ -0,0 +1,244 @@
+// lib/repositories/supabaseRepository.ts
+// 🗄️ Supabase-backed implementation of the attendance repository
+
+import type {
+  AttendanceRepository,
+  DailySummary,
+  WeeklySummary,
+  MonthlySummary,
+  SyncLog,
+  AttendancePunch,
+  EmployeeRecord,
+  EmployeeIndexEntry,
+  Employee,
+  ShiftAssignment,
+  Holiday,
+  LeaveRequest,
+  LeaveBalance,
+  AttendanceCorrection,
+  UserProfile
+} from '../types';
+import { commonQueries, createQuery } from '../supabase';
+import { DATA_SOURCE_CONFIG, SYNC_STATUS_CONFIG } from '../../constants/config';
+
+/**
+ * Unwrap a Supabase response, throwing the error so callers can use try/catch
+ */
+const unwrap = <T>(response: { data: T[] | null; error: any }): T[] => {
+  if (response.error) throw response.error;
+  return response.data || [];
+};
+
+/**
+ * Page through a query in DATA_SOURCE_CONFIG.pageSize steps to get past the 1000 row
+ * response limit. The query needs an order that is unique per row, or pages can overlap.
+ * A page shorter than pageSize is the last one, so pageSize must not be above the
+ * project's max rows setting
+ */
+const fetchAllPages = async <T>(
+  query: (rangeStart: number, rangeEnd: number) => PromiseLike<{ data: T[] | null; error: any }>
+): Promise<T[]> => {
+  const pageSize = DATA_SOURCE_CONFIG.pageSize;
+  const rows: T[] = [];
+
+  while (true) {
+    const batch = unwrap<T>(await query(rows.length, rows.length + pageSize - 1));
+    rows.push(...batch);
+    if (batch.length < pageSize) break;
+  }
+
+  return rows;
+};
+
+// emp_code is stored as text in some rows and as a number in others, so match both spellings
+const getCodeVariants = (empCodes: string[]): string[] =>
+  Array.from(new Set(empCodes.flatMap(code => [code, String(parseInt(code, 10) || code)])));
+
+// A month of a large company is well past one response, so this one is paged
+const getRecordsInRange = (startDate: string, endDate: string, empCodes?: string[]): Promise<EmployeeRecord[]> =>
+  fetchAllPages<EmployeeRecord>((rangeStart, rangeEnd) => {
+    const query = commonQueries.getWeeklyEmployeeData(startDate, endDate);
+    return (empCodes ? query.in('emp_code', getCodeVariants(empCodes)) : query).range(rangeStart, rangeEnd);
+  });
+
+const getRecordKey = (record: Pick<EmployeeRecord, 'emp_code' | 'date'>): string =>
+  `${String(record.emp_code).trim()}|${record.date}`;
+
+export const supabaseRepository: AttendanceRepository = {
+  getRecentDailySummaries: async (limit) =>
+    unwrap<DailySummary>(await commonQueries.getRecentDailySummaries(limit)),
+
+  getDailySummariesInRange: async (startDate, endDate) =>
+    unwrap<DailySummary>(await commonQueries.getDailySummariesInRange(startDate, endDate)),
+
+  getRecentWeeklySummaries: async (limit) =>
+    unwrap<WeeklySummary>(await commonQueries.getRecentWeeklySummaries(limit)),
+
+  getMonthlySummaries: async () =>
+    unwrap<MonthlySummary>(await commonQueries.getMonthlySummaries()),
+
+  getSyncLogsInRange: async (startDate, endDate) =>
+    unwrap<SyncLog>(await commonQueries.getSyncLogsInRange(startDate, endDate)),
+
+  getLatestSuccessfulSync: async () =>
+    unwrap<SyncLog>(await createQuery.syncLogs()
+      .select('*')
+      // ilike so the match ignores case, like isSuccessfulSync
+      .or(SYNC_STATUS_CONFIG.successStatuses.map(status => `status.ilike.${status}`).join(','))
+      .order('created_at', { ascending: false })
+      .limit(1))[0] || null,
+
+  getPunchesByDate: async (date) =>
+    unwrap<AttendancePunch>(await commonQueries.getPunchesByDate(date)),
+
+  savePunches: async (punches) =>
+    // Upsert on (emp_code, punch_time, device_id) so re-importing a device file adds nothing twice
+    unwrap<AttendancePunch>(await createQuery.attendancePunches()
+      .upsert(punches, { onConflict: 'emp_code,punch_time,device_id' })
+      .select()),
+
+  saveEmployeeRecords: async (records) => {
+    // Days that already have a record are skipped, so an import never adds a second record
+    // for a day or overwrites a synced one. Only new rows come back
+    if (records.length === 0) return [];
+    const dates = records.map(record => record.date).sort();
+    const empCodes = Array.from(new Set(records.map(record => String(record.emp_code).trim())));
+    const existing = new Set((await getRecordsInRange(dates[0], dates[dates.length - 1], empCodes)).map(getRecordKey));
+    const inserts = records.filter(record => !existing.has(getRecordKey(record)));
+    if (inserts.length === 0) return [];
+
+    return unwrap<EmployeeRecord>(await createQuery.employeeRecords()
+      .insert(inserts)
+      .select());
+  },
+
+  getEmployeeRecordsByDate: async (date) =>
+    unwrap<EmployeeRecord>(await createQuery.employeeRecords()
+      .select('emp_code, name, date, check_in, check_out, work_hours, time_category, status, total_punches')
+      .eq('date', date)
+      .order('check_in', { ascending: true })),
+
+  getEmployeeRecordsInRange: getRecordsInRange,
+
+  getEmployeeMonthlyRecords: async (empCode, startDate, endDate) =>
+    // emp_code is stored as text in some rows and as a number in others, so match both
+    unwrap<EmployeeRecord>(await createQuery.employeeRecords()
+      .select('*')
+      .or(`emp_code.eq.${empCode},emp_code.eq.${parseInt(empCode, 10) || empCode}`)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true })),
+
+  // Every record, most recent first so the latest spelling of each name wins
+  getEmployeeIndex: () =>
+    fetchAllPages<EmployeeIndexEntry>((rangeStart, rangeEnd) => createQuery.employeeRecords()
+      .select('emp_code, name, date')
+      .order('date', { ascending: false })
+      .order('emp_code', { ascending: true })
+      .range(rangeStart, rangeEnd)),
+
+  getActiveEmployees: async () =>
+    unwrap<Employee>(await commonQueries.getActiveEmployees()),
+
+  getEmployees: async () =>
+    unwrap<Employee>(await createQuery.employees()
+      .select('*')
+      .order('name', { ascending: true })),
+
+  // Keyed by emp_code, so saving an existing code updates it. Cleared optional fields are
+  // sent as null - JSON drops undefined, which would keep the old value
+  saveEmployee: async ({ created_at, ...employee }) =>
+    unwrap<Employee>(await createQuery.employees()
+      .upsert({
+        ...employee,
+        department: employee.department ?? null,
+        position: employee.position ?? null,
+        hire_date: employee.hire_date ?? null,
+        manager_code: employee.manager_code ?? null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'emp_code' })
+      .select())[0],
+
+  getShiftAssignments: async () =>
+    unwrap<ShiftAssignment>(await createQuery.shiftAssignments()
+      .select('*')
+      .order('effective_from', { ascending: true })),
+
+  getHolidays: async () =>
+    unwrap<Holiday>(await createQuery.holidays()
+      .select('*')
+      .order('date', { ascending: true })),
+
+  saveHolidays: async (holidays) => {
+    // Company-wide holidays are stored with an empty department so (date, department) stays unique
+    const rows = holidays.map(({ id, created_at, ...holiday }) => ({
+      ...holiday,
+      department: holiday.department || ''
+    }));
+    return unwrap<Holiday>(await createQuery.holidays()
+      .upsert(rows, { onConflict: 'date,department' })
+      .select());
+  },
+
+  deleteHoliday: async (id) => {
+    const { error } = await createQuery.holidays().delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  getLeaveRequests: async () =>
+    unwrap<LeaveRequest>(await createQuery.leaveRequests()
+      .select('*')
+      .order('start_date', { ascending: false })),
+
+  saveLeaveRequest: async ({ id, created_at, ...request }) => {
+    const query = id
+      ? createQuery.leaveRequests().update(request).eq('id', id)
+      : createQuery.leaveRequests().insert(request);
+    return unwrap<LeaveRequest>(await query.select())[0];
+  },
+
+  updateLeaveRequestStatus: async (id, status) =>
+    unwrap<LeaveRequest>(await createQuery.leaveRequests()
+      .update({ status, decided_at: new Date().toISOString() })
+      .eq('id', id)
+      .select())[0],
+
+  getLeaveBalances: async (year) =>
+    unwrap<LeaveBalance>(await createQuery.leaveBalances()
+      .select('*')
+      .eq('year', year)),
+
+  saveLeaveBalance: async ({ id, created_at, ...balance }) =>
+    unwrap<LeaveBalance>(await createQuery.leaveBalances()
+      .upsert(balance, { onConflict: 'emp_code,leave_type,year' })
+      .select())[0],
+
+  getCorrections: async () =>
+    unwrap<AttendanceCorrection>(await createQuery.attendanceCorrections()
+      .select('*')
+      .order('date', { ascending: false })),
+
+  saveCorrection: async ({ id, created_at, ...correction }) => {
+    const query = id
+      ? createQuery.attendanceCorrections().update(correction).eq('id', id)
+      : createQuery.attendanceCorrections().insert(correction);
+    return unwrap<AttendanceCorrection>(await query.select())[0];
+  },
+
+  reviewCorrection: async (id, status, reviewedBy, note) =>
+    unwrap<AttendanceCorrection>(await createQuery.attendanceCorrections()
+      .update({ status, reviewed_by: reviewedBy, reviewed_at: new Date().toISOString(), review_note: note || null })
+      .eq('id', id)
+      .select())[0],
+
+  getUserProfile: async (userId) =>
+    unwrap<UserProfile>(await createQuery.userProfiles()
+      .select('*')
+      .eq('id', userId)
+      .limit(1))[0] || null,
+
+  getUserProfiles: async () =>
+    unwrap<UserProfile>(await createQuery.userProfiles()
+      .select('*')
+      .order('name', { ascending: true })),
+};
@@ -0,0 +1,55 @@
+// lib/serverAuth.ts
+// 🔐 Server-side authentication - resolves the bearer token on an API request to a user profile
+
+import { timingSafeEqual } from 'crypto';
+import type { UserProfile } from './types';
+import { getServerClient } from './supabase';
+import { getServerRepository } from './repositories/server';
+import { AUTH_CONFIG, DATA_SOURCE_CONFIG } from '../constants/config';
+
+// Internal tools (payroll scripts, the Slack bot) send ATTENDANCE_API_KEY and read everyone's data, read-only
+const API_CLIENT_PROFILE: UserProfile = {
+  id: 'api-client',
+  email: '',
+  name: 'API client',
+  role: 'api'
+};
+
+const isApiKey = (token: string): boolean => {
+  const apiKey = process.env.ATTENDANCE_API_KEY;
+  if (!apiKey) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(apiKey);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+/**
+ * Read the token from an "Authorization: Bearer <token>" header
+ */
+export const getBearerToken = (request: Request): string | null => {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Resolve the signed-in user for a request, or null when the token is missing or invalid.
+ * Supabase access tokens are verified with Supabase Auth; in memory mode the token is
+ * "demo:<profile id>" so the dashboard can be tried offline. ATTENDANCE_API_KEY works in both.
+ */
+export const getRequestProfile = async (request: Request): Promise<UserProfile | null> => {
+  const token = getBearerToken(request);
+  if (!token) return null;
+  if (isApiKey(token)) return API_CLIENT_PROFILE;
+
+  const repository = getServerRepository();
+
+  if (DATA_SOURCE_CONFIG.source === 'memory') {
+    if (!token.startsWith(AUTH_CONFIG.demoTokenPrefix)) return null;
+    return repository.getUserProfile(token.slice(AUTH_CONFIG.demoTokenPrefix.length));
+  }
+
+  const { data, error } = await getServerClient().auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return repository.getUserProfile(data.user.id);
+};
@@ -0,0 +1,179 @@
+// lib/shifts.ts
+// 🕘 Shift resolution - which schedule applies to an employee on a given date
+
+import type {
+  AttendanceRepository,
+  ShiftAssignment,
+  ResolvedShift,
+  ScheduleContext,
+  EmployeeRecord,
+  TimeCategory,
+  CategoryCheck,
+  WeekDay
+} from './types';
+import { SHIFT_DEFINITIONS, DEFAULT_SHIFT_ID } from '../constants/config';
+import { getEffectiveTimeCategory, checkTimeCategory } from './classification';
+import { getDatesBetween, getHolidayOn } from './holidays';
+
+export const EMPTY_SCHEDULE_CONTEXT: ScheduleContext = {
+  assignments: [],
+  employees: [],
+  holidays: [],
+  leave: [],
+  corrections: []
+};
+
+// A missing table (e.g. holidays not set up yet) should not take the other schedule data down with it
+const loadOrEmpty = async <T>(load: () => Promise<T[]>, label: string): Promise<T[]> => {
+  try {
+    return await load();
+  } catch (err: any) {
+    console.warn(`⚠️ Could not load ${label}:`, err?.message || err);
+    return [];
+  }
+};
+
+/**
+ * Load the schedule tables from a repository, keeping only approved leave and corrections
+ */
+export const loadScheduleContext = async (repository: AttendanceRepository): Promise<ScheduleContext> => {
+  const [assignments, employees, holidays, leaveRequests, corrections] = await Promise.all([
+    loadOrEmpty(repository.getShiftAssignments, 'shift assignments'),
+    loadOrEmpty(repository.getActiveEmployees, 'employees'),
+    loadOrEmpty(repository.getHolidays, 'holidays'),
+    loadOrEmpty(repository.getLeaveRequests, 'leave requests'),
+    loadOrEmpty(repository.getCorrections, 'attendance corrections')
+  ]);
+
+  return {
+    assignments,
+    holidays,
+    leave: leaveRequests.filter(request => request.status === 'approved'),
+    corrections: corrections.filter(correction => correction.status === 'approved'),
+    employees: employees.map(emp => ({ ...emp, emp_code: String(emp.emp_code || '').trim() }))
+  };
+};
+
+/**
+ * Check whether an assignment is in effect on a date (effective_to is inclusive)
+ */
+export const isAssignmentEffective = (assignment: ShiftAssignment, date: string): boolean => {
+  if (assignment.effective_from > date) return false;
+  return !assignment.effective_to || assignment.effective_to >= date;
+};
+
+/**
+ * Pick the most recently started assignment among those in effect
+ */
+const latestEffective = (assignments: ShiftAssignment[], date: string): ShiftAssignment | null => {
+  return assignments
+    .filter(assignment => isAssignmentEffective(assignment, date) && SHIFT_DEFINITIONS[assignment.shift_id])
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0] || null;
+};
+
+/**
+ * Look up a shift definition by id, falling back to the default shift
+ */
+export const getShiftById = (shiftId: string, source: ResolvedShift['source'] = 'default'): ResolvedShift => {
+  const id = SHIFT_DEFINITIONS[shiftId] ? shiftId : DEFAULT_SHIFT_ID;
+  return { ...SHIFT_DEFINITIONS[id], id, source };
+};
+
+/**
+ * Resolve the shift for an employee on a date.
+ * An individual assignment wins over a department assignment, which wins over the default.
+ */
+export const resolveShift = (
+  empCode: string,
+  date: string,
+  context: ScheduleContext
+): ResolvedShift => {
+  const code = String(empCode).trim();
+
+  const personal = latestEffective(
+    context.assignments.filter(a => a.emp_code != null && String(a.emp_code).trim() === code),
+    date
+  );
+  if (personal) return getShiftById(personal.shift_id, 'employee');
+
+  const department = getEmployeeDepartment(code, context);
+  if (department) {
+    const departmental = latestEffective(
+      context.assignments.filter(a => !a.emp_code && a.department === department),
+      date
+    );
+    if (departmental) return getShiftById(departmental.shift_id, 'department');
+  }
+
+  return getShiftById(DEFAULT_SHIFT_ID);
+};
+
+/**
+ * Check whether a date (YYYY-MM-DD) falls on one of the shift's work days
+ */
+export const isShiftWorkDay = (shift: Pick<ResolvedShift, 'workDays'>, date: string): boolean => {
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return shift.workDays.includes(dayOfWeek);
+};
+
+/**
+ * Get an employee's department from the schedule context
+ */
+export const getEmployeeDepartment = (empCode: string, context: ScheduleContext): string | null => {
+  const code = String(empCode).trim();
+  return context.employees.find(emp => String(emp.emp_code).trim() === code)?.department || null;
+};
+
+/**
+ * Check whether an employee is expected to work on a date:
+ * it must be one of their shift's work days and not a holiday for their department
+ */
+export const isExpectedWorkDay = (empCode: string, date: string, context: ScheduleContext): boolean => {
+  if (!isShiftWorkDay(resolveShift(empCode, date, context), date)) return false;
+  return !getHolidayOn(date, context.holidays, getEmployeeDepartment(empCode, context));
+};
+
+/**
+ * Get an employee's work days between two dates, following the shift in effect on each
+ * date (the split shift works Sunday to Thursday). Holidays for their department carry the holiday.
+ */
+export const getWeekDays = (
+  empCode: string,
+  weekStart: string,
+  weekEnd: string,
+  context: ScheduleContext
+): WeekDay[] => {
+  const department = getEmployeeDepartment(empCode, context);
+
+  return getDatesBetween(weekStart, weekEnd)
+    .filter(date => isShiftWorkDay(resolveShift(empCode, date, context), date))
+    .map(date => {
+      const day = new Date(`${date}T00:00:00Z`);
+      return {
+        date,
+        dayName: day.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+        shortDate: day.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+        holiday: getHolidayOn(date, context.holidays, department)
+      };
+    });
+};
+
+/**
+ * Classify a record against the shift assigned to its employee on that date
+ */
+export const classifyRecordForShift = (
+  record: Pick<EmployeeRecord, 'emp_code' | 'date' | 'check_in' | 'time_category'>,
+  context: ScheduleContext
+): TimeCategory => {
+  return getEffectiveTimeCategory(record, resolveShift(record.emp_code, record.date, context));
+};
+
+/**
+ * Compare a record's stored category with the one computed for its assigned shift
+ */
+export const checkRecordForShift = (
+  record: Pick<EmployeeRecord, 'emp_code' | 'date' | 'check_in' | 'time_category'>,
+  context: ScheduleContext
+): CategoryCheck => {
+  return checkTimeCategory(record, resolveShift(record.emp_code, record.date, context));
+};
@@ -0,0 +1,54 @@
+// lib/syncStatus.test.ts
+// 🧪 Sync status - per-day flags and staleness
+
+import { describe, expect, it } from 'vitest';
+import type { SyncLog } from './types';
+import { buildSyncStatusReport, getUnsummarizedSyncDays, isSuccessfulSync } from './syncStatus';
+
+const log = (syncDate: string, status: string, createdAt = `${syncDate}T23:30:00Z`): SyncLog => ({
+  sync_type: 'daily',
+  sync_date: syncDate,
+  status,
+  created_at: createdAt
+});
+
+describe('isSuccessfulSync', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(isSuccessfulSync({ status: 'SUCCESS' })).toBe(true);
+    expect(isSuccessfulSync({ status: ' Completed ' })).toBe(true);
+    expect(isSuccessfulSync({ status: 'failed' })).toBe(false);
+  });
+});
+
+describe('buildSyncStatusReport', () => {
+  const logs = [log('2025-06-02', 'success'), log('2025-06-03', 'failed'), log('2025-06-04', 'failed'), log('2025-06-04', 'success')];
+
+  it('marks each date ok, failed or missing', () => {
+    const report = buildSyncStatusReport('2025-06-02', '2025-06-05', logs, logs[3], new Date('2025-06-05T10:00:00Z'));
+    expect(report.days).toEqual({
+      '2025-06-02': 'ok',
+      '2025-06-03': 'failed',
+      '2025-06-04': 'ok',
+      '2025-06-05': 'missing'
+    });
+  });
+
+  it('is stale when the last success is older than the limit', () => {
+    expect(buildSyncStatusReport('2025-06-02', '2025-06-05', logs, logs[3], new Date('2025-06-05T10:00:00Z'), 26).stale).toBe(false);
+    expect(buildSyncStatusReport('2025-06-02', '2025-06-05', logs, logs[3], new Date('2025-06-06T10:00:00Z'), 26).stale).toBe(true);
+    expect(buildSyncStatusReport('2025-06-02', '2025-06-05', [], null).stale).toBe(true);
+  });
+});
+
+describe('getUnsummarizedSyncDays', () => {
+  it('lists failed days and missing weekdays that have no summary', () => {
+    const days = {
+      '2025-06-05': 'missing',
+      '2025-06-06': 'failed',
+      '2025-06-07': 'missing', // Saturday - the sync does not run
+      '2025-06-09': 'ok',
+      '2025-06-10': 'failed'
+    } as const;
+    expect(getUnsummarizedSyncDays(days, ['2025-06-10'])).toEqual(['2025-06-05', '2025-06-06']);
+  });
+});
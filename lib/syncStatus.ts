@@ -0,0 +1,77 @@
+// lib/syncStatus.ts
+// 🔄 Sync status - whether the device sync ran, per data date and overall
+
+import type { SyncLog, SyncDayStatus, SyncStatusReport } from './types';
+import { getDatesBetween } from './holidays';
+import { SYNC_STATUS_CONFIG } from '../constants/config';
+
+/**
+ * Check whether a sync run finished successfully (status compared in lowercase)
+ */
+export const isSuccessfulSync = (log: Pick<SyncLog, 'status'>): boolean =>
+  SYNC_STATUS_CONFIG.successStatuses.includes(String(log.status || '').trim().toLowerCase());
+
+/**
+ * When a run happened - created_at, or the data date for rows without one
+ */
+export const getSyncTime = (log: Pick<SyncLog, 'created_at' | 'sync_date'>): string =>
+  log.created_at || log.sync_date;
+
+/**
+ * Status of each date: ok when any run for it succeeded, failed when every run failed, missing without runs
+ */
+export const getSyncDayStatuses = (logs: SyncLog[], dates: string[]): Record<string, SyncDayStatus> => {
+  const runsByDate = new Map<string, SyncLog[]>();
+  logs.forEach(log => {
+    const date = log.sync_date.slice(0, 10);
+    runsByDate.set(date, [...(runsByDate.get(date) || []), log]);
+  });
+
+  return dates.reduce((statuses, date) => {
+    const runs = runsByDate.get(date) || [];
+    statuses[date] = runs.length === 0 ? 'missing' : runs.some(isSuccessfulSync) ? 'ok' : 'failed';
+    return statuses;
+  }, {} as Record<string, SyncDayStatus>);
+};
+
+/**
+ * Dates to flag that have no daily summary - failed runs, and missing runs on days the sync runs for
+ */
+export const getUnsummarizedSyncDays = (
+  days: Record<string, SyncDayStatus>,
+  summarizedDates: string[]
+): string[] => {
+  const summarized = new Set(summarizedDates);
+  return Object.keys(days)
+    .filter(date => !summarized.has(date))
+    .filter(date =>
+      days[date] === 'failed' ||
+      (days[date] === 'missing' && SYNC_STATUS_CONFIG.runDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay()))
+    );
+};
+
+/**
+ * Sync runs for a range of data dates, the status of each date, and whether the
+ * last successful run is older than staleAfterHours
+ */
+export const buildSyncStatusReport = (
+  startDate: string,
+  endDate: string,
+  logs: SyncLog[],
+  lastSuccess: SyncLog | null,
+  now: Date = new Date(),
+  staleAfterHours: number = SYNC_STATUS_CONFIG.staleAfterHours
+): SyncStatusReport => {
+  const lastSuccessTime = lastSuccess ? new Date(getSyncTime(lastSuccess)).getTime() : NaN;
+  const stale = Number.isNaN(lastSuccessTime) || now.getTime() - lastSuccessTime > staleAfterHours * 60 * 60 * 1000;
+
+  return {
+    startDate,
+    endDate,
+    logs,
+    lastSuccess,
+    stale,
+    staleAfterHours,
+    days: getSyncDayStatuses(logs, getDatesBetween(startDate, endDate))
+  };
+};
@@ -0,0 +1,133 @@
+// lib/teamMatrix.ts
+// 🧮 Team matrix - every employee against every day of a month, with row and column totals
+
+import type {
+  EmployeeRecord,
+  ScheduleContext,
+  TeamMatrix,
+  TeamMatrixCell,
+  TeamMatrixRow,
+  TeamMatrixDayTotal,
+  TeamMatrixSortKey
+} from './types';
+import { buildAttendanceCalendar } from './attendanceCalendar';
+import { buildRangeRecords } from './attendanceReports';
+import { classifyRecordForShift, getEmployeeDepartment } from './shifts';
+import { isLateCategory } from './classification';
+import { getLeaveType } from './leave';
+import { getDatesBetween, getToday } from './holidays';
+import { getMonthDateRange, roundHours } from './formatters';
+import { TIME_CATEGORIES, TEAM_MATRIX_CONFIG } from '../constants/config';
+
+/**
+ * Per-day totals down each column of the matrix
+ */
+export const getTeamMatrixDayTotals = (rows: TeamMatrixRow[], dates: string[]): TeamMatrixDayTotal[] =>
+  dates.map((date, index) => {
+    const cells = rows.map(row => row.cells[index]).filter(Boolean);
+    return {
+      date,
+      present: cells.filter(cell => cell.kind === 'present').length,
+      late: cells.filter(cell => isLateCategory(cell.category)).length,
+      absent: cells.filter(cell => cell.kind === 'absent').length,
+      leave: cells.filter(cell => cell.kind === 'leave').length,
+      totalHours: roundHours(cells.reduce((sum, cell) => sum + (cell.work_hours || 0), 0))
+    };
+  });
+
+/**
+ * Colour name for a cell - the time category on check-ins, the day kind otherwise
+ */
+export const getTeamMatrixCellColor = (cell: TeamMatrixCell): string | null =>
+  cell.category
+    ? TIME_CATEGORIES[cell.category]?.color ?? null
+    : TEAM_MATRIX_CONFIG.dayKinds[cell.kind].color;
+
+/**
+ * Cell text for exports - the check-in time on present days, the day kind's code otherwise
+ */
+export const getTeamMatrixCellText = (cell: TeamMatrixCell): string =>
+  cell.kind === 'present' && cell.check_in
+    ? cell.check_in.slice(0, 5)
+    : TEAM_MATRIX_CONFIG.dayKinds[cell.kind].code;
+
+/**
+ * Build the matrix for a month from one range of records.
+ *
+ * Rows cover every active employee on the roster plus anyone with records in the month,
+ * and every cell takes its kind from the employee's attendance calendar, so absences,
+ * leave, holidays and days off show up alongside the check-ins.
+ */
+export const buildTeamMatrix = (
+  month: string,
+  records: EmployeeRecord[],
+  context: ScheduleContext,
+  today: string = getToday()
+): TeamMatrix => {
+  const { startDate, endDate } = getMonthDateRange(month);
+  const dates = getDatesBetween(startDate, endDate);
+  const rangeRecords = buildRangeRecords(startDate, endDate, records, context);
+
+  const names = new Map<string, string>();
+  context.employees
+    .filter(emp => emp.is_active !== false)
+    .forEach(emp => names.set(emp.emp_code, emp.name));
+  rangeRecords.forEach(record => {
+    if (record.emp_code && !names.has(record.emp_code)) names.set(record.emp_code, record.name);
+  });
+
+  const rows: TeamMatrixRow[] = Array.from(names.entries()).map(([empCode, name]) => {
+    const calendar = buildAttendanceCalendar(empCode, startDate, endDate, rangeRecords, context, today);
+
+    const cells: TeamMatrixCell[] = calendar.days.map(day => {
+      const record = day.record;
+      const leaveType = record?.leave_type || day.leave?.leave_type;
+      return {
+        date: day.date,
+        kind: day.kind,
+        category: day.kind === 'present' && record?.check_in ? classifyRecordForShift(record, context) : null,
+        check_in: record?.check_in || null,
+        check_out: record?.check_out || null,
+        work_hours: record?.work_hours ?? null,
+        note: day.holiday?.name || (leaveType ? getLeaveType(leaveType).name : null)
+      };
+    });
+
+    return {
+      emp_code: empCode,
+      name,
+      department: getEmployeeDepartment(empCode, context),
+      cells,
+      presentDays: calendar.presentDays,
+      lateDays: cells.filter(cell => isLateCategory(cell.category)).length,
+      absentDays: calendar.absentDays,
+      leaveDays: calendar.leaveDays,
+      totalHours: roundHours(cells.reduce((sum, cell) => sum + (cell.work_hours || 0), 0)),
+      attendanceRate: calendar.attendanceRate
+    };
+  });
+
+  return {
+    month,
+    dates,
+    rows: rows.sort((a, b) => a.name.localeCompare(b.name)),
+    dayTotals: getTeamMatrixDayTotals(rows, dates)
+  };
+};
+
+/**
+ * Sort matrix rows by a total or by name/department, ties broken by name
+ */
+export const sortTeamMatrixRows = (
+  rows: TeamMatrixRow[],
+  key: TeamMatrixSortKey,
+  direction: 'asc' | 'desc' = 'asc'
+): TeamMatrixRow[] => {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const compared = key === 'name' || key === 'department'
+      ? String(a[key] || '').localeCompare(String(b[key] || ''))
+      : a[key] - b[key];
+    return compared * factor || a.name.localeCompare(b.name);
+  });
+};
@@ -56,6 +56,11 @@ export interface EmployeeRecord {
   status?: string;
   time_category?: string;
   created_at?: string;
+  synthesized?: boolean; // Absence or leave filled in from the roster, not a synced row
+  leave_type?: LeaveTypeId; // Set when approved leave covers the day
+  correction?: AppliedCorrection; // Set when an approved correction overlays the synced times
+  break_hours?: number; // Time between paired punches, set with hours_from_punches
+  hours_from_punches?: boolean; // work_hours recomputed from paired punches, so breaks are already excluded
 }
 
 export interface Employee {
@@ -64,6 +69,7 @@ export interface Employee {
   department?: string;
   position?: string;
   hire_date?: string;
+  manager_code?: string | null; // emp_code of the person they report to
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
@@ -92,6 +98,11 @@ export interface WeeklyEmployeeData {
   totalHours: number;
   onTimeDays: number;
   lateDays: number;
+  overtimeHours: number;
+  undertimeHours: number;
+  earlyLeaveMinutes: number;
+  lunchDeductionHours: number;
+  flaggedDays: number; // present days with a data problem, left out of totalHours
   dailyBreakdown?: { [date: string]: EmployeeRecord };
 }
 
@@ -113,9 +124,121 @@ export interface UniqueEmployee {
   last_seen_date?: string;
 }
 
+// Attendance Calendar Types
+export type AttendanceDayKind =
+  | 'present'
+  | 'absent'
+  | 'leave'
+  | 'holiday'
+  | 'off'           // not one of the shift's work days
+  | 'not_employed'  // before the hire date
+  | 'upcoming';     // after today
+
+export interface AttendanceCalendarDay {
+  date: string;
+  kind: AttendanceDayKind;
+  expected: boolean;
+  record?: EmployeeRecord;
+  holiday?: Holiday | null;
+  leave?: LeaveRequest | null;
+}
+
+export interface AttendanceCalendarSummary {
+  days: AttendanceCalendarDay[];
+  totalDays: number;
+  expectedWorkingDays: number;
+  presentDays: number;
+  absentDays: number;
+  leaveDays: number;
+  holidayDays: number;
+  offDays: number;
+  notEmployedDays: number;
+  upcomingDays: number;
+  missingDates: string[];
+  attendanceRate: number;
+}
+
+// Data Repository Types
+export type DataSource = 'supabase' | 'memory';
+
+export type EmployeeIndexEntry = Pick<EmployeeRecord, 'emp_code' | 'name' | 'date'>;
+
+export interface AttendanceRepository {
+  // Summaries
+  getRecentDailySummaries: (limit?: number) => Promise<DailySummary[]>;
+  getDailySummariesInRange: (startDate: string, endDate: string) => Promise<DailySummary[]>;
+  getRecentWeeklySummaries: (limit?: number) => Promise<WeeklySummary[]>;
+  getMonthlySummaries: () => Promise<MonthlySummary[]>;
+
+  // Device sync runs
+  getSyncLogsInRange: (startDate: string, endDate: string) => Promise<SyncLog[]>;
+  getLatestSuccessfulSync: () => Promise<SyncLog | null>;
+
+  // Device punches
+  getPunchesByDate: (date: string) => Promise<AttendancePunch[]>;
+  savePunches: (punches: AttendancePunch[]) => Promise<AttendancePunch[]>;
+  saveEmployeeRecords: (records: EmployeeRecord[]) => Promise<EmployeeRecord[]>;
+
+  // Employee records
+  getEmployeeRecordsByDate: (date: string) => Promise<EmployeeRecord[]>;
+  getEmployeeRecordsInRange: (startDate: string, endDate: string, empCodes?: string[]) => Promise<EmployeeRecord[]>; // empCodes narrows it to those employees
+  getEmployeeMonthlyRecords: (empCode: string, startDate: string, endDate: string) => Promise<EmployeeRecord[]>;
+  getEmployeeIndex: () => Promise<EmployeeIndexEntry[]>;
+
+  // Employees
+  getActiveEmployees: () => Promise<Employee[]>;
+  getEmployees: () => Promise<Employee[]>; // the whole directory, inactive employees included
+  saveEmployee: (employee: Employee) => Promise<Employee>;
+
+  // Schedules
+  getShiftAssignments: () => Promise<ShiftAssignment[]>;
+
+  // Holiday calendar
+  getHolidays: () => Promise<Holiday[]>;
+  saveHolidays: (holidays: Holiday[]) => Promise<Holiday[]>;
+  deleteHoliday: (id: number) => Promise<void>;
+
+  // Leave management
+  getLeaveRequests: () => Promise<LeaveRequest[]>;
+  saveLeaveRequest: (request: LeaveRequest) => Promise<LeaveRequest>;
+  updateLeaveRequestStatus: (id: number, status: LeaveRequestStatus) => Promise<LeaveRequest>;
+  getLeaveBalances: (year: number) => Promise<LeaveBalance[]>;
+  saveLeaveBalance: (balance: LeaveBalance) => Promise<LeaveBalance>;
+
+  // Attendance corrections
+  getCorrections: () => Promise<AttendanceCorrection[]>;
+  saveCorrection: (correction: AttendanceCorrection) => Promise<AttendanceCorrection>;
+  reviewCorrection: (
+    id: number,
+    status: CorrectionStatus,
+    reviewedBy: string,
+    note?: string | null
+  ) => Promise<AttendanceCorrection>;
+
+  // User profiles
+  getUserProfile: (userId: string) => Promise<UserProfile | null>;
+  getUserProfiles: () => Promise<UserProfile[]>;
+}
+
+export interface AttendanceFixtures {
+  employees?: Employee[];
+  daily_summaries?: DailySummary[];
+  weekly_summaries?: WeeklySummary[];
+  monthly_summaries?: MonthlySummary[];
+  sync_logs?: SyncLog[];
+  daily_employee_records?: EmployeeRecord[];
+  attendance_punches?: AttendancePunch[];
+  shift_assignments?: ShiftAssignment[];
+  holidays?: Holiday[];
+  leave_requests?: LeaveRequest[];
+  leave_balances?: LeaveBalance[];
+  attendance_corrections?: AttendanceCorrection[];
+  user_profiles?: UserProfile[];
+}
+
 // Tab and UI Types
-export type TabType = 'summary' | 'employees' | 'weekly' | 'monthly';
-export type ExportType = 'daily' | 'weekly' | 'monthly' | 'employee' | 'weeklyDetails';
+export type TabType = 'summary' | 'employees' | 'weekly' | 'monthly' | 'matrix' | 'overview' | 'lateness' | 'sync' | 'import' | 'quality' | 'directory' | 'holidays' | 'leave' | 'corrections';
+export type ExportType = 'daily' | 'weekly' | 'monthly' | 'teamMatrix' | 'monthlyOverview' | 'employee' | 'weeklyDetails' | 'payroll' | 'lateness';
 export type WeeklyViewMode = 'summary' | 'details';
 
 // Dashboard State Types
@@ -149,6 +272,7 @@ export interface WeekDay {
   date: string;
   dayName: string;
   shortDate: string;
+  holiday?: Holiday | null;
 }
 
 export interface AttendanceStats {
@@ -160,12 +284,376 @@ export interface AttendanceStats {
   onTimeRate: number;
 }
 
+export type ExportFormat = 'csv' | 'excel';
+
 export interface ExportConfig {
   data: any[];
   filename: string;
   type: ExportType;
 }
 
+// Chart Types
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+  axis?: 'left' | 'right'; // line charts only - the right axis has its own scale
+  formatValue?: (value: number) => string;
+}
+
+export interface ChartScale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+// Monthly Statement Types
+export interface MonthlyStatementStats {
+  presentDays: number;
+  onTimeDays: number;
+  lateDays: number;
+  totalHours: number;
+  avgHours: number;
+  attendanceRate: number;
+  onTimeRate: number;
+  workingDays: number;
+  workTime: WorkTimeBreakdown;
+}
+
+export interface MonthlyStatementDay extends AttendanceCalendarDay {
+  category: TimeCategory | null; // shift-based check-in category on present days
+}
+
+export interface MonthlyStatement {
+  empCode: string;
+  name: string;
+  department: string | null;
+  month: string; // YYYY-MM
+  days: MonthlyStatementDay[];
+  calendar: AttendanceCalendarSummary;
+  stats: MonthlyStatementStats;
+}
+
+// Payroll Types
+export interface PayrollRow {
+  emp_code: string;
+  name: string;
+  department: string | null;
+  month: string; // YYYY-MM
+  period_start: string;
+  period_end: string;
+  expected_days: number;
+  days_worked: number;
+  regular_hours: number;
+  overtime_hours: number;
+  total_hours: number;
+  late_minutes: number;
+  late_days: number;
+  absent_days: number; // unexcused - approved leave is counted by type instead
+  paid_leave_days: number;
+  unpaid_leave_days: number;
+  leave_days: Record<LeaveTypeId, number>;
+}
+
+export type PayrollField =
+  | Exclude<keyof PayrollRow, 'leave_days'>
+  | `leave_${LeaveTypeId}`;
+
+export interface PayrollColumn {
+  field: PayrollField;
+  header: string;
+}
+
+// Lateness Report Types
+export interface LatenessEntry {
+  emp_code: string;
+  name: string;
+  department: string | null;
+  lateMinutes: number;
+  lateDays: number;
+  averageLateMinutes: number;
+  maxLateMinutes: number;
+  monthlyLateMinutes: Record<string, number>; // YYYY-MM -> minutes
+  overBudgetMonths: string[]; // months over the report's budgetMinutes
+}
+
+export interface LatenessReport {
+  startDate: string;
+  endDate: string;
+  measureFrom: keyof CheckInThresholds;
+  budgetMinutes: number | null;
+  totalLateMinutes: number;
+  totalLateDays: number;
+  entries: LatenessEntry[];
+}
+
+// Monthly Overview Types - company-wide totals from monthly_summaries
+export type MonthlySummaryMetric =
+  | 'total_employees'
+  | 'early_count'
+  | 'ontime_count'
+  | 'acceptable_count'
+  | 'late_count'
+  | 'average_ontime_rate';
+
+export interface MonthlyOverviewRow extends MonthlySummary {
+  monthKey: string; // YYYY-MM
+  deltas: Record<MonthlySummaryMetric, number> | null; // change from the previous calendar month, null when it has no summary
+}
+
+export interface MonthlyOverview {
+  year: number | null; // null = the most recent MONTHLY_OVERVIEW_CONFIG.recentMonths months
+  years: number[]; // years with summaries, newest first
+  rows: MonthlyOverviewRow[]; // oldest first
+  totals: Record<MonthlySummaryMetric, number>; // counts summed, highest headcount, average of the monthly rates
+}
+
+// Team Matrix Types - every employee against every day of a month
+export interface TeamMatrixCell {
+  date: string;
+  kind: AttendanceDayKind;
+  category: TimeCategory | null; // present days with a check-in, classified for the employee's shift
+  check_in?: string | null;
+  check_out?: string | null;
+  work_hours?: number | null;
+  note: string | null; // holiday name or leave type
+}
+
+export interface TeamMatrixRow {
+  emp_code: string;
+  name: string;
+  department: string | null;
+  cells: TeamMatrixCell[]; // one per date, in TeamMatrix.dates order
+  presentDays: number;
+  lateDays: number;
+  absentDays: number;
+  leaveDays: number;
+  totalHours: number;
+  attendanceRate: number;
+}
+
+export interface TeamMatrixDayTotal {
+  date: string;
+  present: number;
+  late: number;
+  absent: number;
+  leave: number;
+  totalHours: number;
+}
+
+export interface TeamMatrix {
+  month: string;
+  dates: string[];
+  rows: TeamMatrixRow[];
+  dayTotals: TeamMatrixDayTotal[];
+}
+
+export type TeamMatrixSortKey = 'name' | 'department' | 'presentDays' | 'lateDays' | 'absentDays' | 'totalHours' | 'attendanceRate';
+
+// Employee Directory Types - the employees table checked against codes seen in attendance records
+export interface UnknownEmployeeCode {
+  emp_code: string;
+  name: string; // most recent name in the records
+  firstSeen: string;
+  lastSeen: string;
+  records: number;
+}
+
+export interface EmployeeNameMismatch {
+  emp_code: string;
+  name: string; // directory name
+  recordName: string; // most recent name in the records
+}
+
+export interface EmployeeDirectoryReconciliation {
+  unknownCodes: UnknownEmployeeCode[]; // codes with records but no directory entry
+  nameMismatches: EmployeeNameMismatch[];
+  withoutRecords: Employee[]; // active employees who have never punched
+}
+
+// Department Types - slicing reports by department and by manager along the org chart
+export interface OrgFilter {
+  department: string; // '' = every department
+  managerCode: string; // '' = everyone; otherwise the manager and everyone reporting up to them
+}
+
+export interface DepartmentGroup<T> {
+  department: string; // DEPARTMENT_CONFIG.unassignedLabel for employees without one
+  rows: T[];
+}
+
+export interface AttendanceRollup {
+  employees: number;
+  expectedDays: number; // present + absent - leave is excused
+  presentDays: number;
+  absentDays: number;
+  leaveDays: number;
+  syncedDays: number; // records from the device, as opposed to synthesized absences and leave
+  onTimeDays: number; // on time or early
+  lateDays: number;
+  totalHours: number; // flagged records left out
+  attendanceRate: number;
+  onTimeRate: number;
+}
+
+export interface DepartmentStats extends AttendanceRollup {
+  department: string;
+}
+
+export interface DepartmentDayStats extends AttendanceRollup {
+  date: string;
+  department: string;
+}
+
+export interface ManagerRollup extends AttendanceRollup {
+  emp_code: string;
+  name: string;
+  department: string | null;
+  depth: number; // 0 for the top of the org chart
+  directReports: number;
+  teamSize: number; // the manager and everyone reporting up to them
+}
+
+export interface DepartmentReport {
+  startDate: string;
+  endDate: string;
+  filter: OrgFilter;
+  total: AttendanceRollup;
+  departments: DepartmentStats[]; // by name, employees without a department last
+  days: DepartmentDayStats[]; // newest first, then by department
+  managers: ManagerRollup[]; // org chart order - each manager followed by the managers below them
+}
+
+// Punch Types - individual device punches behind check_in / check_out
+export type PunchDirection = 'in' | 'out' | 'unknown';
+
+export interface AttendancePunch {
+  id?: number;
+  emp_code: string;
+  punch_time: string; // device-local YYYY-MM-DDTHH:MM:SS
+  device_id?: string | null;
+  direction: PunchDirection; // 'unknown' when the device does not report it
+  created_at?: string;
+}
+
+export interface PunchPair {
+  in: AttendancePunch | null; // null for an out punch with no in before it
+  out: AttendancePunch | null; // null for an in punch that was never closed
+  hours: number; // 0 unless both punches are present
+}
+
+export interface PunchTimeline {
+  emp_code: string;
+  date: string;
+  punches: AttendancePunch[]; // in time order, duplicates removed
+  duplicates: number; // repeat punches dropped within PUNCH_CONFIG.duplicateWindowSeconds
+  pairs: PunchPair[];
+  workHours: number; // sum of complete pairs
+  breakHours: number; // gaps between complete pairs
+  unpaired: number; // pairs missing an in or an out
+}
+
+export interface PunchImportResult {
+  received: number;
+  saved: number;
+  dates: string[]; // days the punches fall on, oldest first
+}
+
+// Device Import Types - attendance log files exported from the terminals
+export type DeviceLogFormat = 'attlog' | 'csv';
+
+export interface DeviceLogLine {
+  line: number; // 1-based line number in the file
+  raw: string;
+  punch: AttendancePunch | null; // null when the line has an error
+  name: string | null; // from a Name column, when the file has one
+  error: string | null;
+}
+
+export interface DeviceLogParseResult {
+  format: DeviceLogFormat;
+  lines: DeviceLogLine[]; // data lines only - blank lines and the header are left out
+  errors: string[]; // problems with the file as a whole
+}
+
+export interface DeviceImportDay {
+  emp_code: string;
+  name: string;
+  date: string;
+  check_in: string;
+  check_out: string | null; // null with a single punch
+  work_hours: number | null;
+  total_punches: number;
+  action: 'insert' | 'skip';
+  reason: string | null; // why the day is skipped
+}
+
+export interface DeviceImportResult {
+  dryRun: boolean; // true when nothing was written
+  punchesSaved: number;
+  days: DeviceImportDay[];
+  inserted: number;
+  skipped: number;
+}
+
+// Data Quality Types - synced records whose times or hours cannot be trusted
+export type RecordAnomalyType = 'missing_checkout' | 'single_punch' | 'checkout_before_checkin' | 'excessive_hours';
+
+export interface RecordAnomaly {
+  emp_code: string;
+  name: string;
+  department: string | null;
+  date: string;
+  check_in?: string;
+  check_out?: string;
+  work_hours?: number;
+  total_punches?: number;
+  types: RecordAnomalyType[];
+}
+
+export interface DataQualityReport {
+  startDate: string;
+  endDate: string;
+  empCode: string | null; // one employee, or everyone visible
+  recordsChecked: number;
+  anomalies: RecordAnomaly[]; // newest first
+  counts: Record<RecordAnomalyType, number>;
+}
+
+// Sync Status Types - device sync runs from sync_logs
+export type SyncDayStatus = 'ok' | 'failed' | 'missing';
+
+export interface SyncStatusReport {
+  startDate: string;
+  endDate: string;
+  logs: SyncLog[]; // runs for data dates in the range, most recent first
+  lastSuccess: SyncLog | null; // most recent successful run of all time
+  stale: boolean; // no successful run within staleAfterHours
+  staleAfterHours: number;
+  days: Record<string, SyncDayStatus>; // every date in the range
+}
+
+// Spreadsheet Types - typed cells for the XLSX export
+export type SpreadsheetColumnType = 'string' | 'number' | 'hours' | 'percent' | 'date' | 'time';
+export type SpreadsheetValue = string | number | null | undefined;
+
+export interface SpreadsheetColumn {
+  header: string;
+  type: SpreadsheetColumnType;
+  width?: number;
+}
+
+export interface SpreadsheetCell {
+  value: SpreadsheetValue;
+  fill?: string | null; // colour name from TIME_CATEGORIES / ATTENDANCE_STATUS
+}
+
+export interface SpreadsheetSheet {
+  name: string;
+  columns: SpreadsheetColumn[];
+  rows: Array<Array<SpreadsheetValue | SpreadsheetCell>>;
+}
+
 // API Response Types
 export interface SupabaseResponse<T> {
   data: T[] | null;
@@ -191,7 +679,184 @@ export type TimeCategory =
   | 'Invalid Time'
   | 'N/A';
 
-export type AttendanceStatus = 'Present' | 'Absent' | 'Leave' | 'N/A';
+export type AttendanceStatus = 'Present' | 'Absent' | 'Leave' | 'WFH' | 'N/A';
+
+// Check-in Classification Types
+export type CanonicalTimeCategory = 'Early Check-in' | 'On Time' | 'Acceptable' | 'Late';
+
+export interface CheckInThresholds {
+  earlyThreshold: string;
+  onTimeThreshold: string;
+  acceptableThreshold: string;
+}
+
+export interface CategoryCheck {
+  stored: TimeCategory;
+  computed: TimeCategory;
+  mismatch: boolean;
+}
+
+// Shift Schedule Types
+export interface ShiftSchedule extends CheckInThresholds {
+  name: string;
+  standardStart: string;
+  standardEnd: string;
+  lunchBreakStart?: string;
+  lunchBreakEnd?: string;
+  minimumWorkHours: number;
+  workDays: readonly number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface ResolvedShift extends ShiftSchedule {
+  id: string;
+  source: 'employee' | 'department' | 'default';
+}
+
+// Work time measured against the shift - hours are net of the lunch break
+export interface WorkTimeBreakdown {
+  netHours: number;
+  overtimeHours: number;
+  undertimeHours: number;
+  earlyLeaveMinutes: number;
+  lunchDeductionHours: number;
+}
+
+export interface ShiftAssignment {
+  id?: number;
+  shift_id: string;
+  emp_code?: string | null;
+  department?: string | null;
+  effective_from: string;
+  effective_to?: string | null;
+  created_at?: string;
+}
+
+// Holiday Calendar Types
+export type HolidaySource = 'manual' | 'ics' | 'json';
+
+export interface Holiday {
+  id?: number;
+  date: string;
+  name: string;
+  department?: string | null; // null or empty = company-wide
+  source?: HolidaySource;
+  created_at?: string;
+}
+
+export interface HolidayImportResult {
+  holidays: Holiday[];
+  errors: string[];
+}
+
+// Leave Management Types
+export type LeaveTypeId = 'annual' | 'sick' | 'unpaid' | 'maternity' | 'wfh';
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type LeaveAccrual = 'monthly' | 'yearly';
+
+export interface LeaveTypeDefinition {
+  name: string;
+  paid: boolean;
+  annualAllowance: number | null; // days per year, null = not tracked against a balance
+  accrual: LeaveAccrual;
+  countsAsAttendance: boolean; // e.g. working from home
+  color: string;
+}
+
+export interface LeaveRequest {
+  id?: number;
+  emp_code: string;
+  leave_type: LeaveTypeId;
+  start_date: string;
+  end_date: string;
+  half_day_start?: boolean; // first day is a half day
+  half_day_end?: boolean; // last day is a half day
+  status: LeaveRequestStatus;
+  reason?: string | null;
+  decided_at?: string | null;
+  created_at?: string;
+}
+
+export interface LeaveBalance {
+  id?: number;
+  emp_code: string;
+  leave_type: LeaveTypeId;
+  year: number;
+  allowance?: number | null; // overrides the leave type allowance for this employee
+  carried_over?: number;
+  created_at?: string;
+}
+
+export interface LeaveBalanceSummary {
+  leave_type: LeaveTypeId;
+  entitlement: number | null;
+  accrued: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+// Attendance Correction Types
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AttendanceCorrection {
+  id?: number;
+  emp_code: string;
+  date: string;
+  check_in?: string | null; // null = keep the synced value
+  check_out?: string | null;
+  reason: string;
+  requested_by?: string | null;
+  status: CorrectionStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  created_at?: string;
+}
+
+export interface AppliedCorrection {
+  id?: number;
+  reason: string;
+  requested_by?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  original: Pick<EmployeeRecord, 'check_in' | 'check_out' | 'work_hours' | 'status' | 'time_category'> | null; // null = no synced record
+}
+
+// Authentication & Access Types
+export type UserRole = 'admin' | 'hr' | 'manager' | 'employee' | 'api';
+export type AccessScope = 'all' | 'department' | 'self';
+
+export interface UserProfile {
+  id: string; // Supabase auth user id
+  email: string;
+  name: string;
+  role: UserRole;
+  emp_code?: string | null; // links the account to an employee
+  department?: string | null; // the department a manager is responsible for
+  created_at?: string;
+}
+
+export interface RoleDefinition {
+  label: string;
+  scope: AccessScope; // whose attendance records the role can see
+  tabs: readonly TabType[];
+  canManageHolidays: boolean;
+  canReviewLeave: boolean;
+  canReviewCorrections: boolean;
+  canManageBalances: boolean;
+  canExportPayroll: boolean;
+  canImportPunches: boolean;
+  canManageEmployees: boolean;
+  readOnly: boolean; // no writes at all, not even requests of its own
+}
+
+export interface ScheduleContext {
+  assignments: ShiftAssignment[];
+  employees: Employee[];
+  holidays: Holiday[];
+  leave: LeaveRequest[]; // approved requests only
+  corrections: AttendanceCorrection[]; // approved corrections only
+}
 
 // Component Props Types
 export interface TableProps {
@@ -217,16 +882,23 @@ export interface StatCardProps {
 }
 
 // Hook Return Types
+export interface DailySummaryRange {
+  startDate: string;
+  endDate: string;
+}
+
 export interface UseAttendanceDataReturn {
   // Data
   dailyData: DailySummary[];
   weeklyData: WeeklySummary[];
+  dailyRange: DailySummaryRange | null; // null = the most recent summaries
   loading: boolean;
   error: string;
   
   // Actions
   refreshData: () => Promise<any>;
   loadDailyData: (limit?: number) => Promise<any>;
+  loadDailyRange: (startDate: string, endDate: string) => Promise<any>;
   loadWeeklyData: (limit?: number) => Promise<any>;
   clearError: () => void;
   
@@ -263,10 +935,11 @@ export interface UseEmployeeDataReturn {
   getEmployeeName: (empCode: string) => string;
   getRecordsByStatus: () => Record<string, EmployeeRecord[]>;
   getRecordsByTimeCategory: () => Record<string, EmployeeRecord[]>;
-  getAttendanceStats: () => {
+  getAttendanceStats: (records?: EmployeeRecord[]) => {
     totalEmployees: number;
     presentCount: number;
     absentCount: number;
+    leaveCount: number;
     onTimeCount: number;
     lateCount: number;
     earlyCount: number;
@@ -274,11 +947,171 @@ export interface UseEmployeeDataReturn {
     attendanceRate: number;
     onTimeRate: number;
   };
-  getWorkHoursStats: () => {
+  getWorkHoursStats: (records?: EmployeeRecord[]) => {
     totalHours: number;
     averageHours: number;
     minHours: number;
     maxHours: number;
     employeesWithHours: number;
+    netHours: number;
+    overtimeHours: number;
+    undertimeHours: number;
+    earlyLeaveMinutes: number;
+    lunchDeductionHours: number;
+    overtimeCount: number;
+    undertimeCount: number;
+    earlyLeaveCount: number;
+    flaggedRecords: number;
   };
+  classifyRecord: (record: EmployeeRecord) => TimeCategory;
+  checkRecordCategory: (record: EmployeeRecord) => CategoryCheck;
+  getShiftFor: (empCode: string, date: string) => ResolvedShift;
+  getWorkTime: (record: EmployeeRecord) => WorkTimeBreakdown;
+  getLateMinutes: (record: EmployeeRecord) => number;
+}
+
+export interface UseHolidaysReturn {
+  holidays: Holiday[];
+  loading: boolean;
+  error: string;
+  loadHolidays: () => Promise<any>;
+  saveHolidays: (holidays: Holiday[]) => Promise<any>;
+  deleteHoliday: (id: number) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseLeaveReturn {
+  leaveRequests: LeaveRequest[];
+  leaveBalances: LeaveBalance[];
+  loading: boolean;
+  error: string;
+  loadLeave: (year: number) => Promise<any>;
+  submitLeaveRequest: (request: LeaveRequest) => Promise<any>;
+  updateLeaveStatus: (id: number, status: LeaveRequestStatus) => Promise<any>;
+  saveLeaveBalance: (balance: LeaveBalance) => Promise<any>;
+  getBalancesFor: (empCode: string, year: number) => LeaveBalanceSummary[];
+  clearError: () => void;
+}
+
+export interface UseEmployeeDirectoryReturn {
+  employees: Employee[];
+  reconciliation: EmployeeDirectoryReconciliation | null;
+  loading: boolean;
+  error: string;
+  loadDirectory: () => Promise<any>;
+  saveEmployee: (employee: Employee, isNew: boolean) => Promise<any>;
+  setEmployeeActive: (empCode: string, isActive: boolean) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseCorrectionsReturn {
+  corrections: AttendanceCorrection[];
+  loading: boolean;
+  error: string;
+  loadCorrections: () => Promise<any>;
+  submitCorrection: (correction: AttendanceCorrection) => Promise<any>;
+  reviewCorrection: (id: number, status: CorrectionStatus, reviewedBy: string, note?: string) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseAuthReturn {
+  profile: UserProfile | null;
+  loading: boolean;
+  error: string;
+  signIn: (email: string, password: string) => Promise<any>;
+  signInAsDemo: (userId: string) => Promise<any>;
+  signOut: () => Promise<void>;
+  clearError: () => void;
+}
+
+export interface UseWorkScheduleReturn {
+  schedule: ScheduleContext;
+  loadSchedule: (force?: boolean) => Promise<ScheduleContext>;
+  getShiftFor: (empCode: string, date: string) => ResolvedShift;
+  classifyRecord: (record: EmployeeRecord) => TimeCategory;
+  checkRecordCategory: (record: EmployeeRecord) => CategoryCheck;
+  getWorkTime: (record: EmployeeRecord) => WorkTimeBreakdown;
+  getLateMinutes: (record: EmployeeRecord) => number;
+}
+
+export interface UseMonthlyStatementsReturn {
+  generating: boolean;
+  error: string;
+  downloadStatement: (empCode: string, name: string, month: string) => Promise<any>;
+  downloadAllStatements: (month: string, employees: Employee[]) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UsePayrollExportReturn {
+  exporting: boolean;
+  error: string;
+  exportPayroll: (month: string, employees: Employee[], format?: ExportFormat) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseDeviceImportReturn {
+  preview: DeviceImportResult | null; // dry run against the existing records
+  result: DeviceImportResult | null; // last completed import
+  loading: boolean;
+  error: string;
+  checkImport: (punches: AttendancePunch[], names: Record<string, string>) => Promise<any>;
+  runImport: (punches: AttendancePunch[], names: Record<string, string>) => Promise<any>;
+  reset: () => void;
+  clearError: () => void;
+}
+
+export interface UsePunchTimelinesReturn {
+  timelines: Record<string, PunchTimeline>; // by emp_code
+  loading: boolean;
+  error: string;
+  loadPunches: (date: string) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseSyncStatusReturn {
+  report: SyncStatusReport | null;
+  loading: boolean;
+  error: string;
+  loadSyncStatus: (startDate?: string, endDate?: string) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseDataQualityReturn {
+  report: DataQualityReport | null;
+  loading: boolean;
+  error: string;
+  loadReport: (startDate: string, endDate: string, empCode?: string, orgFilter?: OrgFilter) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseTeamMatrixReturn {
+  matrix: TeamMatrix | null;
+  loading: boolean;
+  error: string;
+  loadMatrix: (month: string, orgFilter?: OrgFilter) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseMonthlyOverviewReturn {
+  overview: MonthlyOverview | null;
+  loading: boolean;
+  error: string;
+  loadOverview: (year?: number | null) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseLatenessReportReturn {
+  report: LatenessReport | null;
+  loading: boolean;
+  error: string;
+  loadReport: (startDate: string, endDate: string, budgetMinutes?: number | null, orgFilter?: OrgFilter) => Promise<any>;
+  clearError: () => void;
+}
+
+export interface UseDepartmentReportReturn {
+  report: DepartmentReport | null;
+  loading: boolean;
+  error: string;
+  loadReport: (startDate: string, endDate: string, orgFilter?: OrgFilter) => Promise<any>;
+  clearError: () => void;
 }
\ No newline at end of file
@@ -5,10 +5,20 @@ import type {
   TimeCategory, 
   AttendanceStatus, 
   ExportType, 
+  ExportFormat,
   ExportConfig,
   Employee,
-  EmployeeRecord
+  EmployeeRecord,
+  Holiday,
+  TeamMatrixCell
 } from './types';
+import { getEffectiveTimeCategory } from './classification';
+import { isHoliday } from './holidays';
+import { getLeaveType } from './leave';
+import { describeCorrection } from './corrections';
+import { getPayrollValue } from './payroll';
+import { getTeamMatrixCellText, getTeamMatrixDayTotals } from './teamMatrix';
+import { PAYROLL_EXPORT_CONFIG } from '../constants/config';
 
 /**
  * Get CSS classes for attendance status styling
@@ -19,6 +29,8 @@ export const getStatusColor = (status: string | null | undefined): string => {
   switch (status.toLowerCase()) {
     case 'present': return 'text-green-600 bg-green-50';
     case 'absent': return 'text-red-600 bg-red-50';
+    case 'leave': return 'text-yellow-700 bg-yellow-50';
+    case 'wfh': return 'text-teal-600 bg-teal-50';
     case 'on-time': return 'text-green-600 bg-green-50';
     case 'late': return 'text-red-600 bg-red-50';
     case 'early': return 'text-blue-600 bg-blue-50';
@@ -73,6 +85,35 @@ export const escapeCSV = (value: any): string => {
   return stringValue;
 };
 
+/**
+ * Describe an applied correction for the Correction column of an export
+ */
+export const describeExportCorrection = (row: EmployeeRecord): string =>
+  row.correction
+    ? `${describeCorrection(row)}; ${row.correction.reason}; approved by ${row.correction.reviewed_by || 'unknown'}`
+    : '';
+
+/**
+ * Trigger a browser download for generated file content
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+
+  if (link.download === undefined) {
+    throw new Error('Browser does not support file downloads');
+  }
+
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url); // Clean up
+};
+
 /**
  * Export data to CSV file
  */
@@ -147,7 +188,10 @@ export const exportToCSV = (config: ExportConfig): void => {
           'Total Hours', 
           'On-time Days', 
           'Late Days', 
-          'Attendance Rate (%)'
+          'Attendance Rate (%)',
+          'Overtime Hours',
+          'Undertime Hours',
+          'Early Leave (min)'
         ];
         csvContent = headers.join(',') + '\n';
         data.forEach(row => {
@@ -161,7 +205,10 @@ export const exportToCSV = (config: ExportConfig): void => {
             escapeCSV(Math.round(row.totalHours * 10) / 10),
             escapeCSV(row.onTimeDays),
             escapeCSV(row.lateDays),
-            escapeCSV(attendanceRate)
+            escapeCSV(attendanceRate),
+            escapeCSV(row.overtimeHours),
+            escapeCSV(row.undertimeHours),
+            escapeCSV(row.earlyLeaveMinutes)
           ].join(',') + '\n';
         });
         break;
@@ -177,7 +224,9 @@ export const exportToCSV = (config: ExportConfig): void => {
           'Work Hours', 
           'Total Punches', 
           'Status', 
-          'Time Category'
+          'Time Category',
+          'Leave Type',
+          'Correction'
         ];
         csvContent = headers.join(',') + '\n';
         data.forEach(row => {
@@ -190,7 +239,100 @@ export const exportToCSV = (config: ExportConfig): void => {
             escapeCSV(row.work_hours || ''),
             escapeCSV(row.total_punches || ''),
             escapeCSV(row.status || ''),
-            escapeCSV(row.time_category || '')
+            escapeCSV(getEffectiveTimeCategory(row)),
+            escapeCSV(row.leave_type ? getLeaveType(row.leave_type).name : ''),
+            escapeCSV(describeExportCorrection(row))
+          ].join(',') + '\n';
+        });
+        break;
+
+      case 'payroll':
+        // Columns follow the payroll system's import template
+        headers = PAYROLL_EXPORT_CONFIG.columns.map(column => column.header);
+        csvContent = headers.map(escapeCSV).join(',') + '\n';
+        data.forEach(row => {
+          csvContent += PAYROLL_EXPORT_CONFIG.columns
+            .map(column => escapeCSV(getPayrollValue(row, column.field)))
+            .join(',') + '\n';
+        });
+        break;
+
+      case 'teamMatrix': {
+        // One column per day, then the row totals; column totals as the last rows
+        const dates: string[] = data[0].cells.map((cell: TeamMatrixCell) => cell.date);
+        headers = ['Employee Code', 'Name', 'Department', ...dates, 'Present Days', 'Late Days', 'Absent Days', 'Leave Days', 'Total Hours', 'Attendance Rate (%)'];
+        csvContent = headers.map(escapeCSV).join(',') + '\n';
+        data.forEach(row => {
+          csvContent += [
+            escapeCSV(row.emp_code),
+            escapeCSV(row.name),
+            escapeCSV(row.department),
+            ...row.cells.map((cell: TeamMatrixCell) => escapeCSV(getTeamMatrixCellText(cell))),
+            escapeCSV(row.presentDays),
+            escapeCSV(row.lateDays),
+            escapeCSV(row.absentDays),
+            escapeCSV(row.leaveDays),
+            escapeCSV(row.totalHours),
+            escapeCSV(row.attendanceRate)
+          ].join(',') + '\n';
+        });
+        const dayTotals = getTeamMatrixDayTotals(data, dates);
+        csvContent += ['', 'Present', '', ...dayTotals.map(day => day.present)].join(',') + '\n';
+        csvContent += ['', 'Late', '', ...dayTotals.map(day => day.late)].join(',') + '\n';
+        csvContent += ['', 'Hours', '', ...dayTotals.map(day => day.totalHours)].join(',') + '\n';
+        break;
+      }
+
+      case 'monthlyOverview':
+        headers = [
+          'Month',
+          'Total Employees',
+          'Early Count',
+          'On-time Count',
+          'Acceptable Count',
+          'Late Count',
+          'Average On-time Rate (%)',
+          'On-time Rate Change (pts)',
+          'Late Count Change'
+        ];
+        csvContent = headers.join(',') + '\n';
+        data.forEach(row => {
+          csvContent += [
+            escapeCSV(row.monthKey),
+            escapeCSV(row.total_employees),
+            escapeCSV(row.early_count),
+            escapeCSV(row.ontime_count),
+            escapeCSV(row.acceptable_count),
+            escapeCSV(row.late_count),
+            escapeCSV(row.average_ontime_rate),
+            escapeCSV(row.deltas ? row.deltas.average_ontime_rate : ''),
+            escapeCSV(row.deltas ? row.deltas.late_count : '')
+          ].join(',') + '\n';
+        });
+        break;
+
+      case 'lateness':
+        headers = [
+          'Employee Code',
+          'Name',
+          'Department',
+          'Late Days',
+          'Late Minutes',
+          'Average Late Minutes',
+          'Worst Late Minutes',
+          'Months Over Budget'
+        ];
+        csvContent = headers.join(',') + '\n';
+        data.forEach(row => {
+          csvContent += [
+            escapeCSV(row.emp_code),
+            escapeCSV(row.name),
+            escapeCSV(row.department),
+            escapeCSV(row.lateDays),
+            escapeCSV(row.lateMinutes),
+            escapeCSV(row.averageLateMinutes),
+            escapeCSV(row.maxLateMinutes),
+            escapeCSV(row.overBudgetMonths.join(' '))
           ].join(',') + '\n';
         });
         break;
@@ -199,22 +341,7 @@ export const exportToCSV = (config: ExportConfig): void => {
         throw new Error(`Unknown export type: ${type}`);
     }
 
-    // Create and download file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    
-    if (link.download !== undefined) {
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', filename);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url); // Clean up
-    } else {
-      throw new Error('Browser does not support file downloads');
-    }
+    downloadFile(csvContent, filename, 'text/csv;charset=utf-8;');
   } catch (error: any) {
     console.error('Export error:', error);
     alert(`Failed to export data: ${error.message}`);
@@ -227,23 +354,33 @@ export const exportToCSV = (config: ExportConfig): void => {
 export const generateExportFilename = (
   type: ExportType, 
   context?: string, 
-  date?: string
+  date?: string,
+  format: ExportFormat = 'csv'
 ): string => {
   const timestamp = new Date().toISOString().slice(0, 10);
+  const extension = format === 'excel' ? 'xlsx' : 'csv';
   
   switch (type) {
     case 'daily':
-      return `daily-reports-${timestamp}.csv`;
+      return `daily-reports-${context || timestamp}.${extension}`;
     case 'weekly':
-      return `weekly-reports-${timestamp}.csv`;
+      return `weekly-reports-${timestamp}.${extension}`;
     case 'monthly':
-      return context ? `${context}-monthly-${date || timestamp}.csv` : `monthly-reports-${timestamp}.csv`;
+      return context ? `${context}-monthly-${date || timestamp}.${extension}` : `monthly-reports-${timestamp}.${extension}`;
+    case 'teamMatrix':
+      return `team-matrix-${context || timestamp}.${extension}`;
+    case 'monthlyOverview':
+      return `monthly-overview-${context || timestamp}.${extension}`;
     case 'employee':
-      return `employee-details-${date || timestamp}.csv`;
+      return `employee-details-${date || timestamp}.${extension}`;
     case 'weeklyDetails':
-      return context ? `weekly-employee-details-${context}.csv` : `weekly-employee-details-${timestamp}.csv`;
+      return context ? `weekly-employee-details-${context}.${extension}` : `weekly-employee-details-${timestamp}.${extension}`;
+    case 'payroll':
+      return `payroll-${context || timestamp}.${extension}`;
+    case 'lateness':
+      return `lateness-${context || timestamp}.${extension}`;
     default:
-      return `attendance-export-${timestamp}.csv`;
+      return `attendance-export-${timestamp}.${extension}`;
   }
 };
 
@@ -413,8 +550,14 @@ export const getWeekBounds = (date: string): { start: string; end: string } => {
 
 /**
  * Calculate business days between two dates
+ * Weekends are skipped, as are any holidays passed in (company-wide or for the given department)
  */
-export const getBusinessDaysBetween = (startDate: string, endDate: string): number => {
+export const getBusinessDaysBetween = (
+  startDate: string,
+  endDate: string,
+  holidays: Holiday[] = [],
+  department?: string | null
+): number => {
   const start = new Date(startDate);
   const end = new Date(endDate);
   let count = 0;
@@ -423,7 +566,9 @@ export const getBusinessDaysBetween = (startDate: string, endDate: string): numb
   while (current <= end) {
     const dayOfWeek = current.getDay();
     if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Not Sunday or Saturday
-      count++;
+      if (!isHoliday(current.toISOString().split('T')[0], holidays, department)) {
+        count++;
+      }
     }
     current.setDate(current.getDate() + 1);
   }
@@ -448,6 +593,12 @@ export const handleAsyncOperation = async <T>(
   }
 };
 
+/**
+ * Create an error carrying an HTTP status, so API routes can answer 401/403/404 instead of 500
+ */
+export const createHttpError = (message: string, status: number): Error & { status: number } =>
+  Object.assign(new Error(message), { status });
+
 /**
  * Create a delay/sleep function
  */
@@ -0,0 +1,106 @@
+// lib/validation.ts
+// ✅ Request parameter validation against VALIDATION_RULES - each check returns a problem or null
+
+import type { AttendancePunch, OrgFilter } from './types';
+import { VALIDATION_RULES } from '../constants/config';
+import { getDatesBetween } from './holidays';
+
+const { attendance, employee, api } = VALIDATION_RULES;
+
+/**
+ * Check a YYYY-MM-DD date that also exists on the calendar (no 2025-02-30)
+ */
+export const validateDate = (value: string | null | undefined, field: string = 'date'): string | null => {
+  if (!value) return `${field} is required (YYYY-MM-DD).`;
+  if (!attendance.dateFormat.test(value)) return `${field} must be a date in YYYY-MM-DD format: ${value}`;
+
+  const parsed = new Date(`${value}T00:00:00Z`);
+  if (isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+    return `${field} is not a valid date: ${value}`;
+  }
+  return null;
+};
+
+/**
+ * Check a YYYY-MM month
+ */
+export const validateMonth = (value: string | null | undefined, field: string = 'month'): string | null => {
+  if (!value) return `${field} is required (YYYY-MM).`;
+  return attendance.monthFormat.test(value) ? null : `${field} must be a month in YYYY-MM format: ${value}`;
+};
+
+/**
+ * Check an optional four-digit year (empty = no year)
+ */
+export const validateYear = (value: string | null | undefined, field: string = 'year'): string | null => {
+  if (value == null || value === '') return null;
+  return /^\d{4}$/.test(value) ? null : `${field} must be a four-digit year: ${value}`;
+};
+
+/**
+ * Check an employee code's length
+ */
+export const validateEmployeeCode = (value: string | null | undefined): string | null => {
+  const code = String(value ?? '').trim();
+  if (code.length < employee.codeMinLength || code.length > employee.codeMaxLength) {
+    return `Employee code must be ${employee.codeMinLength}-${employee.codeMaxLength} characters.`;
+  }
+  return null;
+};
+
+/**
+ * Check an optional row limit (empty = use the default)
+ */
+export const validateLimit = (value: string | null | undefined): string | null => {
+  if (value == null || value === '') return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > api.maxLimit) {
+    return `limit must be a whole number from 1 to ${api.maxLimit}.`;
+  }
+  return null;
+};
+
+/**
+ * Check an optional whole number of minutes (empty = use the default)
+ */
+export const validateMinutes = (value: string | null | undefined, field: string): string | null => {
+  if (value == null || value === '') return null;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes >= 0 ? null : `${field} must be a whole number of minutes.`;
+};
+
+/**
+ * Check that a range runs forwards and is not longer than maxDays (VALIDATION_RULES.api.maxRangeDays by default)
+ */
+export const validateDateRange = (startDate: string, endDate: string, maxDays: number = api.maxRangeDays): string | null => {
+  if (endDate < startDate) return `End date ${endDate} is before start date ${startDate}.`;
+  if (getDatesBetween(startDate, endDate).length > maxDays) {
+    return `Date ranges are limited to ${maxDays} days.`;
+  }
+  return null;
+};
+
+/**
+ * Check one punch from an import, numbered from 1 in the message
+ */
+export const validatePunch = (punch: Partial<AttendancePunch> | null | undefined, index: number): string | null => {
+  const label = `Punch ${index + 1}`;
+  if (!punch || typeof punch !== 'object') return `${label} is not an object.`;
+  if (!String(punch.emp_code ?? '').trim()) return `${label} has no emp_code.`;
+  if (!attendance.punchTimeFormat.test(String(punch.punch_time ?? ''))) {
+    return `${label} needs punch_time as YYYY-MM-DDTHH:MM:SS: ${punch.punch_time}`;
+  }
+  return null;
+};
+
+/**
+ * Check the department / team filter of a report - the team is an employee code
+ */
+export const validateOrgFilter = (filter: OrgFilter): string | null =>
+  filter.managerCode ? validateEmployeeCode(filter.managerCode) : null;
+
+/**
+ * Drop the checks that passed
+ */
+export const collectProblems = (...checks: Array<string | null>): string[] =>
+  checks.filter((problem): problem is string => !!problem);
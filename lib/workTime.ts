@@ -0,0 +1,108 @@
+// lib/workTime.ts
+// ⏱️ Work time - overtime, undertime, early leave and lunch-break deduction per record, measured against its shift
+
+import type { EmployeeRecord, ScheduleContext, ShiftSchedule, WorkTimeBreakdown } from './types';
+import { resolveShift, isExpectedWorkDay } from './shifts';
+import { timeToMinutes } from './formatters';
+
+export const EMPTY_WORK_TIME: WorkTimeBreakdown = {
+  netHours: 0,
+  overtimeHours: 0,
+  undertimeHours: 0,
+  earlyLeaveMinutes: 0,
+  lunchDeductionHours: 0
+};
+
+const roundTo2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Hours of the lunch break that fall between check-in and check-out
+ */
+export const getLunchOverlapHours = (
+  checkIn: number | null,
+  checkOut: number | null,
+  shift: Pick<ShiftSchedule, 'lunchBreakStart' | 'lunchBreakEnd'>
+): number => {
+  const lunchStart = timeToMinutes(shift.lunchBreakStart);
+  const lunchEnd = timeToMinutes(shift.lunchBreakEnd);
+  if (checkIn === null || checkOut === null || lunchStart === null || lunchEnd === null) return 0;
+  return Math.max(0, Math.min(checkOut, lunchEnd) - Math.max(checkIn, lunchStart)) / 60;
+};
+
+/**
+ * Measure one record against a shift.
+ *
+ * work_hours is the synced check-in to check-out span, so the lunch break it covers is deducted
+ * before comparing with minimumWorkHours - unless it was recomputed from paired punches, which
+ * already leaves the breaks out. On a day off or a holiday (workDay false) every net hour
+ * is overtime and nothing counts as undertime or early leave.
+ */
+export const calculateWorkTime = (
+  record: Pick<EmployeeRecord, 'check_in' | 'check_out' | 'work_hours' | 'hours_from_punches'>,
+  shift: ShiftSchedule,
+  workDay: boolean = true
+): WorkTimeBreakdown => {
+  const checkIn = timeToMinutes(record.check_in);
+  const checkOut = timeToMinutes(record.check_out);
+  const spanHours = checkIn !== null && checkOut !== null && checkOut > checkIn ? (checkOut - checkIn) / 60 : 0;
+  const grossHours = record.work_hours || spanHours;
+
+  // Nothing to measure without a check-in, or with a missing check-out and no synced hours
+  if (checkIn === null || grossHours <= 0) return EMPTY_WORK_TIME;
+
+  const lunchDeductionHours = record.hours_from_punches
+    ? 0
+    : Math.min(grossHours, getLunchOverlapHours(checkIn, checkOut, shift));
+  const netHours = grossHours - lunchDeductionHours;
+
+  if (!workDay) {
+    return {
+      ...EMPTY_WORK_TIME,
+      netHours: roundTo2(netHours),
+      overtimeHours: roundTo2(netHours),
+      lunchDeductionHours: roundTo2(lunchDeductionHours)
+    };
+  }
+
+  const standardEnd = timeToMinutes(shift.standardEnd);
+  return {
+    netHours: roundTo2(netHours),
+    overtimeHours: roundTo2(Math.max(0, netHours - shift.minimumWorkHours)),
+    undertimeHours: roundTo2(Math.max(0, shift.minimumWorkHours - netHours)),
+    earlyLeaveMinutes: checkOut !== null && standardEnd !== null ? Math.max(0, Math.round(standardEnd - checkOut)) : 0,
+    lunchDeductionHours: roundTo2(lunchDeductionHours)
+  };
+};
+
+/**
+ * Measure a record against the shift its employee works that day (holidays and off days are all overtime)
+ */
+export const getRecordWorkTime = (record: EmployeeRecord, context: ScheduleContext): WorkTimeBreakdown => {
+  if (!record.check_in) return EMPTY_WORK_TIME;
+  return calculateWorkTime(
+    record,
+    resolveShift(record.emp_code, record.date, context),
+    isExpectedWorkDay(record.emp_code, record.date, context)
+  );
+};
+
+/**
+ * Add up per-record breakdowns
+ */
+export const sumWorkTime = (breakdowns: WorkTimeBreakdown[]): WorkTimeBreakdown => {
+  const totals = breakdowns.reduce((sum, item) => ({
+    netHours: sum.netHours + item.netHours,
+    overtimeHours: sum.overtimeHours + item.overtimeHours,
+    undertimeHours: sum.undertimeHours + item.undertimeHours,
+    earlyLeaveMinutes: sum.earlyLeaveMinutes + item.earlyLeaveMinutes,
+    lunchDeductionHours: sum.lunchDeductionHours + item.lunchDeductionHours
+  }), EMPTY_WORK_TIME);
+
+  return {
+    netHours: roundTo2(totals.netHours),
+    overtimeHours: roundTo2(totals.overtimeHours),
+    undertimeHours: roundTo2(totals.undertimeHours),
+    earlyLeaveMinutes: totals.earlyLeaveMinutes,
+    lunchDeductionHours: roundTo2(totals.lunchDeductionHours)
+  };
+};
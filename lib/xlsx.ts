@@ -0,0 +1,281 @@
+// lib/xlsx.ts
+// 📗 XLSX workbook writer - typed cells, frozen header rows and colour fills, no third-party library
+
+import type { SpreadsheetCell, SpreadsheetColumnType, SpreadsheetSheet, SpreadsheetValue } from './types';
+import { createZip } from './zip';
+import { EXCEL_EXPORT_CONFIG } from '../constants/config';
+
+// Custom number formats start at id 164; the ones below 164 are built in
+const NUMBER_FORMATS: Partial<Record<SpreadsheetColumnType, { id: number; code: string }>> = {
+  date: { id: 164, code: EXCEL_EXPORT_CONFIG.dateFormat },
+  time: { id: 165, code: EXCEL_EXPORT_CONFIG.timeFormat },
+  hours: { id: 166, code: EXCEL_EXPORT_CONFIG.hoursFormat },
+  percent: { id: 167, code: EXCEL_EXPORT_CONFIG.percentFormat }
+};
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Convert a 0-based column index to its letter (0 → A, 26 → AA)
+ */
+const columnLetter = (index: number): string => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+/**
+ * Convert "YYYY-MM-DD" to an Excel date serial, or null when it is not a date
+ */
+export const toExcelDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(time) ? null : (time - EXCEL_EPOCH) / MS_PER_DAY;
+};
+
+/**
+ * Convert "HH:MM" or "HH:MM:SS" to a fraction of a day, or null when it is not a time
+ */
+export const toExcelTime = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0);
+  return seconds / 86400;
+};
+
+const toNumber = (value: SpreadsheetValue, type: SpreadsheetColumnType): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (type === 'date') return toExcelDate(value);
+  if (type === 'time') return toExcelTime(value);
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const isCell = (value: SpreadsheetValue | SpreadsheetCell): value is SpreadsheetCell =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Sheet names must be unique, at most 31 characters and free of : \ / ? * [ ]
+ */
+const sanitizeSheetNames = (sheets: SpreadsheetSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = (sheet.name.replace(/[:\\/?*[\]]/g, ' ').trim() || `Sheet${index + 1}`).slice(0, MAX_SHEET_NAME_LENGTH);
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      const tag = ` (${suffix++})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - tag.length) + tag;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * Collects the distinct cell formats used by the workbook so styles.xml only lists what is needed
+ */
+const createStyleRegistry = () => {
+  const fillColors: string[] = [EXCEL_EXPORT_CONFIG.headerFill];
+  const formats: Array<{ numFmtId: number; fillId: number; bold: boolean }> = [{ numFmtId: 0, fillId: 0, bold: false }];
+  const formatIndex = new Map<string, number>([['0|0|false', 0]]);
+
+  const getFillId = (color: string | null | undefined): number => {
+    const argb = color ? EXCEL_EXPORT_CONFIG.fills[color] : undefined;
+    if (!argb) return 0;
+    const existing = fillColors.indexOf(argb);
+    // Fills 0 and 1 are the reserved "none" and "gray125" patterns
+    if (existing >= 0) return existing + 2;
+    fillColors.push(argb);
+    return fillColors.length + 1;
+  };
+
+  const getStyleId = (type: SpreadsheetColumnType | 'header', color?: string | null): number => {
+    const bold = type === 'header';
+    const numFmtId = type === 'header' ? 0 : NUMBER_FORMATS[type]?.id ?? 0;
+    const fillId = type === 'header' ? 2 : getFillId(color);
+    const key = `${numFmtId}|${fillId}|${bold}`;
+    const existing = formatIndex.get(key);
+    if (existing !== undefined) return existing;
+    formats.push({ numFmtId, fillId, bold });
+    formatIndex.set(key, formats.length - 1);
+    return formats.length - 1;
+  };
+
+  const toXml = (): string => {
+    const numFmts = Object.values(NUMBER_FORMATS)
+      .map(format => `<numFmt numFmtId="${format!.id}" formatCode="${escapeXml(format!.code)}"/>`)
+      .join('');
+    const fills = fillColors
+      .map(argb => `<fill><patternFill patternType="solid"><fgColor rgb="${argb}"/><bgColor indexed="64"/></patternFill></fill>`)
+      .join('');
+    const cellXfs = formats
+      .map(({ numFmtId, fillId, bold }) =>
+        `<xf numFmtId="${numFmtId}" fontId="${bold ? 1 : 0}" fillId="${fillId}" borderId="0" xfId="0"` +
+        `${numFmtId ? ' applyNumberFormat="1"' : ''}${bold ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}/>`
+      )
+      .join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<numFmts count="${Object.keys(NUMBER_FORMATS).length}">${numFmts}</numFmts>` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      `<fills count="${fillColors.length + 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${fills}</fills>` +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${formats.length}">${cellXfs}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>';
+  };
+
+  return { getStyleId, toXml };
+};
+
+type StyleRegistry = ReturnType<typeof createStyleRegistry>;
+
+const buildCell = (
+  reference: string,
+  raw: SpreadsheetValue | SpreadsheetCell,
+  type: SpreadsheetColumnType,
+  styles: StyleRegistry
+): string => {
+  const { value, fill } = isCell(raw) ? raw : { value: raw, fill: null };
+  const styleAttr = (cellType: SpreadsheetColumnType) => {
+    const styleId = styles.getStyleId(cellType, fill);
+    return styleId ? ` s="${styleId}"` : '';
+  };
+
+  if (value === null || value === undefined || value === '') {
+    // Keep the fill on empty cells so a coloured row stays coloured
+    return fill ? `<c r="${reference}"${styleAttr('string')}/>` : '';
+  }
+
+  if (type !== 'string') {
+    const number = toNumber(value, type);
+    if (number !== null) return `<c r="${reference}"${styleAttr(type)}><v>${number}</v></c>`;
+  }
+
+  // Text columns, and values that did not parse as their column type, are written as text
+  return `<c r="${reference}"${styleAttr('string')} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const buildWorksheet = (sheet: SpreadsheetSheet, styles: StyleRegistry): string => {
+  const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+  const headerStyle = styles.getStyleId('header');
+
+  const headerRow = `<row r="1">${sheet.columns
+    .map((column, index) =>
+      `<c r="${columnLetter(index)}1" s="${headerStyle}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`
+    )
+    .join('')}</row>`;
+
+  const dataRows = sheet.rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const cells = sheet.columns
+        .map((column, columnIndex) => buildCell(`${columnLetter(columnIndex)}${rowNumber}`, row[columnIndex], column.type, styles))
+        .join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join('');
+
+  const cols = sheet.columns
+    .map((column, index) =>
+      `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? EXCEL_EXPORT_CONFIG.defaultColumnWidth}" customWidth="1"/>`
+    )
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<dimension ref="A1:${lastColumn}${sheet.rows.length + 1}"/>` +
+    // Freeze the header row so it stays visible while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>' +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${headerRow}${dataRows}</sheetData>` +
+    (sheet.rows.length > 0 ? `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>` : '') +
+    '</worksheet>';
+};
+
+/**
+ * Build an .xlsx file from one or more sheets. Dates, times and numbers are written as
+ * real spreadsheet values with number formats, so they sort and sum in Excel.
+ */
+export const createWorkbook = (sheets: SpreadsheetSheet[]): Uint8Array<ArrayBuffer> => {
+  if (sheets.length === 0) throw new Error('A workbook needs at least one sheet');
+
+  const styles = createStyleRegistry();
+  const names = sanitizeSheetNames(sheets);
+  // Worksheets are built first so the style registry knows every format before styles.xml is written
+  const worksheets = sheets.map(sheet => buildWorksheet(sheet, styles));
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    worksheets
+      .map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join('') +
+    '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  // The filter range has to be registered as a hidden defined name for Excel to keep it
+  const filterNames = sheets
+    .map((sheet, index) => sheet.rows.length > 0
+      ? `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">` +
+        `'${escapeXml(names[index].replace(/'/g, "''"))}'!$A$1:$${columnLetter(Math.max(sheet.columns.length - 1, 0))}$${sheet.rows.length + 1}</definedName>`
+      : '')
+    .join('');
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+    (filterNames ? `<definedNames>${filterNames}</definedNames>` : '') +
+    '</workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    worksheets
+      .map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('') +
+    `<Relationship Id="rId${worksheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip([
+    { path: '[Content_Types].xml', content: contentTypes },
+    { path: '_rels/.rels', content: rootRels },
+    { path: 'xl/workbook.xml', content: workbook },
+    { path: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+    { path: 'xl/styles.xml', content: styles.toXml() },
+    ...worksheets.map((content, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, content }))
+  ]);
+};